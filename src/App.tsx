@@ -1,4 +1,12 @@
-import { BrowserRouter, Routes, Route, Navigate, useNavigate } from 'react-router-dom';
+import {
+  createBrowserRouter,
+  createRoutesFromElements,
+  RouterProvider,
+  Route,
+  Navigate,
+  Outlet,
+  useNavigate,
+} from 'react-router-dom';
 import { useEffect } from 'react';
 import { ErrorBoundary } from './components/ErrorBoundary.tsx';
 import ProtectedRoute from './components/ProtectedRoute.tsx';
@@ -10,6 +18,9 @@ import TrackerDetailPage from './pages/TrackerDetailPage.tsx';
 import TrackerRegistrationPage from './pages/TrackerRegistrationPage.tsx';
 import MyTrackersPage from './pages/MyTrackersPage.tsx';
 import MMRCalculatorPage from './pages/MMRCalculatorPage.tsx';
+import TrackerComparePage from './pages/TrackerComparePage.tsx';
+import { SessionExpiredDialog } from './components/SessionExpiredDialog.tsx';
+import { CacheDevtools } from './components/CacheDevtools.tsx';
 import { initNavigation } from './lib/navigation.ts';
 
 /**
@@ -26,101 +37,134 @@ function NavigationInitializer() {
 }
 
 /**
- * App - Single responsibility: Application routing structure only
- * Router handles only navigation, not state or logic
- * No AuthProvider wrapper needed with Zustand
+ * RootLayout - App-wide services shared by every route
+ * The error boundary sits inside the router so it catches route errors before the router's default screen
  */
-export default function App() {
+function RootLayout() {
   return (
     <ErrorBoundary>
-      <BrowserRouter>
-        <NavigationInitializer />
-        <Routes>
-          <Route path="/login" element={<Login />} />
-          <Route path="/auth/callback" element={<AuthCallback />} />
-          <Route
-            path="/dashboard"
-            element={
-              <ProtectedRoute>
-                <Dashboard />
-              </ProtectedRoute>
-            }
-          />
-          <Route
-            path="/dashboard/guild/:guildId"
-            element={
-              <ProtectedRoute>
-                <GuildDashboardRedirect />
-              </ProtectedRoute>
-            }
-          />
-          <Route
-            path="/dashboard/guild/:guildId/overview"
-            element={
-              <ProtectedRoute>
-                <GuildDashboardPage />
-              </ProtectedRoute>
-            }
-          />
-          <Route
-            path="/dashboard/guild/:guildId/admin"
-            element={
-              <ProtectedRoute>
-                <GuildDashboardPage />
-              </ProtectedRoute>
-            }
-          />
-          <Route
-            path="/dashboard/guild/:guildId/members"
-            element={
-              <ProtectedRoute>
-                <GuildDashboardPage />
-              </ProtectedRoute>
-            }
-          />
-          <Route
-            path="/dashboard/guild/:guildId/settings"
-            element={
-              <ProtectedRoute>
-                <GuildDashboardPage />
-              </ProtectedRoute>
-            }
-          />
-          <Route
-            path="/dashboard/tracker/:trackerId"
-            element={
-              <ProtectedRoute>
-                <TrackerDetailPage />
-              </ProtectedRoute>
-            }
-          />
-          <Route
-            path="/dashboard/tracker/register"
-            element={
-              <ProtectedRoute>
-                <TrackerRegistrationPage />
-              </ProtectedRoute>
-            }
-          />
-          <Route
-            path="/dashboard/trackers"
-            element={
-              <ProtectedRoute>
-                <MyTrackersPage />
-              </ProtectedRoute>
-            }
-          />
-          <Route
-            path="/dashboard/guild/:guildId/DemoCalculator"
-            element={
-              <ProtectedRoute>
-                <MMRCalculatorPage />
-              </ProtectedRoute>
-            }
-          />
-          <Route path="/" element={<Navigate to="/dashboard" replace />} />
-        </Routes>
-      </BrowserRouter>
+      <NavigationInitializer />
+      <SessionExpiredDialog />
+      {import.meta.env.DEV && <CacheDevtools />}
+      <Outlet />
     </ErrorBoundary>
   );
+}
+
+/**
+ * Data router, so pages can block navigation (e.g. with unsaved changes)
+ */
+const router = createBrowserRouter(
+  createRoutesFromElements(
+    <Route element={<RootLayout />}>
+      <Route path="/login" element={<Login />} />
+      <Route path="/auth/callback" element={<AuthCallback />} />
+      <Route
+        path="/dashboard"
+        element={
+          <ProtectedRoute>
+            <Dashboard />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/dashboard/guild/:guildId"
+        element={
+          <ProtectedRoute>
+            <GuildDashboardRedirect />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/dashboard/guild/:guildId/overview"
+        element={
+          <ProtectedRoute>
+            <GuildDashboardPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/dashboard/guild/:guildId/admin"
+        element={
+          <ProtectedRoute>
+            <GuildDashboardPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/dashboard/guild/:guildId/members"
+        element={
+          <ProtectedRoute>
+            <GuildDashboardPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/dashboard/guild/:guildId/trackers"
+        element={
+          <ProtectedRoute>
+            <GuildDashboardPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/dashboard/guild/:guildId/settings"
+        element={
+          <ProtectedRoute>
+            <GuildDashboardPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/dashboard/tracker/:trackerId"
+        element={
+          <ProtectedRoute>
+            <TrackerDetailPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/dashboard/tracker/register"
+        element={
+          <ProtectedRoute>
+            <TrackerRegistrationPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/dashboard/trackers"
+        element={
+          <ProtectedRoute>
+            <MyTrackersPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/dashboard/guild/:guildId/DemoCalculator"
+        element={
+          <ProtectedRoute>
+            <MMRCalculatorPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/dashboard/guild/:guildId/compare"
+        element={
+          <ProtectedRoute>
+            <TrackerComparePage />
+          </ProtectedRoute>
+        }
+      />
+      <Route path="/" element={<Navigate to="/dashboard" replace />} />
+    </Route>,
+  ),
+);
+
+/**
+ * App - Single responsibility: Application routing structure only
+ * Router handles only navigation, not state or logic
+ * No AuthProvider wrapper needed with Zustand
+ */
+export default function App() {
+  return <RouterProvider router={router} />;
 }
\ No newline at end of file
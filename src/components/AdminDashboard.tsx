@@ -3,6 +3,8 @@ import { ErrorDisplay } from '@/components/error-display.js';
 import { useMembersStore } from '@/stores/membersStore.js';
 import { useChannelsStore } from '@/stores/channelsStore.js';
 import { guildApi } from '@/lib/api/guilds.js';
+import { useRetainResource } from '@/hooks/useRetainResource.js';
+import { cacheKeys } from '@/lib/cache/index.js';
 import { MetricsDrawer } from './admin-dashboard/MetricsDrawer.js';
 import { DrawerTrigger } from './admin-dashboard/DrawerTrigger.js';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card.js';
@@ -41,6 +43,9 @@ export default function AdminDashboard({ guildId }: AdminDashboardProps) {
   const channelsLoading = useChannelsStore((state) => state.loading);
   const channelsStoreError = useChannelsStore((state) => state.error);
 
+  useRetainResource(cacheKeys.members(guildId, 1, 20));
+  useRetainResource(cacheKeys.channels(guildId));
+
   // Fetch member statistics
   useEffect(() => {
     const loadMemberStats = async () => {
@@ -101,13 +106,7 @@ export default function AdminDashboard({ guildId }: AdminDashboardProps) {
   }
   if (!totalMembers) {
     // Try to find any cached entry for this guild to get pagination.total
-    const guildCache = useMembersStore.getState().cache[guildId];
-    if (guildCache) {
-      const firstEntry = guildCache.values().next().value;
-      if (firstEntry?.pagination?.total) {
-        totalMembers = firstEntry.pagination.total;
-      }
-    }
+    totalMembers = useMembersStore.getState().getCachedTotal(guildId);
   }
   const totalChannels = channels.length;
 
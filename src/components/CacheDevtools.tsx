@@ -0,0 +1,99 @@
+import { useState, useSyncExternalStore } from 'react';
+import { Database } from 'lucide-react';
+import { Button } from '@/components/ui/button.js';
+import { Badge } from '@/components/ui/badge.js';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet.js';
+import { resourceCache, type CacheEntrySnapshot } from '@/lib/cache/index.js';
+
+function formatAge(updatedAt: number): string {
+  if (!updatedAt) return 'never';
+  const seconds = Math.round((Date.now() - updatedAt) / 1000);
+  return seconds < 60 ? `${seconds}s ago` : `${Math.round(seconds / 60)}m ago`;
+}
+
+function EntryStatus({ entry }: { entry: CacheEntrySnapshot }) {
+  if (entry.isFetching) return <Badge variant="secondary">fetching</Badge>;
+  if (entry.error) return <Badge variant="destructive">error</Badge>;
+  if (entry.updatedAt === 0) return <Badge variant="outline">empty</Badge>;
+  return entry.isStale ? <Badge variant="outline">stale</Badge> : <Badge>fresh</Badge>;
+}
+
+/**
+ * CacheDevtools - Single responsibility: Inspect the resource cache
+ * Development-only panel listing every cache entry with its freshness, tags
+ * and observers, plus controls to invalidate, remove and garbage collect.
+ */
+export function CacheDevtools() {
+  const [open, setOpen] = useState(false);
+  // Re-render on every cache change; entries are read fresh below
+  useSyncExternalStore(resourceCache.subscribe, resourceCache.getVersion);
+  const entries = resourceCache.entries().sort((a, b) => a.key.localeCompare(b.key));
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="fixed bottom-4 left-4 z-50 shadow-md"
+        onClick={() => setOpen(true)}
+      >
+        <Database className="h-4 w-4" />
+        Cache ({entries.length})
+      </Button>
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent side="left" className="w-full sm:max-w-xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Resource cache</SheetTitle>
+            <SheetDescription>Development only. Retained entries are never garbage collected.</SheetDescription>
+          </SheetHeader>
+          <div className="flex gap-2 px-4">
+            <Button size="sm" variant="outline" onClick={() => resourceCache.gc()}>
+              Run GC
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => resourceCache.clear()}>
+              Clear all
+            </Button>
+          </div>
+          <div className="space-y-2 px-4 pb-4">
+            {entries.length === 0 && <p className="text-sm text-muted-foreground">The cache is empty.</p>}
+            {entries.map((entry) => (
+              <div key={entry.key} className="rounded border p-2 text-xs space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <code className="font-mono break-all">{entry.key}</code>
+                  <EntryStatus entry={entry} />
+                </div>
+                <div className="text-muted-foreground">
+                  Updated {formatAge(entry.updatedAt)} · stale after {entry.staleTime / 1000}s · {entry.observers}{' '}
+                  observer{entry.observers === 1 ? '' : 's'}
+                </div>
+                {entry.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {entry.tags.map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        className="rounded bg-muted px-1.5 py-0.5 font-mono hover:bg-muted/70"
+                        title={`Invalidate every entry tagged ${tag}`}
+                        onClick={() => resourceCache.invalidateTag(tag)}
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => resourceCache.invalidate(entry.key)}>
+                    Invalidate
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => resourceCache.remove(entry.key)}>
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
@@ -1,10 +1,22 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useSettingsStore } from '../stores/index.ts';
+import { useRetainResource } from '../hooks/useRetainResource.ts';
+import { useGuildPermissions } from '../hooks/useGuildPermissions.ts';
+import { useUnsavedChangesGuard } from '../hooks/useUnsavedChangesGuard.ts';
+import { diffSettings } from '../utils/settingsDiff.ts';
+import { cacheKeys } from '../lib/cache/index.ts';
 import { BotCommandChannelsSection } from './guild-config/BotCommandChannelsSection.tsx';
 import { RegisterCommandChannelsSection } from './guild-config/RegisterCommandChannelsSection.tsx';
 import { MmrCalculationSection } from './guild-config/MmrCalculationSection.tsx';
+import { RolePermissionsSection } from './guild-config/RolePermissionsSection.tsx';
 import { AuditLogTab } from './guild-config/AuditLogTab.tsx';
+import { SettingsHistoryTab } from './guild-config/SettingsHistoryTab.tsx';
+import { SettingsTransferMenu } from './guild-config/SettingsTransferMenu.tsx';
+import { UnsavedChangesDialog } from './guild-config/UnsavedChangesDialog.tsx';
+import { SaveReviewDialog } from './guild-config/SaveReviewDialog.tsx';
+import { SettingsConflictDialog } from './guild-config/SettingsConflictDialog.tsx';
 import { PermissionGuard } from '../components/PermissionGuard.tsx';
+import type { GuildSettingsType, SettingsRevision } from '../types/index.ts';
 import { LoadingSpinner } from '@/components/loading-spinner.js';
 import { ErrorDisplay } from '@/components/error-display.js';
 import { Button } from '@/components/ui/button.js';
@@ -25,6 +37,9 @@ interface GuildConfigurationProps {
 export default function GuildConfiguration({ guildId }: GuildConfigurationProps) {
   const [activeTab, setActiveTab] = useState('config');
   const [isEditMode, setIsEditMode] = useState(false);
+  // Explains where the draft came from when it was filled from history or an import
+  const [draftNotice, setDraftNotice] = useState<string | null>(null);
+  const [reviewOpen, setReviewOpen] = useState(false);
   
   // Use separate selectors to avoid object-returning selector issues with closure variables
   const loadSettings = useSettingsStore((state) => state.loadSettings);
@@ -32,44 +47,102 @@ export default function GuildConfiguration({ guildId }: GuildConfigurationProps)
   const retry = useSettingsStore((state) => state.retry);
   const updateDraftSettings = useSettingsStore((state) => state.updateDraftSettings);
   const saveDraftSettings = useSettingsStore((state) => state.saveDraftSettings);
+  const loadRevisionIntoDraft = useSettingsStore((state) => state.loadRevisionIntoDraft);
   const cancelEdit = useSettingsStore((state) => state.cancelEdit);
+  const resolveConflict = useSettingsStore((state) => state.resolveConflict);
   const allSettings = useSettingsStore((state) => state.settings[guildId] || null);
+  const draft = useSettingsStore((state) => state.drafts[guildId] ?? null);
+  const conflict = useSettingsStore((state) => state.conflicts[guildId] ?? null);
   const loading = useSettingsStore((state) => state.loading);
   const error = useSettingsStore((state) => state.error);
+  const { isAdmin } = useGuildPermissions(guildId);
+  useRetainResource(cacheKeys.settings(guildId));
+
+  const isDirty = useMemo(
+    () => !!draft && !!allSettings && diffSettings(allSettings, draft.settings).length > 0,
+    [draft, allSettings],
+  );
+  const blocker = useUnsavedChangesGuard(isEditMode && isDirty);
 
   useEffect(() => {
     loadSettings(guildId);
   }, [guildId, loadSettings]);
 
+  // A persisted draft without changes (e.g. a reload right after Edit) has nothing worth resuming
+  useEffect(() => {
+    if (!isEditMode && draft && allSettings && !isDirty) {
+      cancelEdit(guildId);
+    }
+  }, [isEditMode, draft, allSettings, isDirty, guildId, cancelEdit]);
+
   const handleReset = async () => {
     try {
       await resetSettings(guildId);
       setIsEditMode(false);
+      setDraftNotice(null);
     } catch (err: unknown) {
       console.error('Failed to reset settings:', err);
     }
   };
 
   const handleEdit = () => {
-    // Initialize draft with current settings
-    if (allSettings) {
-      updateDraftSettings(allSettings);
+    // Initialize draft with current settings, or resume the draft kept from an earlier visit
+    if (allSettings && !draft) {
+      updateDraftSettings(guildId, allSettings);
     }
     setIsEditMode(true);
   };
 
   const handleCancel = () => {
-    cancelEdit();
+    cancelEdit(guildId);
     setIsEditMode(false);
+    setDraftNotice(null);
+  };
+
+  // Restoring only fills the draft, so the admin reviews it in edit mode before saving
+  const handleRestoreRevision = (revision: SettingsRevision) => {
+    loadRevisionIntoDraft(guildId, revision);
+    setDraftNotice(
+      `Loaded the version saved ${new Date(revision.createdAt).toLocaleString()} into the draft. Review it and click Save Changes to restore it, or Cancel to discard.`,
+    );
+    setIsEditMode(true);
+    setActiveTab('config');
+  };
+
+  // Imported settings are merged over the draft, or over the saved settings when not editing
+  const handleImportSettings = (settings: GuildSettingsType, sourceName: string) => {
+    if (!isEditMode) {
+      cancelEdit(guildId);
+      if (allSettings) {
+        updateDraftSettings(guildId, allSettings);
+      }
+    }
+    updateDraftSettings(guildId, settings);
+    setDraftNotice(
+      `Imported settings from ${sourceName} into the draft. Review them and click Save Changes to apply them, or Cancel to discard.`,
+    );
+    setIsEditMode(true);
+    setActiveTab('config');
+  };
+
+  // The merged draft is based on the latest revision, so saving it again goes through
+  const handleResolveConflict = (settings: GuildSettingsType) => {
+    resolveConflict(guildId, settings);
+    setDraftNotice(
+      'Merged your changes with the latest saved settings. Review the draft and click Save Changes to apply it.',
+    );
   };
 
   const handleSave = async () => {
     try {
       await saveDraftSettings(guildId);
       setIsEditMode(false);
+      setDraftNotice(null);
     } catch (err: unknown) {
       console.error('Failed to save settings:', err);
       // Error is already set in store, just keep edit mode
+    } finally {
+      setReviewOpen(false);
     }
   };
 
@@ -110,6 +183,7 @@ export default function GuildConfiguration({ guildId }: GuildConfigurationProps)
 
   const tabs = [
     { id: 'config', label: 'Configuration', icon: '⚙️' },
+    { id: 'history', label: 'History', icon: '🕘' },
     { id: 'audit', label: 'Audit Logs', icon: '📋' },
   ];
 
@@ -140,13 +214,16 @@ export default function GuildConfiguration({ guildId }: GuildConfigurationProps)
                 Cancel
               </Button>
               <Button
-                onClick={handleSave}
-                disabled={loading}
+                onClick={() => setReviewOpen(true)}
+                disabled={loading || !draft}
               >
                 {loading ? 'Saving...' : 'Save Changes'}
               </Button>
             </>
           )}
+          {isAdmin && (
+            <SettingsTransferMenu guildId={guildId} isEditMode={isEditMode} onImport={handleImportSettings} />
+          )}
           {error && (
             <Button
               onClick={() => retry(guildId)}
@@ -174,6 +251,28 @@ export default function GuildConfiguration({ guildId }: GuildConfigurationProps)
         </AlertDescription>
       </Alert>
 
+      {!isEditMode && isDirty && draft && (
+        <Alert>
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+            <span>You have unsaved changes from {new Date(draft.updatedAt).toLocaleString()}.</span>
+            <span className="flex gap-2">
+              <Button size="sm" onClick={handleEdit}>
+                Resume Editing
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleCancel}>
+                Discard Draft
+              </Button>
+            </span>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {draftNotice && isEditMode && (
+        <Alert>
+          <AlertDescription>{draftNotice}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Error Display */}
       {error && (
         <div>
@@ -232,14 +331,44 @@ export default function GuildConfiguration({ guildId }: GuildConfigurationProps)
                 <MmrCalculationSection guildId={guildId} isEditMode={isEditMode} />
               </AccordionContent>
             </AccordionItem>
+            {isAdmin && (
+              <AccordionItem value="roles" className="border rounded-lg px-6 bg-card">
+                <AccordionTrigger className="text-lg font-semibold hover:no-underline py-6">
+                  Roles &amp; Permissions
+                </AccordionTrigger>
+                <AccordionContent className="pt-4 pb-6">
+                  <RolePermissionsSection guildId={guildId} isEditMode={isEditMode} />
+                </AccordionContent>
+              </AccordionItem>
+            )}
           </Accordion>
         </TabsContent>
+        <TabsContent value="history" className="mt-6">
+          <PermissionGuard guildId={guildId} requireAdmin>
+            <SettingsHistoryTab guildId={guildId} onRestore={handleRestoreRevision} />
+          </PermissionGuard>
+        </TabsContent>
         <TabsContent value="audit" className="mt-6">
           <PermissionGuard guildId={guildId} requireAdmin>
             <AuditLogTab guildId={guildId} />
           </PermissionGuard>
         </TabsContent>
       </Tabs>
+
+      {draft && (
+        <SaveReviewDialog
+          open={reviewOpen}
+          savedSettings={allSettings}
+          draftSettings={draft.settings}
+          saving={loading}
+          onCancel={() => setReviewOpen(false)}
+          onConfirm={handleSave}
+        />
+      )}
+      {conflict && (
+        <SettingsConflictDialog conflict={conflict} onDiscard={handleCancel} onResolve={handleResolveConflict} />
+      )}
+      <UnsavedChangesDialog blocker={blocker} />
     </div>
   );
 }
@@ -3,11 +3,13 @@ import { Button } from '@/components/ui/button.js';
 import { Card, CardHeader } from '@/components/ui/card.js';
 import { Badge } from '@/components/ui/badge.js';
 import { GuildAvatar } from '@/components/guild-avatar.js';
-import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import GuildConfiguration from '@/components/GuildConfiguration.js';
 import MemberList from '@/components/MemberList.js';
 import Overview from '@/components/Overview.js';
 import AdminDashboard from '@/components/AdminDashboard.js';
+import { TrackerDirectory } from '@/components/tracker-management/TrackerDirectory.js';
+import { RecentlyDeletedTrackers } from '@/components/tracker-management/RecentlyDeletedTrackers.js';
 import { useGuildPermissions } from '../hooks/useGuildPermissions.ts';
 
 interface GuildDashboardProps {
@@ -23,6 +25,8 @@ export default function GuildDashboard({ guild }: GuildDashboardProps) {
   const { isAdmin, loading } = useGuildPermissions(guild.id);
   const location = useLocation();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const memberSearch = searchParams.get('search') ?? '';
 
   // Extract active tab from URL path
   const activeTab = location.pathname.split('/').pop() || 'overview';
@@ -86,6 +90,13 @@ export default function GuildDashboard({ guild }: GuildDashboardProps) {
             >
               Members
             </Button>
+            <Button
+              variant={activeTab === 'trackers' ? 'default' : 'ghost'}
+              onClick={() => handleTabNavigate('trackers')}
+              className="flex-1"
+            >
+              Trackers
+            </Button>
             <Button
               variant={activeTab === 'settings' ? 'default' : 'ghost'}
               onClick={() => handleTabNavigate('settings')}
@@ -107,11 +118,20 @@ export default function GuildDashboard({ guild }: GuildDashboardProps) {
       )}
 
       {activeTab === 'members' && isAdmin && (
-        <MemberList guildId={guild.id} />
+        // Remount so a new ?search= link replaces the current query
+        <MemberList key={memberSearch} guildId={guild.id} initialSearch={memberSearch} />
+      )}
+
+      {activeTab === 'trackers' && isAdmin && (
+        <div className="space-y-6">
+          <TrackerDirectory guildId={guild.id} />
+          <RecentlyDeletedTrackers guildId={guild.id} />
+        </div>
       )}
 
       {activeTab === 'settings' && isAdmin && (
-        <GuildConfiguration guildId={guild.id} />
+        // Remount per guild so edit mode never carries over to another guild's draft
+        <GuildConfiguration key={guild.id} guildId={guild.id} />
       )}
     </div>
   );
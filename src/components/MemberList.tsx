@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useMemo, useRef, memo } from 'react';
 import type { FormEvent, ChangeEvent } from 'react';
-import { useMembersStore } from '@/stores/membersStore.js';
+import { useMembersStore, membersPageKey } from '@/stores/membersStore.js';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card.js';
 import { Input } from '@/components/ui/input.js';
 import { Button } from '@/components/ui/button.js';
@@ -8,10 +8,17 @@ import { LoadingState } from '@/components/loading-state.js';
 import { ErrorDisplay } from '@/components/error-display.js';
 import { UserAvatar } from '@/components/user-avatar.js';
 import { useDebounce } from '@/hooks/useDebounce.js';
+import { useRetainResource } from '@/hooks/useRetainResource.js';
+import { isCancelledRequest } from '@/lib/api/client.js';
+import { cacheKeys } from '@/lib/cache/index.js';
 import type { Member } from '@/stores/membersStore.js';
 
 interface MemberListProps {
   guildId: string;
+  /**
+   * Pre-filled search, e.g. when linked from the tracker directory
+   */
+  initialSearch?: string;
 }
 
 interface MemberListItemProps {
@@ -52,9 +59,9 @@ MemberListItem.displayName = 'MemberListItem';
  * Single Responsibility: Display guild members with pagination and search
  * Uses membersStore with stale-while-revalidate pattern for instant UI
  */
-export default function MemberList({ guildId }: MemberListProps) {
+export default function MemberList({ guildId, initialSearch = '' }: MemberListProps) {
   const [page, setPage] = useState(1);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState(initialSearch);
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
 
   // Get store methods and state
@@ -64,13 +71,10 @@ export default function MemberList({ guildId }: MemberListProps) {
   const error = useMembersStore((state) => state.error);
   
   // Subscribe to cache updates for this specific query
-  // Memoize cacheKey to prevent unnecessary recalculations
-  const cacheKey = useMemo(() => `${page}-20-${debouncedSearchQuery || ''}`, [page, debouncedSearchQuery]);
-  const cacheEntry = useMembersStore((state) => {
-    const guildCache = state.cache[guildId];
-    if (!guildCache) return null;
-    return guildCache.get(cacheKey) || null;
-  });
+  // Memoize pageKey to prevent unnecessary recalculations
+  const pageKey = useMemo(() => membersPageKey(guildId, page, 20, debouncedSearchQuery), [guildId, page, debouncedSearchQuery]);
+  const cacheEntry = useMembersStore((state) => state.pages[pageKey] || null);
+  useRetainResource(cacheKeys.members(guildId, page, 20, debouncedSearchQuery));
 
   // Derive members and pagination from cache entry
   const members = cacheEntry?.members || [];
@@ -104,8 +108,7 @@ export default function MemberList({ guildId }: MemberListProps) {
       }
     } catch (err: unknown) {
       // Ignore abort errors
-      const error = err as { name?: string };
-      if (error.name !== 'AbortError' && !abortController.signal.aborted) {
+      if (!isCancelledRequest(err) && !abortController.signal.aborted) {
         console.error('Error loading members:', err);
       }
     } finally {
@@ -6,11 +6,12 @@ import { ErrorDisplay } from '@/components/error-display.js';
 import { UserAvatar } from '@/components/user-avatar.js';
 import { profileApi } from '@/lib/api/profile.js';
 import { guildApi } from '@/lib/api/guilds.js';
+import { isCancelledRequest } from '@/lib/api/client.js';
 import { useAuthStore } from '@/stores/authStore.js';
 import { useGuildPermissions } from '@/hooks/useGuildPermissions.js';
 import { useMyTrackers } from '@/hooks/useMyTrackers.js';
 import { TrackerRegistrationForm } from '@/components/tracker-registration/TrackerRegistrationForm.js';
-import { Gamepad2, Trophy, Users, TrendingUp, ExternalLink, Calculator } from 'lucide-react';
+import { Gamepad2, Trophy, Users, TrendingUp, ExternalLink, Calculator, GitCompare } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button.js';
 import type { UserProfile, UserStats } from '@/types/index.js';
@@ -38,17 +39,6 @@ export default function Overview({ guildId }: OverviewProps) {
   const [membershipLoading, setMembershipLoading] = useState(false);
   const { myTrackers, isLoading: trackerLoading } = useMyTrackers();
 
-  // Helper function to check if error is an abort/cancel error
-  const isAbortError = (err: unknown, signal?: AbortSignal): boolean => {
-    const error = err as { name?: string; message?: string; code?: string };
-    return (
-      error.name === 'AbortError' ||
-      error.message === 'canceled' ||
-      error.code === 'ERR_CANCELED' ||
-      signal?.aborted === true
-    );
-  };
-
   // Helper function to log errors consistently (only for non-abort errors)
   const logError = (context: string, err: unknown) => {
     const error = err as { message?: string; status?: number; response?: { data?: unknown } };
@@ -84,7 +74,7 @@ export default function Overview({ guildId }: OverviewProps) {
         }
       } catch (err: unknown) {
         // Ignore abort errors - don't log or set state
-        if (isAbortError(err, abortController.signal) || cancelled) {
+        if (isCancelledRequest(err) || cancelled) {
           return;
         }
         logError('Error fetching user membership', err);
@@ -133,7 +123,7 @@ export default function Overview({ guildId }: OverviewProps) {
         }
       } catch (err: unknown) {
         // Ignore abort errors - don't log or set state
-        if (isAbortError(err, abortController.signal) || cancelled) {
+        if (isCancelledRequest(err) || cancelled) {
           return;
         }
         const error = err as { response?: { status?: number }; status?: number };
@@ -179,7 +169,7 @@ export default function Overview({ guildId }: OverviewProps) {
         }
       } catch (err: unknown) {
         // Ignore abort errors - don't log or set state
-        if (isAbortError(err, abortController.signal) || cancelled) {
+        if (isCancelledRequest(err) || cancelled) {
           return;
         }
         logError('Error loading profile data', err);
@@ -395,7 +385,7 @@ export default function Overview({ guildId }: OverviewProps) {
                   </div>
                   <div className="flex gap-2">
                     <Link
-                      to={`/dashboard/tracker/${tracker.id}`}
+                      to={`/dashboard/tracker/${tracker.id}?guild=${guildId}`}
                       className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
                     >
                       View Details
@@ -485,6 +475,30 @@ export default function Overview({ guildId }: OverviewProps) {
         </CardContent>
       </Card>
 
+      {/* Tracker Comparison Link */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Compare Trackers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground mb-4">
+            Line up to four players' seasons side by side when balancing teams
+          </p>
+          <Link
+            to={
+              myTrackers.length > 0
+                ? `/dashboard/guild/${guildId}/compare?trackers=${myTrackers.map((tracker) => tracker.id).join(',')}`
+                : `/dashboard/guild/${guildId}/compare`
+            }
+          >
+            <Button variant="outline" className="w-full sm:w-auto">
+              <GitCompare className="mr-2 h-4 w-4" />
+              Compare Trackers
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+
       {/* Future Sections */}
       <Card>
         <CardHeader>
@@ -0,0 +1,68 @@
+import { useState, useSyncExternalStore } from 'react';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog.js';
+import { Button } from '@/components/ui/button.js';
+import { authApi } from '@/lib/api/auth.js';
+import { subscribeSession, getSessionStatus, resumeSession, saveReturnTo } from '@/lib/session.js';
+import { useAuthStore } from '@/stores/authStore.js';
+
+/**
+ * SessionExpiredDialog - Single responsibility: Re-authentication prompt
+ * Shown when a request fails with 401 mid-session. Signing in through a popup
+ * keeps the current page (and unsaved drafts) and replays the held requests.
+ */
+export function SessionExpiredDialog() {
+  const status = useSyncExternalStore(subscribeSession, getSessionStatus);
+  const logout = useAuthStore((state) => state.logout);
+  const [signingIn, setSigningIn] = useState(false);
+  const [cancelled, setCancelled] = useState(false);
+
+  const handleSignIn = async () => {
+    setSigningIn(true);
+    setCancelled(false);
+    const result = await authApi.loginInPopup();
+    setSigningIn(false);
+
+    if (result === 'success') {
+      resumeSession();
+    } else if (result === 'blocked') {
+      // No popup - fall back to a full redirect and come back to this page afterwards
+      saveReturnTo();
+      authApi.login();
+    } else {
+      setCancelled(true);
+    }
+  };
+
+  return (
+    <AlertDialog open={status === 'expired'}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Your session has expired</AlertDialogTitle>
+          <AlertDialogDescription>
+            Sign in again with Discord to pick up where you left off. Unsaved changes on this page are kept.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {cancelled && (
+          <p className="text-sm text-muted-foreground">
+            Sign-in was not completed. Try again, or sign out to leave this page.
+          </p>
+        )}
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={logout} disabled={signingIn}>
+            Sign out
+          </Button>
+          <Button onClick={handleSignIn} disabled={signingIn}>
+            {signingIn ? 'Waiting for Discord...' : 'Sign in again'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
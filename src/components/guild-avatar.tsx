@@ -4,7 +4,7 @@ import { cn } from "@/lib/utils.js"
 interface Guild {
   id: string
   name: string
-  icon?: string
+  icon?: string | null
 }
 
 interface GuildAvatarProps {
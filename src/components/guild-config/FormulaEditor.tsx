@@ -0,0 +1,288 @@
+import { useId, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent, MouseEvent } from 'react';
+import { Textarea } from '@/components/ui/textarea.js';
+import { cn } from '@/lib/utils.js';
+import {
+  applyCompletion,
+  bracketsAtCaret,
+  completionsAt,
+  formulaDoc,
+  highlightFormula,
+  matchBrackets,
+  scanFormula,
+  type FormulaDoc,
+  type FormulaError,
+  type HighlightKind,
+} from '@/lib/mmr-formula/index.js';
+
+interface FormulaEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  /**
+   * Range to underline, usually the local parse or evaluation error
+   */
+  error?: FormulaError | null;
+  disabled?: boolean;
+  placeholder?: string;
+  rows?: number;
+  'aria-describedby'?: string;
+}
+
+const KIND_CLASSES: Record<HighlightKind, string> = {
+  number: 'text-blue-600',
+  variable: 'text-green-600',
+  function: 'text-purple-600',
+  unknown: 'text-red-600',
+  operator: 'text-orange-600',
+  bracket: 'text-muted-foreground',
+  comma: 'text-muted-foreground',
+  whitespace: '',
+  invalid: 'text-red-600',
+};
+
+// Shared by the textarea and the highlight layer so their text lines up exactly
+const EDITOR_TEXT = 'px-3 py-2 font-mono text-sm leading-6 whitespace-pre-wrap break-words';
+
+const SQUIGGLE = 'underline decoration-wavy decoration-red-600 underline-offset-4';
+
+/**
+ * FormulaEditor - Single responsibility: Edit a custom MMR formula
+ * A transparent textarea over a highlighted copy of the text, so native
+ * editing, selection and undo keep working. Ctrl+Space opens suggestions.
+ */
+export function FormulaEditor({
+  id,
+  value,
+  onChange,
+  error,
+  disabled = false,
+  placeholder,
+  rows = 4,
+  'aria-describedby': describedBy,
+}: FormulaEditorProps) {
+  const listId = useId();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pendingCaret = useRef<number | null>(null);
+
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [suggesting, setSuggesting] = useState<'typing' | 'forced' | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [hover, setHover] = useState<{ doc: FormulaDoc; left: number; top: number } | null>(null);
+
+  const segments = useMemo(() => highlightFormula(value, error), [value, error]);
+  const brackets = useMemo(() => matchBrackets(scanFormula(value)), [value]);
+  const activeBracket = focused ? bracketsAtCaret(brackets, caret) : null;
+
+  const completion = useMemo(
+    () => (suggesting ? completionsAt(value, caret, suggesting === 'forced') : null),
+    [value, caret, suggesting],
+  );
+  const items = completion?.items ?? [];
+  const open = focused && items.length > 0;
+  const activeItem = open ? items[Math.min(activeIndex, items.length - 1)] : undefined;
+
+  // Restore the caret after a completion replaces the text
+  useLayoutEffect(() => {
+    if (pendingCaret.current !== null && textareaRef.current) {
+      textareaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      setCaret(pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  }, [value]);
+
+  const syncCaret = () => {
+    setCaret(textareaRef.current?.selectionStart ?? 0);
+  };
+
+  const accept = (item: FormulaDoc) => {
+    if (!completion) return;
+    const next = applyCompletion(value, completion, item);
+    pendingCaret.current = next.caret;
+    setSuggesting(null);
+    onChange(next.value);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === ' ' && event.ctrlKey) {
+      event.preventDefault();
+      setActiveIndex(0);
+      setSuggesting('forced');
+      return;
+    }
+    if (!open || !activeItem) return;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex((index) => (index + 1) % items.length);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex((index) => (index - 1 + items.length) % items.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        event.preventDefault();
+        accept(activeItem);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        setSuggesting(null);
+        break;
+    }
+  };
+
+  // The textarea sits on top, so find the highlighted token under the pointer by its boxes
+  const handleMouseMove = (event: MouseEvent<HTMLDivElement>) => {
+    const container = containerRef.current;
+    const spans = highlightRef.current?.querySelectorAll<HTMLElement>('[data-doc]') ?? [];
+    for (const span of spans) {
+      for (const rect of span.getClientRects()) {
+        if (
+          event.clientX >= rect.left &&
+          event.clientX <= rect.right &&
+          event.clientY >= rect.top &&
+          event.clientY <= rect.bottom
+        ) {
+          const doc = formulaDoc(span.dataset.doc ?? '');
+          const bounds = container?.getBoundingClientRect();
+          if (doc && bounds) {
+            setHover((current) =>
+              current?.doc.name === doc.name
+                ? current
+                : { doc, left: rect.left - bounds.left, top: rect.bottom - bounds.top + 4 },
+            );
+          }
+          return;
+        }
+      }
+    }
+    setHover(null);
+  };
+
+  const bracketClass = (offset: number) => {
+    if (!activeBracket) return '';
+    if (activeBracket.partner === null) {
+      return offset === activeBracket.offset ? 'rounded-sm bg-red-100 text-red-600' : '';
+    }
+    return offset === activeBracket.offset || offset === activeBracket.partner
+      ? 'rounded-sm bg-muted font-bold text-foreground'
+      : '';
+  };
+
+  const errorAtEnd = !!error && error.start >= value.length;
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative rounded-md bg-background"
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setHover(null)}
+    >
+      <pre
+        ref={highlightRef}
+        aria-hidden="true"
+        className={cn(
+          EDITOR_TEXT,
+          'pointer-events-none absolute inset-0 m-0 overflow-hidden rounded-md border border-transparent',
+          disabled && 'opacity-50',
+        )}
+      >
+        {segments.map((segment) => (
+          <span
+            key={segment.start}
+            data-doc={segment.kind === 'variable' || segment.kind === 'function' ? segment.text : undefined}
+            className={cn(
+              KIND_CLASSES[segment.kind],
+              segment.kind === 'bracket' && bracketClass(segment.start),
+              segment.error && SQUIGGLE,
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+        {errorAtEnd && <span className={SQUIGGLE}>{' '}</span>}
+        {/* Keeps a trailing newline as tall as in the textarea */}
+        {'\n'}
+      </pre>
+
+      <Textarea
+        ref={textareaRef}
+        id={id}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setActiveIndex(0);
+          setSuggesting((current) => current ?? 'typing');
+        }}
+        onKeyDown={handleKeyDown}
+        onSelect={syncCaret}
+        onClick={() => setSuggesting(null)}
+        onScroll={(e) => {
+          if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        onFocus={() => setFocused(true)}
+        onBlur={() => {
+          setFocused(false);
+          setSuggesting(null);
+        }}
+        disabled={disabled}
+        placeholder={placeholder}
+        rows={rows}
+        spellCheck={false}
+        autoComplete="off"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={open}
+        aria-controls={listId}
+        aria-activedescendant={activeItem ? `${listId}-${activeItem.name}` : undefined}
+        aria-invalid={!!error}
+        aria-describedby={describedBy}
+        className={cn(EDITOR_TEXT, 'relative bg-transparent text-transparent caret-foreground')}
+      />
+
+      {open && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-50 mt-1 max-h-60 overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {items.map((item) => (
+            <li
+              key={item.name}
+              id={`${listId}-${item.name}`}
+              role="option"
+              aria-selected={item === activeItem}
+              className={cn(
+                'flex cursor-pointer items-baseline justify-between gap-4 rounded-sm px-2 py-1.5 text-sm',
+                item === activeItem && 'bg-accent text-accent-foreground',
+              )}
+              // Keep focus in the textarea
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(item)}
+            >
+              <span className="font-mono">{item.signature}</span>
+              <span className="truncate text-xs text-muted-foreground">{item.description}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hover && !open && (
+        <div
+          role="tooltip"
+          className="pointer-events-none absolute z-50 max-w-xs rounded-md bg-primary px-3 py-1.5 text-xs text-primary-foreground"
+          style={{ left: hover.left, top: hover.top }}
+        >
+          <div className="font-mono font-semibold">{hover.doc.signature}</div>
+          <div>{hover.doc.description}</div>
+        </div>
+      )}
+    </div>
+  );
+}
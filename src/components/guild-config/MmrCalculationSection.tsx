@@ -1,8 +1,7 @@
-import { useEffect, memo } from 'react';
+import { useEffect, useMemo, memo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.js';
 import { Label } from '@/components/ui/label.js';
 import { Input } from '@/components/ui/input.js';
-import { Textarea } from '@/components/ui/textarea.js';
 import { Button } from '@/components/ui/button.js';
 import { Alert, AlertDescription } from '@/components/ui/alert.js';
 import {
@@ -14,6 +13,9 @@ import {
 } from '@/components/ui/select.js';
 import { useSettingsStore } from '@/stores/index.js';
 import { useMmrFormula } from '@/hooks/useMmrFormula.js';
+import { FormulaEditor } from './FormulaEditor.js';
+import { MmrImpactPreview } from './MmrImpactPreview.js';
+import { checkFormula, formatFormulaError, FORMULA_FUNCTIONS } from '@/lib/mmr-formula/index.js';
 
 interface MmrCalculationSectionProps {
   guildId: string;
@@ -26,7 +28,7 @@ const MmrCalculationSectionComponent = ({
 }: MmrCalculationSectionProps) => {
   // Settings management (separate concern)
   const allSettings = useSettingsStore((state) => state.settings[guildId] || null);
-  const draftSettings = useSettingsStore((state) => state.draftSettings);
+  const draftSettings = useSettingsStore((state) => state.drafts[guildId]?.settings ?? null);
   const updateDraftSettings = useSettingsStore((state) => state.updateDraftSettings);
   const displaySettings = isEditMode && draftSettings ? draftSettings : (allSettings || null);
   const mmrConfig = displaySettings?.mmrCalculation;
@@ -35,16 +37,24 @@ const MmrCalculationSectionComponent = ({
   const {
     testResult,
     validationResult,
+    testData,
     testing,
     validating,
     validateFormula,
     testFormula,
   } = useMmrFormula();
 
+  // Instant local check; the server stays the final validator
+  const customFormula = mmrConfig?.customFormula;
+  const localCheck = useMemo(
+    () => (customFormula ? checkFormula(customFormula, testData) : null),
+    [customFormula, testData],
+  );
+
   // Update draft settings when config changes
   const handleAlgorithmChange = (algorithm: 'WEIGHTED_AVERAGE' | 'PEAK_MMR' | 'CUSTOM' | 'ASCENDANCY') => {
     if (!isEditMode) return;
-    updateDraftSettings({
+    updateDraftSettings(guildId, {
       ...draftSettings,
       mmrCalculation: {
         ...mmrConfig,
@@ -56,7 +66,7 @@ const MmrCalculationSectionComponent = ({
   const handleWeightChange = (playlist: 'ones' | 'twos' | 'threes' | 'fours', value: string) => {
     if (!isEditMode) return;
     const numValue = value === '' ? undefined : parseFloat(value);
-    updateDraftSettings({
+    updateDraftSettings(guildId, {
       ...draftSettings,
       mmrCalculation: {
         ...mmrConfig,
@@ -75,7 +85,7 @@ const MmrCalculationSectionComponent = ({
   ) => {
     if (!isEditMode) return;
     const numValue = value === '' ? undefined : parseInt(value, 10);
-    updateDraftSettings({
+    updateDraftSettings(guildId, {
       ...draftSettings,
       mmrCalculation: {
         ...mmrConfig,
@@ -91,7 +101,7 @@ const MmrCalculationSectionComponent = ({
   const handleAscendancyWeightChange = (field: 'current' | 'peak', value: string) => {
     if (!isEditMode) return;
     const numValue = value === '' ? undefined : parseFloat(value);
-    updateDraftSettings({
+    updateDraftSettings(guildId, {
       ...draftSettings,
       mmrCalculation: {
         ...mmrConfig,
@@ -108,7 +118,7 @@ const MmrCalculationSectionComponent = ({
 
   const handleFormulaChange = (formula: string) => {
     if (!isEditMode) return;
-    updateDraftSettings({
+    updateDraftSettings(guildId, {
       ...draftSettings,
       mmrCalculation: {
         ...mmrConfig,
@@ -133,7 +143,7 @@ const MmrCalculationSectionComponent = ({
   // Update validation result in settings when validation completes
   useEffect(() => {
     if (validationResult && mmrConfig?.customFormula && isEditMode) {
-      updateDraftSettings({
+      updateDraftSettings(guildId, {
         ...draftSettings,
         mmrCalculation: {
           ...mmrConfig,
@@ -332,17 +342,33 @@ const MmrCalculationSectionComponent = ({
                 Available variables: ones, twos, threes, fours, onesGames, twosGames, threesGames,
                 foursGames, totalGames
                 <br />
+                Functions: {Object.keys(FORMULA_FUNCTIONS).join(', ')}
+                <br />
                 Example: (ones * 0.1 + twos * 0.3 + threes * 0.5 + fours * 0.1)
+                <br />
+                Hover a name for details, or press Ctrl+Space for suggestions.
               </p>
-              <Textarea
+              <FormulaEditor
                 id="custom-formula"
                 value={mmrConfig?.customFormula || ''}
-                onChange={(e) => handleFormulaChange(e.target.value)}
+                onChange={handleFormulaChange}
+                error={localCheck?.success === false ? localCheck.error : null}
                 disabled={!isEditMode}
                 placeholder="Enter your custom formula..."
-                className="font-mono"
                 rows={4}
+                aria-describedby="custom-formula-preview"
               />
+              {localCheck && (
+                <p
+                  id="custom-formula-preview"
+                  className={`text-sm ${localCheck.success ? 'text-muted-foreground' : 'text-destructive'}`}
+                  aria-live="polite"
+                >
+                  {localCheck.success === true
+                    ? `Preview: ${Math.round(localCheck.value)} MMR (sample data 1v1=${testData.ones}, 2v2=${testData.twos}, 3v3=${testData.threes}, 4v4=${testData.fours})`
+                    : formatFormulaError(localCheck.error)}
+                </p>
+              )}
             </div>
 
             {/* Validation Status */}
@@ -363,7 +389,7 @@ const MmrCalculationSectionComponent = ({
               <div className="flex gap-2">
                 <Button
                   onClick={handleValidateFormula}
-                  disabled={!mmrConfig?.customFormula || validating}
+                  disabled={!mmrConfig?.customFormula || localCheck?.success === false || validating}
                   variant="outline"
                 >
                   {validating ? 'Validating...' : 'Validate Formula'}
@@ -401,6 +427,9 @@ const MmrCalculationSectionComponent = ({
             )}
           </div>
         )}
+
+        {/* Impact of the draft on the whole guild */}
+        {isEditMode && <MmrImpactPreview guildId={guildId} draftConfig={mmrConfig} />}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,155 @@
+import { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button.js';
+import { Label } from '@/components/ui/label.js';
+import { Alert, AlertDescription } from '@/components/ui/alert.js';
+import { useMmrImpactPreview } from '@/hooks/useMmrImpactPreview.js';
+import { summarizeMmrImpact } from '@/utils/mmrImpact.js';
+import type { MmrCalculationConfig } from '@/types/index.js';
+
+interface MmrImpactPreviewProps {
+  guildId: string;
+  /**
+   * Draft configuration to compare against the saved one
+   */
+  draftConfig: MmrCalculationConfig | undefined;
+}
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${Math.round(delta)}`;
+
+/**
+ * MmrImpactPreview - Single responsibility: Show how a draft MMR config would move the guild
+ * Both configurations run server-side against each tracker's latest data; nothing is saved.
+ */
+export function MmrImpactPreview({ guildId, draftConfig }: MmrImpactPreviewProps) {
+  const { preview, previewedConfig, loading, error, runPreview } = useMmrImpactPreview(guildId);
+
+  const summary = useMemo(() => (preview ? summarizeMmrImpact(preview.entries) : null), [preview]);
+  const stale = !!previewedConfig && JSON.stringify(previewedConfig) !== JSON.stringify(draftConfig);
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Label className="text-base font-semibold">Preview Impact</Label>
+          <p className="text-sm text-muted-foreground">
+            Runs the draft and saved configurations against every active tracker's latest data. Nothing changes
+            until you save.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => draftConfig && runPreview(draftConfig)}
+          disabled={!draftConfig || loading}
+        >
+          {loading ? 'Running...' : preview ? 'Run Again' : 'Preview Impact'}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {stale && (
+        <Alert>
+          <AlertDescription>The draft has changed since this preview. Run it again to see the effect.</AlertDescription>
+        </Alert>
+      )}
+
+      {preview && summary && (
+        <div className="space-y-6">
+          <p className="text-sm">
+            {preview.entries.length} tracker{preview.entries.length === 1 ? '' : 's'} simulated ·{' '}
+            {summary.changedCount} with a different MMR · average change{' '}
+            {formatDelta(summary.averageDelta)}
+            {summary.newlyIneligible.length > 0 && ` · ${summary.newlyIneligible.length} become ineligible`}
+          </p>
+
+          {summary.histogram.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground">No tracker has data to simulate yet.</p>
+          ) : (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={summary.histogram} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12 }} width={32} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="current" name="Saved" fill="#9ca3af" />
+                  <Bar dataKey="draft" name="Draft" fill="#2563eb" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Biggest Movers</h4>
+            {summary.movers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No player's MMR changes.</p>
+            ) : (
+              <table className="w-full rounded border text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium">Player</th>
+                    <th className="px-4 py-2 text-right font-medium">Saved</th>
+                    <th className="px-4 py-2 text-right font-medium">Draft</th>
+                    <th className="px-4 py-2 text-right font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {summary.movers.map((mover) => (
+                    <tr key={mover.entry.trackerId}>
+                      <td className="px-4 py-2">{mover.entry.playerName}</td>
+                      <td className="px-4 py-2 text-right">{mover.current}</td>
+                      <td className="px-4 py-2 text-right">{mover.draft}</td>
+                      <td
+                        className={`px-4 py-2 text-right font-medium ${
+                          mover.delta > 0 ? 'text-green-600' : 'text-red-600'
+                        }`}
+                      >
+                        {formatDelta(mover.delta)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {summary.newlyIneligible.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Become Ineligible</h4>
+              <ul className="divide-y rounded border text-sm">
+                {summary.newlyIneligible.map((entry) => (
+                  <li key={entry.trackerId} className="flex justify-between gap-4 px-4 py-2">
+                    <span>
+                      {entry.playerName} <span className="text-muted-foreground">(saved: {entry.current})</span>
+                    </span>
+                    <span className="text-red-600">{entry.draftError}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {summary.newlyEligible.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Become Eligible</h4>
+              <ul className="divide-y rounded border text-sm">
+                {summary.newlyEligible.map((entry) => (
+                  <li key={entry.trackerId} className="flex justify-between gap-4 px-4 py-2">
+                    <span>{entry.playerName}</span>
+                    <span className="text-green-600">{entry.draft} MMR</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
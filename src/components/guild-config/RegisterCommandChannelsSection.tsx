@@ -2,6 +2,8 @@ import { useEffect, memo, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.js';
 import { Label } from '@/components/ui/label.js';
 import { useSettingsStore, useChannelsStore } from '@/stores/index.js';
+import { useRetainResource } from '@/hooks/useRetainResource.js';
+import { cacheKeys } from '@/lib/cache/index.js';
 import type { DiscordChannel } from '@/types/index.js';
 import { Checkbox } from '@/components/ui/checkbox.js';
 import { LoadingSpinner } from '@/components/loading-spinner.js';
@@ -15,7 +17,7 @@ interface RegisterCommandChannelsSectionProps {
 const RegisterCommandChannelsSectionComponent = ({ guildId, isEditMode = false }: RegisterCommandChannelsSectionProps) => {
   // Use separate selectors to avoid object-returning selector issues with closure variables
   const allSettings = useSettingsStore((state) => state.settings[guildId] || null);
-  const draftSettings = useSettingsStore((state) => state.draftSettings);
+  const draftSettings = useSettingsStore((state) => state.drafts[guildId]?.settings ?? null);
   const updateDraftSettings = useSettingsStore((state) => state.updateDraftSettings);
   const loading = useSettingsStore((state) => state.loading);
   
@@ -30,6 +32,7 @@ const RegisterCommandChannelsSectionComponent = ({ guildId, isEditMode = false }
   const channelsError = useChannelsStore((state) => state.error);
 
   const discordChannels = getChannels(guildId);
+  useRetainResource(cacheKeys.channels(guildId));
 
   useEffect(() => {
     fetchChannels(guildId);
@@ -106,10 +109,10 @@ const RegisterCommandChannelsSectionComponent = ({ guildId, isEditMode = false }
         ...registerCommandChannels,
         { id: channel.id, name: channel.name },
       ];
-      updateDraftSettings({ register_command_channels: newChannels });
+      updateDraftSettings(guildId, { register_command_channels: newChannels });
     } else {
       const newChannels = registerCommandChannels.filter(ch => ch.id !== channelId);
-      updateDraftSettings({ register_command_channels: newChannels });
+      updateDraftSettings(guildId, { register_command_channels: newChannels });
     }
   };
 
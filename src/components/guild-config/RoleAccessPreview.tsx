@@ -0,0 +1,144 @@
+import { useEffect, useMemo } from 'react';
+import { membersPageKey, useMembersStore } from '@/stores/index.js';
+import { cacheKeys, resourceCache } from '@/lib/cache/index.js';
+import { memberAccessChanges, PERMISSION_LABELS } from '@/utils/rolePermissions.js';
+import type { RolePermissions } from '@/types/index.js';
+import { Badge } from '@/components/ui/badge.js';
+import { Label } from '@/components/ui/label.js';
+import { LoadingSpinner } from '@/components/loading-spinner.js';
+import { ErrorDisplay } from '@/components/error-display.js';
+
+// Members fetched per request; every page is checked
+const PAGE_SIZE = 100;
+
+interface RoleAccessPreviewProps {
+  guildId: string;
+  saved: RolePermissions | undefined;
+  draft: RolePermissions | undefined;
+}
+
+/**
+ * RoleAccessPreview - Single responsibility: List members who gain or lose permissions with the draft
+ * Only role grants are compared; server admins hold every permission either way.
+ */
+export function RoleAccessPreview({ guildId, saved, draft }: RoleAccessPreviewProps) {
+  const fetchMembers = useMembersStore((state) => state.fetchMembers);
+  const getMembers = useMembersStore((state) => state.getMembers);
+  // Cached member pages, so the preview updates as they arrive
+  const cachedPages = useMembersStore((state) => state.pages);
+  const loading = useMembersStore((state) => state.loading);
+  const error = useMembersStore((state) => state.error);
+
+  useEffect(() => {
+    fetchMembers(guildId, 1, PAGE_SIZE);
+  }, [guildId, fetchMembers]);
+
+  const firstPage = getMembers(guildId, 1, PAGE_SIZE);
+  const pageCount = firstPage?.pagination.pages ?? 1;
+  const total = firstPage?.pagination.total ?? 0;
+
+  // The first page tells how many there are; the rest load one at a time
+  useEffect(() => {
+    const releases = Array.from({ length: pageCount }, (_, index) =>
+      resourceCache.retain(cacheKeys.members(guildId, index + 1, PAGE_SIZE)),
+    );
+    let cancelled = false;
+    const fetchRemainingPages = async () => {
+      for (let page = 2; page <= pageCount && !cancelled; page += 1) {
+        await fetchMembers(guildId, page, PAGE_SIZE);
+      }
+    };
+    fetchRemainingPages();
+
+    return () => {
+      cancelled = true;
+      releases.forEach((release) => release());
+    };
+  }, [guildId, pageCount, fetchMembers]);
+
+  const members = useMemo(
+    () =>
+      Array.from(
+        { length: pageCount },
+        (_, index) => cachedPages[membersPageKey(guildId, index + 1, PAGE_SIZE)]?.members ?? [],
+      ).flat(),
+    [guildId, pageCount, cachedPages],
+  );
+  const changes = useMemo(
+    () => memberAccessChanges(members, saved, draft, guildId),
+    [members, saved, draft, guildId],
+  );
+  // Until every member is checked, no changes so far does not mean no changes
+  const checkedAll = !!firstPage && members.length >= total;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div>
+        <Label className="text-base font-semibold">Access Changes</Label>
+        <p className="text-sm text-muted-foreground">Members whose permissions change when you save the draft.</p>
+      </div>
+
+      {error && <ErrorDisplay error={error} />}
+
+      {!firstPage && loading ? (
+        <div className="flex items-center p-4">
+          <LoadingSpinner size="sm" />
+          <span className="ml-2 text-sm text-muted-foreground">Loading members...</span>
+        </div>
+      ) : changes.length === 0 ? (
+        checkedAll && <p className="text-sm text-muted-foreground italic">No member gains or loses access.</p>
+      ) : (
+        <div className="overflow-x-auto rounded border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">Member</th>
+                <th className="px-4 py-2 text-left font-medium">Gains</th>
+                <th className="px-4 py-2 text-left font-medium">Loses</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {changes.map(({ member, gained, lost }) => (
+                <tr key={member.id}>
+                  <td className="px-4 py-2">{member.nickname || member.user.globalName || member.user.username}</td>
+                  <td className="px-4 py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {gained.map((permission) => (
+                        <Badge key={permission} variant="secondary" className="text-green-600">
+                          {PERMISSION_LABELS[permission]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {lost.map((permission) => (
+                        <Badge key={permission} variant="secondary" className="text-red-600">
+                          {PERMISSION_LABELS[permission]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {firstPage &&
+        !checkedAll &&
+        (loading ? (
+          <p className="flex items-center text-xs text-muted-foreground">
+            <LoadingSpinner size="sm" className="mr-2" />
+            Checked {members.length} of {total} members so far...
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Check incomplete: only {members.length} of {total} members could be loaded, so others may also gain
+            or lose access.
+          </p>
+        ))}
+    </div>
+  );
+}
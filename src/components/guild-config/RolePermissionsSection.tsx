@@ -0,0 +1,119 @@
+import { useEffect, memo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.js';
+import { useSettingsStore, useRolesStore } from '@/stores/index.js';
+import { useRetainResource } from '@/hooks/useRetainResource.js';
+import { cacheKeys } from '@/lib/cache/index.js';
+import { hasRolePermission, PERMISSION_LABELS, PERMISSIONS, setRolePermission } from '@/utils/rolePermissions.js';
+import { diffSettings } from '@/utils/settingsDiff.js';
+import type { Permission } from '@/types/permissions.js';
+import type { DiscordRole } from '@/types/index.js';
+import { Checkbox } from '@/components/ui/checkbox.js';
+import { LoadingSpinner } from '@/components/loading-spinner.js';
+import { ErrorDisplay } from '@/components/error-display.js';
+import { RoleAccessPreview } from './RoleAccessPreview.tsx';
+
+interface RolePermissionsSectionProps {
+  guildId: string;
+  isEditMode?: boolean;
+}
+
+const RolePermissionsSectionComponent = ({ guildId, isEditMode = false }: RolePermissionsSectionProps) => {
+  // Use separate selectors to avoid object-returning selector issues with closure variables
+  const allSettings = useSettingsStore((state) => state.settings[guildId] || null);
+  const draftSettings = useSettingsStore((state) => state.drafts[guildId]?.settings ?? null);
+  const updateDraftSettings = useSettingsStore((state) => state.updateDraftSettings);
+  const loading = useSettingsStore((state) => state.loading);
+
+  // Use draft settings in edit mode, original settings in view mode
+  const displaySettings = isEditMode && draftSettings ? draftSettings : (allSettings || null);
+  const rolePermissions = displaySettings?.rolePermissions;
+  const isDirty =
+    isEditMode && !!draftSettings && diffSettings(allSettings?.rolePermissions, draftSettings.rolePermissions).length > 0;
+
+  const fetchRoles = useRolesStore((state) => state.fetchRoles);
+  const getRoles = useRolesStore((state) => state.getRoles);
+  const rolesLoading = useRolesStore((state) => state.loading);
+  const rolesError = useRolesStore((state) => state.error);
+
+  const discordRoles = getRoles(guildId);
+  useRetainResource(cacheKeys.roles(guildId));
+
+  useEffect(() => {
+    fetchRoles(guildId);
+  }, [guildId, fetchRoles]);
+
+  const handleToggle = (permission: Permission, role: DiscordRole, granted: boolean) => {
+    if (!isEditMode) return;
+    updateDraftSettings(guildId, { rolePermissions: setRolePermission(rolePermissions, permission, role, granted) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Role Permissions</CardTitle>
+          <CardDescription>
+            Grant league permissions to Discord roles. Members hold a permission through any of their roles; server
+            admins always hold every permission.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {rolesError && <ErrorDisplay error={rolesError} />}
+
+          {rolesLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <LoadingSpinner size="md" />
+              <span className="ml-2 text-muted-foreground">Loading roles...</span>
+            </div>
+          ) : discordRoles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No roles available</p>
+          ) : (
+            <div className="overflow-x-auto rounded border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium">Role</th>
+                    {PERMISSIONS.map((permission) => (
+                      <th key={permission} className="px-4 py-2 text-center font-medium">
+                        {PERMISSION_LABELS[permission]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {discordRoles.map((role) => (
+                    <tr key={role.id}>
+                      <td className="px-4 py-2 font-medium">@{role.name}</td>
+                      {PERMISSIONS.map((permission) => (
+                        <td key={permission} className="px-4 py-2 text-center">
+                          <Checkbox
+                            checked={hasRolePermission(rolePermissions, permission, role.id)}
+                            onCheckedChange={(checked) => handleToggle(permission, role, checked === true)}
+                            disabled={loading || !isEditMode}
+                            className={!isEditMode ? 'opacity-50 cursor-not-allowed' : ''}
+                            aria-label={`${PERMISSION_LABELS[permission]} for @${role.name}`}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {isDirty && (
+            <RoleAccessPreview
+              guildId={guildId}
+              saved={allSettings?.rolePermissions}
+              draft={draftSettings?.rolePermissions}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export const RolePermissionsSection = memo(RolePermissionsSectionComponent);
+RolePermissionsSection.displayName = 'RolePermissionsSection';
@@ -0,0 +1,131 @@
+import { useMemo } from 'react';
+import {
+  channelListChange,
+  diffSettings,
+  formatSettingValue,
+  settingsPathLabel,
+  settingsWarnings,
+} from '../../utils/settingsDiff.ts';
+import type { GuildSettingsType } from '../../types/index.ts';
+import { Button } from '@/components/ui/button.js';
+import { Alert, AlertDescription } from '@/components/ui/alert.js';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.js';
+import { AlertTriangle } from 'lucide-react';
+
+interface SaveReviewDialogProps {
+  open: boolean;
+  savedSettings: GuildSettingsType;
+  draftSettings: GuildSettingsType;
+  saving: boolean;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+/**
+ * SaveReviewDialog - Single responsibility: Confirm the field-level changes before a save
+ * Channel lists show added and removed channels; other fields show their before and after values.
+ */
+export function SaveReviewDialog({ open, savedSettings, draftSettings, saving, onCancel, onConfirm }: SaveReviewDialogProps) {
+  const changes = useMemo(() => diffSettings(savedSettings, draftSettings), [savedSettings, draftSettings]);
+  const warnings = useMemo(() => settingsWarnings(savedSettings, draftSettings), [savedSettings, draftSettings]);
+  const warnedPaths = new Set(warnings.map(({ path }) => path.join('.')));
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !saving && onCancel()}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Review Changes</DialogTitle>
+          <DialogDescription>
+            {changes.length === 0
+              ? 'The draft matches the saved settings.'
+              : `${changes.length} setting${changes.length === 1 ? '' : 's'} will change when you save.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {warnings.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc space-y-1 pl-4">
+                {warnings.map((warning) => (
+                  <li key={warning.path.join('.')}>{warning.message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {changes.length > 0 && (
+          <div className="overflow-x-auto rounded border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">Setting</th>
+                  <th className="px-4 py-2 text-left font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {changes.map((change) => {
+                  const key = change.path.join('.');
+                  const channels = channelListChange(change);
+                  // Role lists share the channel list shape
+                  const prefix = change.path[0] === 'rolePermissions' ? '@' : '#';
+                  return (
+                    <tr key={key} className={warnedPaths.has(key) ? 'bg-red-600/10' : undefined}>
+                      <td className="px-4 py-2 align-top">{settingsPathLabel(change.path)}</td>
+                      <td className="px-4 py-2">
+                        {channels ? (
+                          <ul className="space-y-0.5">
+                            {channels.added.map((channel) => (
+                              <li key={`added-${channel.id}`} className="text-green-600">
+                                + {prefix}{channel.name}
+                              </li>
+                            ))}
+                            {channels.removed.map((channel) => (
+                              <li key={`removed-${channel.id}`} className="text-red-600">
+                                − {prefix}{channel.name}
+                              </li>
+                            ))}
+                            {channels.added.length === 0 && channels.removed.length === 0 && (
+                              <li className="text-muted-foreground">Order changed</li>
+                            )}
+                          </ul>
+                        ) : (
+                          <span className="font-mono">
+                            <span className="text-red-600 line-through">{formatSettingValue(change.before)}</span>
+                            {' → '}
+                            <span className="text-green-600">{formatSettingValue(change.after)}</span>
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Keep Editing
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={saving || changes.length === 0}
+            variant={warnings.length > 0 ? 'destructive' : 'default'}
+          >
+            {saving ? 'Saving...' : 'Confirm and Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+import { useMemo, useState } from 'react';
+import { applyMerge, mergeFieldKey, mergeSettings } from '../../utils/settingsMerge.ts';
+import type { MergeSide } from '../../utils/settingsMerge.ts';
+import { formatSettingValue, settingsPathLabel } from '../../utils/settingsDiff.ts';
+import type { GuildSettingsType, SettingsConflict } from '../../types/index.ts';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog.js';
+import { Badge } from '@/components/ui/badge.js';
+import { Button } from '@/components/ui/button.js';
+
+interface SettingsConflictDialogProps {
+  conflict: SettingsConflict;
+  onDiscard: () => void;
+  onResolve: (settings: GuildSettingsType) => void;
+}
+
+const SIDE_LABELS: Record<MergeSide, string> = {
+  mine: 'Keep mine',
+  theirs: 'Use theirs',
+};
+
+/**
+ * SettingsConflictDialog - Single responsibility: Merge a draft with settings someone else saved meanwhile
+ * Fields changed on one side are taken automatically; fields changed on both need a choice.
+ * The merged result goes back into the draft, so it is reviewed again before saving.
+ */
+export function SettingsConflictDialog({ conflict, onDiscard, onResolve }: SettingsConflictDialogProps) {
+  const { base, mine, theirs } = conflict;
+  const fields = useMemo(() => mergeSettings(base, mine, theirs), [base, mine, theirs]);
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+  const unresolved = fields.filter((field) => field.resolved === null && !choices[mergeFieldKey(field)]);
+  const savedBy = theirs._metadata?.updatedBy ?? 'Another admin';
+  const savedAt = theirs._metadata?.updatedAt ? ` at ${new Date(theirs._metadata.updatedAt).toLocaleString()}` : '';
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-4xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Settings Changed While You Were Editing</AlertDialogTitle>
+          <AlertDialogDescription>
+            {savedBy} saved these settings{savedAt}. Your draft was not saved. Choose which value to keep where you
+            both changed the same setting; the merged result is loaded into your draft for review.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="overflow-x-auto rounded border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">Setting</th>
+                <th className="px-4 py-2 text-left font-medium">Original</th>
+                <th className="px-4 py-2 text-left font-medium">Mine</th>
+                <th className="px-4 py-2 text-left font-medium">Theirs</th>
+                <th className="px-4 py-2 text-left font-medium">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {fields.map((field) => {
+                const key = mergeFieldKey(field);
+                const side = choices[key] ?? field.resolved;
+                return (
+                  <tr key={key} className={field.resolved === null ? 'bg-yellow-500/10' : undefined}>
+                    <td className="px-4 py-2 align-top">{settingsPathLabel(field.path)}</td>
+                    <td className="px-4 py-2 align-top font-mono text-muted-foreground">
+                      {formatSettingValue(field.base)}
+                    </td>
+                    <td className={`px-4 py-2 align-top font-mono ${side === 'mine' ? 'font-semibold' : ''}`}>
+                      {formatSettingValue(field.mine)}
+                    </td>
+                    <td className={`px-4 py-2 align-top font-mono ${side === 'theirs' ? 'font-semibold' : ''}`}>
+                      {formatSettingValue(field.theirs)}
+                    </td>
+                    <td className="px-4 py-2 align-top">
+                      {field.resolved === null ? (
+                        <div className="flex gap-1">
+                          {(['mine', 'theirs'] as const).map((option) => (
+                            <Button
+                              key={option}
+                              size="sm"
+                              variant={choices[key] === option ? 'default' : 'outline'}
+                              onClick={() => setChoices((current) => ({ ...current, [key]: option }))}
+                            >
+                              {SIDE_LABELS[option]}
+                            </Button>
+                          ))}
+                        </div>
+                      ) : (
+                        <Badge variant="secondary">{field.resolved === 'mine' ? 'Yours' : 'Theirs'} (automatic)</Badge>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={onDiscard}>
+            Discard My Changes
+          </Button>
+          <Button onClick={() => onResolve(applyMerge(theirs, fields, choices))} disabled={unresolved.length > 0}>
+            {unresolved.length > 0
+              ? `Resolve ${unresolved.length} conflict${unresolved.length === 1 ? '' : 's'}`
+              : 'Load Merged Draft'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback, memo } from 'react';
+import { guildApi } from '../../lib/api/guilds.ts';
+import { diffSettings, formatSettingValue, settingsPathLabel } from '../../utils/settingsDiff.ts';
+import type { SettingsRevision } from '../../types/index.ts';
+import { LoadingSpinner } from '@/components/loading-spinner.js';
+import { ErrorDisplay } from '@/components/error-display.js';
+import { Button } from '@/components/ui/button.js';
+import { RotateCcw } from 'lucide-react';
+
+interface SettingsHistoryTabProps {
+  guildId: string;
+  /**
+   * Load a revision into the draft for review; nothing is saved here
+   */
+  onRestore: (revision: SettingsRevision) => void;
+}
+
+const revisionAuthor = (revision: SettingsRevision) =>
+  revision.user?.globalName || revision.user?.username || revision.userId;
+
+/**
+ * SettingsHistoryTab Component - Single Responsibility: List settings revisions
+ *
+ * Each revision is diffed against the one before it.
+ */
+const SettingsHistoryTabComponent = ({ guildId, onRestore }: SettingsHistoryTabProps) => {
+  const [revisions, setRevisions] = useState<SettingsRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRevisions(await guildApi.getSettingsHistory(guildId));
+    } catch (err: unknown) {
+      const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
+      setError(errorObj.response?.data?.message || errorObj.message || 'Failed to load settings history');
+    } finally {
+      setLoading(false);
+    }
+  }, [guildId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <LoadingSpinner size="md" />
+        <span className="ml-2 text-muted-foreground">Loading settings history...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorDisplay error={error} onRetry={fetchHistory} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-foreground">Settings History</h3>
+        <span className="text-sm text-muted-foreground">{revisions.length} revisions</span>
+      </div>
+
+      {revisions.length === 0 ? (
+        <div className="text-muted-foreground text-center py-8">No saved revisions yet</div>
+      ) : (
+        <ol className="space-y-4">
+          {revisions.map((revision, index) => {
+            const previous = revisions[index + 1];
+            const changes = previous ? diffSettings(previous.settings, revision.settings) : [];
+            return (
+              <li key={revision.id} className="rounded-lg border bg-card p-4 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium">
+                      {new Date(revision.createdAt).toLocaleString()}
+                      {index === 0 && (
+                        <span className="ml-2 rounded bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                          Current
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Saved by {revisionAuthor(revision)}</div>
+                  </div>
+                  {index > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => onRestore(revision)}>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Restore this version
+                    </Button>
+                  )}
+                </div>
+
+                {!previous ? (
+                  <p className="text-sm text-muted-foreground">Oldest revision on record</p>
+                ) : changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No changes from the previous revision</p>
+                ) : (
+                  <table className="w-full text-left text-sm">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="p-2 font-semibold">Setting</th>
+                        <th className="p-2 font-semibold">Before</th>
+                        <th className="p-2 font-semibold">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changes.map((change) => (
+                        <tr key={change.path.join('.')} className="border-b border-border last:border-0">
+                          <td className="p-2">{settingsPathLabel(change.path)}</td>
+                          <td className="p-2 font-mono text-red-600 line-through">
+                            {formatSettingValue(change.before)}
+                          </td>
+                          <td className="p-2 font-mono text-green-600">{formatSettingValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export const SettingsHistoryTab = memo(SettingsHistoryTabComponent);
@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useChannelsStore } from '../../stores/index.ts';
+import { useRetainResource } from '../../hooks/useRetainResource.ts';
+import { cacheKeys } from '../../lib/cache/index.ts';
+import {
+  applyChannelMappings,
+  mapChannels,
+  selectableChannels,
+  type ChannelField,
+  type ChannelMapping,
+  type SettingsExport,
+} from '../../utils/settingsTransfer.ts';
+import { diffSettings, settingsPathLabel } from '../../utils/settingsDiff.ts';
+import type { GuildSettingsType } from '../../types/index.ts';
+import { Button } from '@/components/ui/button.js';
+import { Badge } from '@/components/ui/badge.js';
+import { LoadingSpinner } from '@/components/loading-spinner.js';
+import { ErrorDisplay } from '@/components/error-display.js';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.js';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.js';
+
+interface SettingsImportDialogProps {
+  guildId: string;
+  document: SettingsExport;
+  /**
+   * Settings the import is compared against (the draft in edit mode)
+   */
+  currentSettings: GuildSettingsType;
+  onCancel: () => void;
+  onConfirm: (settings: GuildSettingsType) => void;
+}
+
+const FIELD_LABELS: Record<ChannelField, string> = {
+  bot_command_channels: 'Bot command',
+  register_command_channels: 'Register command',
+};
+
+const MATCH_BADGES: Record<ChannelMapping['match'], { label: string; variant: 'outline' | 'secondary' | 'destructive' }> = {
+  id: { label: 'Same channel', variant: 'outline' },
+  name: { label: 'Matched by name', variant: 'secondary' },
+  missing: { label: 'Not found', variant: 'destructive' },
+};
+
+// Select value for leaving a channel out of the import
+const SKIP_CHANNEL = '__skip__';
+
+const mappingKey = (mapping: ChannelMapping) => `${mapping.field}:${mapping.source.id}`;
+
+/**
+ * SettingsImportDialog - Single responsibility: Review imported settings before they reach the draft
+ * Channels are remapped to this guild's channels; ones that can't be found must be picked or skipped.
+ */
+export function SettingsImportDialog({ guildId, document, currentSettings, onCancel, onConfirm }: SettingsImportDialogProps) {
+  const fetchChannels = useChannelsStore((state) => state.fetchChannels);
+  const cachedChannels = useChannelsStore((state) => state.channels[guildId]);
+  const channelsLoading = useChannelsStore((state) => state.loading);
+  const channelsError = useChannelsStore((state) => state.error);
+  useRetainResource(cacheKeys.channels(guildId));
+
+  // Channel ID (or SKIP_CHANNEL) chosen by the admin, keyed by mappingKey
+  const [choices, setChoices] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchChannels(guildId);
+  }, [guildId, fetchChannels]);
+
+  const guildChannels = useMemo(() => cachedChannels ?? [], [cachedChannels]);
+  const channelOptions = useMemo(() => selectableChannels(guildChannels), [guildChannels]);
+  const suggested = useMemo(() => mapChannels(document.settings, guildChannels), [document, guildChannels]);
+
+  const mappings = suggested.map((mapping): ChannelMapping => {
+    const choice = choices[mappingKey(mapping)];
+    if (choice === undefined) return mapping;
+    const channel = channelOptions.find((option) => option.id === choice);
+    return { ...mapping, target: channel ? { id: channel.id, name: channel.name } : null };
+  });
+  const unresolved = suggested.filter((mapping) => mapping.match === 'missing' && !(mappingKey(mapping) in choices));
+
+  const imported = applyChannelMappings(document.settings, mappings);
+  const changes = diffSettings(currentSettings, { ...currentSettings, ...imported });
+  const channelsReady = !channelsLoading || guildChannels.length > 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Settings</DialogTitle>
+          <DialogDescription>
+            From {document.source.guildName}
+            {document.exportedAt && `, exported ${new Date(document.exportedAt).toLocaleString()}`}. The settings are
+            loaded into the draft; nothing is saved until you click Save Changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {channelsError && guildChannels.length === 0 ? (
+          <ErrorDisplay error={channelsError} onRetry={() => fetchChannels(guildId)} />
+        ) : !channelsReady ? (
+          <div className="flex items-center justify-center p-8">
+            <LoadingSpinner size="md" />
+            <span className="ml-2 text-muted-foreground">Loading channels...</span>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Channels</h3>
+              {mappings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The import has no command channels.</p>
+              ) : (
+                <div className="overflow-x-auto rounded border">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium">Setting</th>
+                        <th className="px-4 py-2 text-left font-medium">Imported channel</th>
+                        <th className="px-4 py-2 text-left font-medium">Channel in this guild</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {mappings.map((mapping) => {
+                        const key = mappingKey(mapping);
+                        const badge = MATCH_BADGES[mapping.match];
+                        return (
+                          <tr key={key}>
+                            <td className="px-4 py-2 text-muted-foreground">{FIELD_LABELS[mapping.field]}</td>
+                            <td className="px-4 py-2">
+                              <div>#{mapping.source.name}</div>
+                              <Badge variant={badge.variant} className="mt-1">
+                                {badge.label}
+                              </Badge>
+                            </td>
+                            <td className="px-4 py-2">
+                              <Select
+                                value={choices[key] ?? mapping.target?.id ?? ''}
+                                onValueChange={(value) => setChoices((prev) => ({ ...prev, [key]: value }))}
+                              >
+                                <SelectTrigger
+                                  className="w-48"
+                                  aria-label={`Channel for ${FIELD_LABELS[mapping.field].toLowerCase()} #${mapping.source.name}`}
+                                >
+                                  <SelectValue placeholder="Choose a channel" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={SKIP_CHANNEL}>Don't import</SelectItem>
+                                  {channelOptions.map((channel) => (
+                                    <SelectItem key={channel.id} value={channel.id}>
+                                      #{channel.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {unresolved.length > 0 && (
+                <p className="text-sm text-red-600">
+                  {unresolved.length} channel{unresolved.length === 1 ? ' was' : 's were'} not found in this guild.
+                  Choose a replacement or select Don't import.
+                </p>
+              )}
+            </section>
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Changes to the draft</h3>
+              {changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The import matches the current settings.</p>
+              ) : (
+                <ul className="list-disc space-y-1 pl-5 text-sm">
+                  {changes.map((change) => (
+                    <li key={change.path.join('.')}>{settingsPathLabel(change.path)}</li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(imported)} disabled={!channelsReady || unresolved.length > 0}>
+            Load into Draft
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
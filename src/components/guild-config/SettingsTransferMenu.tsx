@@ -0,0 +1,162 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { useSettingsStore } from '../../stores/index.ts';
+import { useGuilds } from '../../hooks/useGuilds.ts';
+import { guildApi } from '../../lib/api/guilds.ts';
+import {
+  createSettingsExport,
+  parseSettingsExport,
+  settingsExportFilename,
+  type SettingsExport,
+} from '../../utils/settingsTransfer.ts';
+import type { Guild, GuildSettingsType } from '../../types/index.ts';
+import { SettingsImportDialog } from './SettingsImportDialog.tsx';
+import { Button } from '@/components/ui/button.js';
+import { toast } from '@/components/ui/use-toast.js';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu.js';
+import { ArrowLeftRight, Copy, Download, Upload } from 'lucide-react';
+
+interface SettingsTransferMenuProps {
+  guildId: string;
+  isEditMode: boolean;
+  /**
+   * Called with reviewed, remapped settings to load into the draft
+   */
+  onImport: (settings: GuildSettingsType, sourceName: string) => void;
+}
+
+function downloadJson(filename: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * SettingsTransferMenu - Single responsibility: Move settings between guilds
+ * Exports saved settings as JSON, and imports from a file or another guild the user administers.
+ */
+export function SettingsTransferMenu({ guildId, isEditMode, onImport }: SettingsTransferMenuProps) {
+  const savedSettings = useSettingsStore((state) => state.settings[guildId] || null);
+  const draftSettings = useSettingsStore((state) => state.drafts[guildId]?.settings ?? null);
+  const { guilds } = useGuilds();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<SettingsExport | null>(null);
+  const [copyingFrom, setCopyingFrom] = useState<string | null>(null);
+
+  const guild = guilds.find((g) => g.id === guildId);
+  const otherAdminGuilds = guilds.filter((g) => g.id !== guildId && g.roles.includes('admin'));
+  const currentSettings = (isEditMode && draftSettings) || savedSettings || {};
+
+  const handleExport = () => {
+    if (!savedSettings) return;
+    const exported = createSettingsExport({ id: guildId, name: guild?.name ?? guildId }, savedSettings);
+    downloadJson(settingsExportFilename(exported), exported);
+  };
+
+  const handleFileSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseSettingsExport(await file.text());
+    if (result.success === false) {
+      toast({ variant: 'destructive', title: 'Could not import settings', description: result.error });
+      return;
+    }
+    setPendingImport(result.document);
+  };
+
+  const handleCopyFrom = async (source: Guild) => {
+    setCopyingFrom(source.id);
+    try {
+      const settings = await guildApi.getGuildSettings(source.id);
+      setPendingImport(createSettingsExport(source, settings));
+    } catch (err: unknown) {
+      const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
+      toast({
+        variant: 'destructive',
+        title: `Could not load settings from ${source.name}`,
+        description: errorObj.response?.data?.message || errorObj.message || 'Failed to load settings',
+      });
+    } finally {
+      setCopyingFrom(null);
+    }
+  };
+
+  const handleConfirm = (settings: GuildSettingsType) => {
+    if (!pendingImport) return;
+    onImport(settings, pendingImport.source.guildName);
+    setPendingImport(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={copyingFrom !== null}>
+            <ArrowLeftRight className="mr-2 h-4 w-4" />
+            {copyingFrom !== null ? 'Loading...' : 'Import / Export'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={handleExport} disabled={!savedSettings}>
+            <Download className="mr-2 h-4 w-4" />
+            Export as JSON
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import from file...
+          </DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger disabled={otherAdminGuilds.length === 0}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy from guild
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {otherAdminGuilds.map((source) => (
+                <DropdownMenuItem key={source.id} onSelect={() => handleCopyFrom(source)}>
+                  {source.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        aria-label="Settings export file"
+        onChange={handleFileSelected}
+      />
+
+      {pendingImport && (
+        <SettingsImportDialog
+          key={`${pendingImport.source.guildId}:${pendingImport.exportedAt}`}
+          guildId={guildId}
+          document={pendingImport}
+          currentSettings={currentSettings}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={handleConfirm}
+        />
+      )}
+    </>
+  );
+}
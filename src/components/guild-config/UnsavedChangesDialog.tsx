@@ -0,0 +1,40 @@
+import type { Blocker } from 'react-router-dom';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog.js';
+import { Button } from '@/components/ui/button.js';
+
+interface UnsavedChangesDialogProps {
+  blocker: Blocker;
+}
+
+/**
+ * UnsavedChangesDialog - Single responsibility: Confirm leaving the settings page with a dirty draft
+ * Leaving keeps the draft on this device, so it can be resumed on return.
+ */
+export function UnsavedChangesDialog({ blocker }: UnsavedChangesDialogProps) {
+  return (
+    <AlertDialog open={blocker.state === 'blocked'}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Leave with unsaved changes?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your changes to this guild's settings have not been saved. They are kept as a draft on this device, and
+            you can resume editing when you come back.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={() => blocker.reset?.()}>
+            Stay on Page
+          </Button>
+          <Button onClick={() => blocker.proceed?.()}>Leave</Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
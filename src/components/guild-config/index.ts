@@ -1,4 +1,5 @@
 export { BotCommandChannelsSection } from './BotCommandChannelsSection.tsx';
 export { RegisterCommandChannelsSection } from './RegisterCommandChannelsSection.tsx';
+export { RolePermissionsSection } from './RolePermissionsSection.tsx';
 export { AuditLogTab } from './AuditLogTab.tsx';
 
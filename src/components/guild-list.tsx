@@ -6,7 +6,7 @@ import { cn } from "@/lib/utils.js"
 interface Guild {
   id: string
   name: string
-  icon?: string
+  icon?: string | null
   roles: string[]
 }
 
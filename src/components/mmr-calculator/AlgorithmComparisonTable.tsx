@@ -0,0 +1,94 @@
+import type { AlgorithmComparison, MmrPlaylist } from '@/lib/api/mmr-calculation.js';
+
+interface AlgorithmComparisonTableProps {
+  results: AlgorithmComparison[];
+}
+
+const ALGORITHM_LABELS: Record<AlgorithmComparison['algorithm'], string> = {
+  WEIGHTED_AVERAGE: 'Weighted Average',
+  PEAK_MMR: 'Peak MMR',
+  ASCENDANCY: 'Ascendancy',
+  CUSTOM: 'Custom Formula',
+};
+
+const PLAYLISTS: Array<{ key: MmrPlaylist; label: string }> = [
+  { key: 'ones', label: '1v1' },
+  { key: 'twos', label: '2v2' },
+  { key: 'threes', label: '3v3' },
+  { key: 'fours', label: '4v4' },
+];
+
+const formatPoints = (value: number) => Math.round(value).toLocaleString();
+
+/**
+ * AlgorithmComparisonTable - Single responsibility: Show one input under every algorithm
+ * Each column is an algorithm; playlist rows show how many MMR points that playlist contributed.
+ */
+export function AlgorithmComparisonTable({ results }: AlgorithmComparisonTableProps) {
+  const hasCustom = results.some((comparison) => comparison.algorithm === 'CUSTOM' && comparison.result !== null);
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium">
+                <span className="sr-only">Row</span>
+              </th>
+              {results.map((comparison) => (
+                <th key={comparison.algorithm} scope="col" className="px-4 py-2 text-right font-medium">
+                  {ALGORITHM_LABELS[comparison.algorithm]}
+                  {comparison.active && (
+                    <span className="block text-xs font-normal text-muted-foreground">This guild</span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            <tr>
+              <th scope="row" className="px-4 py-2 text-left font-semibold">
+                MMR
+              </th>
+              {results.map((comparison) => (
+                <td
+                  key={comparison.algorithm}
+                  className={`px-4 py-2 text-right ${comparison.active ? 'bg-muted/50 font-semibold' : ''}`}
+                >
+                  {comparison.result !== null ? (
+                    comparison.result.toLocaleString()
+                  ) : (
+                    <span className="text-xs text-red-600">{comparison.error}</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+            {PLAYLISTS.map(({ key, label }) => (
+              <tr key={key}>
+                <th scope="row" className="px-4 py-2 text-left font-normal text-muted-foreground">
+                  {label}
+                </th>
+                {results.map((comparison) => {
+                  const points = comparison.contributions[key];
+                  return (
+                    <td
+                      key={comparison.algorithm}
+                      className={`px-4 py-2 text-right ${comparison.active ? 'bg-muted/50' : ''}`}
+                    >
+                      {points !== undefined ? formatPoints(points) : <span className="text-muted-foreground">-</span>}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Playlist rows show the MMR points each playlist contributed; a dash means the playlist was not used.
+        {hasCustom && ' For the custom formula, they show how much the result drops when that rating is 0.'}
+      </p>
+    </div>
+  );
+}
@@ -4,8 +4,22 @@ import { Label } from '@/components/ui/label.js';
 import { Input } from '@/components/ui/input.js';
 import { Button } from '@/components/ui/button.js';
 import { Alert, AlertDescription } from '@/components/ui/alert.js';
-import { mmrCalculationApi, type TrackerData } from '@/lib/api/mmr-calculation.js';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.js';
+import { Switch } from '@/components/ui/switch.js';
+import { mmrCalculationApi, type AlgorithmComparison, type TrackerData } from '@/lib/api/mmr-calculation.js';
 import { useSettingsStore } from '@/stores/index.js';
+import { useTrackersStore } from '@/stores/trackersStore.js';
+import { useRetainResource } from '@/hooks/useRetainResource.js';
+import { useMyTrackers } from '@/hooks/useMyTrackers.js';
+import {
+  MMR_DATA_SOURCES,
+  MMR_DATA_SOURCE_LABELS,
+  getTrackerData,
+  parseMmrDataSource,
+  type MmrDataSource,
+} from '@/utils/trackerData.js';
+import { cacheKeys } from '@/lib/cache/index.js';
+import { AlgorithmComparisonTable } from './AlgorithmComparisonTable.js';
 import { Calculator } from 'lucide-react';
 
 interface MmrCalculatorProps {
@@ -47,6 +61,7 @@ export function MmrCalculator({ guildId }: MmrCalculatorProps) {
   const loadSettings = useSettingsStore((state) => state.loadSettings);
   const allSettings = useSettingsStore((state) => state.settings[guildId] || null);
   const mmrConfig = allSettings?.mmrCalculation;
+  useRetainResource(cacheKeys.settings(guildId));
 
   // Load settings on mount
   useEffect(() => {
@@ -55,10 +70,14 @@ export function MmrCalculator({ guildId }: MmrCalculatorProps) {
     }
   }, [guildId, allSettings, loadSettings]);
 
+  // Comparison mode runs every algorithm, so it needs every playlist
+  const [compareMode, setCompareMode] = useState(false);
+  const [comparison, setComparison] = useState<AlgorithmComparison[] | null>(null);
+
   // Determine which playlists to show
   const requiredPlaylists = useMemo(
-    () => getRequiredPlaylists(mmrConfig?.algorithm, mmrConfig),
-    [mmrConfig],
+    () => (compareMode ? getRequiredPlaylists(undefined, undefined) : getRequiredPlaylists(mmrConfig?.algorithm, mmrConfig)),
+    [compareMode, mmrConfig],
   );
 
   const [calculatorData, setCalculatorData] = useState<TrackerData>({
@@ -71,18 +90,63 @@ export function MmrCalculator({ guildId }: MmrCalculatorProps) {
     threesGamesPlayed: undefined,
     foursGamesPlayed: undefined,
   });
+  const { myTrackers } = useMyTrackers();
+  const loadTrackerDetail = useTrackersStore((state) => state.loadTrackerDetail);
+  const [selectedTrackerId, setSelectedTrackerId] = useState<string>('');
+  const [dataSource, setDataSource] = useState<MmrDataSource>('scrape');
+  const [loadingTracker, setLoadingTracker] = useState(false);
   const [calculatedResult, setCalculatedResult] = useState<number | null>(null);
   const [calculatedAlgorithm, setCalculatedAlgorithm] = useState<string | null>(null);
   const [calculating, setCalculating] = useState(false);
   const [calculationError, setCalculationError] = useState<string | null>(null);
 
+  /**
+   * Fill the inputs from one of the user's trackers (latest scrape or latest snapshot)
+   */
+  const handleLoadFromTracker = async () => {
+    const trackerId = selectedTrackerId || myTrackers[0]?.id;
+    if (!trackerId) return;
+
+    setLoadingTracker(true);
+    setCalculationError(null);
+    try {
+      const detail = await loadTrackerDetail(trackerId);
+      const trackerData = getTrackerData(detail, dataSource);
+      if (!trackerData) {
+        setCalculationError(
+          dataSource === 'snapshot'
+            ? 'This tracker has no manual snapshots yet'
+            : 'This tracker has no scraped seasons yet',
+        );
+        return;
+      }
+      setCalculatorData(trackerData);
+      setCalculatedResult(null);
+      setCalculatedAlgorithm(null);
+      setComparison(null);
+    } catch (error: unknown) {
+      const errorObj = error as { response?: { data?: { message?: string } }; message?: string };
+      setCalculationError(
+        errorObj.response?.data?.message || errorObj.message || 'Failed to load tracker data',
+      );
+    } finally {
+      setLoadingTracker(false);
+    }
+  };
+
   const handleCalculateMmr = async () => {
     setCalculating(true);
     setCalculationError(null);
     setCalculatedResult(null);
     setCalculatedAlgorithm(null);
+    setComparison(null);
 
     try {
+      if (compareMode) {
+        const result = await mmrCalculationApi.compareAlgorithms(guildId, calculatorData);
+        setComparison(result.results);
+        return;
+      }
       const result = await mmrCalculationApi.calculateMmrDemo(guildId, calculatorData);
       setCalculatedResult(result.result);
       setCalculatedAlgorithm(result.algorithm);
@@ -122,6 +186,61 @@ export function MmrCalculator({ guildId }: MmrCalculatorProps) {
             </AlertDescription>
           </Alert>
         )}
+        {myTrackers.length > 0 && (
+          <div className="flex flex-wrap items-end gap-2 rounded-md border p-3">
+            <div className="space-y-2">
+              <Label>Load from tracker</Label>
+              <Select value={selectedTrackerId || myTrackers[0].id} onValueChange={setSelectedTrackerId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {myTrackers.map((tracker) => (
+                    <SelectItem key={tracker.id} value={tracker.id}>
+                      {tracker.displayName || tracker.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Data source</Label>
+              <Select value={dataSource} onValueChange={(value) => setDataSource(parseMmrDataSource(value))}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MMR_DATA_SOURCES.map((source) => (
+                    <SelectItem key={source} value={source}>
+                      {MMR_DATA_SOURCE_LABELS[source]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={handleLoadFromTracker} disabled={loadingTracker}>
+              {loadingTracker ? 'Loading...' : 'Load'}
+            </Button>
+          </div>
+        )}
+        <div className="flex items-center justify-between rounded-md border p-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="compare-algorithms">Compare algorithms</Label>
+            <p className="text-xs text-muted-foreground">
+              Show these inputs under every algorithm side by side, with each playlist's contribution
+            </p>
+          </div>
+          <Switch
+            id="compare-algorithms"
+            checked={compareMode}
+            onCheckedChange={(checked) => {
+              setCompareMode(checked);
+              setCalculatedResult(null);
+              setCalculatedAlgorithm(null);
+              setComparison(null);
+            }}
+          />
+        </div>
         <div className="grid grid-cols-2 gap-4">
           {requiredPlaylists.map((playlist) => (
             <div key={playlist} className="space-y-2">
@@ -171,7 +290,7 @@ export function MmrCalculator({ guildId }: MmrCalculatorProps) {
           disabled={calculating}
           className="w-full sm:w-auto"
         >
-          {calculating ? 'Calculating...' : 'Calculate MMR'}
+          {calculating ? 'Calculating...' : compareMode ? 'Compare Algorithms' : 'Calculate MMR'}
         </Button>
 
         {calculatedResult !== null && (
@@ -190,6 +309,8 @@ export function MmrCalculator({ guildId }: MmrCalculatorProps) {
           </Alert>
         )}
 
+        {comparison && <AlgorithmComparisonTable results={comparison} />}
+
         {calculationError && (
           <Alert variant="destructive">
             <AlertDescription>
@@ -0,0 +1,236 @@
+import { useState, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { Crown, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.js';
+import { Input } from '@/components/ui/input.js';
+import { Button } from '@/components/ui/button.js';
+import { Skeleton } from '@/components/ui/skeleton.js';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.js';
+import { useTrackerComparison, type ComparedTracker } from '@/hooks/useTrackerComparison.js';
+import {
+  MAX_COMPARED_TRACKERS,
+  PLAYLIST_KEYS,
+  PLAYLIST_LABELS,
+  alignSeasons,
+  findLeaders,
+} from '@/utils/trackerComparison.js';
+import {
+  MMR_DATA_SOURCES,
+  MMR_DATA_SOURCE_LABELS,
+  parseMmrDataSource,
+  type MmrDataSource,
+} from '@/utils/trackerData.js';
+import type { PlaylistData } from '@/types/trackers.js';
+
+const ALGORITHM_LABELS: Record<string, string> = {
+  WEIGHTED_AVERAGE: 'Weighted Average',
+  PEAK_MMR: 'Peak MMR',
+  ASCENDANCY: 'Ascendancy',
+  CUSTOM: 'Custom Formula',
+};
+
+interface TrackerComparisonProps {
+  guildId: string;
+  trackerIds: string[];
+  onTrackerIdsChange: (trackerIds: string[]) => void;
+  source: MmrDataSource;
+  onSourceChange: (source: MmrDataSource) => void;
+}
+
+function leaderClass(isLeader: boolean) {
+  return isLeader ? 'bg-green-50 dark:bg-green-900/20 font-semibold' : '';
+}
+
+function TrackerHeader({
+  guildId,
+  tracker,
+  isMmrLeader,
+  onRemove,
+}: {
+  guildId: string;
+  tracker: ComparedTracker;
+  isMmrLeader: boolean;
+  onRemove: () => void;
+}) {
+  return (
+    <th className={`px-4 py-3 text-left align-top min-w-48 ${leaderClass(isMmrLeader)}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          {tracker.loading ? (
+            <Skeleton className="h-5 w-28" />
+          ) : tracker.detail ? (
+            <>
+              <Link to={`/dashboard/tracker/${tracker.trackerId}?guild=${guildId}`} className="text-blue-600 hover:underline">
+                {tracker.detail.tracker.username}
+              </Link>
+              <p className="text-xs font-normal text-muted-foreground">{tracker.detail.tracker.platform}</p>
+            </>
+          ) : (
+            <span className="font-mono text-sm">{tracker.trackerId}</span>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onRemove} aria-label="Remove from comparison">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {tracker.error && <p className="mt-1 text-xs font-normal text-red-600">{tracker.error}</p>}
+      <div className="mt-2 text-sm">
+        {tracker.mmr ? (
+          <span className="flex items-center gap-1">
+            {isMmrLeader && <Crown className="h-4 w-4 text-yellow-500" />}
+            MMR {Math.round(tracker.mmr.result)}
+          </span>
+        ) : tracker.mmrUnavailable ? (
+          <span className="text-xs font-normal text-muted-foreground">No data from this source</span>
+        ) : tracker.mmrError ? (
+          <span className="text-xs font-normal text-red-600">{tracker.mmrError}</span>
+        ) : tracker.detail ? (
+          <Skeleton className="h-4 w-20" />
+        ) : null}
+      </div>
+    </th>
+  );
+}
+
+function PlaylistCell({ playlist, isLeader }: { playlist: PlaylistData | null; isLeader: boolean }) {
+  if (!playlist) {
+    return <td className="px-4 py-2 text-sm text-gray-400">—</td>;
+  }
+  return (
+    <td className={`px-4 py-2 text-sm ${leaderClass(isLeader)}`}>
+      <div className="flex items-center gap-1">
+        {isLeader && <Crown className="h-3 w-3 text-yellow-500" />}
+        {playlist.rating ?? 'N/A'}
+      </div>
+      <div className="text-xs font-normal text-muted-foreground">
+        {[playlist.rank, playlist.division].filter(Boolean).join(' ') || 'Unranked'}
+        {playlist.matchesPlayed ? ` · ${playlist.matchesPlayed} games` : ''}
+      </div>
+    </td>
+  );
+}
+
+/**
+ * TrackerComparison - Single responsibility: Compare up to four trackers side by side
+ * Lines up their seasons, highlights the leader of each playlist and shows
+ * each player's MMR under the guild's configured algorithm.
+ */
+export function TrackerComparison({
+  guildId,
+  trackerIds,
+  onTrackerIdsChange,
+  source,
+  onSourceChange,
+}: TrackerComparisonProps) {
+  const [newTrackerId, setNewTrackerId] = useState('');
+  const trackers = useTrackerComparison(guildId, trackerIds, source);
+
+  const rows = alignSeasons(trackers.map((tracker) => tracker.detail?.seasons ?? []));
+  const mmrLeaders = findLeaders(trackers.map((tracker) => tracker.mmr?.result));
+  const algorithm = trackers.find((tracker) => tracker.mmr)?.mmr?.algorithm;
+  const canAdd = trackerIds.length < MAX_COMPARED_TRACKERS;
+
+  const handleAdd = (event: FormEvent) => {
+    event.preventDefault();
+    const trackerId = newTrackerId.trim();
+    if (!trackerId || !canAdd) return;
+    if (!trackerIds.includes(trackerId)) {
+      onTrackerIdsChange([...trackerIds, trackerId]);
+    }
+    setNewTrackerId('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Compare Trackers</CardTitle>
+        <CardDescription>
+          Compare up to {MAX_COMPARED_TRACKERS} trackers season by season.
+          {algorithm &&
+            ` MMR uses this guild's ${ALGORITHM_LABELS[algorithm] ?? algorithm} algorithm on each player's ${MMR_DATA_SOURCE_LABELS[source].toLowerCase()}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <form onSubmit={handleAdd} className="flex flex-1 gap-2 max-w-md">
+            <Input
+              value={newTrackerId}
+              onChange={(event) => setNewTrackerId(event.target.value)}
+              placeholder={canAdd ? 'Tracker ID' : `At most ${MAX_COMPARED_TRACKERS} trackers`}
+              disabled={!canAdd}
+            />
+            <Button type="submit" disabled={!canAdd || !newTrackerId.trim()}>
+              Add
+            </Button>
+          </form>
+          <Select value={source} onValueChange={(value) => onSourceChange(parseMmrDataSource(value))}>
+            <SelectTrigger className="w-44" aria-label="MMR data source">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MMR_DATA_SOURCES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {MMR_DATA_SOURCE_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {trackers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add tracker IDs to start comparing.</p>
+        ) : (
+          <div className="overflow-x-auto rounded border">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase align-top">Season</th>
+                  {trackers.map((tracker, index) => (
+                    <TrackerHeader
+                      key={tracker.trackerId}
+                      guildId={guildId}
+                      tracker={tracker}
+                      isMmrLeader={mmrLeaders.includes(index)}
+                      onRemove={() => onTrackerIdsChange(trackerIds.filter((id) => id !== tracker.trackerId))}
+                    />
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={trackers.length + 1} className="px-4 py-4 text-center text-sm text-gray-500">
+                      No season data available
+                    </td>
+                  </tr>
+                ) : (
+                  rows.flatMap((row) =>
+                    PLAYLIST_KEYS.map((playlistKey, playlistIndex) => {
+                      const playlists = row.seasons.map((season) => season?.[playlistKey] ?? null);
+                      const leaders = findLeaders(playlists.map((playlist) => playlist?.rating));
+                      return (
+                        <tr key={`${row.seasonNumber}-${playlistKey}`}>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm">
+                            {playlistIndex === 0 && <div className="font-medium">{row.seasonName}</div>}
+                            <div className="text-muted-foreground">{PLAYLIST_LABELS[playlistKey]}</div>
+                          </td>
+                          {playlists.map((playlist, index) => (
+                            <PlaylistCell
+                              key={trackers[index].trackerId}
+                              playlist={playlist}
+                              isLeader={leaders.includes(index)}
+                            />
+                          ))}
+                        </tr>
+                      );
+                    }),
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { TooltipProps } from 'recharts';
+import { playlistsWithData, type Playlist, type RatingHistoryRow } from '../../utils/ratingHistory.ts';
+
+const PLAYLIST_COLORS: Record<Playlist, string> = {
+  '1v1': '#f97316',
+  '2v2': '#2563eb',
+  '3v3': '#16a34a',
+  '4v4': '#9333ea',
+};
+
+interface RatingHistoryChartProps {
+  title: string;
+  rows: RatingHistoryRow[];
+  emptyMessage: string;
+}
+
+function RatingTooltip({ active, payload, label }: TooltipProps<number, string>) {
+  if (!active || !payload?.length) return null;
+  const row = payload[0].payload as RatingHistoryRow;
+
+  return (
+    <div className="rounded border bg-white p-3 text-sm shadow-md">
+      <p className="mb-1 font-medium">{label}</p>
+      {payload.map((item) => {
+        const playlist = item.dataKey as Playlist;
+        const details = row.details[playlist];
+        if (!details) return null;
+        return (
+          <div key={playlist} className="py-0.5">
+            <span className="font-medium" style={{ color: PLAYLIST_COLORS[playlist] }}>
+              {playlist}: {details.rating}
+            </span>
+            {(details.rank || details.division) && (
+              <span className="text-gray-600">
+                {' '}
+                · {[details.rank, details.division].filter(Boolean).join(' ')}
+              </span>
+            )}
+            {details.matchesPlayed !== null && (
+              <span className="text-gray-500"> · {details.matchesPlayed} games</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * RatingHistoryChart - Single responsibility: Plot MMR per playlist over time
+ * Playlist toggles hide lines so one trajectory can be read on its own.
+ */
+export function RatingHistoryChart({ title, rows, emptyMessage }: RatingHistoryChartProps) {
+  const [hidden, setHidden] = useState<Set<Playlist>>(new Set());
+  const playlists = playlistsWithData(rows);
+
+  const togglePlaylist = (playlist: Playlist) => {
+    setHidden((current) => {
+      const next = new Set(current);
+      if (next.has(playlist)) {
+        next.delete(playlist);
+      } else {
+        next.add(playlist);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold">{title}</h2>
+        {playlists.length > 0 && (
+          <div className="flex gap-2" role="group" aria-label="Playlists">
+            {playlists.map((playlist) => {
+              const visible = !hidden.has(playlist);
+              return (
+                <button
+                  key={playlist}
+                  type="button"
+                  aria-pressed={visible}
+                  onClick={() => togglePlaylist(playlist)}
+                  className={`px-3 py-1 rounded-full border text-sm font-medium ${
+                    visible ? 'text-white' : 'bg-white text-gray-500'
+                  }`}
+                  style={visible ? { backgroundColor: PLAYLIST_COLORS[playlist], borderColor: PLAYLIST_COLORS[playlist] } : undefined}
+                >
+                  {playlist}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+      <div className="p-6">
+        {playlists.length === 0 ? (
+          <p className="text-center text-gray-500">{emptyMessage}</p>
+        ) : (
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis domain={['auto', 'auto']} tick={{ fontSize: 12 }} width={48} />
+                <Tooltip content={<RatingTooltip />} />
+                <Legend />
+                {playlists.map((playlist) => (
+                  <Line
+                    key={playlist}
+                    type="monotone"
+                    dataKey={playlist}
+                    name={playlist}
+                    stroke={PLAYLIST_COLORS[playlist]}
+                    strokeWidth={2}
+                    dot={{ r: 4 }}
+                    activeDot={{ r: 6 }}
+                    connectNulls
+                    hide={hidden.has(playlist)}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button.js';
+import { Input } from '@/components/ui/input.js';
+import { Label } from '@/components/ui/label.js';
+import { Alert, AlertDescription } from '@/components/ui/alert.js';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.js';
+import { toast } from '@/components/ui/use-toast.js';
+import { useTrackersStore } from '@/stores/trackersStore.js';
+import type { CreateTrackerSnapshotInput } from '@/types/trackers.js';
+
+const PLAYLISTS = [
+  { label: '1v1', rating: 'ones', games: 'onesGamesPlayed' },
+  { label: '2v2', rating: 'twos', games: 'twosGamesPlayed' },
+  { label: '3v3', rating: 'threes', games: 'threesGamesPlayed' },
+  { label: '4v4', rating: 'fours', games: 'foursGamesPlayed' },
+] as const;
+
+type NumberField = (typeof PLAYLISTS)[number]['rating'] | (typeof PLAYLISTS)[number]['games'] | 'seasonNumber';
+
+interface SnapshotFormProps {
+  trackerId: string;
+  guildId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Current time in the format of a datetime-local input
+ */
+function nowForInput(): string {
+  const date = new Date();
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+}
+
+/**
+ * SnapshotForm - Record a manual tracker snapshot (admin only)
+ * Used when scraping fails or a player appeals their scraped ratings.
+ */
+export function SnapshotForm({ trackerId, guildId, open, onOpenChange }: SnapshotFormProps) {
+  const createSnapshot = useTrackersStore((state) => state.createSnapshot);
+  const [values, setValues] = useState<Partial<Record<NumberField, string>>>({});
+  const [capturedAt, setCapturedAt] = useState(nowForInput);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setValues({});
+    setCapturedAt(nowForInput());
+    setError(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const buildInput = (): CreateTrackerSnapshotInput | string => {
+    const input: CreateTrackerSnapshotInput = { guildId };
+    for (const [field, raw] of Object.entries(values) as [NumberField, string | undefined][]) {
+      if (!raw?.trim()) continue;
+      const value = Number(raw);
+      if (!Number.isInteger(value) || value < 0) {
+        return 'Ratings, games played and season must be whole numbers of 0 or more';
+      }
+      input[field] = value;
+    }
+    if (PLAYLISTS.every((playlist) => input[playlist.rating] === undefined)) {
+      return 'Enter a rating for at least one playlist';
+    }
+    if (capturedAt) {
+      input.capturedAt = new Date(capturedAt).toISOString();
+    }
+    return input;
+  };
+
+  const handleSave = async () => {
+    const input = buildInput();
+    if (typeof input === 'string') {
+      setError(input);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await createSnapshot(trackerId, input);
+      toast({ title: 'Snapshot recorded', description: 'The manual snapshot was added to this tracker.' });
+      handleOpenChange(false);
+    } catch (err: unknown) {
+      const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
+      setError(errorObj.response?.data?.message || errorObj.message || 'Failed to record snapshot');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldInput = (field: NumberField, label: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`snapshot-${field}`} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={`snapshot-${field}`}
+        type="number"
+        min={0}
+        inputMode="numeric"
+        value={values[field] ?? ''}
+        onChange={(e) => setValues((current) => ({ ...current, [field]: e.target.value }))}
+        disabled={saving}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Snapshot</DialogTitle>
+          <DialogDescription>
+            Enter ratings by hand when scraping fails or a player appeals. Leave playlists blank if unknown.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="snapshot-capturedAt" className="text-xs">
+                Captured at
+              </Label>
+              <Input
+                id="snapshot-capturedAt"
+                type="datetime-local"
+                value={capturedAt}
+                onChange={(e) => setCapturedAt(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            {fieldInput('seasonNumber', 'Season (optional)')}
+          </div>
+
+          {PLAYLISTS.map((playlist) => (
+            <div key={playlist.label} className="grid grid-cols-2 gap-4">
+              {fieldInput(playlist.rating, `${playlist.label} MMR`)}
+              {fieldInput(playlist.games, `${playlist.label} games played`)}
+            </div>
+          ))}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Snapshot'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,82 @@
+import type { TrackerSnapshot } from '../../types/trackers.ts';
+
+const PLAYLISTS = [
+  { label: '1v1', rating: 'ones', games: 'onesGamesPlayed' },
+  { label: '2v2', rating: 'twos', games: 'twosGamesPlayed' },
+  { label: '3v3', rating: 'threes', games: 'threesGamesPlayed' },
+  { label: '4v4', rating: 'fours', games: 'foursGamesPlayed' },
+] as const;
+
+interface SnapshotHistoryProps {
+  snapshots: TrackerSnapshot[];
+}
+
+/**
+ * SnapshotHistory - Manual snapshots of a tracker, newest first,
+ * with who entered each one and when
+ */
+export function SnapshotHistory({ snapshots }: SnapshotHistoryProps) {
+  const sorted = [...snapshots].sort(
+    (a, b) => new Date(b.capturedAt).getTime() - new Date(a.capturedAt).getTime(),
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="px-6 py-4 border-b">
+        <h2 className="text-xl font-semibold">Snapshot History</h2>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Captured</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Entered By</th>
+              {PLAYLISTS.map((playlist) => (
+                <th key={playlist.label} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  {playlist.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {sorted.length === 0 ? (
+              <tr>
+                <td colSpan={PLAYLISTS.length + 2} className="px-6 py-4 text-center text-gray-500">
+                  No manual snapshots recorded
+                </td>
+              </tr>
+            ) : (
+              sorted.map((snapshot) => (
+                <tr key={snapshot.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium">{new Date(snapshot.capturedAt).toLocaleString()}</div>
+                    {snapshot.seasonNumber !== undefined && (
+                      <div className="text-xs text-gray-500">Season {snapshot.seasonNumber}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm">{snapshot.enteredBy}</td>
+                  {PLAYLISTS.map((playlist) => {
+                    const rating = snapshot[playlist.rating];
+                    const games = snapshot[playlist.games];
+                    return (
+                      <td key={playlist.label} className="px-6 py-4">
+                        {rating !== undefined ? (
+                          <div className="text-sm">
+                            <div className="font-medium">MMR: {rating}</div>
+                            {games !== undefined && <div className="text-xs text-gray-500">{games} games</div>}
+                          </div>
+                        ) : (
+                          <span className="text-sm text-gray-400">—</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
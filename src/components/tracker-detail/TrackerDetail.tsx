@@ -1,31 +1,71 @@
-import { useEffect } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useTrackersStore } from '../../stores/trackersStore.ts';
+import { useAuthStore } from '../../stores/authStore.ts';
+import { useScrapingStatus } from '../../hooks/useScrapingStatus.ts';
+import { useGuildPermissions } from '../../hooks/useGuildPermissions.ts';
+import { isScrapingActive } from '../../lib/api/statusPolling.ts';
+import { buildSeasonHistory, buildSnapshotHistory } from '../../utils/ratingHistory.ts';
+import { RatingHistoryChart } from './RatingHistoryChart.tsx';
+import { SnapshotForm } from './SnapshotForm.tsx';
+import { SnapshotHistory } from './SnapshotHistory.tsx';
+import { TrackerHistory } from '../tracker-management/TrackerHistory.tsx';
 import type { TrackerSeason, PlaylistData } from '../../types/trackers.ts';
 
 interface TrackerDetailProps {
   trackerId: string;
+  /**
+   * Guild the tracker is viewed from; its admins can record manual snapshots,
+   * and its audit log provides the change history
+   */
+  guildId?: string | null;
 }
 
-export function TrackerDetail({ trackerId }: TrackerDetailProps) {
-  const { trackerDetail, loading, error, getTrackerDetail, refreshTracker, getScrapingStatus } = useTrackersStore();
+export function TrackerDetail({ trackerId, guildId = null }: TrackerDetailProps) {
+  const { trackerDetail, loading, error, getTrackerDetail, refreshTracker, restoreTracker } = useTrackersStore();
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const { scrapingStatus, checkNow } = useScrapingStatus(trackerId);
+  const { isAdmin } = useGuildPermissions(guildId);
+  const [snapshotFormOpen, setSnapshotFormOpen] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
 
   useEffect(() => {
     if (trackerId) {
       getTrackerDetail(trackerId);
-      getScrapingStatus(trackerId);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [trackerId]);
 
+  const seasonHistory = useMemo(() => buildSeasonHistory(trackerDetail?.seasons ?? []), [trackerDetail]);
+  const snapshotHistory = useMemo(
+    () => buildSnapshotHistory(trackerDetail?.tracker.snapshots ?? []),
+    [trackerDetail],
+  );
+
   const handleRefresh = async () => {
     try {
       await refreshTracker(trackerId);
-      // Status will be updated automatically
+      // Watch the queued scrape closely; the detail reloads when it finishes
+      checkNow();
     } catch (err) {
       console.error('Failed to refresh tracker:', err);
     }
   };
 
+  const handleRestore = async () => {
+    setRestoring(true);
+    setRestoreError(null);
+    try {
+      await restoreTracker(trackerId);
+      await getTrackerDetail(trackerId);
+    } catch (err: unknown) {
+      const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
+      setRestoreError(errorObj.response?.data?.message || errorObj.message || 'Failed to restore tracker');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
   if (loading && !trackerDetail) {
     return <div className="p-4">Loading tracker details...</div>;
   }
@@ -41,6 +81,13 @@ export function TrackerDetail({ trackerId }: TrackerDetailProps) {
   // Handle response format: {tracker, seasons}
   const tracker = trackerDetail.tracker;
   const seasons = trackerDetail.seasons || [];
+  const snapshots = tracker.snapshots ?? [];
+  // Prefer the live status over the snapshot that came with the detail
+  const status = scrapingStatus?.status ?? tracker.scrapingStatus;
+  const scrapingError = scrapingStatus ? scrapingStatus.error : tracker.scrapingError;
+  const lastScrapedAt = scrapingStatus?.lastScrapedAt ?? tracker.lastScrapedAt;
+  const scrapingAttempts = scrapingStatus?.attempts ?? tracker.scrapingAttempts;
+  const canManage = isAdmin || tracker.userId === currentUserId;
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -59,6 +106,26 @@ export function TrackerDetail({ trackerId }: TrackerDetailProps) {
 
   return (
     <div className="p-6 space-y-6">
+      {tracker.isDeleted && (
+        <div className="flex items-center justify-between gap-4 rounded-lg border border-red-200 bg-red-50 p-4">
+          <div>
+            <p className="font-medium text-red-800">
+              This tracker was deleted on {new Date(tracker.updatedAt).toLocaleDateString()}.
+            </p>
+            {restoreError && <p className="text-sm text-red-600">{restoreError}</p>}
+          </div>
+          {canManage && (
+            <button
+              onClick={handleRestore}
+              disabled={restoring}
+              className="px-4 py-2 border border-red-600 text-red-700 rounded hover:bg-red-100 disabled:opacity-50"
+            >
+              {restoring ? 'Restoring...' : 'Restore'}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Tracker Header */}
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex items-center justify-between mb-4">
@@ -67,12 +134,20 @@ export function TrackerDetail({ trackerId }: TrackerDetailProps) {
             <p className="text-gray-600">{tracker.platform}</p>
           </div>
           <div className="flex items-center gap-4">
-            <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(tracker.scrapingStatus)}`}>
-              {tracker.scrapingStatus}
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(status)}`}>
+              {status}
             </span>
+            {isAdmin && guildId && (
+              <button
+                onClick={() => setSnapshotFormOpen(true)}
+                className="px-4 py-2 border border-blue-600 text-blue-600 rounded hover:bg-blue-50"
+              >
+                Record Snapshot
+              </button>
+            )}
             <button
               onClick={handleRefresh}
-              disabled={loading || tracker.scrapingStatus === 'IN_PROGRESS'}
+              disabled={loading || isScrapingActive(status)}
               className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? 'Refreshing...' : 'Refresh'}
@@ -95,14 +170,14 @@ export function TrackerDetail({ trackerId }: TrackerDetailProps) {
           <div>
             <p className="text-sm text-gray-600">Last Scraped</p>
             <p className="text-sm">
-              {tracker.lastScrapedAt
-                ? new Date(tracker.lastScrapedAt).toLocaleString()
+              {lastScrapedAt
+                ? new Date(lastScrapedAt).toLocaleString()
                 : 'Never'}
             </p>
           </div>
           <div>
             <p className="text-sm text-gray-600">Scraping Attempts</p>
-            <p className="text-sm">{tracker.scrapingAttempts}</p>
+            <p className="text-sm">{scrapingAttempts}</p>
           </div>
           <div>
             <p className="text-sm text-gray-600">Total Seasons</p>
@@ -110,15 +185,32 @@ export function TrackerDetail({ trackerId }: TrackerDetailProps) {
           </div>
         </div>
 
-        {tracker.scrapingError && (
+        {scrapingError && (
           <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded">
             <p className="text-sm text-red-800">
-              <strong>Error:</strong> {tracker.scrapingError}
+              <strong>Error:</strong> {scrapingError}
             </p>
           </div>
         )}
       </div>
 
+      {/* Rating Charts */}
+      <RatingHistoryChart
+        title="Rating by Season"
+        rows={seasonHistory}
+        emptyMessage="No season data available"
+      />
+      {snapshotHistory.length > 0 && (
+        <RatingHistoryChart
+          title="Snapshot Timeline"
+          rows={snapshotHistory}
+          emptyMessage="No snapshot ratings recorded"
+        />
+      )}
+
+      {/* Manual Snapshots */}
+      {(isAdmin || snapshots.length > 0) && <SnapshotHistory snapshots={snapshots} />}
+
       {/* Seasons Table */}
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <div className="px-6 py-4 border-b">
@@ -180,7 +272,28 @@ export function TrackerDetail({ trackerId }: TrackerDetailProps) {
           </table>
         </div>
       </div>
+
+      {/* Change History - read from the guild audit log, which only admins may see */}
+      {isAdmin && guildId && (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="px-6 py-4 border-b">
+            <h2 className="text-xl font-semibold">Change History</h2>
+          </div>
+          <div className="p-6">
+            {/* Reload whenever the tracker changes */}
+            <TrackerHistory key={tracker.updatedAt} guildId={guildId} trackerId={trackerId} />
+          </div>
+        </div>
+      )}
+
+      {isAdmin && guildId && (
+        <SnapshotForm
+          trackerId={trackerId}
+          guildId={guildId}
+          open={snapshotFormOpen}
+          onOpenChange={setSnapshotFormOpen}
+        />
+      )}
     </div>
   );
 }
-
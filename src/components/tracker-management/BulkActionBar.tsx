@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { useTrackersStore, type BulkTrackerAction } from '@/stores/trackersStore.js';
+import { Button } from '@/components/ui/button.js';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog.js';
+import { RefreshCw, Power, PowerOff, Trash2 } from 'lucide-react';
+import type { Tracker } from '@/types/trackers.js';
+
+interface BulkActionBarProps {
+  selected: Tracker[];
+  onClearSelection: () => void;
+}
+
+/**
+ * BulkActionBar - Single responsibility: Start bulk actions for the selected trackers
+ */
+export function BulkActionBar({ selected, onClearSelection }: BulkActionBarProps) {
+  const running = useTrackersStore((state) => state.bulkOperation?.running ?? false);
+  const runBulkAction = useTrackersStore((state) => state.runBulkAction);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  if (selected.length === 0) {
+    return null;
+  }
+
+  const start = (action: BulkTrackerAction) => {
+    onClearSelection();
+    runBulkAction(action, selected);
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/50 p-2">
+        <span className="px-2 text-sm font-medium">{selected.length} selected</span>
+        <Button size="sm" variant="outline" disabled={running} onClick={() => start('refresh')}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+        <Button size="sm" variant="outline" disabled={running} onClick={() => start('activate')}>
+          <Power className="mr-2 h-4 w-4" />
+          Activate
+        </Button>
+        <Button size="sm" variant="outline" disabled={running} onClick={() => start('deactivate')}>
+          <PowerOff className="mr-2 h-4 w-4" />
+          Deactivate
+        </Button>
+        <Button size="sm" variant="outline" disabled={running} onClick={() => setConfirmDelete(true)}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClearSelection}>
+          Clear selection
+        </Button>
+      </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selected.length} Trackers?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected trackers will be deleted and stop being scraped.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => start('delete')}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { useTrackersStore, type BulkItemStatus, type BulkTrackerAction } from '@/stores/trackersStore.js';
+import { Button } from '@/components/ui/button.js';
+import { Badge } from '@/components/ui/badge.js';
+import { CheckCircle, XCircle, Loader2, Clock, Ban } from 'lucide-react';
+
+const ACTION_LABELS: Record<BulkTrackerAction, string> = {
+  refresh: 'Refreshing',
+  activate: 'Activating',
+  deactivate: 'Deactivating',
+  delete: 'Deleting',
+};
+
+const STATUS_ICONS: Record<BulkItemStatus, ReactNode> = {
+  queued: <Clock className="h-4 w-4 text-muted-foreground" />,
+  running: <Loader2 className="h-4 w-4 animate-spin text-blue-600" />,
+  succeeded: <CheckCircle className="h-4 w-4 text-green-600" />,
+  failed: <XCircle className="h-4 w-4 text-destructive" />,
+  cancelled: <Ban className="h-4 w-4 text-muted-foreground" />,
+};
+
+/**
+ * Seconds left until the queue resumes, ticking while it's paused
+ */
+function useSecondsUntil(time: number | null): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (time === null) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(intervalId);
+  }, [time]);
+
+  return time === null ? null : Math.max(0, Math.ceil((time - now) / 1000));
+}
+
+/**
+ * BulkActionProgress - Single responsibility: Show progress and per-tracker results of a bulk action
+ */
+export function BulkActionProgress() {
+  const bulkOperation = useTrackersStore((state) => state.bulkOperation);
+  const cancelBulkAction = useTrackersStore((state) => state.cancelBulkAction);
+  const clearBulkOperation = useTrackersStore((state) => state.clearBulkOperation);
+  const secondsUntilResume = useSecondsUntil(bulkOperation?.pausedUntil ?? null);
+
+  if (!bulkOperation) {
+    return null;
+  }
+
+  const { action, items, running } = bulkOperation;
+  const count = (status: BulkItemStatus) => items.filter((item) => item.status === status).length;
+  const done = items.length - count('queued') - count('running');
+  const succeeded = count('succeeded');
+  const failed = count('failed');
+  const cancelled = count('cancelled');
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4" role="status" aria-live="polite">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-sm font-medium">
+          {running ? `${ACTION_LABELS[action]} trackers…` : `Finished ${ACTION_LABELS[action].toLowerCase()} trackers`}
+          <span className="ml-2 text-muted-foreground">
+            {done} / {items.length}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{succeeded} succeeded</Badge>
+          {failed > 0 && <Badge variant="destructive">{failed} failed</Badge>}
+          {cancelled > 0 && <Badge variant="secondary">{cancelled} cancelled</Badge>}
+          {running ? (
+            <Button size="sm" variant="ghost" onClick={cancelBulkAction}>
+              Cancel
+            </Button>
+          ) : (
+            <Button size="sm" variant="ghost" onClick={clearBulkOperation}>
+              Dismiss
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="h-2 w-full overflow-hidden rounded bg-muted">
+        <div
+          className="h-full bg-primary transition-all"
+          style={{ width: `${items.length ? (done / items.length) * 100 : 0}%` }}
+        />
+      </div>
+
+      {running && secondsUntilResume !== null && (
+        <p className="text-sm text-yellow-700">
+          Rate limited by the server, resuming in {secondsUntilResume}s.
+        </p>
+      )}
+
+      <ul className="max-h-48 space-y-1 overflow-y-auto text-sm">
+        {items.map((item) => (
+          <li key={item.trackerId} className="flex items-center gap-2">
+            {STATUS_ICONS[item.status]}
+            <span className="truncate">{item.label}</span>
+            {item.error && <span className="truncate text-destructive">{item.error}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
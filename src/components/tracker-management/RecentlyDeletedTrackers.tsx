@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { useTrackersStore } from '@/stores/trackersStore.js';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card.js';
+import { Button } from '@/components/ui/button.js';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.js';
+import { toast } from '@/components/ui/use-toast.js';
+import { LoadingState } from '@/components/loading-state.js';
+import { ErrorDisplay } from '@/components/error-display.js';
+import { TrackerHistory } from './TrackerHistory.js';
+import { trackerOwnerName } from '@/utils/trackerDirectory.js';
+import { History, RotateCcw } from 'lucide-react';
+import type { Tracker } from '@/types/trackers.js';
+
+interface RecentlyDeletedTrackersProps {
+  /**
+   * Guild whose members' trackers to list; the user's own trackers if omitted
+   */
+  guildId?: string;
+}
+
+/**
+ * RecentlyDeletedTrackers - Single responsibility: List soft-deleted trackers and restore them
+ * Change history needs a guild, since it comes from the guild audit log.
+ */
+export function RecentlyDeletedTrackers({ guildId }: RecentlyDeletedTrackersProps) {
+  const deletedTrackers = useTrackersStore((state) => state.deletedTrackers);
+  const fetchDeletedTrackers = useTrackersStore((state) => state.fetchDeletedTrackers);
+  const restoreTracker = useTrackersStore((state) => state.restoreTracker);
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [historyTracker, setHistoryTracker] = useState<Tracker | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      await fetchDeletedTrackers(guildId);
+    } catch (err: unknown) {
+      const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
+      setError(errorObj.response?.data?.message || errorObj.message || 'Failed to load deleted trackers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [guildId]); // Only depend on guildId, not the function
+
+  const handleRestore = async (tracker: Tracker) => {
+    setRestoringId(tracker.id);
+    try {
+      await restoreTracker(tracker.id);
+      toast({ title: 'Tracker restored', description: `${tracker.displayName || tracker.username} is active again.` });
+    } catch (err: unknown) {
+      const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
+      toast({
+        variant: 'destructive',
+        title: 'Could not restore tracker',
+        description: errorObj.response?.data?.message || errorObj.message || 'Failed to restore tracker',
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const renderContent = () => {
+    if (loading && deletedTrackers.length === 0) {
+      return <LoadingState message="Loading deleted trackers..." />;
+    }
+
+    if (error) {
+      return <ErrorDisplay error={error} onRetry={load} />;
+    }
+
+    if (deletedTrackers.length === 0) {
+      return <p className="text-center py-8 text-muted-foreground">No deleted trackers.</p>;
+    }
+
+    return (
+      <ul className="divide-y rounded border">
+        {deletedTrackers.map((tracker) => (
+          <li key={tracker.id} className="flex items-center justify-between gap-4 px-4 py-3">
+            <div className="min-w-0">
+              <div className="font-medium truncate">{tracker.displayName || tracker.username}</div>
+              <div className="text-sm text-muted-foreground">
+                {guildId && `${trackerOwnerName(tracker)} · `}
+                Deleted {new Date(tracker.updatedAt).toLocaleDateString()}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {guildId && (
+                <Button variant="ghost" size="sm" onClick={() => setHistoryTracker(tracker)}>
+                  <History className="mr-2 h-4 w-4" />
+                  History
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRestore(tracker)}
+                disabled={restoringId === tracker.id}
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                {restoringId === tracker.id ? 'Restoring...' : 'Restore'}
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Recently Deleted</CardTitle>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+
+      {guildId && (
+        <Dialog open={historyTracker !== null} onOpenChange={(open) => !open && setHistoryTracker(null)}>
+          <DialogContent className="max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Tracker History</DialogTitle>
+              <DialogDescription>
+                {historyTracker && (historyTracker.displayName || historyTracker.username)}
+              </DialogDescription>
+            </DialogHeader>
+            {historyTracker && <TrackerHistory guildId={guildId} trackerId={historyTracker.id} />}
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  );
+}
@@ -1,5 +1,6 @@
 import { Badge } from '@/components/ui/badge.js';
 import { Button } from '@/components/ui/button.js';
+import { Checkbox } from '@/components/ui/checkbox.js';
 import { UserAvatar } from '@/components/user-avatar.js';
 import type { Tracker } from '@/types/trackers.js';
 import { Edit2, Trash2, ExternalLink } from 'lucide-react';
@@ -9,12 +10,17 @@ interface TrackerCardProps {
   onEdit: (tracker: Tracker) => void;
   onDelete: (tracker: Tracker) => void;
   loading?: boolean;
+  selected?: boolean;
+  /**
+   * Shows a selection checkbox when provided
+   */
+  onSelectedChange?: (checked: boolean) => void;
 }
 
 /**
  * TrackerCard - Display individual tracker information
  */
-export function TrackerCard({ tracker, onEdit, onDelete, loading }: TrackerCardProps) {
+export function TrackerCard({ tracker, onEdit, onDelete, loading, selected = false, onSelectedChange }: TrackerCardProps) {
   const formatPlatformName = (platform: string): string => {
     const platformNames: Record<string, string> = {
       STEAM: 'Steam',
@@ -30,6 +36,13 @@ export function TrackerCard({ tracker, onEdit, onDelete, loading }: TrackerCardP
     <div className="border rounded-lg p-4 space-y-3 hover:bg-muted/50 transition-colors">
       <div className="flex items-start justify-between">
         <div className="flex items-center gap-3 flex-1">
+          {onSelectedChange && (
+            <Checkbox
+              checked={selected}
+              onCheckedChange={(checked) => onSelectedChange(checked === true)}
+              aria-label={`Select ${tracker.displayName || tracker.username}`}
+            />
+          )}
           {tracker.user && <UserAvatar user={tracker.user} size="sm" />}
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2">
@@ -0,0 +1,318 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { useTrackersStore } from '@/stores/trackersStore.js';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card.js';
+import { Badge } from '@/components/ui/badge.js';
+import { Button } from '@/components/ui/button.js';
+import { Checkbox } from '@/components/ui/checkbox.js';
+import { Input } from '@/components/ui/input.js';
+import { Label } from '@/components/ui/label.js';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.js';
+import { LoadingState } from '@/components/loading-state.js';
+import { ErrorDisplay } from '@/components/error-display.js';
+import { BulkActionBar } from './BulkActionBar.js';
+import { BulkActionProgress } from './BulkActionProgress.js';
+import {
+  DEFAULT_DIRECTORY_FILTERS,
+  filterTrackers,
+  sortTrackers,
+  trackerOwnerName,
+  trackerState,
+  type TrackerDirectoryFilters,
+  type TrackerSort,
+  type TrackerSortColumn,
+  type TrackerStateFilter,
+} from '@/utils/trackerDirectory.js';
+import type { GamePlatform, TrackerScrapingStatus } from '@/types/trackers.js';
+
+const STATUS_OPTIONS: TrackerScrapingStatus[] = ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'FAILED'];
+
+const PLATFORM_LABELS: Record<GamePlatform, string> = {
+  STEAM: 'Steam',
+  EPIC: 'Epic Games',
+  XBL: 'Xbox Live',
+  PSN: 'PlayStation Network',
+  SWITCH: 'Nintendo Switch',
+};
+
+const STATE_LABELS: Record<TrackerStateFilter, string> = {
+  current: 'Not deleted',
+  active: 'Active',
+  inactive: 'Inactive',
+  deleted: 'Deleted',
+  all: 'All',
+};
+
+const COLUMNS: { column: TrackerSortColumn; label: string }[] = [
+  { column: 'tracker', label: 'Tracker' },
+  { column: 'member', label: 'Member' },
+  { column: 'platform', label: 'Platform' },
+  { column: 'status', label: 'Status' },
+  { column: 'lastScrapedAt', label: 'Last Scraped' },
+  { column: 'state', label: 'State' },
+];
+
+function statusVariant(status: TrackerScrapingStatus) {
+  switch (status) {
+    case 'COMPLETED':
+      return 'default';
+    case 'IN_PROGRESS':
+      return 'secondary';
+    case 'FAILED':
+      return 'destructive';
+    default:
+      return 'outline';
+  }
+}
+
+interface TrackerDirectoryProps {
+  guildId: string;
+}
+
+/**
+ * TrackerDirectory - Single responsibility: List every member tracker of a guild (admin)
+ * Filters by scraping status, platform, staleness and lifecycle state; every
+ * column sorts. Rows link to the tracker and to its owner in the member list.
+ * Selected rows can be refreshed, (de)activated or deleted in bulk.
+ */
+export function TrackerDirectory({ guildId }: TrackerDirectoryProps) {
+  const trackers = useTrackersStore((state) => state.trackers);
+  const loading = useTrackersStore((state) => state.loading);
+  const error = useTrackersStore((state) => state.error);
+  const fetchTrackers = useTrackersStore((state) => state.fetchTrackers);
+
+  const [filters, setFilters] = useState<TrackerDirectoryFilters>(DEFAULT_DIRECTORY_FILTERS);
+  const [sort, setSort] = useState<TrackerSort>({ column: 'member', direction: 'asc' });
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    // Deleted trackers are filtered client-side, so always load them
+    fetchTrackers(guildId, { includeDeleted: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [guildId]); // Only depend on guildId, not the function
+
+  const visibleTrackers = useMemo(
+    () => sortTrackers(filterTrackers(trackers, filters), sort),
+    [trackers, filters, sort],
+  );
+
+  // Only act on rows the admin can currently see
+  const selectedTrackers = visibleTrackers.filter((tracker) => selectedIds.has(tracker.id));
+  const allSelected = visibleTrackers.length > 0 && selectedTrackers.length === visibleTrackers.length;
+
+  const toggleSelected = (trackerId: string, checked: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(trackerId);
+      } else {
+        next.delete(trackerId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(visibleTrackers.map((tracker) => tracker.id)) : new Set());
+  };
+
+  const updateFilter = <K extends keyof TrackerDirectoryFilters>(key: K, value: TrackerDirectoryFilters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const toggleSort = (column: TrackerSortColumn) => {
+    setSort((current) =>
+      current.column === column
+        ? { column, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+        : { column, direction: 'asc' },
+    );
+  };
+
+  const renderContent = () => {
+    if (loading && trackers.length === 0) {
+      return <LoadingState message="Loading trackers..." />;
+    }
+
+    if (error && trackers.length === 0) {
+      return <ErrorDisplay error={error} onRetry={() => fetchTrackers(guildId, { includeDeleted: true })} />;
+    }
+
+    return (
+      <div className="overflow-x-auto rounded border">
+        <table className="w-full">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className="w-10 px-4 py-2">
+                <Checkbox
+                  checked={allSelected ? true : selectedTrackers.length > 0 ? 'indeterminate' : false}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                  aria-label="Select all trackers"
+                />
+              </th>
+              {COLUMNS.map(({ column, label }) => {
+                const SortIcon = sort.column !== column ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+                return (
+                  <th
+                    key={column}
+                    className="px-4 py-2 text-left"
+                    aria-sort={sort.column === column ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column)}
+                      className="flex items-center gap-1 text-xs font-medium uppercase text-muted-foreground hover:text-foreground"
+                    >
+                      {label}
+                      <SortIcon className="h-3 w-3" />
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {visibleTrackers.length === 0 ? (
+              <tr>
+                <td colSpan={COLUMNS.length + 1} className="px-4 py-8 text-center text-muted-foreground">
+                  No trackers match these filters.
+                </td>
+              </tr>
+            ) : (
+              visibleTrackers.map((tracker) => {
+                const state = trackerState(tracker);
+                const ownerSearch = tracker.user?.username ?? trackerOwnerName(tracker);
+                return (
+                  <tr key={tracker.id} className="hover:bg-muted/50">
+                    <td className="px-4 py-2">
+                      <Checkbox
+                        checked={selectedIds.has(tracker.id)}
+                        onCheckedChange={(checked) => toggleSelected(tracker.id, checked === true)}
+                        aria-label={`Select ${tracker.displayName || tracker.username}`}
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <Link
+                        to={`/dashboard/tracker/${tracker.id}?guild=${guildId}`}
+                        className="font-medium text-blue-600 hover:underline"
+                      >
+                        {tracker.displayName || tracker.username}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <Link
+                        to={`/dashboard/guild/${guildId}/members?search=${encodeURIComponent(ownerSearch)}`}
+                        className="hover:underline"
+                      >
+                        {trackerOwnerName(tracker)}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-sm">{PLATFORM_LABELS[tracker.platform]}</td>
+                    <td className="px-4 py-2">
+                      <Badge variant={statusVariant(tracker.scrapingStatus)}>{tracker.scrapingStatus}</Badge>
+                    </td>
+                    <td className="px-4 py-2 text-sm whitespace-nowrap">
+                      {tracker.lastScrapedAt ? new Date(tracker.lastScrapedAt).toLocaleDateString() : 'Never'}
+                    </td>
+                    <td className="px-4 py-2">
+                      <Badge variant={state === 'active' ? 'outline' : 'secondary'}>{STATE_LABELS[state]}</Badge>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          Trackers ({visibleTrackers.length}
+          {visibleTrackers.length !== trackers.length && ` of ${trackers.length}`})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select
+              value={filters.status}
+              onValueChange={(value) => updateFilter('status', value as TrackerDirectoryFilters['status'])}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {STATUS_OPTIONS.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {status}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Platform</Label>
+            <Select
+              value={filters.platform}
+              onValueChange={(value) => updateFilter('platform', value as TrackerDirectoryFilters['platform'])}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All platforms</SelectItem>
+                {(Object.keys(PLATFORM_LABELS) as GamePlatform[]).map((platform) => (
+                  <SelectItem key={platform} value={platform}>
+                    {PLATFORM_LABELS[platform]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>State</Label>
+            <Select value={filters.state} onValueChange={(value) => updateFilter('state', value as TrackerStateFilter)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STATE_LABELS) as TrackerStateFilter[]).map((state) => (
+                  <SelectItem key={state} value={state}>
+                    {STATE_LABELS[state]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tracker-stale-days">Not scraped in (days)</Label>
+            <Input
+              id="tracker-stale-days"
+              type="number"
+              min={1}
+              className="w-36"
+              placeholder="Any"
+              value={filters.staleDays ?? ''}
+              onChange={(e) => {
+                const days = parseInt(e.target.value, 10);
+                updateFilter('staleDays', Number.isNaN(days) || days < 1 ? null : days);
+              }}
+            />
+          </div>
+          <Button variant="ghost" onClick={() => setFilters(DEFAULT_DIRECTORY_FILTERS)}>
+            Reset filters
+          </Button>
+        </div>
+        <BulkActionProgress />
+        <BulkActionBar selected={selectedTrackers} onClearSelection={() => setSelectedIds(new Set())} />
+        {renderContent()}
+      </CardContent>
+    </Card>
+  );
+}
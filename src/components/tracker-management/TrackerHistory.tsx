@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { auditApi } from '@/lib/api/audit.js';
+import { LoadingSpinner } from '@/components/loading-spinner.js';
+import { ErrorDisplay } from '@/components/error-display.js';
+import { auditActorName, describeTrackerAuditLog } from '@/utils/trackerAudit.js';
+import type { AuditLog } from '@/types/permissions.js';
+
+interface TrackerHistoryProps {
+  guildId: string;
+  trackerId: string;
+}
+
+/**
+ * TrackerHistory - Single responsibility: Show a tracker's change history from the audit log
+ */
+export function TrackerHistory({ guildId, trackerId }: TrackerHistoryProps) {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    auditApi
+      .getTrackerAuditLogs(guildId, trackerId, { limit: 50 })
+      .then((result) => {
+        if (!cancelled) setLogs(result.logs);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
+        setError(errorObj.response?.data?.message || errorObj.message || 'Failed to load tracker history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [guildId, trackerId, attempt]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <LoadingSpinner size="md" />
+        <span className="ml-2 text-muted-foreground">Loading history...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorDisplay error={error} onRetry={() => setAttempt((count) => count + 1)} />;
+  }
+
+  if (logs.length === 0) {
+    return <div className="text-muted-foreground text-center py-8">No changes recorded for this tracker</div>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {logs.map((log) => (
+        <li key={log.id} className="border-l-2 border-border pl-4">
+          <div className="text-sm text-muted-foreground">
+            {new Date(log.timestamp).toLocaleString()} · {auditActorName(log)}
+          </div>
+          {describeTrackerAuditLog(log).map((line) => (
+            <div key={line} className="text-foreground">
+              {line}
+            </div>
+          ))}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -10,6 +10,8 @@ interface TrackerListProps {
   onEdit: (tracker: Tracker) => void;
   onDelete: (tracker: Tracker) => void;
   onRetry?: () => void;
+  selectedIds?: Set<string>;
+  onSelectedChange?: (tracker: Tracker, checked: boolean) => void;
 }
 
 /**
@@ -22,6 +24,8 @@ export function TrackerList({
   onEdit,
   onDelete,
   onRetry,
+  selectedIds,
+  onSelectedChange,
 }: TrackerListProps) {
   if (loading && trackers.length === 0) {
     return <LoadingState message="Loading trackers..." />;
@@ -48,6 +52,8 @@ export function TrackerList({
           onEdit={onEdit}
           onDelete={onDelete}
           loading={loading}
+          selected={selectedIds?.has(tracker.id)}
+          onSelectedChange={onSelectedChange && ((checked) => onSelectedChange(tracker, checked))}
         />
       ))}
     </div>
@@ -2,6 +2,8 @@ import { useEffect, useState } from 'react';
 import { useTrackersStore } from '@/stores/trackersStore.js';
 import { TrackerList } from './TrackerList.js';
 import { TrackerEditModal } from './TrackerEditModal.js';
+import { BulkActionBar } from './BulkActionBar.js';
+import { BulkActionProgress } from './BulkActionProgress.js';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -36,6 +38,21 @@ export function TrackerListContainer({ guildId }: TrackerListContainerProps) {
   const [deletingTracker, setDeletingTracker] = useState<Tracker | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+
+  const selectedTrackers = trackers.filter((tracker) => selectedIds.has(tracker.id));
+
+  const handleSelectedChange = (tracker: Tracker, checked: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(tracker.id);
+      } else {
+        next.delete(tracker.id);
+      }
+      return next;
+    });
+  };
 
   useEffect(() => {
     fetchTrackers(guildId);
@@ -83,7 +100,9 @@ export function TrackerListContainer({ guildId }: TrackerListContainerProps) {
         <CardHeader>
           <CardTitle>Trackers</CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <BulkActionProgress />
+          <BulkActionBar selected={selectedTrackers} onClearSelection={() => setSelectedIds(new Set())} />
           <TrackerList
             trackers={trackers}
             loading={loading}
@@ -91,6 +110,8 @@ export function TrackerListContainer({ guildId }: TrackerListContainerProps) {
             onEdit={handleEdit}
             onDelete={handleDeleteClick}
             onRetry={() => fetchTrackers(guildId)}
+            selectedIds={selectedIds}
+            onSelectedChange={handleSelectedChange}
           />
         </CardContent>
       </Card>
@@ -108,7 +129,7 @@ export function TrackerListContainer({ guildId }: TrackerListContainerProps) {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Tracker?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this tracker? This action cannot be undone.
+              Are you sure you want to delete this tracker? You can restore it later from Recently Deleted.
               {deletingTracker && (
                 <>
                   <br />
@@ -1,13 +1,14 @@
 import { useState } from 'react';
 import { useTrackersStore } from '../../stores/trackersStore.js';
 import { useNavigate } from 'react-router-dom';
-import { validateTrackerUrl, type ValidationResult } from '../../utils/trackerValidation.js';
+import { parseTrackerUrl, type ParsedTrackerUrl } from '../../utils/trackerValidation.js';
+import { TrackerUrlFeedback } from './TrackerUrlFeedback.js';
 import { CheckCircle2, XCircle } from 'lucide-react';
 
 export function AddTrackerForm() {
   const [url, setUrl] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
+  const [validationResult, setValidationResult] = useState<ParsedTrackerUrl | null>(null);
   const { addTracker, error, clearError, myTrackers } = useTrackersStore();
   const navigate = useNavigate();
 
@@ -16,7 +17,7 @@ export function AddTrackerForm() {
   const handleUrlChange = (value: string) => {
     setUrl(value);
     if (value.trim()) {
-      const result = validateTrackerUrl(value.trim());
+      const result = parseTrackerUrl(value);
       setValidationResult(result);
     } else {
       setValidationResult(null);
@@ -31,15 +32,15 @@ export function AddTrackerForm() {
       return;
     }
 
-    const result = validateTrackerUrl(url.trim());
-    if (!result.isValid) {
+    const result = parseTrackerUrl(url);
+    if (!result.isValid || !result.normalizedUrl) {
       setValidationResult(result);
       return;
     }
 
     setIsSubmitting(true);
     try {
-      await addTracker(url.trim());
+      await addTracker(result.normalizedUrl);
       navigate('/dashboard/trackers');
     } catch (err) {
       console.error('Failed to add tracker:', err);
@@ -74,7 +75,8 @@ export function AddTrackerForm() {
           </label>
           <div className="relative">
             <input
-              type="url"
+              type="text"
+              inputMode="url"
               value={url}
               onChange={(e) => handleUrlChange(e.target.value)}
               placeholder="https://rocketleague.tracker.network/rocket-league/profile/steam/username/overview"
@@ -97,14 +99,7 @@ export function AddTrackerForm() {
               </div>
             )}
           </div>
-          {validationResult && !validationResult.isValid && (
-            <p className="mt-1 text-sm text-red-600">{validationResult.error}</p>
-          )}
-          {validationResult && validationResult.isValid && (
-            <p className="mt-1 text-sm text-green-600">
-              Valid tracker URL ({validationResult.platform} - {validationResult.username})
-            </p>
-          )}
+          <TrackerUrlFeedback result={validationResult} />
           <p className="mt-1 text-xs text-gray-500">
             Example: https://rocketleague.tracker.network/rocket-league/profile/steam/76561198051701160/overview
           </p>
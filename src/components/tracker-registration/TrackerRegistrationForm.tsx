@@ -2,13 +2,14 @@ import { useState } from 'react';
 import { useTrackersStore } from '../../stores/trackersStore.js';
 import { useMyTrackers } from '../../hooks/useMyTrackers.js';
 import { useNavigate, Link } from 'react-router-dom';
-import { validateTrackerUrl, type ValidationResult } from '../../utils/trackerValidation.js';
+import { parseTrackerUrl, type ParsedTrackerUrl } from '../../utils/trackerValidation.js';
+import { TrackerUrlFeedback } from './TrackerUrlFeedback.js';
 import { CheckCircle2, XCircle } from 'lucide-react';
 
 export function TrackerRegistrationForm() {
   const [urls, setUrls] = useState<string[]>(['']);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [validationResults, setValidationResults] = useState<ValidationResult[]>([]);
+  const [validationResults, setValidationResults] = useState<(ParsedTrackerUrl | null)[]>([]);
   const { registerTrackers, error, clearError } = useTrackersStore();
   const { myTrackers, isLoading: isCheckingTrackers } = useMyTrackers();
   const navigate = useNavigate();
@@ -35,7 +36,7 @@ export function TrackerRegistrationForm() {
 
     // Validate
     if (value.trim()) {
-      const result = validateTrackerUrl(value.trim());
+      const result = parseTrackerUrl(value);
       const newResults = [...validationResults];
       newResults[index] = result;
       setValidationResults(newResults);
@@ -56,16 +57,14 @@ export function TrackerRegistrationForm() {
     }
 
     // Validate all URLs
-    const allValid = validUrls.every(url => {
-      const result = validateTrackerUrl(url.trim());
-      return result.isValid;
-    });
+    const parsed = validUrls.map(url => parseTrackerUrl(url));
+    const allValid = parsed.every(result => result.isValid);
 
     if (!allValid) {
       // Re-validate all to show errors
       const newResults = urls.map(url => {
         if (url.trim()) {
-          return validateTrackerUrl(url.trim());
+          return parseTrackerUrl(url);
         }
         return null;
       });
@@ -75,7 +74,8 @@ export function TrackerRegistrationForm() {
 
     setIsSubmitting(true);
     try {
-      await registerTrackers(validUrls);
+      // Register the canonical URLs, not what was pasted
+      await registerTrackers(parsed.map(result => result.normalizedUrl!));
       navigate('/dashboard/trackers');
     } catch (err) {
       console.error('Failed to register trackers:', err);
@@ -131,7 +131,8 @@ export function TrackerRegistrationForm() {
             <div className="flex gap-2">
               <div className="flex-1 relative">
                 <input
-                  type="url"
+                  type="text"
+                  inputMode="url"
                   value={url}
                   onChange={(e) => updateUrl(index, e.target.value)}
                   placeholder="https://rocketleague.tracker.network/rocket-league/profile/steam/username/overview"
@@ -165,14 +166,7 @@ export function TrackerRegistrationForm() {
                 </button>
               )}
             </div>
-            {validationResults[index] && !validationResults[index].isValid && (
-              <p className="mt-1 text-sm text-red-600">{validationResults[index].error}</p>
-            )}
-            {validationResults[index] && validationResults[index].isValid && (
-              <p className="mt-1 text-sm text-green-600">
-                Valid tracker URL ({validationResults[index].platform} - {validationResults[index].username})
-              </p>
-            )}
+            <TrackerUrlFeedback result={validationResults[index] ?? null} />
             {index === 0 && (
               <p className="mt-1 text-xs text-gray-500">
                 Example: https://rocketleague.tracker.network/rocket-league/profile/steam/76561198051701160/overview
@@ -0,0 +1,39 @@
+import type { ParsedTrackerUrl } from '../../utils/trackerValidation.js';
+
+interface TrackerUrlFeedbackProps {
+  result: ParsedTrackerUrl | null;
+}
+
+/**
+ * TrackerUrlFeedback - Validation message for a tracker URL field
+ * Shows the error, or the canonical URL and what was changed to get there.
+ */
+export function TrackerUrlFeedback({ result }: TrackerUrlFeedbackProps) {
+  if (!result) {
+    return null;
+  }
+
+  if (!result.isValid) {
+    return <p className="mt-1 text-sm text-red-600">{result.error}</p>;
+  }
+
+  return (
+    <div className="mt-1 text-sm">
+      <p className="text-green-600">
+        Valid tracker URL ({result.platform} - {result.username})
+      </p>
+      {result.changes.length > 0 && (
+        <div className="mt-1 text-gray-600">
+          <p>
+            Will be saved as <span className="break-all font-mono text-xs">{result.normalizedUrl}</span>
+          </p>
+          <ul className="list-disc pl-5 text-xs text-gray-500">
+            {result.changes.map((change) => (
+              <li key={change}>{change}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
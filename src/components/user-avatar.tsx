@@ -4,8 +4,8 @@ import { cn } from "@/lib/utils.js"
 interface User {
   id: string
   username: string
-  globalName?: string
-  avatar?: string
+  globalName?: string | null
+  avatar?: string | null
 }
 
 interface UserAvatarProps {
@@ -34,6 +34,7 @@ import { useMyTrackers } from '../useMyTrackers';
 import { useAuthStore } from '../../stores/index';
 import { useTrackersStore } from '../../stores/trackersStore';
 import { trackerApi } from '../../lib/api/trackers';
+import { resourceCache, cacheKeys } from '../../lib/cache';
 
 const mockTrackerApi = trackerApi as jest.Mocked<typeof trackerApi>;
 
@@ -71,14 +72,12 @@ describe('useMyTrackers hook', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     
-    // Reset stores to default state
+    // Reset cache and stores to default state
+    resourceCache.clear();
     useAuthStore.setState({ user: null });
     useTrackersStore.setState({
-      myTrackers: [],
       loading: false,
       error: null,
-      myTrackersLastFetched: null,
-      myTrackersRequestInFlight: null,
     });
   });
 
@@ -111,10 +110,9 @@ describe('useMyTrackers hook', () => {
   it('should not fetch when data is fresh', () => {
     // Input: Authenticated user + fresh cached data
     useAuthStore.setState({ user: createMockUser() });
-    useTrackersStore.setState({
-      myTrackers: [createMockTracker()],
-      myTrackersLastFetched: Date.now() - 10000, // 10 seconds ago
-      myTrackersRequestInFlight: null,
+    resourceCache.set(cacheKeys.myTrackers(), [createMockTracker()], {
+      staleTime: 30000,
+      updatedAt: Date.now() - 10000, // 10 seconds ago
     });
 
     // Act: Render hook
@@ -129,10 +127,9 @@ describe('useMyTrackers hook', () => {
     const mockTrackers = [createMockTracker()];
     mockTrackerApi.getMyTrackers.mockResolvedValue(mockTrackers);
     useAuthStore.setState({ user: createMockUser() });
-    useTrackersStore.setState({
-      myTrackers: [createMockTracker({ id: 'old', username: 'old' })],
-      myTrackersLastFetched: Date.now() - 40000, // 40 seconds ago
-      myTrackersRequestInFlight: null,
+    resourceCache.set(cacheKeys.myTrackers(), [createMockTracker({ id: 'old', username: 'old' })], {
+      staleTime: 30000,
+      updatedAt: Date.now() - 40000, // 40 seconds ago
     });
 
     // Act: Render hook
@@ -146,13 +143,9 @@ describe('useMyTrackers hook', () => {
 
   it('should not trigger fetch when another request is already in progress', () => {
     // Input: Request already in flight
-    const inFlightPromise = Promise.resolve();
+    const inFlightPromise = new Promise<Tracker[]>(() => undefined);
+    resourceCache.fetch(cacheKeys.myTrackers(), () => inFlightPromise);
     useAuthStore.setState({ user: createMockUser() });
-    useTrackersStore.setState({
-      myTrackers: [],
-      myTrackersLastFetched: null,
-      myTrackersRequestInFlight: inFlightPromise,
-    });
 
     // Act: Render hook
     renderHook(() => useMyTrackers());
@@ -164,12 +157,10 @@ describe('useMyTrackers hook', () => {
   it('should return trackers, loading state, and error from store', () => {
     // Input: Store has trackers, loading, and error state
     useAuthStore.setState({ user: createMockUser() });
+    resourceCache.set(cacheKeys.myTrackers(), [createMockTracker()], { staleTime: 30000 });
     useTrackersStore.setState({
-      myTrackers: [createMockTracker()],
       loading: true,
       error: 'Some error',
-      myTrackersLastFetched: Date.now() - 10000,
-      myTrackersRequestInFlight: null,
     });
 
     // Act: Render hook
@@ -194,11 +185,6 @@ describe('useMyTrackers hook', () => {
     mockTrackerApi.getMyTrackers.mockReturnValue(delayedApiCall);
     
     useAuthStore.setState({ user: createMockUser() });
-    useTrackersStore.setState({
-      myTrackers: [],
-      myTrackersLastFetched: null,
-      myTrackersRequestInFlight: null,
-    });
 
     // Act: Render multiple hook instances simultaneously (simulating race condition)
     // This simulates Overview, MyTrackersPage, and TrackerRegistrationForm all mounting
@@ -211,9 +197,8 @@ describe('useMyTrackers hook', () => {
     // Verify only one API call was initiated (the bug fix)
     expect(mockTrackerApi.getMyTrackers).toHaveBeenCalledTimes(1);
     
-    // Verify store flag is set (deduplication working)
-    const stateDuringCall = useTrackersStore.getState();
-    expect(stateDuringCall.myTrackersRequestInFlight).not.toBeNull();
+    // Verify the shared request is in flight (deduplication working)
+    expect(resourceCache.getEntry(cacheKeys.myTrackers())?.isFetching).toBe(true);
 
     // Resolve the API call
     resolveApiCall!(mockTrackers);
@@ -1,5 +1,7 @@
 import { useEffect } from 'react';
 import { usePermissionStore } from '../stores/permissionStore.ts';
+import { cacheKeys } from '../lib/cache/index.ts';
+import { useRetainResource } from './useRetainResource.ts';
 import type { Permission } from '../types/permissions.ts';
 
 /**
@@ -18,6 +20,7 @@ export function useGuildPermissions(guildId: string | null) {
   const hasPermissionFn = usePermissionStore((state) => state.hasPermission);
   const loading = usePermissionStore((state) => state.loading);
   const error = usePermissionStore((state) => state.error);
+  useRetainResource(guildId ? cacheKeys.permissions(guildId) : null);
   
   // Compute derived values after hooks are called
   const isAdmin = guildId ? isAdminFn(guildId) : false;
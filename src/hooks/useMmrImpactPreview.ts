@@ -0,0 +1,56 @@
+import { useState, useCallback } from 'react';
+import { mmrCalculationApi, type MmrImpactPreview } from '../lib/api/mmr-calculation.js';
+import type { MmrCalculationConfig } from '../types/index.js';
+
+/**
+ * Custom hook for simulating a draft MMR configuration against a guild
+ * Single Responsibility: Impact preview request state; nothing is saved
+ */
+export function useMmrImpactPreview(guildId: string) {
+  const [preview, setPreview] = useState<MmrImpactPreview | null>(null);
+  const [previewedConfig, setPreviewedConfig] = useState<MmrCalculationConfig | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Run the draft configuration against every active guild tracker
+   */
+  const runPreview = useCallback(
+    async (config: MmrCalculationConfig) => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const result = await mmrCalculationApi.previewImpact(guildId, config);
+        setPreview(result);
+        setPreviewedConfig(config);
+      } catch (err: unknown) {
+        const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
+        setError(errorObj.response?.data?.message || errorObj.message || 'Failed to preview impact');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [guildId],
+  );
+
+  /**
+   * Reset all state
+   */
+  const reset = useCallback(() => {
+    setPreview(null);
+    setPreviewedConfig(null);
+    setError(null);
+  }, []);
+
+  return {
+    // State
+    preview,
+    previewedConfig,
+    loading,
+    error,
+    // Actions
+    runPreview,
+    reset,
+  };
+}
@@ -0,0 +1,14 @@
+import { useEffect } from 'react';
+import { resourceCache } from '../lib/cache/index.ts';
+
+/**
+ * useRetainResource - Keeps a cache entry out of garbage collection while the
+ * calling component is mounted, so data on screen never disappears under it.
+ * @param key - Cache key, or null to retain nothing
+ */
+export function useRetainResource(key: string | null) {
+  useEffect(() => {
+    if (!key) return;
+    return resourceCache.retain(key);
+  }, [key]);
+}
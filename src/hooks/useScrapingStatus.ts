@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { subscribeScrapingStatus, type ScrapingStatusSubscription } from '../lib/api/statusStream.ts';
+import { useTrackersStore } from '../stores/trackersStore.ts';
+import { toast } from '../components/ui/use-toast.ts';
+
+/**
+ * useScrapingStatus - Live scraping status for a tracker
+ *
+ * Subscribes while mounted (server-sent events, or adaptive polling as a
+ * fallback) and keeps trackersStore.scrapingStatus current. When a running
+ * scrape finishes the store reloads the tracker data and a toast reports the
+ * outcome.
+ *
+ * Usage:
+ *   const { scrapingStatus, checkNow } = useScrapingStatus(trackerId);
+ *   // call checkNow() right after triggering a refresh
+ */
+export function useScrapingStatus(trackerId: string) {
+  const scrapingStatus = useTrackersStore((state) => state.scrapingStatus);
+  const subscriptionRef = useRef<ScrapingStatusSubscription | null>(null);
+
+  useEffect(() => {
+    if (!trackerId) {
+      return;
+    }
+
+    useTrackersStore.getState().clearScrapingStatus();
+    const subscription = subscribeScrapingStatus(trackerId, (status) => {
+      const finished = useTrackersStore.getState().applyScrapingStatus(trackerId, status);
+      if (!finished) return;
+
+      if (status.status === 'COMPLETED') {
+        toast({ title: 'Tracker updated', description: 'The latest ranks and season data are loaded.' });
+      } else {
+        toast({
+          variant: 'destructive',
+          title: 'Tracker refresh failed',
+          description: status.error || 'Scraping did not complete. Try again later.',
+        });
+      }
+    });
+    subscriptionRef.current = subscription;
+
+    return () => {
+      subscription.close();
+      subscriptionRef.current = null;
+    };
+  }, [trackerId]);
+
+  const checkNow = useCallback(() => {
+    subscriptionRef.current?.check();
+  }, []);
+
+  return { scrapingStatus, checkNow };
+}
@@ -0,0 +1,112 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useTrackersStore } from '../stores/trackersStore.ts';
+import { mmrCalculationApi, type CalculateMmrResult } from '../lib/api/mmr-calculation.ts';
+import { resourceCache, cacheKeys, cachePolicies, cacheTags } from '../lib/cache/index.ts';
+import { getTrackerData, type MmrDataSource } from '../utils/trackerData.ts';
+import type { TrackerDetail } from '../types/trackers.ts';
+
+export interface ComparedTracker {
+  trackerId: string;
+  detail: TrackerDetail | undefined;
+  loading: boolean;
+  error: string | null;
+  // MMR of the chosen data source under the guild's configured algorithm
+  mmr: CalculateMmrResult | undefined;
+  // The tracker has no data from the chosen source (e.g. no snapshots yet)
+  mmrUnavailable: boolean;
+  mmrLoading: boolean;
+  mmrError: string | null;
+}
+
+function errorMessage(err: unknown, fallback: string): string | null {
+  if (!err) return null;
+  const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
+  return errorObj.response?.data?.message || errorObj.message || fallback;
+}
+
+/**
+ * useTrackerComparison - Loads several trackers for side-by-side comparison
+ *
+ * Details and MMR results live in the resource cache and are retained while
+ * mounted. MMR is calculated from the latest scrape or the latest snapshot,
+ * and recalculated when a tracker's detail reloads or the guild's settings
+ * are saved (the mmr tag is invalidated).
+ *
+ * Usage:
+ *   const trackers = useTrackerComparison(guildId, ['id1', 'id2'], 'scrape');
+ */
+export function useTrackerComparison(
+  guildId: string,
+  trackerIds: string[],
+  source: MmrDataSource,
+): ComparedTracker[] {
+  // Re-render on cache changes; entries are read fresh below
+  useSyncExternalStore(resourceCache.subscribe, resourceCache.getVersion);
+  const idsKey = trackerIds.join(',');
+
+  // Retain and load the tracker details
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    const releases = ids.flatMap((id) => [
+      resourceCache.retain(cacheKeys.trackerDetail(id)),
+      resourceCache.retain(cacheKeys.trackerMmr(guildId, id, source)),
+    ]);
+    ids.forEach((id) => {
+      // Errors stay on the cache entry and are rendered from there
+      useTrackersStore.getState().loadTrackerDetail(id).catch(() => undefined);
+    });
+    return () => releases.forEach((release) => release());
+  }, [guildId, idsKey, source]);
+
+  const trackers = trackerIds.map((trackerId): ComparedTracker => {
+    const detailEntry = resourceCache.getEntry<TrackerDetail>(cacheKeys.trackerDetail(trackerId));
+    const mmrEntry = resourceCache.getEntry<CalculateMmrResult>(cacheKeys.trackerMmr(guildId, trackerId, source));
+    return {
+      trackerId,
+      detail: detailEntry?.data,
+      loading: !detailEntry?.data && !detailEntry?.error,
+      error: errorMessage(detailEntry?.error, 'Failed to load tracker'),
+      mmr: mmrEntry?.data,
+      mmrUnavailable: !!detailEntry?.data && !getTrackerData(detailEntry.data, source),
+      mmrLoading: !!mmrEntry?.isFetching,
+      mmrError: errorMessage(mmrEntry?.error, 'Failed to calculate MMR'),
+    };
+  });
+
+  // Changes when a detail reloads or an MMR result goes stale; failures don't
+  // change it, so a failing calculation isn't retried in a loop
+  const mmrSignature = trackerIds
+    .map((trackerId) => {
+      const detailEntry = resourceCache.getEntry(cacheKeys.trackerDetail(trackerId));
+      const mmrEntry = resourceCache.getEntry(cacheKeys.trackerMmr(guildId, trackerId, source));
+      return `${detailEntry?.updatedAt ?? 0}:${mmrEntry?.isStale ?? true}`;
+    })
+    .join('|');
+
+  // Calculate MMR for every loaded tracker
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    ids.forEach((id) => {
+      const detailEntry = resourceCache.getEntry<TrackerDetail>(cacheKeys.trackerDetail(id));
+      if (!detailEntry?.data) return;
+      const trackerData = getTrackerData(detailEntry.data, source);
+      if (!trackerData) return;
+      const mmrEntry = resourceCache.getEntry(cacheKeys.trackerMmr(guildId, id, source));
+
+      resourceCache
+        .fetch(cacheKeys.trackerMmr(guildId, id, source), () => mmrCalculationApi.calculateMmrDemo(guildId, trackerData), {
+          ...cachePolicies.trackerMmr,
+          tags: [cacheTags.guild(guildId), cacheTags.mmr(guildId)],
+          // Data newer than the result means the result is outdated
+          force:
+            !!mmrEntry &&
+            !mmrEntry.isFetching &&
+            mmrEntry.updatedAt > 0 &&
+            detailEntry.updatedAt > mmrEntry.updatedAt,
+        })
+        .catch(() => undefined);
+    });
+  }, [guildId, idsKey, source, mmrSignature]);
+
+  return trackers;
+}
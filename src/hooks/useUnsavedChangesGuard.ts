@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { useBlocker, type Blocker } from 'react-router-dom';
+
+/**
+ * useUnsavedChangesGuard - Single responsibility: Hold navigation while there are unsaved changes
+ * In-app navigation to another path is blocked until the returned blocker is proceeded or reset;
+ * reloads and tab closes get the browser's own confirmation.
+ *
+ * Usage:
+ *   const blocker = useUnsavedChangesGuard(isDirty);
+ *   // Render a confirmation while blocker.state === 'blocked'
+ */
+export function useUnsavedChangesGuard(when: boolean): Blocker {
+  // Query-string changes (e.g. tab state) stay on the page, so only path changes are held
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) => when && currentLocation.pathname !== nextLocation.pathname,
+  );
+
+  useEffect(() => {
+    if (!when) {
+      return;
+    }
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      // Older browsers only prompt when returnValue is set
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [when]);
+
+  // Changes were saved or discarded while a navigation was held, so there is nothing left to confirm
+  useEffect(() => {
+    if (blocker.state === 'blocked' && !when) {
+      blocker.reset();
+    }
+  }, [blocker, when]);
+
+  return blocker;
+}
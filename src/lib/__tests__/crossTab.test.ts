@@ -0,0 +1,49 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { broadcast, subscribeCrossTab } from '../crossTab';
+
+// jsdom has no BroadcastChannel, so these exercise the localStorage fallback
+
+describe('crossTab', () => {
+  it('should deliver messages from other tabs to subscribers', () => {
+    // Arrange
+    const listener = jest.fn();
+    const unsubscribe = subscribeCrossTab(listener);
+
+    // Act: another tab writes the sync key
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: 'league:sync',
+        newValue: JSON.stringify({ message: { type: 'settings-saved', guildId: '1' }, nonce: 'a' }),
+      }),
+    );
+    unsubscribe();
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'league:sync', newValue: JSON.stringify({ message: { type: 'logout' } }) }),
+    );
+
+    // Assert
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'settings-saved', guildId: '1' });
+  });
+
+  it('should ignore unrelated and removed storage keys', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeCrossTab(listener);
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'theme', newValue: '"dark"' }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'league:sync', newValue: null }));
+    unsubscribe();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should write and immediately clear the sync key when broadcasting', () => {
+    const setItem = jest.spyOn(localStorage, 'setItem');
+
+    broadcast({ type: 'trackers-changed' });
+
+    expect(setItem).toHaveBeenCalledWith('league:sync', expect.stringContaining('"type":"trackers-changed"'));
+    expect(localStorage.getItem('league:sync')).toBeNull();
+    setItem.mockRestore();
+  });
+});
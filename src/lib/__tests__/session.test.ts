@@ -0,0 +1,68 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import {
+  consumeReturnTo,
+  endSession,
+  getSessionStatus,
+  markSessionActive,
+  queueExpiredRequest,
+  resumeSession,
+  saveReturnTo,
+} from '../session';
+
+describe('session', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+    endSession();
+  });
+
+  describe('return-to path', () => {
+    it('should round-trip an app path once', () => {
+      saveReturnTo('/dashboard/guild/123?tab=settings#mmr');
+
+      expect(consumeReturnTo()).toBe('/dashboard/guild/123?tab=settings#mmr');
+      expect(consumeReturnTo()).toBeNull();
+    });
+
+    it.each(['https://evil.example', '//evil.example', '/login', '/auth/callback?code=1'])(
+      'should refuse to store %s',
+      (path) => {
+        saveReturnTo(path);
+
+        expect(consumeReturnTo()).toBeNull();
+      },
+    );
+  });
+
+  describe('expired requests', () => {
+    it('should hold requests until the session is resumed', () => {
+      // Arrange
+      markSessionActive();
+      const replay = jest.fn();
+      const abandon = jest.fn();
+
+      // Act
+      queueExpiredRequest(replay, abandon);
+
+      // Assert
+      expect(getSessionStatus()).toBe('expired');
+      expect(replay).not.toHaveBeenCalled();
+
+      resumeSession();
+      expect(getSessionStatus()).toBe('active');
+      expect(replay).toHaveBeenCalledTimes(1);
+      expect(abandon).not.toHaveBeenCalled();
+    });
+
+    it('should abandon held requests when the session ends', () => {
+      const replay = jest.fn();
+      const abandon = jest.fn();
+
+      queueExpiredRequest(replay, abandon);
+      endSession();
+
+      expect(getSessionStatus()).toBe('unknown');
+      expect(abandon).toHaveBeenCalledTimes(1);
+      expect(replay).not.toHaveBeenCalled();
+    });
+  });
+});
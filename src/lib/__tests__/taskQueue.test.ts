@@ -0,0 +1,97 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { AxiosError, AxiosHeaders, type AxiosResponse } from 'axios';
+import { runTaskQueue } from '../taskQueue';
+import { toApiError } from '../api/apiError';
+
+// Rejected the way the api client rejects a 429
+function rateLimitError(retryAfter?: string) {
+  const headers = new AxiosHeaders(retryAfter === undefined ? {} : { 'Retry-After': retryAfter });
+  const response = { status: 429, statusText: 'Too Many Requests', headers, data: {} } as AxiosResponse;
+  return toApiError(new AxiosError('Request failed with status code 429', 'ERR_BAD_REQUEST', undefined, undefined, response));
+}
+
+describe('runTaskQueue', () => {
+  it('should never run more tasks than the concurrency limit', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await runTaskQueue(
+      [1, 2, 3, 4, 5],
+      async (item) => {
+        running += 1;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running -= 1;
+        return item * 2;
+      },
+      { concurrency: 2 },
+    );
+
+    expect(peak).toBe(2);
+    expect(results).toEqual([2, 4, 6, 8, 10].map((value) => ({ status: 'fulfilled', value })));
+  });
+
+  it('should report failures per item without stopping the batch', async () => {
+    const error = new Error('Tracker not found');
+
+    const results = await runTaskQueue(['a', 'b', 'c'], async (item) => {
+      if (item === 'b') throw error;
+      return item;
+    });
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 'a' },
+      { status: 'rejected', error },
+      { status: 'fulfilled', value: 'c' },
+    ]);
+  });
+
+  it('should pause for the Retry-After and retry rate-limited tasks', async () => {
+    const onPause = jest.fn();
+    let calls = 0;
+    const start = Date.now();
+
+    const results = await runTaskQueue(
+      ['a'],
+      async (item) => {
+        calls += 1;
+        if (calls === 1) throw rateLimitError('0.01');
+        return item;
+      },
+      { onPause, rateLimitDelayMs: 5000 },
+    );
+
+    expect(calls).toBe(2);
+    expect(onPause).toHaveBeenCalledTimes(1);
+    // Resumes after the 10ms Retry-After rather than the 5s fallback
+    expect((onPause.mock.calls[0][0] as number) - start).toBeLessThan(1000);
+    expect(results).toEqual([{ status: 'fulfilled', value: 'a' }]);
+  });
+
+  it('should give up after too many rate-limited attempts', async () => {
+    const results = await runTaskQueue(
+      ['a'],
+      async () => {
+        throw rateLimitError();
+      },
+      { maxRateLimitRetries: 2, rateLimitDelayMs: 1, random: () => 1 },
+    );
+
+    expect(results[0].status).toBe('rejected');
+  });
+
+  it('should cancel tasks that have not started when aborted', async () => {
+    const controller = new AbortController();
+
+    const results = await runTaskQueue(
+      ['a', 'b', 'c'],
+      async (item) => {
+        controller.abort();
+        return item;
+      },
+      { concurrency: 1, signal: controller.signal },
+    );
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'cancelled', 'cancelled']);
+  });
+});
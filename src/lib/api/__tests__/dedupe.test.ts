@@ -0,0 +1,174 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { createDeduper, getDedupeKey, isCancelledRequest } from '../dedupe';
+
+/**
+ * A request that resolves when told to, and rejects if its signal aborts
+ */
+function createControllableRequest() {
+  let resolveRequest: (value: string) => void = () => undefined;
+  let receivedSignal: AbortSignal | undefined;
+  const execute = jest.fn((signal: AbortSignal) => {
+    receivedSignal = signal;
+    return new Promise<string>((resolve, reject) => {
+      resolveRequest = resolve;
+      signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    });
+  });
+  return {
+    execute,
+    resolve: (value: string) => resolveRequest(value),
+    get signal() {
+      return receivedSignal;
+    },
+  };
+}
+
+function rejectionOf(promise: Promise<unknown>): Promise<unknown> {
+  return promise.then(
+    () => {
+      throw new Error('Expected promise to reject');
+    },
+    (error: unknown) => error,
+  );
+}
+
+describe('request deduplication', () => {
+  describe('getDedupeKey', () => {
+    it('should key idempotent requests by method, url and params', () => {
+      expect(getDedupeKey({ method: 'get', url: '/api/trackers', params: { guildId: '1' } })).toBe(
+        'GET:/api/trackers:{"guildId":"1"}',
+      );
+    });
+
+    it('should not dedupe mutations without an idempotency key', () => {
+      expect(getDedupeKey({ method: 'post', url: '/api/trackers/add' })).toBeNull();
+      expect(getDedupeKey({ method: 'delete', url: '/api/trackers/1' })).toBeNull();
+    });
+
+    it('should dedupe mutations that carry an idempotency key', () => {
+      expect(getDedupeKey({ method: 'patch', url: '/api/guilds/1/settings', idempotencyKey: 'abc' })).toBe(
+        'PATCH:/api/guilds/1/settings::abc',
+      );
+    });
+  });
+
+  describe('createDeduper', () => {
+    it('should share one request between concurrent callers', async () => {
+      // Arrange
+      const deduper = createDeduper();
+      const request = createControllableRequest();
+
+      // Act
+      const first = deduper.run('key', request.execute);
+      const second = deduper.run('key', request.execute);
+      request.resolve('data');
+
+      // Assert
+      await expect(first).resolves.toBe('data');
+      await expect(second).resolves.toBe('data');
+      expect(request.execute).toHaveBeenCalledTimes(1);
+      expect(deduper.size).toBe(0);
+    });
+
+    it('should only cancel the subscriber that aborted', async () => {
+      // Arrange
+      const deduper = createDeduper();
+      const request = createControllableRequest();
+      const firstController = new AbortController();
+
+      // Act
+      const first = deduper.run('key', request.execute, firstController.signal);
+      const second = deduper.run('key', request.execute, new AbortController().signal);
+      firstController.abort();
+      request.resolve('data');
+
+      // Assert
+      expect(isCancelledRequest(await rejectionOf(first))).toBe(true);
+      await expect(second).resolves.toBe('data');
+      expect(request.signal?.aborted).toBe(false);
+    });
+
+    it('should abort the underlying request once every subscriber has aborted', async () => {
+      // Arrange
+      const deduper = createDeduper();
+      const request = createControllableRequest();
+      const firstController = new AbortController();
+      const secondController = new AbortController();
+
+      // Act
+      const first = deduper.run('key', request.execute, firstController.signal);
+      const second = deduper.run('key', request.execute, secondController.signal);
+      firstController.abort();
+      secondController.abort();
+
+      // Assert
+      expect(isCancelledRequest(await rejectionOf(first))).toBe(true);
+      expect(isCancelledRequest(await rejectionOf(second))).toBe(true);
+      expect(request.signal?.aborted).toBe(true);
+      expect(deduper.size).toBe(0);
+    });
+
+    it('should start a fresh request after the shared one was abandoned', async () => {
+      // Arrange
+      const deduper = createDeduper();
+      const abandoned = createControllableRequest();
+      const fresh = createControllableRequest();
+      const controller = new AbortController();
+
+      // Act
+      const first = deduper.run('key', abandoned.execute, controller.signal);
+      controller.abort();
+      const second = deduper.run('key', fresh.execute);
+      fresh.resolve('fresh');
+
+      // Assert
+      expect(isCancelledRequest(await rejectionOf(first))).toBe(true);
+      await expect(second).resolves.toBe('fresh');
+      expect(fresh.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject immediately when the caller signal is already aborted', async () => {
+      const deduper = createDeduper();
+      const request = createControllableRequest();
+
+      expect(isCancelledRequest(await rejectionOf(deduper.run('key', request.execute, AbortSignal.abort())))).toBe(true);
+      expect(request.execute).not.toHaveBeenCalled();
+    });
+
+    it('should never share requests without a key', async () => {
+      const deduper = createDeduper();
+      const request = createControllableRequest();
+
+      const controller = new AbortController();
+      const first = deduper.run(null, request.execute, controller.signal);
+      const second = deduper.run(null, request.execute);
+      request.resolve('second');
+      controller.abort();
+
+      await expect(second).resolves.toBe('second');
+      expect(isCancelledRequest(await rejectionOf(first))).toBe(true);
+      expect(request.execute).toHaveBeenCalledTimes(2);
+      expect(deduper.size).toBe(0);
+    });
+
+    it('should pass errors through to every subscriber', async () => {
+      const deduper = createDeduper();
+      const execute = () => Promise.reject({ message: 'Server error', status: 500 });
+
+      const first = deduper.run('key', execute);
+      const second = deduper.run('key', execute);
+
+      await expect(first).rejects.toEqual({ message: 'Server error', status: 500 });
+      await expect(second).rejects.toEqual({ message: 'Server error', status: 500 });
+    });
+  });
+
+  describe('isCancelledRequest', () => {
+    it('should recognise abort errors but not transformed API errors', () => {
+      expect(isCancelledRequest(new DOMException('aborted', 'AbortError'))).toBe(true);
+      expect(isCancelledRequest({ code: 'ERR_CANCELED' })).toBe(true);
+      expect(isCancelledRequest({ message: 'Network error', status: undefined })).toBe(false);
+      expect(isCancelledRequest(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  computeBackoffDelay,
+  getRetryDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryOptions,
+  DEFAULT_RETRY_OPTIONS,
+} from '../retry';
+
+describe('retry policy', () => {
+  describe('resolveRetryOptions', () => {
+    it('should enable retries for GET with defaults', () => {
+      expect(resolveRetryOptions({ method: 'get' })).toEqual(DEFAULT_RETRY_OPTIONS);
+    });
+
+    it('should never retry non-idempotent methods', () => {
+      expect(resolveRetryOptions({ method: 'post' })).toBeNull();
+      expect(resolveRetryOptions({ method: 'patch', retry: { maxAttempts: 5 } })).toBeNull();
+    });
+
+    it('should respect per-call opt-out and overrides', () => {
+      expect(resolveRetryOptions({ method: 'get', retry: false })).toBeNull();
+      expect(resolveRetryOptions({ method: 'get', retry: { maxAttempts: 5 } })?.maxAttempts).toBe(5);
+    });
+  });
+
+  describe('isRetryableStatus', () => {
+    it('should retry network errors, 429 and 5xx', () => {
+      expect(isRetryableStatus(undefined)).toBe(true);
+      expect(isRetryableStatus(429)).toBe(true);
+      expect(isRetryableStatus(503)).toBe(true);
+    });
+
+    it('should not retry client errors or 501', () => {
+      expect(isRetryableStatus(400)).toBe(false);
+      expect(isRetryableStatus(401)).toBe(false);
+      expect(isRetryableStatus(404)).toBe(false);
+      expect(isRetryableStatus(501)).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta-seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter(1.5)).toBe(1500);
+    });
+
+    it('should parse HTTP dates relative to now', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    });
+
+    it('should return null for missing or malformed values', () => {
+      expect(parseRetryAfter(undefined)).toBeNull();
+      expect(parseRetryAfter('')).toBeNull();
+      expect(parseRetryAfter('soon')).toBeNull();
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    it('should grow exponentially and stay under the cap', () => {
+      const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+      expect(computeBackoffDelay(1, options, () => 1)).toBe(100);
+      expect(computeBackoffDelay(3, options, () => 1)).toBe(400);
+      expect(computeBackoffDelay(10, options, () => 1)).toBe(1000);
+    });
+
+    it('should apply full jitter', () => {
+      expect(computeBackoffDelay(2, { baseDelayMs: 100, maxDelayMs: 1000 }, () => 0.5)).toBe(100);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should honor Retry-After on 429', () => {
+      const delay = getRetryDelay({ method: 'get' }, { status: 429, headers: { 'retry-after': '3' } });
+      expect(delay).toBe(3000);
+    });
+
+    it('should give up when Retry-After exceeds the configured maximum', () => {
+      const delay = getRetryDelay(
+        { method: 'get', retry: { maxRetryAfterMs: 1000 } },
+        { status: 429, headers: { 'retry-after': '120' } },
+      );
+      expect(delay).toBeNull();
+    });
+
+    it('should stop after maxAttempts', () => {
+      const config = { method: 'get', retry: { maxAttempts: 2 }, retryAttempt: 1 };
+      expect(getRetryDelay(config, { status: 503 })).toBeNull();
+    });
+
+    it('should back off on network errors', () => {
+      expect(getRetryDelay({ method: 'get' }, undefined, () => 1)).toBe(DEFAULT_RETRY_OPTIONS.baseDelayMs);
+    });
+
+    it('should not retry 4xx responses', () => {
+      expect(getRetryDelay({ method: 'get' }, { status: 403 })).toBeNull();
+    });
+  });
+});
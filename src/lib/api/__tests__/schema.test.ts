@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { s, safeParse } from '../schema';
+
+describe('response schemas', () => {
+  const memberSchema = s.object({
+    id: s.string(),
+    nickname: s.nullish(s.string()),
+    roles: s.array(s.string()),
+    user: s.object({
+      avatar: s.nullable(s.string()),
+    }),
+  });
+
+  it('should accept a matching payload and pass unknown keys through', () => {
+    // Arrange
+    const payload = { id: '1', roles: ['a'], user: { avatar: null }, extra: true };
+
+    // Act
+    const result = safeParse(memberSchema, payload);
+
+    // Assert
+    expect(result).toEqual({ success: true, data: payload });
+  });
+
+  it('should report every mismatch with its path', () => {
+    // Arrange
+    const payload = { id: 1, nickname: 5, roles: ['a', 2], user: {} };
+
+    // Act
+    const result = safeParse(memberSchema, payload);
+
+    // Assert
+    expect(result).toEqual({
+      success: false,
+      issues: [
+        { path: 'id', expected: 'string', received: 'number' },
+        { path: 'nickname', expected: 'string', received: 'number' },
+        { path: 'roles[1]', expected: 'string', received: 'number' },
+        { path: 'user.avatar', expected: 'string', received: 'undefined' },
+      ],
+    });
+  });
+
+  it('should report the root when the payload is not an object', () => {
+    const result = safeParse(s.array(memberSchema), { members: [] });
+
+    expect(result).toEqual({
+      success: false,
+      issues: [{ path: '(root)', expected: 'array', received: 'object' }],
+    });
+  });
+
+  it('should restrict oneOf to its literal values', () => {
+    const status = s.oneOf(['PENDING', 'COMPLETED'] as const);
+
+    expect(safeParse(status, 'PENDING').success).toBe(true);
+    expect(safeParse(status, 'DONE')).toMatchObject({
+      success: false,
+      issues: [{ expected: '"PENDING" | "COMPLETED"', received: 'string' }],
+    });
+  });
+
+  it('should reject NaN as a number', () => {
+    expect(safeParse(s.number(), NaN).success).toBe(false);
+  });
+
+  it('should validate record values', () => {
+    const result = safeParse(s.record(s.number()), { ones: 1, twos: 'x' });
+
+    expect(result).toEqual({
+      success: false,
+      issues: [{ path: 'twos', expected: 'number', received: 'string' }],
+    });
+  });
+});
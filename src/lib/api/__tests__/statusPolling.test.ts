@@ -0,0 +1,28 @@
+import { describe, it, expect } from '@jest/globals';
+import { getPollDelay, isScrapingActive } from '../statusPolling';
+
+describe('scraping status polling', () => {
+  it('should treat queued and running scrapes as active', () => {
+    expect(isScrapingActive('PENDING')).toBe(true);
+    expect(isScrapingActive('IN_PROGRESS')).toBe(true);
+    expect(isScrapingActive('COMPLETED')).toBe(false);
+    expect(isScrapingActive('FAILED')).toBe(false);
+    expect(isScrapingActive(null)).toBe(false);
+  });
+
+  it('should poll quickly while a scrape runs and back off while it stalls', () => {
+    expect(getPollDelay('PENDING', 0, false)).toBe(1000);
+    expect(getPollDelay('IN_PROGRESS', 2, false)).toBe(2250);
+    expect(getPollDelay('IN_PROGRESS', 20, false)).toBe(8000);
+  });
+
+  it('should poll slowly once the scrape has finished or the last poll failed', () => {
+    expect(getPollDelay('COMPLETED', 0, false)).toBe(30000);
+    expect(getPollDelay(null, 0, false)).toBe(30000);
+  });
+
+  it('should slow down in background tabs', () => {
+    expect(getPollDelay('IN_PROGRESS', 0, true)).toBe(60000);
+    expect(getPollDelay('COMPLETED', 0, true, { hiddenDelayMs: 45000 })).toBe(45000);
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * API Error Normalization
+ * Every failed request is rejected with an ApiError instead of the raw axios error.
+ */
+
+import type { AxiosError } from 'axios';
+import { readRetryAfterHeader } from './retry.ts';
+import type { ApiError } from '../../types/api.ts';
+
+/**
+ * Transform an axios error for consistent handling
+ * A Retry-After header is kept as `details.retryAfter`, so callers can back off after a 429.
+ */
+export function toApiError(error: AxiosError): ApiError {
+  const errorData = error.response?.data as { message?: string; code?: string; details?: Record<string, unknown> } | undefined;
+  const retryAfter = readRetryAfterHeader(error.response);
+  return {
+    message: errorData?.message || error.message || 'Network error',
+    code: errorData?.code,
+    details: retryAfter === undefined ? errorData?.details : { ...errorData?.details, retryAfter },
+    status: error.response?.status,
+  };
+}
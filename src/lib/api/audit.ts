@@ -6,6 +6,8 @@
  */
 
 import { api } from './client.ts';
+import { parseResponse } from './validate.ts';
+import { auditLogPageSchema } from './schemas.ts';
 import type {
   AuditLog,
   AuditLogFilters,
@@ -20,7 +22,18 @@ export const auditApi = {
     const response = await api.get(`/api/guilds/${guildId}/audit-logs`, {
       params: filters,
     });
-    return response.data;
+    return parseResponse(auditLogPageSchema, response.data, 'GET /api/guilds/:guildId/audit-logs');
+  },
+
+  /**
+   * Change history of a single tracker, as seen from a guild
+   */
+  getTrackerAuditLogs: async (
+    guildId: string,
+    trackerId: string,
+    filters?: Omit<AuditLogFilters, 'entityType' | 'entityId'>
+  ): Promise<PaginatedResult<AuditLog>> => {
+    return auditApi.getGuildAuditLogs(guildId, { ...filters, entityType: 'tracker', entityId: trackerId });
   },
 };
 
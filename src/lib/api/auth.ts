@@ -3,20 +3,70 @@
  * Handles all authentication-related HTTP calls
  */
 
-import { api } from './client.ts';
+import { api, MOCK_API_ENABLED } from './client.ts';
+import { parseResponse } from './validate.ts';
+import { userSchema } from './schemas.ts';
 import type { User } from '../../types/index.ts';
 import { navigate } from '../navigation.ts';
+import { AUTH_COMPLETE_MESSAGE, AUTH_POPUP_NAME } from '../session.ts';
+
+export type PopupLoginResult = 'success' | 'blocked' | 'cancelled';
+
+const POPUP_FEATURES = 'popup,width=500,height=750';
 
 export const authApi = {
   login: () => {
+    if (MOCK_API_ENABLED) {
+      // No OAuth in mock mode - a full reload starts a fresh, signed-in mock session
+      window.location.href = '/auth/callback';
+      return;
+    }
     // Redirect to Discord OAuth (external URL, so window.location is appropriate)
     const API_URL = import.meta.env.VITE_API_URL;
     window.location.href = `${API_URL}/auth/discord`;
   },
 
+  /**
+   * Re-authenticate in a popup so the current page (and any unsaved state) survives.
+   * Resolves 'blocked' when no popup could be opened - callers fall back to login().
+   */
+  loginInPopup: (): Promise<PopupLoginResult> => {
+    if (MOCK_API_ENABLED) {
+      // The mock backend lives in this window, so a popup can't sign it back in
+      return Promise.resolve('blocked');
+    }
+
+    const API_URL = import.meta.env.VITE_API_URL;
+    const popup = window.open(`${API_URL}/auth/discord`, AUTH_POPUP_NAME, POPUP_FEATURES);
+    if (!popup) {
+      return Promise.resolve('blocked');
+    }
+
+    return new Promise((resolve) => {
+      const finish = (result: PopupLoginResult) => {
+        window.removeEventListener('message', onMessage);
+        clearInterval(closedPoll);
+        resolve(result);
+      };
+
+      const onMessage = (event: MessageEvent) => {
+        const data = event.data as { type?: string; error?: string } | null;
+        if (event.origin !== window.location.origin || data?.type !== AUTH_COMPLETE_MESSAGE) return;
+        finish(data.error ? 'cancelled' : 'success');
+      };
+
+      // The OAuth pages are cross-origin, so polling `closed` is the only way to notice a dismissed popup
+      const closedPoll = setInterval(() => {
+        if (popup.closed) finish('cancelled');
+      }, 500);
+
+      window.addEventListener('message', onMessage);
+    });
+  },
+
   getCurrentUser: async (): Promise<User> => {
     const response = await api.get('/auth/me');
-    return response.data;
+    return parseResponse(userSchema, response.data, 'GET /auth/me');
   },
 
   logout: async () => {
@@ -1,78 +1,66 @@
-import axios, { AxiosError, type AxiosResponse, type AxiosRequestConfig } from 'axios';
+import axios, { AxiosError, CanceledError, type AxiosResponse, type AxiosRequestConfig, type InternalAxiosRequestConfig } from 'axios';
 import { navigate } from '../navigation.ts';
+import { getSessionStatus, queueExpiredRequest, saveReturnTo } from '../session.ts';
+import { getRetryDelay, waitForRetry } from './retry.ts';
+import { toApiError } from './apiError.ts';
+import { createDeduper, getDedupeKey, IDEMPOTENCY_KEY_HEADER } from './dedupe.ts';
+
+export { isCancelledRequest } from './dedupe.ts';
 
 const API_URL = import.meta.env.VITE_API_URL;
 
+/**
+ * Serve requests from the in-memory mock backend (src/lib/api/mock) instead of VITE_API_URL
+ */
+export const MOCK_API_ENABLED = import.meta.env.VITE_MOCK_API === 'true';
+
 const baseApi = axios.create({
   baseURL: API_URL,
   timeout: 10000,
   withCredentials: true, // Enable cookies for HttpOnly JWT storage
+  // Loaded lazily so the mock backend and its fixtures stay out of the main bundle
+  ...(MOCK_API_ENABLED && {
+    adapter: (config: InternalAxiosRequestConfig) =>
+      import('./mock/adapter.ts').then(({ mockAdapter }) => mockAdapter(config)),
+  }),
 });
 
-// Request deduplication: prevent multiple simultaneous requests to the same endpoint
-const pendingRequests = new Map<string, Promise<AxiosResponse<unknown>>>();
-const MAX_PENDING_REQUESTS = 100; // Maximum number of pending requests before cleanup
-const REQUEST_TIMEOUT = 60000; // 60 seconds - force cleanup of stale requests
+// Request deduplication: concurrent identical requests share one network call (see dedupe.ts)
+const deduper = createDeduper();
 
-function createRequestKey(config: AxiosRequestConfig): string {
-  const paramsKey = config.params ? JSON.stringify(config.params) : '';
-  return `${config.method?.toUpperCase() || 'GET'}:${config.url}:${paramsKey}`;
-}
+function dedupedRequest<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+  const { signal, ...rest } = config;
+  const requestConfig: AxiosRequestConfig = config.idempotencyKey
+    ? { ...rest, headers: { ...rest.headers, [IDEMPOTENCY_KEY_HEADER]: config.idempotencyKey } }
+    : rest;
 
-function cleanupStaleRequests() {
-  if (pendingRequests.size > MAX_PENDING_REQUESTS) {
-    // If we exceed max, clear all (last resort)
-    console.warn(`Clearing ${pendingRequests.size} pending requests (exceeded max ${MAX_PENDING_REQUESTS})`);
-    pendingRequests.clear();
-  }
+  // The shared request runs on the deduper's signal; each caller's own signal only unsubscribes it
+  return deduper.run(
+    getDedupeKey(config),
+    (sharedSignal) => baseApi.request<T>({ ...requestConfig, signal: sharedSignal }),
+    signal,
+  );
 }
 
-setInterval(() => {
-  cleanupStaleRequests();
-}, 30000);
-
-const createDeduplicatedRequest = (method: 'get' | 'post' | 'patch' | 'delete' | 'put') => {
+const createDeduplicatedRequest = (method: 'get' | 'delete') => {
   return function<T = unknown>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    const fullConfig = { ...config, method, url };
-    const key = createRequestKey(fullConfig);
-    
-    if (pendingRequests.has(key)) {
-      return pendingRequests.get(key)!;
-    }
-    
-    const requestPromise = baseApi.request<T>(fullConfig).finally(() => {
-      pendingRequests.delete(key);
-    });
-    
-    // Add timeout to force cleanup if request takes too long
-    const timeoutId = setTimeout(() => {
-      if (pendingRequests.has(key)) {
-        console.warn(`Request timeout for key: ${key}, removing from pending requests`);
-        pendingRequests.delete(key);
-      }
-    }, REQUEST_TIMEOUT);
-    
-    requestPromise.finally(() => {
-      clearTimeout(timeoutId);
-    });
-    
-    pendingRequests.set(key, requestPromise);
-    
-    if (pendingRequests.size > MAX_PENDING_REQUESTS) {
-      cleanupStaleRequests();
-    }
-    
-    return requestPromise;
+    return dedupedRequest<T>({ ...config, method, url });
+  };
+};
+
+const createDeduplicatedRequestWithData = (method: 'post' | 'patch' | 'put') => {
+  return function<T = unknown>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return dedupedRequest<T>({ ...config, method, url, data });
   };
 };
 
 // Create deduplicated API instance
 export const api = {
   get: createDeduplicatedRequest('get'),
-  post: createDeduplicatedRequest('post'),
-  patch: createDeduplicatedRequest('patch'),
+  post: createDeduplicatedRequestWithData('post'),
+  patch: createDeduplicatedRequestWithData('patch'),
   delete: createDeduplicatedRequest('delete'),
-  put: createDeduplicatedRequest('put'),
+  put: createDeduplicatedRequestWithData('put'),
   request: baseApi.request.bind(baseApi),
   defaults: baseApi.defaults,
   interceptors: baseApi.interceptors,
@@ -80,22 +68,48 @@ export const api = {
 
 baseApi.interceptors.response.use(
   (response: AxiosResponse) => response,
-  (error: AxiosError) => {
+  async (error: AxiosError) => {
+    // Cancellations pass through untouched so callers can tell them apart with isCancelledRequest
+    if (axios.isCancel(error)) {
+      return Promise.reject(error);
+    }
+
+    // Retry idempotent requests on network errors, 429 and 5xx (see retry.ts).
+    // Retries re-enter baseApi, so a deduplicated caller keeps awaiting the same promise.
+    const config = error.config;
+    if (config) {
+      const retryDelay = getRetryDelay(config, error.response);
+      if (retryDelay !== null) {
+        try {
+          await waitForRetry(retryDelay, config.signal);
+        } catch {
+          // Every subscriber aborted while backing off
+          return Promise.reject(new CanceledError(undefined, undefined, config));
+        }
+        config.retryAttempt = (config.retryAttempt ?? 0) + 1;
+        return baseApi.request(config);
+      }
+    }
+
     if (error.response?.status === 401) {
-      // Token expired or invalid - redirect to login using React Router
+      const isAuthRequest = config?.url?.startsWith('/auth/');
+      if (config && !isAuthRequest && getSessionStatus() !== 'unknown') {
+        // Session expired mid-use: hold the request instead of navigating away (and losing
+        // unsaved drafts). SessionExpiredDialog re-authenticates, then it is replayed.
+        return new Promise((resolve, reject) => {
+          queueExpiredRequest(
+            () => resolve(baseApi.request(config)),
+            () => reject(toApiError(error)),
+          );
+        });
+      }
+
+      // No session yet - remember the deep link and send the user to log in
+      saveReturnTo();
       navigate('/login', { replace: true });
     }
-    
-    // Transform error for consistent handling
-    const errorData = error.response?.data as { message?: string; code?: string; details?: Record<string, unknown> } | undefined;
-    const transformedError = {
-      message: errorData?.message || error.message || 'Network error',
-      code: errorData?.code,
-      details: errorData?.details,
-      status: error.response?.status,
-    };
-
-    return Promise.reject(transformedError);
+
+    return Promise.reject(toApiError(error));
   }
 );
 
@@ -0,0 +1,168 @@
+/**
+ * Request Deduplication
+ * Shares one in-flight request between callers asking for the same thing.
+ *
+ * Each caller subscribes with its own AbortSignal. Aborting only drops that
+ * caller's subscription; the underlying request is cancelled once every
+ * subscriber has gone. Pure helpers only - the axios wiring lives in client.ts.
+ */
+
+import { CanceledError, type AxiosRequestConfig, type GenericAbortSignal } from 'axios';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /**
+     * Opt a non-idempotent request (POST/PATCH/PUT/DELETE) into deduplication.
+     * Sent as the Idempotency-Key header so the backend can dedupe retries too.
+     */
+    idempotencyKey?: string;
+  }
+}
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+export interface DeduperOptions {
+  /**
+   * Forget an entry after this long so a hung request can't block new callers (default: 60000)
+   */
+  staleAfterMs?: number;
+  /**
+   * Drop all entries if the map grows past this size (default: 100)
+   */
+  maxPending?: number;
+}
+
+/**
+ * Build the dedup key for a request, or null if it must not be shared
+ */
+export function getDedupeKey(config: AxiosRequestConfig): string | null {
+  const method = (config.method || 'get').toLowerCase();
+  const paramsKey = config.params ? JSON.stringify(config.params) : '';
+
+  if (IDEMPOTENT_METHODS.includes(method)) {
+    return `${method.toUpperCase()}:${config.url}:${paramsKey}`;
+  }
+  if (config.idempotencyKey) {
+    return `${method.toUpperCase()}:${config.url}:${paramsKey}:${config.idempotencyKey}`;
+  }
+  return null;
+}
+
+/**
+ * Check whether an error came from a cancelled request rather than a failure
+ */
+export function isCancelledRequest(err: unknown): boolean {
+  if (err instanceof CanceledError) {
+    return true;
+  }
+  const error = err as { name?: string; code?: string; __CANCEL__?: boolean } | null;
+  return error?.__CANCEL__ === true || error?.name === 'AbortError' || error?.code === 'ERR_CANCELED';
+}
+
+/**
+ * Create a deduper that reference-counts subscribers per key
+ */
+export function createDeduper(options: DeduperOptions = {}) {
+  const { staleAfterMs = 60000, maxPending = 100 } = options;
+  const inFlight = new Map<string, InFlightRequest>();
+
+  const release = (key: string | null, entry: InFlightRequest) => {
+    if (key !== null && inFlight.get(key) === entry) {
+      inFlight.delete(key);
+    }
+  };
+
+  const start = (key: string | null, execute: (signal: AbortSignal) => Promise<unknown>): InFlightRequest => {
+    const controller = new AbortController();
+    const entry: InFlightRequest = { promise: Promise.resolve(), controller, subscribers: 0 };
+
+    const timeoutId =
+      key !== null
+        ? setTimeout(() => {
+            if (inFlight.get(key) === entry) {
+              console.warn(`Request timeout for key: ${key}, removing from pending requests`);
+              release(key, entry);
+            }
+          }, staleAfterMs)
+        : undefined;
+
+    entry.promise = execute(controller.signal).finally(() => {
+      clearTimeout(timeoutId);
+      release(key, entry);
+    });
+    // Subscribers handle the outcome; this keeps an unobserved rejection quiet
+    entry.promise.catch(() => undefined);
+
+    if (key !== null) {
+      if (inFlight.size >= maxPending) {
+        console.warn(`Clearing ${inFlight.size} pending requests (exceeded max ${maxPending})`);
+        inFlight.clear();
+      }
+      inFlight.set(key, entry);
+    }
+    return entry;
+  };
+
+  return {
+    /**
+     * Run `execute` once per key, sharing the result with concurrent callers
+     * @param key - Dedup key; null runs the request unshared
+     * @param execute - Starts the request with the shared controller's signal
+     * @param signal - This caller's signal; aborting it only unsubscribes this caller
+     */
+    run<T>(key: string | null, execute: (signal: AbortSignal) => Promise<T>, signal?: GenericAbortSignal): Promise<T> {
+      if (signal?.aborted) {
+        return Promise.reject(new CanceledError());
+      }
+
+      const entry = (key !== null && inFlight.get(key)) || start(key, execute);
+      entry.subscribers += 1;
+
+      return new Promise<T>((resolve, reject) => {
+        let settled = false;
+
+        const onAbort = () => {
+          if (settled) return;
+          settled = true;
+          reject(new CanceledError());
+
+          entry.subscribers -= 1;
+          if (entry.subscribers === 0) {
+            // Last one out cancels the request; new callers start a fresh one
+            release(key, entry);
+            entry.controller.abort();
+          }
+        };
+
+        signal?.addEventListener?.('abort', onAbort, { once: true });
+
+        entry.promise.then(
+          (value) => {
+            if (settled) return;
+            settled = true;
+            signal?.removeEventListener?.('abort', onAbort);
+            resolve(value as T);
+          },
+          (error: unknown) => {
+            if (settled) return;
+            settled = true;
+            signal?.removeEventListener?.('abort', onAbort);
+            reject(error);
+          },
+        );
+      });
+    },
+
+    get size(): number {
+      return inFlight.size;
+    },
+  };
+}
@@ -5,27 +5,63 @@
 
 import { api } from './client.ts';
 import type { AxiosRequestConfig } from 'axios';
-import type { Guild, GuildDetails, GuildSettingsType, DiscordChannel, DiscordRole } from '../../types/index.ts';
+import { parseResponse } from './validate.ts';
+import { s, safeParse } from './schema.ts';
+import {
+  guildSchema,
+  guildDetailsSchema,
+  guildSettingsSchema,
+  settingsRevisionSchema,
+  discordChannelSchema,
+  discordRoleSchema,
+  memberSchema,
+  memberListSchema,
+  memberStatsSchema,
+} from './schemas.ts';
+import type {
+  Guild,
+  GuildDetails,
+  GuildSettingsType,
+  SettingsRevision,
+  DiscordChannel,
+  DiscordRole,
+  Member,
+  MemberListResponse,
+  MemberStats,
+  SettingsConflictError,
+} from '../../types/index.ts';
+
+export const SETTINGS_CONFLICT_ERROR_CODE = 'SETTINGS_CONFLICT' as const;
 
 export const guildApi = {
   getMyGuilds: async (): Promise<Guild[]> => {
     const response = await api.get('/auth/guilds');
-    return response.data;
+    return parseResponse(s.array(guildSchema), response.data, 'GET /auth/guilds');
   },
 
   getGuild: async (guildId: string): Promise<GuildDetails> => {
     const response = await api.get(`/api/guilds/${guildId}`);
-    return response.data;
+    return parseResponse(guildDetailsSchema, response.data, 'GET /api/guilds/:guildId');
   },
 
   getGuildSettings: async (guildId: string): Promise<GuildSettingsType> => {
     const response = await api.get(`/api/guilds/${guildId}/settings`);
-    return response.data;
+    return parseResponse(guildSettingsSchema, response.data, 'GET /api/guilds/:guildId/settings');
   },
 
-  updateGuildSettings: async (guildId: string, settings: Partial<GuildSettingsType>): Promise<GuildSettingsType> => {
-    const response = await api.patch(`/api/guilds/${guildId}/settings`, settings);
-    return response.data;
+  /**
+   * Update guild settings
+   * @param expectedRevision - Revision the changes are based on; the save is rejected with a
+   * SETTINGS_CONFLICT error if the server has moved on. Omit to overwrite unconditionally.
+   */
+  updateGuildSettings: async (
+    guildId: string,
+    settings: Partial<GuildSettingsType>,
+    expectedRevision?: number,
+  ): Promise<GuildSettingsType> => {
+    const body = expectedRevision === undefined ? settings : { ...settings, _metadata: { revision: expectedRevision } };
+    const response = await api.patch(`/api/guilds/${guildId}/settings`, body);
+    return parseResponse(guildSettingsSchema, response.data, 'PATCH /api/guilds/:guildId/settings');
   },
 
   resetGuildSettings: async (guildId: string): Promise<void> => {
@@ -33,62 +69,68 @@ export const guildApi = {
     return response.data;
   },
 
-  getSettingsHistory: async (guildId: string, limit: number = 50): Promise<unknown> => {
+  getSettingsHistory: async (guildId: string, limit: number = 50): Promise<SettingsRevision[]> => {
     const response = await api.get(`/api/guilds/${guildId}/settings/history`, {
       params: { limit },
     });
-    return response.data;
+    return parseResponse(s.array(settingsRevisionSchema), response.data, 'GET /api/guilds/:guildId/settings/history');
   },
 
   // NEW: Get guild channels from Discord API
   getGuildChannels: async (guildId: string): Promise<DiscordChannel[]> => {
     const response = await api.get(`/api/guilds/${guildId}/channels`);
-    return response.data;
+    return parseResponse(s.array(discordChannelSchema), response.data, 'GET /api/guilds/:guildId/channels');
   },
 
   // NEW: Get guild roles from Discord API
   getGuildRoles: async (guildId: string, config?: AxiosRequestConfig): Promise<DiscordRole[]> => {
     const response = await api.get(`/api/guilds/${guildId}/roles`, config);
-    return response.data;
+    return parseResponse(s.array(discordRoleSchema), response.data, 'GET /api/guilds/:guildId/roles');
   },
 
   /**
    * Get guild members with pagination
    */
-  getGuildMembers: async (guildId: string, page: number = 1, limit: number = 20): Promise<{ members: unknown[]; pagination: unknown }> => {
+  getGuildMembers: async (guildId: string, page: number = 1, limit: number = 20): Promise<MemberListResponse> => {
     const response = await api.get(`/api/guilds/${guildId}/members`, {
       params: { page, limit },
     });
-    return response.data;
+    return parseResponse(memberListSchema, response.data, 'GET /api/guilds/:guildId/members');
   },
 
   /**
    * Get specific guild member
    */
-  getGuildMember: async (guildId: string, userId: string, config?: AxiosRequestConfig): Promise<unknown> => {
+  getGuildMember: async (guildId: string, userId: string, config?: AxiosRequestConfig): Promise<Member> => {
     const response = await api.get(`/api/guilds/${guildId}/members/${userId}`, config);
-    return response.data;
+    return parseResponse(memberSchema, response.data, 'GET /api/guilds/:guildId/members/:userId');
   },
 
   /**
    * Search guild members
    */
-  searchGuildMembers: async (guildId: string, query: string, page: number = 1, limit: number = 20): Promise<{ members: unknown[]; pagination: unknown }> => {
+  searchGuildMembers: async (guildId: string, query: string, page: number = 1, limit: number = 20): Promise<MemberListResponse> => {
     const response = await api.get(`/api/guilds/${guildId}/members/search`, {
       params: { q: query, page, limit },
     });
-    return response.data;
+    return parseResponse(memberListSchema, response.data, 'GET /api/guilds/:guildId/members/search');
   },
 
   /**
    * Get guild member statistics
    */
-  getMemberStats: async (guildId: string): Promise<{
-    totalMembers: number;
-    activeMembers: number;
-    newThisWeek: number;
-  }> => {
+  getMemberStats: async (guildId: string): Promise<MemberStats> => {
     const response = await api.get(`/api/guilds/${guildId}/members/stats`);
-    return response.data;
+    return parseResponse(memberStatsSchema, response.data, 'GET /api/guilds/:guildId/members/stats');
   },
 };
+
+/**
+ * Type guard for a save rejected because it was based on an outdated revision
+ */
+export function isSettingsConflictError(err: unknown): err is SettingsConflictError {
+  const error = err as { code?: string; details?: { current?: unknown } } | null;
+  return (
+    error?.code === SETTINGS_CONFLICT_ERROR_CODE && safeParse(guildSettingsSchema, error.details?.current).success
+  );
+}
@@ -8,6 +8,7 @@ export * from './auth.ts';
 export * from './profile.ts';
 export * from './guilds.ts';
 export * from './trackers.ts';
+export * from './statusStream.ts';
 export * from './permissions.ts';
 export * from './audit.ts';
 export * from './mmr-calculation.ts';
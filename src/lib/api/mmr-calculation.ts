@@ -1,4 +1,12 @@
 import { api } from './client.ts';
+import { parseResponse } from './validate.ts';
+import {
+  formulaTestResultSchema,
+  formulaValidationResultSchema,
+  calculateMmrResultSchema,
+  mmrImpactPreviewSchema,
+  algorithmComparisonResultSchema,
+} from './schemas.ts';
 import type { MmrCalculationConfig } from '@/types/index.js';
 
 /**
@@ -50,6 +58,58 @@ export interface CalculateMmrResult {
   config: MmrCalculationConfig;
 }
 
+export type MmrPlaylist = 'ones' | 'twos' | 'threes' | 'fours';
+
+/**
+ * An MMR result and the points each playlist contributed to it
+ */
+export interface MmrBreakdown {
+  result: number;
+  /**
+   * For custom formulas, how much the result drops when that playlist's rating is 0
+   */
+  contributions: Partial<Record<MmrPlaylist, number>>;
+}
+
+/**
+ * One algorithm's result in a side-by-side comparison
+ */
+export interface AlgorithmComparison {
+  algorithm: MmrCalculationConfig['algorithm'];
+  /**
+   * Whether this is the guild's configured algorithm
+   */
+  active: boolean;
+  result: number | null;
+  error: string | null;
+  contributions: Partial<Record<MmrPlaylist, number>>;
+}
+
+export interface AlgorithmComparisonResult {
+  results: AlgorithmComparison[];
+}
+
+/**
+ * One tracker's MMR under the saved and the draft configuration.
+ * A null MMR means the tracker is ineligible; the matching error says why.
+ */
+export interface MmrImpactEntry {
+  trackerId: string;
+  userId: string;
+  playerName: string;
+  current: number | null;
+  currentError: string | null;
+  draft: number | null;
+  draftError: string | null;
+}
+
+/**
+ * Result of simulating a draft configuration against a guild's trackers
+ */
+export interface MmrImpactPreview {
+  entries: MmrImpactEntry[];
+}
+
 /**
  * MMR Calculation API Client
  */
@@ -68,7 +128,7 @@ export const mmrCalculationApi = {
         testData,
       },
     );
-    return response.data;
+    return parseResponse(formulaTestResultSchema, response.data, 'POST /api/mmr-calculation/test-formula');
   },
 
   /**
@@ -83,7 +143,7 @@ export const mmrCalculationApi = {
         formula,
       },
     );
-    return response.data;
+    return parseResponse(formulaValidationResultSchema, response.data, 'POST /api/mmr-calculation/validate-formula');
   },
 
   /**
@@ -100,7 +160,25 @@ export const mmrCalculationApi = {
         trackerData,
       },
     );
-    return response.data;
+    return parseResponse(calculateMmrResultSchema, response.data, 'POST /api/mmr-calculation/calculate-mmr');
+  },
+
+  /**
+   * Run a draft configuration and the saved one against every active guild tracker's
+   * latest data (admin endpoint). Nothing is saved.
+   */
+  async previewImpact(
+    guildId: string,
+    config: MmrCalculationConfig,
+  ): Promise<MmrImpactPreview> {
+    const response = await api.post<MmrImpactPreview>(
+      '/api/mmr-calculation/preview-impact',
+      {
+        guildId,
+        config,
+      },
+    );
+    return parseResponse(mmrImpactPreviewSchema, response.data, 'POST /api/mmr-calculation/preview-impact');
   },
 
   /**
@@ -117,7 +195,24 @@ export const mmrCalculationApi = {
         trackerData,
       },
     );
-    return response.data;
+    return parseResponse(calculateMmrResultSchema, response.data, 'POST /api/calculator');
+  },
+
+  /**
+   * Evaluate the same data under every algorithm with the guild's weights (public calculator demo)
+   */
+  async compareAlgorithms(
+    guildId: string,
+    trackerData: TrackerData,
+  ): Promise<AlgorithmComparisonResult> {
+    const response = await api.post<AlgorithmComparisonResult>(
+      '/api/calculator/compare',
+      {
+        guildId,
+        trackerData,
+      },
+    );
+    return parseResponse(algorithmComparisonResultSchema, response.data, 'POST /api/calculator/compare');
   },
 };
 
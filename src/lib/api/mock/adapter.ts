@@ -0,0 +1,82 @@
+/**
+ * Mock Axios Adapter
+ * Serves requests from the in-memory mock backend instead of the network.
+ * Enabled with VITE_MOCK_API=true (see client.ts).
+ */
+
+import { AxiosError, CanceledError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { router, settleScrapes } from './handlers.ts';
+
+const MIN_LATENCY_MS = 120;
+const MAX_LATENCY_MS = 400;
+
+function delay(signal: InternalAxiosRequestConfig['signal']): Promise<void> {
+  const ms = MIN_LATENCY_MS + Math.random() * (MAX_LATENCY_MS - MIN_LATENCY_MS);
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener?.(
+      'abort',
+      () => {
+        clearTimeout(timeoutId);
+        reject(new CanceledError());
+      },
+      { once: true },
+    );
+  });
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string') return data ?? null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function toQuery(url: URL, params: unknown): Record<string, string> {
+  const query: Record<string, string> = Object.fromEntries(url.searchParams);
+  Object.entries((params ?? {}) as Record<string, unknown>).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) query[key] = String(value);
+  });
+  return query;
+}
+
+export async function mockAdapter(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+  if (config.signal?.aborted) {
+    throw new CanceledError();
+  }
+  await delay(config.signal);
+  settleScrapes();
+
+  const method = (config.method || 'get').toUpperCase();
+  const url = new URL(config.url || '/', 'http://mock.local');
+  const match = router.match(method, url.pathname);
+
+  const result = match
+    ? match.handler({ params: match.params, query: toQuery(url, config.params), body: parseBody(config.data) })
+    : { status: 404, data: { message: `No mock handler for ${method} ${url.pathname}`, statusCode: 404 } };
+
+  const response: AxiosResponse = {
+    // Clone so callers can't mutate the mock db through response objects
+    data: result.data === null ? null : structuredClone(result.data),
+    status: result.status,
+    statusText: String(result.status),
+    headers: 'headers' in result ? { ...result.headers } : {},
+    config,
+    request: null,
+  };
+
+  const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+  if (!validateStatus(result.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      response,
+    );
+  }
+
+  return response;
+}
@@ -0,0 +1,393 @@
+/**
+ * Mock Database
+ * In-memory state for the mock backend, seeded from the shared test fixtures.
+ * Lives for the lifetime of the page - a reload starts a fresh session.
+ */
+
+import { frontendFixtures } from '../../../test/fixtures/member.fixtures.ts';
+import type {
+  User,
+  GuildDetails,
+  GuildSettingsType,
+  SettingsRevision,
+  DiscordChannel,
+  DiscordRole,
+  Member,
+  Tracker,
+  TrackerSeason,
+  TrackerSnapshot,
+  PlaylistData,
+} from '../../../types/index.ts';
+import type { AuditLog, PermissionState } from '../../../types/permissions.ts';
+
+/**
+ * How long a mock scrape stays PENDING in the queue before it starts
+ */
+export const SCRAPE_QUEUE_MS = 1500;
+
+/**
+ * How long a mock scrape takes from being queued to finishing
+ */
+export const SCRAPE_DURATION_MS = 5000;
+
+/**
+ * Share of mock scrapes that fail, so the error path can be exercised
+ */
+export const SCRAPE_FAILURE_RATE = 0.15;
+
+/**
+ * Refresh requests allowed per window before the mock answers 429
+ */
+export const REFRESH_RATE_LIMIT = 5;
+export const REFRESH_RATE_WINDOW_MS = 10000;
+
+export const CURRENT_SEASON = 14;
+
+export interface MockDb {
+  authenticated: boolean;
+  currentUser: User;
+  guilds: GuildDetails[];
+  members: Record<string, Member[]>;
+  settings: Record<string, GuildSettingsType>;
+  /**
+   * Guild id -> saved settings revisions, newest first
+   */
+  settingsHistory: Record<string, SettingsRevision[]>;
+  channels: Record<string, DiscordChannel[]>;
+  roles: Record<string, DiscordRole[]>;
+  permissions: Record<string, PermissionState>;
+  trackers: Tracker[];
+  seasons: Record<string, TrackerSeason[]>;
+  /**
+   * Tracker id -> manually entered snapshots, oldest first
+   */
+  snapshots: Record<string, TrackerSnapshot[]>;
+  /**
+   * Tracker id -> time the current scrape started
+   */
+  scrapes: Record<string, number>;
+  /**
+   * Times of recent refresh requests, for the rate limit
+   */
+  refreshRequests: number[];
+  auditLogs: AuditLog[];
+}
+
+const LEAGUE_GUILD_ID = '987654321098765432';
+const SCRIMS_GUILD_ID = '987654321098765433';
+const ACADEMY_GUILD_ID = '987654321098765434';
+
+// A second guild the user administers, with its own channel IDs so copied settings need remapping
+const ACADEMY_CHANNELS: DiscordChannel[] = [
+  { id: '310000000000000001', name: 'Text Channels', type: 4, parent_id: null },
+  { id: '310000000000000002', name: 'general', type: 0, parent_id: '310000000000000001' },
+  { id: '310000000000000003', name: 'bot-commands', type: 0, parent_id: '310000000000000001' },
+  { id: '310000000000000004', name: 'signups', type: 0, parent_id: '310000000000000001' },
+  { id: '310000000000000005', name: 'Voice Channels', type: 4, parent_id: null },
+  { id: '310000000000000006', name: 'Lobby', type: 2, parent_id: '310000000000000005' },
+];
+
+const PLATFORMS = ['STEAM', 'EPIC', 'PSN', 'XBL', 'SWITCH'] as const;
+
+let idCounter = 0;
+
+export function nextId(prefix: string): string {
+  idCounter += 1;
+  return `${prefix}_${Date.now().toString(36)}${idCounter}`;
+}
+
+/**
+ * Deterministic pseudo-random numbers so every session sees the same seed data
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+const random = createRandom(42);
+
+function jitter(value: number, spread: number): number {
+  return Math.round(value + (random() - 0.5) * 2 * spread);
+}
+
+function playlist(rating: number, matchesPlayed: number): PlaylistData {
+  return frontendFixtures.createMockPlaylistData(rating, matchesPlayed);
+}
+
+/**
+ * Generate season history ending at CURRENT_SEASON around a base rating
+ */
+export function generateSeasons(trackerId: string, baseRating: number, count: number = 6): TrackerSeason[] {
+  const seasons: TrackerSeason[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const seasonNumber = CURRENT_SEASON - i;
+    const drift = -i * 40;
+    const scrapedAt = new Date(Date.UTC(2024, 5 - i * 3, 1)).toISOString();
+    seasons.push(
+      frontendFixtures.createMockTrackerSeason({
+        id: `${trackerId}_s${seasonNumber}`,
+        trackerId,
+        seasonNumber,
+        seasonName: `Season ${seasonNumber}`,
+        playlist1v1: playlist(jitter(baseRating - 220 + drift, 60), jitter(45, 30)),
+        playlist2v2: playlist(jitter(baseRating + drift, 50), jitter(200, 80)),
+        playlist3v3: playlist(jitter(baseRating - 30 + drift, 50), jitter(240, 90)),
+        playlist4v4: random() > 0.6 ? playlist(jitter(baseRating - 300 + drift, 80), jitter(20, 15)) : null,
+        scrapedAt,
+        createdAt: scrapedAt,
+        updatedAt: scrapedAt,
+      }),
+    );
+  }
+  return seasons;
+}
+
+/**
+ * Nudge the latest season's ratings as if a fresh scrape came in
+ */
+export function advanceSeason(seasons: TrackerSeason[], now: string): void {
+  const latest = seasons[seasons.length - 1];
+  if (!latest) return;
+  (['playlist1v1', 'playlist2v2', 'playlist3v3', 'playlist4v4'] as const).forEach((key) => {
+    const data = latest[key];
+    if (!data?.rating) return;
+    const games = Math.floor(random() * 8);
+    latest[key] = playlist(jitter(data.rating + games * 2, 15), (data.matchesPlayed ?? 0) + games);
+  });
+  latest.scrapedAt = now;
+  latest.updatedAt = now;
+}
+
+function memberToUser(member: Member): User {
+  return frontendFixtures.createMockUser({
+    id: member.userId,
+    username: member.username,
+    globalName: member.user.globalName ?? null,
+    avatar: member.user.avatar ?? null,
+    email: null,
+  });
+}
+
+/**
+ * Build guild members with the current user first
+ * Snowflakes are generated as strings (fixture ids lose precision as numbers) and
+ * avatars are dropped (fixture hashes would 404 against the Discord CDN).
+ */
+function createMembers(count: number, currentUser: User): Member[] {
+  const roleIds = frontendFixtures.createMockDiscordRoles().map((role: DiscordRole) => role.id);
+  return frontendFixtures.createMemberList(count).map((member: Member, index: number) => {
+    const isCurrentUser = index === 0;
+    const userId = isCurrentUser ? currentUser.id : `2${String(index).padStart(17, '0')}`;
+    return {
+      ...member,
+      userId,
+      username: isCurrentUser ? currentUser.username : member.username,
+      roles: isCurrentUser ? roleIds : roleIds.slice(0, 1 + (index % 3)),
+      joinedAt: new Date(Date.UTC(2024, 0, 1) + index * 5 * 86400000).toISOString(),
+      user: {
+        ...member.user,
+        id: userId,
+        username: isCurrentUser ? currentUser.username : member.user.username,
+        globalName: isCurrentUser ? currentUser.globalName : member.user.globalName,
+        avatar: null,
+      },
+    };
+  });
+}
+
+function createTrackersForMembers(members: Member[], currentUser: User) {
+  const trackers: Tracker[] = [];
+  const seasons: Record<string, TrackerSeason[]> = {};
+
+  const addTracker = (member: Member, platform: (typeof PLATFORMS)[number], username: string, baseRating: number) => {
+    const id = `tracker_${trackers.length + 1}`;
+    const memberSeasons = generateSeasons(id, baseRating);
+    const lastScrapedAt = memberSeasons[memberSeasons.length - 1].scrapedAt;
+    trackers.push(
+      frontendFixtures.createMockTracker({
+        id,
+        url: `https://rocketleague.tracker.network/rocket-league/profile/${platform.toLowerCase()}/${encodeURIComponent(username)}/overview`,
+        platform,
+        username,
+        userId: member.userId,
+        lastScrapedAt,
+        createdAt: member.joinedAt,
+        updatedAt: lastScrapedAt,
+        user: member.userId === currentUser.id ? currentUser : memberToUser(member),
+      }),
+    );
+    seasons[id] = memberSeasons;
+  };
+
+  members.forEach((member, index) => {
+    // Roughly two thirds of the league has registered a tracker
+    if (index % 3 === 2) return;
+    addTracker(member, PLATFORMS[index % PLATFORMS.length], member.username, 900 + Math.round(random() * 900));
+  });
+
+  const me = members.find((member) => member.userId === currentUser.id);
+  if (me) {
+    addTracker(me, 'EPIC', `${currentUser.username}_alt`, 1150);
+  }
+
+  return { trackers, seasons };
+}
+
+function createSettingsHistory(guildId: string, settings: GuildSettingsType, currentUser: User): SettingsRevision[] {
+  const user = { id: currentUser.id, username: currentUser.username, globalName: currentUser.globalName ?? null };
+  const revision = (id: string, revisionSettings: GuildSettingsType, createdAt: string): SettingsRevision => ({
+    id,
+    guildId,
+    settings: revisionSettings,
+    userId: currentUser.id,
+    createdAt,
+    user,
+  });
+  // Matches the seeded audit log: the algorithm moved to WEIGHTED_AVERAGE in May
+  return [
+    revision(`settings_seed_${guildId}_2`, settings, '2024-05-20T18:30:00Z'),
+    revision(
+      `settings_seed_${guildId}_1`,
+      {
+        ...settings,
+        mmrCalculation: { ...settings.mmrCalculation, algorithm: 'PEAK_MMR' },
+        _metadata: { ...settings._metadata, revision: 1, updatedAt: '2024-04-02T12:00:00Z' },
+      },
+      '2024-04-02T12:00:00Z',
+    ),
+  ];
+}
+
+function createAuditLogs(guildId: string, currentUser: User): AuditLog[] {
+  const user = { id: currentUser.id, username: currentUser.username, globalName: currentUser.globalName ?? null };
+  return [
+    frontendFixtures.createMockAuditLog({
+      id: 'audit_seed_1',
+      entityType: 'guild_settings',
+      entityId: guildId,
+      eventType: 'SETTINGS_UPDATED',
+      action: 'update',
+      userId: currentUser.id,
+      guildId,
+      changes: { mmrCalculation: { algorithm: 'WEIGHTED_AVERAGE' } },
+      timestamp: '2024-05-20T18:30:00Z',
+      user,
+    }),
+    frontendFixtures.createMockAuditLog({
+      id: 'audit_seed_2',
+      entityType: 'guild_settings',
+      entityId: guildId,
+      eventType: 'SETTINGS_UPDATED',
+      action: 'update',
+      userId: currentUser.id,
+      guildId,
+      changes: { register_command_channels: [{ id: '300000000000000006', name: 'register' }] },
+      timestamp: '2024-04-02T12:00:00Z',
+      user,
+    }),
+  ];
+}
+
+export function createMockDb(): MockDb {
+  const currentUser: User = frontendFixtures.createMockUser({ avatar: null });
+
+  const leagueMembers = createMembers(45, currentUser);
+  const scrimsMembers = createMembers(12, currentUser);
+  const { trackers, seasons } = createTrackersForMembers(leagueMembers, currentUser);
+  const academyMembers = createMembers(6, currentUser);
+
+  const guilds: GuildDetails[] = [
+    { id: LEAGUE_GUILD_ID, name: 'Ascendancy League', icon: null, roles: ['admin'] },
+    { id: SCRIMS_GUILD_ID, name: 'Rocket Scrims', icon: null, roles: ['member'] },
+    { id: ACADEMY_GUILD_ID, name: 'Ascendancy Academy', icon: null, roles: ['admin'] },
+  ];
+
+  const allPermissions = ['create_leagues', 'manage_teams', 'view_stats', 'manage_tournaments', 'manage_roles', 'view_logs'];
+  const roleIds = frontendFixtures.createMockDiscordRoles().map((role: DiscordRole) => role.id);
+
+  // Revision numbers line up with the seeded settings history
+  const savedMetadata = (revision: number) => ({
+    revision,
+    updatedAt: '2024-05-20T18:30:00Z',
+    updatedBy: currentUser.globalName ?? currentUser.username,
+  });
+  const [memberRole, playerRole, moderatorRole, leagueAdminRole] = frontendFixtures.createMockDiscordRoles();
+  const leagueSettings = frontendFixtures.createMockGuildSettings({
+    rolePermissions: {
+      view_stats: [memberRole, playerRole],
+      manage_teams: [moderatorRole, leagueAdminRole],
+      view_logs: [moderatorRole, leagueAdminRole],
+      manage_tournaments: [leagueAdminRole],
+      manage_roles: [leagueAdminRole],
+    },
+    _metadata: savedMetadata(2),
+  });
+  const scrimsSettings = frontendFixtures.createMockGuildSettings({
+    mmrCalculation: { algorithm: 'ASCENDANCY', ascendancyWeights: { current: 0.25, peak: 0.75 } },
+    _metadata: savedMetadata(1),
+  });
+  const academySettings = frontendFixtures.createMockGuildSettings({
+    bot_command_channels: [{ id: '310000000000000003', name: 'bot-commands' }],
+    register_command_channels: [{ id: '310000000000000004', name: 'signups' }],
+    mmrCalculation: {
+      algorithm: 'PEAK_MMR',
+      minGamesPlayed: { ones: 0, twos: 20, threes: 20, fours: 0 },
+    },
+    _metadata: savedMetadata(1),
+  });
+
+  return {
+    authenticated: true,
+    currentUser,
+    guilds,
+    members: {
+      [LEAGUE_GUILD_ID]: leagueMembers,
+      [SCRIMS_GUILD_ID]: scrimsMembers,
+      [ACADEMY_GUILD_ID]: academyMembers,
+    },
+    settings: {
+      [LEAGUE_GUILD_ID]: leagueSettings,
+      [SCRIMS_GUILD_ID]: scrimsSettings,
+      [ACADEMY_GUILD_ID]: academySettings,
+    },
+    settingsHistory: {
+      [LEAGUE_GUILD_ID]: createSettingsHistory(LEAGUE_GUILD_ID, leagueSettings, currentUser),
+      [SCRIMS_GUILD_ID]: createSettingsHistory(SCRIMS_GUILD_ID, scrimsSettings, currentUser).slice(0, 1),
+      [ACADEMY_GUILD_ID]: createSettingsHistory(ACADEMY_GUILD_ID, academySettings, currentUser).slice(0, 1),
+    },
+    channels: {
+      [LEAGUE_GUILD_ID]: frontendFixtures.createMockDiscordChannels(),
+      [SCRIMS_GUILD_ID]: frontendFixtures.createMockDiscordChannels(),
+      [ACADEMY_GUILD_ID]: ACADEMY_CHANNELS,
+    },
+    roles: {
+      [LEAGUE_GUILD_ID]: frontendFixtures.createMockDiscordRoles(),
+      [SCRIMS_GUILD_ID]: frontendFixtures.createMockDiscordRoles(),
+      [ACADEMY_GUILD_ID]: frontendFixtures.createMockDiscordRoles(),
+    },
+    permissions: {
+      [LEAGUE_GUILD_ID]: frontendFixtures.createMockPermissionState({
+        isAdmin: true,
+        permissions: allPermissions,
+        roles: roleIds,
+      }),
+      [SCRIMS_GUILD_ID]: frontendFixtures.createMockPermissionState({ roles: roleIds.slice(0, 1) }),
+      [ACADEMY_GUILD_ID]: frontendFixtures.createMockPermissionState({
+        isAdmin: true,
+        permissions: allPermissions,
+        roles: roleIds,
+      }),
+    },
+    trackers,
+    seasons,
+    snapshots: {},
+    scrapes: {},
+    refreshRequests: [],
+    auditLogs: createAuditLogs(LEAGUE_GUILD_ID, currentUser),
+  };
+}
+
+export const db = createMockDb();
@@ -0,0 +1,652 @@
+/**
+ * Mock Route Handlers
+ * Mirrors the backend endpoints used by src/lib/api on top of the in-memory db.
+ */
+
+import { createRouter, ok, fail, type MockRequest, type MockResult } from './router.ts';
+import {
+  db,
+  nextId,
+  generateSeasons,
+  advanceSeason,
+  SCRAPE_QUEUE_MS,
+  SCRAPE_DURATION_MS,
+  SCRAPE_FAILURE_RATE,
+  REFRESH_RATE_LIMIT,
+  REFRESH_RATE_WINDOW_MS,
+} from './db.ts';
+import { calculateMmr, compareAlgorithms, evaluateFormula, SAMPLE_TRACKER_DATA } from './mmr.ts';
+import { validateTrackerUrl } from '../../../utils/trackerValidation.ts';
+import { latestSeason, seasonToTrackerData } from '../../../utils/trackerData.ts';
+import { trackerOwnerName } from '../../../utils/trackerDirectory.ts';
+import { memberPermissions } from '../../../utils/rolePermissions.ts';
+import type {
+  GuildSettingsType,
+  MmrCalculationConfig,
+  GamePlatform,
+  Tracker,
+  TrackerSnapshot,
+  CreateTrackerSnapshotInput,
+  Member,
+} from '../../../types/index.ts';
+import type { AuditLog, PermissionState } from '../../../types/permissions.ts';
+import type { TrackerData, MmrImpactEntry } from '../mmr-calculation.ts';
+
+const MAX_TRACKERS_PER_USER = 4;
+
+const DEFAULT_MMR_CONFIG: MmrCalculationConfig = {
+  algorithm: 'WEIGHTED_AVERAGE',
+  weights: { ones: 0.1, twos: 0.3, threes: 0.5, fours: 0.1 },
+  minGamesPlayed: { ones: 0, twos: 0, threes: 0, fours: 0 },
+};
+
+const DEFAULT_SETTINGS: GuildSettingsType = {
+  bot_command_channels: [],
+  register_command_channels: [],
+  mmrCalculation: DEFAULT_MMR_CONFIG,
+};
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+/**
+ * Move queued scrapes along: PENDING, then IN_PROGRESS, then COMPLETED or FAILED
+ * Called before every request so status polling sees progress.
+ */
+export function settleScrapes(): void {
+  const current = Date.now();
+  Object.entries(db.scrapes).forEach(([trackerId, queuedAt]) => {
+    const tracker = db.trackers.find((t) => t.id === trackerId);
+    if (!tracker) {
+      delete db.scrapes[trackerId];
+      return;
+    }
+
+    const elapsed = current - queuedAt;
+    if (elapsed < SCRAPE_QUEUE_MS) return;
+    if (elapsed < SCRAPE_DURATION_MS) {
+      tracker.scrapingStatus = 'IN_PROGRESS';
+      return;
+    }
+
+    delete db.scrapes[trackerId];
+    const timestamp = now();
+    if (Math.random() < SCRAPE_FAILURE_RATE) {
+      Object.assign(tracker, {
+        scrapingStatus: 'FAILED',
+        scrapingError: 'Tracker.gg rate limited the scraper. Try again in a few minutes.',
+        updatedAt: timestamp,
+      });
+      return;
+    }
+
+    if (!db.seasons[trackerId] || db.seasons[trackerId].length === 0) {
+      db.seasons[trackerId] = generateSeasons(trackerId, 1000 + Math.round(Math.random() * 600));
+    }
+    advanceSeason(db.seasons[trackerId], timestamp);
+    Object.assign(tracker, {
+      scrapingStatus: 'COMPLETED',
+      scrapingError: null,
+      lastScrapedAt: timestamp,
+      updatedAt: timestamp,
+    });
+  });
+}
+
+function startScrape(tracker: Tracker): void {
+  db.scrapes[tracker.id] = Date.now();
+  tracker.scrapingStatus = 'PENDING';
+  tracker.scrapingError = null;
+  tracker.scrapingAttempts += 1;
+  tracker.updatedAt = now();
+}
+
+/**
+ * Sliding-window limit on refresh requests, like the real scraper queue
+ */
+function rateLimitRefresh(): MockResult | null {
+  const current = Date.now();
+  db.refreshRequests = db.refreshRequests.filter((time) => current - time < REFRESH_RATE_WINDOW_MS);
+  if (db.refreshRequests.length >= REFRESH_RATE_LIMIT) {
+    const retryAfterMs = db.refreshRequests[0] + REFRESH_RATE_WINDOW_MS - current;
+    return {
+      ...fail(429, 'Too many refresh requests'),
+      headers: { 'retry-after': String(Math.ceil(retryAfterMs / 1000)) },
+    };
+  }
+  db.refreshRequests.push(current);
+  return null;
+}
+
+function requireAuth(): ReturnType<typeof fail> | null {
+  return db.authenticated ? null : fail(401, 'Unauthorized');
+}
+
+function requireGuild(guildId: string) {
+  return db.guilds.some((guild) => guild.id === guildId) ? null : fail(404, 'Guild not found');
+}
+
+function requireAdmin(guildId: string) {
+  return requireGuild(guildId) ?? (db.permissions[guildId]?.isAdmin ? null : fail(403, 'Admin permissions required'));
+}
+
+function recordAudit(entry: Partial<AuditLog>): void {
+  const user = db.currentUser;
+  db.auditLogs.unshift({
+    id: nextId('audit'),
+    entityType: 'guild_settings',
+    entityId: '',
+    eventType: 'SETTINGS_UPDATED',
+    action: 'update',
+    userId: user.id,
+    timestamp: now(),
+    user: { id: user.id, username: user.username, globalName: user.globalName ?? null },
+    ...entry,
+  });
+}
+
+/**
+ * Stamp settings with the next revision of a guild's saved settings
+ */
+function withNextRevision(guildId: string, settings: GuildSettingsType): GuildSettingsType {
+  const user = db.currentUser;
+  return {
+    ...settings,
+    _metadata: {
+      revision: (db.settings[guildId]?._metadata?.revision ?? 0) + 1,
+      updatedAt: now(),
+      updatedBy: user.globalName ?? user.username,
+    },
+  };
+}
+
+/**
+ * The current user's permission state plus whatever their roles are granted in settings
+ */
+function withRoleGrants(guildId: string): PermissionState {
+  const state = db.permissions[guildId];
+  if (state.isAdmin) return state;
+  const granted = memberPermissions(state, db.settings[guildId]?.rolePermissions, guildId);
+  return { ...state, permissions: [...new Set([...state.permissions, ...granted])] };
+}
+
+function recordSettingsRevision(guildId: string, settings: GuildSettingsType): void {
+  const user = db.currentUser;
+  db.settingsHistory[guildId] = [
+    {
+      id: nextId('settings'),
+      guildId,
+      settings: structuredClone(settings),
+      userId: user.id,
+      createdAt: now(),
+      user: { id: user.id, username: user.username, globalName: user.globalName ?? null },
+    },
+    ...(db.settingsHistory[guildId] ?? []),
+  ];
+}
+
+/**
+ * Tracker events show up in the audit log of every guild the owner belongs to
+ */
+function recordTrackerAudit(tracker: Tracker, entry: Partial<AuditLog>): void {
+  Object.entries(db.members)
+    .filter(([, members]) => members.some((member) => member.userId === tracker.userId))
+    .forEach(([guildId]) => recordAudit({ entityType: 'tracker', entityId: tracker.id, guildId, ...entry }));
+}
+
+function paginate(members: Member[], query: MockRequest['query']) {
+  const page = Math.max(1, Number(query.page) || 1);
+  const limit = Math.max(1, Number(query.limit) || 20);
+  return {
+    members: members.slice((page - 1) * limit, page * limit),
+    pagination: { page, limit, total: members.length, pages: Math.ceil(members.length / limit) },
+  };
+}
+
+function withSeasons(tracker: Tracker) {
+  return {
+    tracker: { ...tracker, snapshots: db.snapshots[tracker.id] ?? [] },
+    seasons: [...(db.seasons[tracker.id] ?? [])].reverse(),
+  };
+}
+
+const SNAPSHOT_RATING_FIELDS = ['ones', 'twos', 'threes', 'fours'] as const;
+const SNAPSHOT_GAMES_FIELDS = ['onesGamesPlayed', 'twosGamesPlayed', 'threesGamesPlayed', 'foursGamesPlayed'] as const;
+
+/**
+ * Build a snapshot from a manual entry, or return an error message
+ */
+function createSnapshot(tracker: Tracker, input: Partial<CreateTrackerSnapshotInput>): TrackerSnapshot | string {
+  const fields = [...SNAPSHOT_RATING_FIELDS, ...SNAPSHOT_GAMES_FIELDS, 'seasonNumber'] as const;
+  for (const field of fields) {
+    const value = input[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return `${field} must be a non-negative number`;
+    }
+  }
+  if (SNAPSHOT_RATING_FIELDS.every((field) => input[field] === undefined)) {
+    return 'Enter a rating for at least one playlist';
+  }
+  if (input.capturedAt !== undefined && Number.isNaN(Date.parse(input.capturedAt))) {
+    return 'capturedAt must be a valid date';
+  }
+
+  const user = db.currentUser;
+  const snapshot: TrackerSnapshot = {
+    id: nextId('snapshot'),
+    trackerId: tracker.id,
+    capturedAt: input.capturedAt ?? now(),
+    enteredBy: user.globalName ?? user.username,
+  };
+  fields.forEach((field) => {
+    if (input[field] !== undefined) snapshot[field] = input[field];
+  });
+  return snapshot;
+}
+
+function findTracker(id: string): Tracker | undefined {
+  return db.trackers.find((tracker) => tracker.id === id);
+}
+
+function createTracker(url: string): Tracker | string {
+  const validation = validateTrackerUrl(url);
+  if (!validation.isValid || !validation.platform || !validation.username) {
+    return validation.error || 'Invalid tracker URL';
+  }
+  if (db.trackers.some((tracker) => !tracker.isDeleted && tracker.url.toLowerCase() === url.toLowerCase())) {
+    return 'This tracker is already registered';
+  }
+  const timestamp = now();
+  const tracker: Tracker = {
+    id: nextId('tracker'),
+    url,
+    game: 'ROCKET_LEAGUE',
+    platform: validation.platform.toUpperCase() as GamePlatform,
+    username: decodeURIComponent(validation.username),
+    userId: db.currentUser.id,
+    isActive: true,
+    isDeleted: false,
+    lastScrapedAt: null,
+    scrapingStatus: 'PENDING',
+    scrapingError: null,
+    scrapingAttempts: 0,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    user: db.currentUser,
+  };
+  db.trackers.push(tracker);
+  db.seasons[tracker.id] = [];
+  startScrape(tracker);
+  return tracker;
+}
+
+function myTrackers(): Tracker[] {
+  return db.trackers.filter((tracker) => tracker.userId === db.currentUser.id && !tracker.isDeleted);
+}
+
+export const router = createRouter({
+  // Auth
+
+  'GET /auth/me': () => requireAuth() ?? ok(db.currentUser),
+
+  'GET /auth/guilds': () => requireAuth() ?? ok(db.guilds.map(({ id, name, icon, roles }) => ({ id, name, icon, roles }))),
+
+  'POST /auth/logout': () => {
+    db.authenticated = false;
+    return ok({ message: 'Logged out' });
+  },
+
+  // Profile
+
+  'GET /api/profile': () => {
+    const { id, username, globalName, avatar, email } = db.currentUser;
+    return requireAuth() ?? ok({ id, username, globalName, avatar, email });
+  },
+
+  'GET /api/profile/stats': () =>
+    requireAuth() ??
+    ok({
+      userId: db.currentUser.id,
+      gamesPlayed: 412,
+      wins: 231,
+      losses: 181,
+      winRate: 0.56,
+      guildsCount: db.guilds.length,
+      activeGuildsCount: db.guilds.length,
+    }),
+
+  'PATCH /api/profile/settings': () => requireAuth() ?? ok(null, 204),
+
+  // Guilds
+
+  'GET /api/guilds/:guildId': ({ params }) => {
+    const guild = db.guilds.find((g) => g.id === params.guildId);
+    return guild ? ok({ ...guild, settings: db.settings[guild.id] }) : fail(404, 'Guild not found');
+  },
+
+  'GET /api/guilds/:guildId/settings': ({ params }) =>
+    requireGuild(params.guildId) ?? ok(db.settings[params.guildId] ?? DEFAULT_SETTINGS),
+
+  'PATCH /api/guilds/:guildId/settings': ({ params, body }) => {
+    const denied = requireAdmin(params.guildId);
+    if (denied) return denied;
+    const previous = db.settings[params.guildId] ?? DEFAULT_SETTINGS;
+    const { _metadata: expected, ...updates } = body as Partial<GuildSettingsType>;
+    // Saves based on an older revision would overwrite someone else's changes
+    if (expected && expected.revision !== (previous._metadata?.revision ?? 0)) {
+      return {
+        status: 409,
+        data: {
+          message: 'Settings were changed by someone else since you started editing',
+          statusCode: 409,
+          code: 'SETTINGS_CONFLICT',
+          details: { current: previous },
+        },
+      };
+    }
+    const next = withNextRevision(params.guildId, { ...previous, ...updates });
+    db.settings[params.guildId] = next;
+    recordSettingsRevision(params.guildId, next);
+    recordAudit({ entityId: params.guildId, guildId: params.guildId, changes: updates as Record<string, unknown> });
+    return ok(next);
+  },
+
+  'POST /api/guilds/:guildId/settings/reset': ({ params }) => {
+    const denied = requireAdmin(params.guildId);
+    if (denied) return denied;
+    db.settings[params.guildId] = withNextRevision(params.guildId, structuredClone(DEFAULT_SETTINGS));
+    recordSettingsRevision(params.guildId, db.settings[params.guildId]);
+    recordAudit({ entityId: params.guildId, guildId: params.guildId, eventType: 'SETTINGS_RESET', action: 'reset' });
+    return ok({ success: true });
+  },
+
+  'GET /api/guilds/:guildId/settings/history': ({ params, query }) =>
+    requireAdmin(params.guildId) ??
+    ok((db.settingsHistory[params.guildId] ?? []).slice(0, Number(query.limit) || 50)),
+
+  'GET /api/guilds/:guildId/channels': ({ params }) =>
+    requireGuild(params.guildId) ?? ok(db.channels[params.guildId] ?? []),
+
+  'GET /api/guilds/:guildId/roles': ({ params }) =>
+    requireGuild(params.guildId) ?? ok(db.roles[params.guildId] ?? []),
+
+  'GET /api/guilds/:guildId/permissions/me': ({ params }) =>
+    requireGuild(params.guildId) ?? ok(withRoleGrants(params.guildId)),
+
+  'GET /api/guilds/:guildId/audit-logs': ({ params, query }) => {
+    const denied = requireAdmin(params.guildId);
+    if (denied) return denied;
+    const limit = Number(query.limit) || 50;
+    const offset = Number(query.offset) || 0;
+    const logs = db.auditLogs.filter(
+      (log) =>
+        log.guildId === params.guildId &&
+        (!query.userId || log.userId === query.userId) &&
+        (!query.entityType || log.entityType === query.entityType) &&
+        (!query.entityId || log.entityId === query.entityId) &&
+        (!query.action || log.action === query.action) &&
+        (!query.startDate || log.timestamp >= query.startDate) &&
+        (!query.endDate || log.timestamp <= query.endDate),
+    );
+    return ok({ logs: logs.slice(offset, offset + limit), total: logs.length, limit, offset });
+  },
+
+  // Members (static segments before :userId)
+
+  'GET /api/guilds/:guildId/members/search': ({ params, query }) => {
+    const denied = requireGuild(params.guildId);
+    if (denied) return denied;
+    const q = (query.q ?? '').toLowerCase();
+    const matches = (db.members[params.guildId] ?? []).filter(
+      (member) =>
+        member.username.toLowerCase().includes(q) ||
+        (member.user.globalName ?? '').toLowerCase().includes(q) ||
+        (member.nickname ?? '').toLowerCase().includes(q),
+    );
+    return ok(paginate(matches, query));
+  },
+
+  'GET /api/guilds/:guildId/members/stats': ({ params }) => {
+    const denied = requireGuild(params.guildId);
+    if (denied) return denied;
+    const members = db.members[params.guildId] ?? [];
+    const weekAgo = new Date(Date.now() - 7 * 86400000).toISOString();
+    const active = new Set(db.trackers.filter((t) => t.isActive && !t.isDeleted).map((t) => t.userId));
+    return ok({
+      totalMembers: members.length,
+      activeMembers: members.filter((member) => active.has(member.userId)).length,
+      newThisWeek: members.filter((member) => member.joinedAt >= weekAgo).length,
+    });
+  },
+
+  'GET /api/guilds/:guildId/members/:userId': ({ params }) => {
+    const member = (db.members[params.guildId] ?? []).find((m) => m.userId === params.userId);
+    return member ? ok(member) : fail(404, 'Member not found');
+  },
+
+  'GET /api/guilds/:guildId/members': ({ params, query }) =>
+    requireGuild(params.guildId) ?? ok(paginate(db.members[params.guildId] ?? [], query)),
+
+  // Trackers (static segments before :id)
+
+  'POST /api/trackers/register': ({ body }) => {
+    const { urls = [] } = (body ?? {}) as { urls?: string[] };
+    if (urls.length === 0 || myTrackers().length + urls.length > MAX_TRACKERS_PER_USER) {
+      return fail(400, `You can register between 1 and ${MAX_TRACKERS_PER_USER} trackers`);
+    }
+    // Validate the whole batch first so a bad URL doesn't leave a partial registration
+    const invalid = urls.map((url) => validateTrackerUrl(url)).find((result) => !result.isValid);
+    if (invalid) return fail(400, invalid.error || 'Invalid tracker URL');
+    const created: Tracker[] = [];
+    for (const url of urls) {
+      const result = createTracker(url);
+      if (typeof result === 'string') return fail(400, result);
+      created.push(result);
+    }
+    return ok(created, 201);
+  },
+
+  'POST /api/trackers/add': ({ body }) => {
+    if (myTrackers().length >= MAX_TRACKERS_PER_USER) {
+      return fail(400, `You can register at most ${MAX_TRACKERS_PER_USER} trackers`);
+    }
+    const result = createTracker((body as { url?: string } | null)?.url ?? '');
+    return typeof result === 'string' ? fail(400, result) : ok(result, 201);
+  },
+
+  'GET /api/trackers/me': () => requireAuth() ?? ok(myTrackers()),
+
+  'GET /api/trackers': ({ query }) => {
+    const memberIds = query.guildId
+      ? new Set((db.members[query.guildId] ?? []).map((member) => member.userId))
+      : null;
+    const includeDeleted = query.includeDeleted === 'true';
+    return ok(
+      db.trackers.filter(
+        (tracker) => (includeDeleted || !tracker.isDeleted) && (!memberIds || memberIds.has(tracker.userId)),
+      ),
+    );
+  },
+
+  'GET /api/trackers/:id/detail': ({ params }) => {
+    const tracker = findTracker(params.id);
+    return tracker ? ok(withSeasons(tracker)) : fail(404, 'Tracker not found');
+  },
+
+  'GET /api/trackers/:id/status': ({ params }) => {
+    const tracker = findTracker(params.id);
+    if (!tracker) return fail(404, 'Tracker not found');
+    return ok({
+      status: tracker.scrapingStatus,
+      error: tracker.scrapingError,
+      lastScrapedAt: tracker.lastScrapedAt,
+      attempts: tracker.scrapingAttempts,
+    });
+  },
+
+  'POST /api/trackers/:id/refresh': ({ params }) => {
+    const limited = rateLimitRefresh();
+    if (limited) return limited;
+    const tracker = findTracker(params.id);
+    if (!tracker || tracker.isDeleted) return fail(404, 'Tracker not found');
+    if (db.scrapes[tracker.id]) return fail(409, 'Tracker is already being refreshed');
+    startScrape(tracker);
+    return ok({ message: 'Tracker refresh queued' });
+  },
+
+  'POST /api/trackers/:id/snapshots': ({ params, body }) => {
+    const tracker = findTracker(params.id);
+    if (!tracker || tracker.isDeleted) return fail(404, 'Tracker not found');
+    const input = (body ?? {}) as Partial<CreateTrackerSnapshotInput>;
+    const denied = requireAdmin(input.guildId ?? '');
+    if (denied) return denied;
+    const result = createSnapshot(tracker, input);
+    if (typeof result === 'string') return fail(400, result);
+    db.snapshots[tracker.id] = [...(db.snapshots[tracker.id] ?? []), result];
+    recordAudit({
+      entityType: 'tracker',
+      entityId: tracker.id,
+      eventType: 'TRACKER_SNAPSHOT_CREATED',
+      action: 'create',
+      guildId: input.guildId,
+      changes: { snapshot: result },
+    });
+    return ok(result, 201);
+  },
+
+  'POST /api/trackers/:id/restore': ({ params }) => {
+    const tracker = findTracker(params.id);
+    if (!tracker) return fail(404, 'Tracker not found');
+    if (!tracker.isDeleted) return fail(409, 'Tracker is not deleted');
+    const active = db.trackers.filter((t) => t.userId === tracker.userId && !t.isDeleted);
+    if (active.length >= MAX_TRACKERS_PER_USER) {
+      return fail(400, `Trackers are limited to ${MAX_TRACKERS_PER_USER} per user; delete one before restoring`);
+    }
+    if (active.some((t) => t.url.toLowerCase() === tracker.url.toLowerCase())) {
+      return fail(409, 'This tracker has been registered again since it was deleted');
+    }
+    Object.assign(tracker, { isDeleted: false, isActive: true, updatedAt: now() });
+    recordTrackerAudit(tracker, { eventType: 'TRACKER_RESTORED', action: 'restore' });
+    return ok(tracker);
+  },
+
+  'GET /api/trackers/:id': ({ params }) => {
+    const tracker = findTracker(params.id);
+    return tracker ? ok(tracker) : fail(404, 'Tracker not found');
+  },
+
+  'PUT /api/trackers/:id': ({ params, body }) => {
+    const tracker = findTracker(params.id);
+    if (!tracker || tracker.isDeleted) return fail(404, 'Tracker not found');
+    const { displayName, isActive } = (body ?? {}) as { displayName?: string; isActive?: boolean };
+    const changes: Record<string, unknown> = {
+      ...(displayName !== undefined &&
+        displayName !== tracker.displayName && { displayName: { from: tracker.displayName, to: displayName } }),
+      ...(isActive !== undefined && isActive !== tracker.isActive && { isActive: { from: tracker.isActive, to: isActive } }),
+    };
+    if (Object.keys(changes).length > 0) {
+      recordTrackerAudit(tracker, { eventType: 'TRACKER_UPDATED', action: 'update', changes });
+    }
+    Object.assign(tracker, {
+      ...(displayName !== undefined && { displayName }),
+      ...(isActive !== undefined && { isActive }),
+      updatedAt: now(),
+    });
+    return ok(tracker);
+  },
+
+  'DELETE /api/trackers/:id': ({ params }) => {
+    const tracker = findTracker(params.id);
+    if (!tracker || tracker.isDeleted) return fail(404, 'Tracker not found');
+    Object.assign(tracker, { isDeleted: true, isActive: false, updatedAt: now() });
+    delete db.scrapes[tracker.id];
+    recordTrackerAudit(tracker, { eventType: 'TRACKER_DELETED', action: 'delete' });
+    return ok(null, 204);
+  },
+
+  // MMR calculation
+
+  'POST /api/mmr-calculation/test-formula': ({ body }) => {
+    const { formula = '', testData } = (body ?? {}) as { formula?: string; testData?: TrackerData };
+    const data = testData ?? SAMPLE_TRACKER_DATA;
+    try {
+      return ok({ result: evaluateFormula(formula, data), testData: data, valid: true });
+    } catch (error) {
+      return ok({ result: 0, testData: data, valid: false, error: (error as Error).message });
+    }
+  },
+
+  'POST /api/mmr-calculation/validate-formula': ({ body }) => {
+    const { formula = '' } = (body ?? {}) as { formula?: string };
+    try {
+      evaluateFormula(formula, SAMPLE_TRACKER_DATA);
+      return ok({ valid: true });
+    } catch (error) {
+      return ok({ valid: false, error: (error as Error).message });
+    }
+  },
+
+  'POST /api/mmr-calculation/calculate-mmr': ({ body }) => calculate(body, true),
+
+  'POST /api/calculator': ({ body }) => calculate(body, false),
+
+  'POST /api/calculator/compare': ({ body }) => {
+    const { guildId = '', trackerData = {} } = (body ?? {}) as { guildId?: string; trackerData?: TrackerData };
+    const denied = requireGuild(guildId);
+    if (denied) return denied;
+    const config = db.settings[guildId]?.mmrCalculation ?? DEFAULT_MMR_CONFIG;
+    return ok({ results: compareAlgorithms(config, trackerData, DEFAULT_MMR_CONFIG) });
+  },
+
+  'POST /api/mmr-calculation/preview-impact': ({ body }) => {
+    const { guildId = '', config } = (body ?? {}) as { guildId?: string; config?: MmrCalculationConfig };
+    const denied = requireAdmin(guildId);
+    if (denied) return denied;
+    if (!config?.algorithm) return fail(400, 'config.algorithm is required');
+
+    const saved = db.settings[guildId]?.mmrCalculation ?? DEFAULT_MMR_CONFIG;
+    const memberIds = new Set((db.members[guildId] ?? []).map((member) => member.userId));
+    const entries = db.trackers
+      .filter((tracker) => tracker.isActive && !tracker.isDeleted && memberIds.has(tracker.userId))
+      .flatMap((tracker): MmrImpactEntry[] => {
+        const season = latestSeason(db.seasons[tracker.id] ?? []);
+        if (!season) return [];
+        const data = seasonToTrackerData(season);
+        const current = tryCalculate(saved, data);
+        const draft = tryCalculate(config, data);
+        return [
+          {
+            trackerId: tracker.id,
+            userId: tracker.userId,
+            playerName: trackerOwnerName(tracker),
+            current: current.mmr,
+            currentError: current.error,
+            draft: draft.mmr,
+            draftError: draft.error,
+          },
+        ];
+      });
+    return ok({ entries });
+  },
+});
+
+function tryCalculate(config: MmrCalculationConfig, data: TrackerData) {
+  try {
+    return { mmr: calculateMmr(config, data), error: null };
+  } catch (error) {
+    return { mmr: null, error: (error as Error).message };
+  }
+}
+
+function calculate(body: unknown, adminOnly: boolean) {
+  const { guildId = '', trackerData = {} } = (body ?? {}) as { guildId?: string; trackerData?: TrackerData };
+  const denied = adminOnly ? requireAdmin(guildId) : requireGuild(guildId);
+  if (denied) return denied;
+  const config = db.settings[guildId]?.mmrCalculation ?? DEFAULT_MMR_CONFIG;
+  try {
+    return ok({ result: calculateMmr(config, trackerData), algorithm: config.algorithm, config });
+  } catch (error) {
+    return fail(400, (error as Error).message);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Mock MMR Calculation
+ * Approximates the backend algorithms closely enough for demos.
+ */
+
+import type { MmrCalculationConfig } from '../../../types/index.ts';
+import type { AlgorithmComparison, MmrBreakdown, TrackerData } from '../mmr-calculation.ts';
+import { checkFormula } from '../../mmr-formula/index.ts';
+
+const PLAYLISTS = ['ones', 'twos', 'threes', 'fours'] as const;
+
+const gamesKey = (playlist: (typeof PLAYLISTS)[number]) => `${playlist}GamesPlayed` as const;
+
+const COMPARED_ALGORITHMS = ['WEIGHTED_AVERAGE', 'PEAK_MMR', 'ASCENDANCY', 'CUSTOM'] as const;
+
+export const SAMPLE_TRACKER_DATA: TrackerData = {
+  ones: 1050,
+  twos: 1320,
+  threes: 1275,
+  fours: 980,
+  onesGamesPlayed: 40,
+  twosGamesPlayed: 180,
+  threesGamesPlayed: 220,
+  foursGamesPlayed: 15,
+};
+
+/**
+ * Evaluate an arithmetic formula with the shared formula parser
+ * @throws Error with a user-facing message on syntax errors or unknown identifiers
+ */
+export function evaluateFormula(formula: string, data: TrackerData): number {
+  const result = checkFormula(formula, data);
+  if (result.success === false) {
+    throw new Error(result.error.message);
+  }
+  return result.value;
+}
+
+/**
+ * Calculate MMR for the configured algorithm
+ * @throws Error when the tracker data does not meet the configured thresholds
+ */
+export function calculateMmr(config: MmrCalculationConfig, data: TrackerData): number {
+  return explainMmr(config, data).result;
+}
+
+/**
+ * Calculate MMR along with the points each playlist contributed.
+ * Custom formulas can't be split exactly, so a playlist's contribution there is
+ * how much the result drops when its rating is 0.
+ * @throws Error when the tracker data does not meet the configured thresholds
+ */
+export function explainMmr(config: MmrCalculationConfig, data: TrackerData): MmrBreakdown {
+  const eligible = PLAYLISTS.filter((playlist) => {
+    const rating = data[playlist];
+    const games = data[gamesKey(playlist)] ?? 0;
+    return rating !== undefined && games >= (config.minGamesPlayed?.[playlist] ?? 0);
+  });
+
+  switch (config.algorithm) {
+    case 'CUSTOM': {
+      if (!config.customFormula) throw new Error('No custom formula configured');
+      const raw = evaluateFormula(config.customFormula, data);
+      const contributions: MmrBreakdown['contributions'] = {};
+      PLAYLISTS.filter((playlist) => data[playlist] !== undefined).forEach((playlist) => {
+        const without = checkFormula(config.customFormula ?? '', { ...data, [playlist]: 0 });
+        if (without.success === true) contributions[playlist] = raw - without.value;
+      });
+      return { result: Math.round(raw), contributions };
+    }
+
+    case 'PEAK_MMR': {
+      if (eligible.length === 0) throw new Error('No playlist meets the minimum games played');
+      const peak = eligible.reduce((best, playlist) => ((data[playlist] ?? 0) > (data[best] ?? 0) ? playlist : best));
+      return { result: data[peak] ?? 0, contributions: { [peak]: data[peak] ?? 0 } };
+    }
+
+    case 'ASCENDANCY': {
+      const { current = 0.25, peak = 0.75 } = config.ascendancyWeights ?? {};
+      const modes = (['twos', 'threes'] as const).filter((playlist) => eligible.includes(playlist));
+      if (modes.length === 0) throw new Error('2s or 3s data is required for the Ascendancy algorithm');
+      // Only current ratings are available here, so peak falls back to current
+      const scores = modes.map((playlist) => (data[playlist] ?? 0) * (current + peak));
+      const games = modes.map((playlist) => data[gamesKey(playlist)] ?? 0);
+      const totalGames = games.reduce((sum, value) => sum + value, 0);
+      const shares = modes.map((_, index) =>
+        totalGames === 0 ? scores[index] / scores.length : (scores[index] * games[index]) / totalGames,
+      );
+      return {
+        result: Math.round(shares.reduce((sum, value) => sum + value, 0)),
+        contributions: Object.fromEntries(modes.map((playlist, index) => [playlist, shares[index]])),
+      };
+    }
+
+    case 'WEIGHTED_AVERAGE':
+    default: {
+      const weighted = eligible.filter((playlist) => (config.weights?.[playlist] ?? 0) > 0);
+      if (weighted.length === 0) throw new Error('No weighted playlist meets the minimum games played');
+      const totalWeight = weighted.reduce((sum, playlist) => sum + (config.weights?.[playlist] ?? 0), 0);
+      const shares = weighted.map((playlist) => ((data[playlist] ?? 0) * (config.weights?.[playlist] ?? 0)) / totalWeight);
+      return {
+        result: Math.round(shares.reduce((sum, value) => sum + value, 0)),
+        contributions: Object.fromEntries(weighted.map((playlist, index) => [playlist, shares[index]])),
+      };
+    }
+  }
+}
+
+/**
+ * Run the same data through every algorithm, reusing the guild's weights and thresholds.
+ * Algorithms the guild hasn't configured fall back to `defaults`.
+ */
+export function compareAlgorithms(
+  config: MmrCalculationConfig,
+  data: TrackerData,
+  defaults: MmrCalculationConfig,
+): AlgorithmComparison[] {
+  return COMPARED_ALGORITHMS.map((algorithm) => {
+    const variant: MmrCalculationConfig = { ...config, algorithm, weights: config.weights ?? defaults.weights };
+    const active = algorithm === config.algorithm;
+    try {
+      return { algorithm, active, error: null, ...explainMmr(variant, data) };
+    } catch (error) {
+      return { algorithm, active, result: null, error: (error as Error).message, contributions: {} };
+    }
+  });
+}
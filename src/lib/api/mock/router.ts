@@ -0,0 +1,64 @@
+/**
+ * Mock Router
+ * Matches "METHOD /path/:param" routes against outgoing requests.
+ */
+
+export interface MockRequest {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+export interface MockResult {
+  status: number;
+  data: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockHandler = (req: MockRequest) => MockResult;
+
+interface CompiledRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+}
+
+export const ok = (data: unknown = null, status: number = 200): MockResult => ({ status, data });
+
+export const fail = (status: number, message: string): MockResult => ({
+  status,
+  data: { message, statusCode: status },
+});
+
+/**
+ * Compile a route table keyed by "METHOD /path/:param"
+ * Static segments win over params because routes are tried in declaration order.
+ */
+export function createRouter(routes: Record<string, MockHandler>) {
+  const compiled: CompiledRoute[] = Object.entries(routes).map(([route, handler]) => {
+    const [method, path] = route.split(' ');
+    const keys: string[] = [];
+    const source = path.replace(/:([A-Za-z]+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    return { method: method.toLowerCase(), pattern: new RegExp(`^${source}/?$`), keys, handler };
+  });
+
+  return {
+    match(method: string, path: string): { handler: MockHandler; params: Record<string, string> } | null {
+      for (const route of compiled) {
+        if (route.method !== method.toLowerCase()) continue;
+        const match = route.pattern.exec(path);
+        if (!match) continue;
+        const params: Record<string, string> = {};
+        route.keys.forEach((key, index) => {
+          params[key] = decodeURIComponent(match[index + 1]);
+        });
+        return { handler: route.handler, params };
+      }
+      return null;
+    },
+  };
+}
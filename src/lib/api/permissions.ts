@@ -6,12 +6,14 @@
  */
 
 import { api } from './client.ts';
+import { parseResponse } from './validate.ts';
+import { permissionStateSchema } from './schemas.ts';
 import type { PermissionState } from '../../types/permissions.ts';
 
 export const permissionApi = {
   getMyPermissions: async (guildId: string): Promise<PermissionState> => {
     const response = await api.get(`/api/guilds/${guildId}/permissions/me`);
-    return response.data;
+    return parseResponse(permissionStateSchema, response.data, 'GET /api/guilds/:guildId/permissions/me');
   },
 };
 
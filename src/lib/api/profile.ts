@@ -4,18 +4,20 @@
  */
 
 import { api } from './client.ts';
+import { parseResponse } from './validate.ts';
+import { userProfileSchema, userStatsSchema } from './schemas.ts';
 import type { AxiosRequestConfig } from 'axios';
 import type { UserProfile, UserStats, UserSettings } from '../../types/index.ts';
 
 export const profileApi = {
   getProfile: async (config?: AxiosRequestConfig): Promise<UserProfile> => {
     const response = await api.get('/api/profile', config);
-    return response.data;
+    return parseResponse(userProfileSchema, response.data, 'GET /api/profile');
   },
 
   getStats: async (config?: AxiosRequestConfig): Promise<UserStats> => {
     const response = await api.get('/api/profile/stats', config);
-    return response.data;
+    return parseResponse(userStatsSchema, response.data, 'GET /api/profile/stats');
   },
 
   updateSettings: async (settings: Partial<UserSettings>): Promise<void> => {
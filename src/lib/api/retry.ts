@@ -0,0 +1,197 @@
+/**
+ * Request Retry Policy
+ * Decides whether a failed request should be retried and how long to wait.
+ * Pure helpers only - the axios wiring lives in client.ts.
+ */
+
+import type { AxiosRequestConfig, GenericAbortSignal } from 'axios';
+
+/**
+ * Per-call retry options
+ */
+export interface RetryOptions {
+  /**
+   * Total attempts including the first request (default: 3)
+   */
+  maxAttempts?: number;
+  /**
+   * Base delay for exponential backoff in ms (default: 300)
+   */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for a single backoff delay in ms (default: 5000)
+   */
+  maxDelayMs?: number;
+  /**
+   * Longest Retry-After the client is willing to wait in ms (default: 30000).
+   * Anything longer is surfaced to the caller instead of retried.
+   */
+  maxRetryAfterMs?: number;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /**
+     * Retry policy for this call. `false` opts out, an object overrides defaults.
+     * Only idempotent methods (GET, HEAD, OPTIONS) are ever retried.
+     */
+    retry?: false | RetryOptions;
+    /**
+     * Number of retries already performed (managed by the client)
+     */
+    retryAttempt?: number;
+  }
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  maxRetryAfterMs: 30000,
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+/**
+ * Minimal view of a failed response needed to make a retry decision
+ */
+export interface RetryableResponse {
+  status?: number;
+  headers?: Record<string, unknown> | { get?: (name: string) => unknown };
+}
+
+/**
+ * Resolve effective retry options for a request, or null if retries are disabled
+ */
+export function resolveRetryOptions(config: AxiosRequestConfig): Required<RetryOptions> | null {
+  if (config.retry === false) {
+    return null;
+  }
+
+  const method = (config.method || 'get').toLowerCase();
+  if (!IDEMPOTENT_METHODS.includes(method)) {
+    return null;
+  }
+
+  return { ...DEFAULT_RETRY_OPTIONS, ...config.retry };
+}
+
+/**
+ * Network errors (no response), 429 and 5xx are worth retrying
+ */
+export function isRetryableStatus(status: number | undefined): boolean {
+  if (status === undefined) {
+    return true;
+  }
+  return status === 429 || (status >= 500 && status !== 501);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ * @returns Delay in ms, or null if the header is missing or malformed
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const raw = String(value).trim();
+  if (raw === '') {
+    return null;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(raw)) {
+    return Math.round(parseFloat(raw) * 1000);
+  }
+
+  const date = Date.parse(raw);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter
+ * @param attempt - Retry number, starting at 1
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: Pick<Required<RetryOptions>, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random,
+): number {
+  const exponential = options.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  const capped = Math.min(options.maxDelayMs, exponential);
+  return Math.round(random() * capped);
+}
+
+/**
+ * Raw Retry-After header of a failed response, if any
+ */
+export function readRetryAfterHeader(response: RetryableResponse | undefined): unknown {
+  const headers = response?.headers;
+  if (!headers) {
+    return undefined;
+  }
+  if (typeof (headers as { get?: unknown }).get === 'function') {
+    return (headers as { get: (name: string) => unknown }).get('retry-after');
+  }
+  return (headers as Record<string, unknown>)['retry-after'];
+}
+
+/**
+ * Decide how long to wait before retrying a failed request
+ * @returns Delay in ms, or null if the request should not be retried
+ */
+export function getRetryDelay(
+  config: AxiosRequestConfig,
+  response: RetryableResponse | undefined,
+  random: () => number = Math.random,
+): number | null {
+  const options = resolveRetryOptions(config);
+  if (!options) {
+    return null;
+  }
+
+  const attempt = (config.retryAttempt ?? 0) + 1;
+  if (attempt >= options.maxAttempts) {
+    return null;
+  }
+
+  const status = response?.status;
+  if (!isRetryableStatus(status)) {
+    return null;
+  }
+
+  const retryAfter = parseRetryAfter(readRetryAfterHeader(response));
+  if (retryAfter !== null) {
+    // Honor the server, but don't leave the UI hanging on very long waits
+    return retryAfter <= options.maxRetryAfterMs ? retryAfter : null;
+  }
+
+  return computeBackoffDelay(attempt, options, random);
+}
+
+/**
+ * Wait before the next attempt, bailing out early if the request is aborted
+ */
+export function waitForRetry(delayMs: number, signal?: GenericAbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request aborted during retry backoff', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Request aborted during retry backoff', 'AbortError'));
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener?.('abort', onAbort, { once: true });
+  });
+}
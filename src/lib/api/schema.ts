@@ -0,0 +1,170 @@
+/**
+ * Response Schema Primitives
+ * Minimal runtime type checking for API payloads.
+ *
+ * Schemas are typed against the interfaces in src/types, so a schema that
+ * drifts from its type fails to compile. Objects are non-strict: unknown
+ * keys from the backend are allowed through untouched.
+ */
+
+import type { ResponseValidationIssue } from '../../types/api.ts';
+
+export interface Schema<T> {
+  readonly expected: string;
+  readonly isOptional?: boolean;
+  /**
+   * Append issues for `value` at `path`; never throws
+   */
+  check(value: unknown, path: string, issues: ResponseValidationIssue[]): void;
+  /**
+   * Phantom field carrying the validated type
+   */
+  readonly __type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { readonly isOptional: true } ? K : never;
+}[keyof S];
+
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+
+type InferShape<S extends Shape> = { [K in RequiredKeys<S>]: Infer<S[K]> } & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push({ path: path || '(root)', expected, received: describe(value) });
+      }
+    },
+  };
+}
+
+const string = () => primitive<string>('string', (value) => typeof value === 'string');
+
+const number = () =>
+  primitive<number>('number', (value) => typeof value === 'number' && !Number.isNaN(value));
+
+const boolean = () => primitive<boolean>('boolean', (value) => typeof value === 'boolean');
+
+const unknown = () => primitive<unknown>('unknown', () => true);
+
+function oneOf<const T extends readonly (string | number)[]>(values: T): Schema<T[number]> {
+  return primitive<T[number]>(values.map((v) => JSON.stringify(v)).join(' | '), (value) =>
+    values.includes(value as T[number]),
+  );
+}
+
+function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${inner.expected} | null`,
+    check(value, path, issues) {
+      if (value !== null) inner.check(value, path, issues);
+    },
+  };
+}
+
+function optional<T>(inner: Schema<T>): Schema<T | undefined> & { readonly isOptional: true } {
+  return {
+    expected: `${inner.expected} | undefined`,
+    isOptional: true,
+    check(value, path, issues) {
+      if (value !== undefined) inner.check(value, path, issues);
+    },
+  };
+}
+
+/**
+ * Optional and nullable - for fields the backend omits or sends as null
+ */
+function nullish<T>(inner: Schema<T>) {
+  return optional(nullable(inner));
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path: path || '(root)', expected: 'array', received: describe(value) });
+        return;
+      }
+      value.forEach((entry, index) => item.check(entry, joinPath(path, index), issues));
+    },
+  };
+}
+
+function record<T>(inner: Schema<T>): Schema<Record<string, T>> {
+  return {
+    expected: `Record<string, ${inner.expected}>`,
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path: path || '(root)', expected: 'object', received: describe(value) });
+        return;
+      }
+      Object.entries(value).forEach(([key, entry]) => inner.check(entry, joinPath(path, key), issues));
+    },
+  };
+}
+
+function object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+  return {
+    expected: 'object',
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path: path || '(root)', expected: 'object', received: describe(value) });
+        return;
+      }
+      const obj = value as Record<string, unknown>;
+      Object.entries(shape).forEach(([key, schema]) => schema.check(obj[key], joinPath(path, key), issues));
+    },
+  };
+}
+
+export const s = {
+  string,
+  number,
+  boolean,
+  unknown,
+  oneOf,
+  nullable,
+  optional,
+  nullish,
+  array,
+  record,
+  object,
+};
+
+export type SafeParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ResponseValidationIssue[] };
+
+/**
+ * Check a value against a schema without throwing
+ */
+export function safeParse<T>(schema: Schema<T>, value: unknown): SafeParseResult<T> {
+  const issues: ResponseValidationIssue[] = [];
+  schema.check(value, '', issues);
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+  return { success: true, data: value as T };
+}
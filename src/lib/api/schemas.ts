@@ -0,0 +1,376 @@
+/**
+ * API Response Schemas
+ * One schema per response shape, each pinned to its interface in src/types.
+ */
+
+import { s, type Schema } from './schema.ts';
+import type {
+  User,
+  UserProfile,
+  UserStats,
+  Guild,
+  GuildDetails,
+  Member,
+  MemberListResponse,
+  MemberStats,
+  PaginationInfo,
+  GuildSettingsType,
+  SettingsMetadata,
+  SettingsRevision,
+  MmrCalculationConfig,
+  ChannelConfig,
+  RoleConfig,
+  DiscordChannel,
+  DiscordRole,
+  Tracker,
+  TrackerDetail,
+  TrackerSeason,
+  TrackerSnapshot,
+  PlaylistData,
+  ScrapingStatus,
+} from '../../types/index.ts';
+import type { AuditLog, PaginatedResult, PermissionState } from '../../types/permissions.ts';
+import type {
+  TrackerData,
+  FormulaTestResult,
+  FormulaValidationResult,
+  CalculateMmrResult,
+  MmrImpactEntry,
+  MmrImpactPreview,
+  AlgorithmComparison,
+  AlgorithmComparisonResult,
+} from './mmr-calculation.ts';
+
+// User / profile
+
+export const userSchema: Schema<User> = s.object({
+  id: s.string(),
+  username: s.string(),
+  discriminator: s.nullish(s.string()),
+  globalName: s.nullish(s.string()),
+  avatar: s.nullish(s.string()),
+  email: s.nullish(s.string()),
+  createdAt: s.string(),
+  updatedAt: s.string(),
+  lastLoginAt: s.string(),
+});
+
+export const userProfileSchema: Schema<UserProfile> = s.object({
+  id: s.string(),
+  username: s.string(),
+  globalName: s.nullish(s.string()),
+  avatar: s.nullish(s.string()),
+  email: s.nullish(s.string()),
+});
+
+export const userStatsSchema: Schema<UserStats> = s.object({
+  userId: s.string(),
+  gamesPlayed: s.number(),
+  wins: s.number(),
+  losses: s.number(),
+  winRate: s.number(),
+  guildsCount: s.number(),
+  activeGuildsCount: s.number(),
+});
+
+// Settings
+
+const channelConfigSchema: Schema<ChannelConfig> = s.object({
+  id: s.string(),
+  name: s.string(),
+});
+
+const roleConfigSchema: Schema<RoleConfig> = s.object({
+  id: s.string(),
+  name: s.string(),
+});
+
+const playlistNumbersSchema = s.object({
+  ones: s.optional(s.number()),
+  twos: s.optional(s.number()),
+  threes: s.optional(s.number()),
+  fours: s.optional(s.number()),
+});
+
+export const mmrCalculationConfigSchema: Schema<MmrCalculationConfig> = s.object({
+  algorithm: s.oneOf(['WEIGHTED_AVERAGE', 'PEAK_MMR', 'CUSTOM', 'ASCENDANCY'] as const),
+  weights: s.optional(playlistNumbersSchema),
+  minGamesPlayed: s.optional(playlistNumbersSchema),
+  customFormula: s.optional(s.string()),
+  ascendancyWeights: s.optional(s.object({ current: s.number(), peak: s.number() })),
+  formulaValidated: s.optional(s.boolean()),
+  formulaValidationError: s.optional(s.string()),
+});
+
+const settingsMetadataSchema: Schema<SettingsMetadata> = s.object({
+  revision: s.number(),
+  updatedAt: s.optional(s.string()),
+  updatedBy: s.optional(s.string()),
+});
+
+export const guildSettingsSchema: Schema<GuildSettingsType> = s.object({
+  bot_command_channels: s.optional(s.array(channelConfigSchema)),
+  register_command_channels: s.optional(s.array(channelConfigSchema)),
+  mmrCalculation: s.optional(mmrCalculationConfigSchema),
+  rolePermissions: s.optional(s.record(s.array(roleConfigSchema))),
+  _metadata: s.optional(settingsMetadataSchema),
+});
+
+export const settingsRevisionSchema: Schema<SettingsRevision> = s.object({
+  id: s.string(),
+  guildId: s.string(),
+  settings: guildSettingsSchema,
+  userId: s.string(),
+  createdAt: s.string(),
+  user: s.optional(
+    s.object({
+      id: s.string(),
+      username: s.string(),
+      globalName: s.nullable(s.string()),
+    }),
+  ),
+});
+
+// Guilds / members
+
+export const guildSchema: Schema<Guild> = s.object({
+  id: s.string(),
+  name: s.string(),
+  icon: s.nullish(s.string()),
+  roles: s.array(s.string()),
+});
+
+export const memberSchema: Schema<Member> = s.object({
+  id: s.string(),
+  userId: s.string(),
+  username: s.string(),
+  nickname: s.nullish(s.string()),
+  roles: s.array(s.string()),
+  joinedAt: s.string(),
+  user: s.object({
+    id: s.string(),
+    username: s.string(),
+    globalName: s.nullish(s.string()),
+    avatar: s.nullish(s.string()),
+  }),
+});
+
+const paginationSchema: Schema<PaginationInfo> = s.object({
+  page: s.number(),
+  limit: s.number(),
+  total: s.number(),
+  pages: s.number(),
+});
+
+export const memberListSchema: Schema<MemberListResponse> = s.object({
+  members: s.array(memberSchema),
+  pagination: paginationSchema,
+});
+
+export const memberStatsSchema: Schema<MemberStats> = s.object({
+  totalMembers: s.number(),
+  activeMembers: s.number(),
+  newThisWeek: s.number(),
+});
+
+export const guildDetailsSchema: Schema<GuildDetails> = s.object({
+  id: s.string(),
+  name: s.string(),
+  icon: s.nullish(s.string()),
+  roles: s.array(s.string()),
+  settings: s.optional(guildSettingsSchema),
+  members: s.optional(s.array(memberSchema)),
+});
+
+export const discordChannelSchema: Schema<DiscordChannel> = s.object({
+  id: s.string(),
+  name: s.string(),
+  type: s.number(),
+  parent_id: s.nullish(s.string()),
+});
+
+export const discordRoleSchema: Schema<DiscordRole> = s.object({
+  id: s.string(),
+  name: s.string(),
+});
+
+// Permissions / audit
+
+export const permissionStateSchema: Schema<PermissionState> = s.object({
+  isMember: s.boolean(),
+  isAdmin: s.boolean(),
+  permissions: s.array(s.string()),
+  roles: s.array(s.string()),
+});
+
+export const auditLogSchema: Schema<AuditLog> = s.object({
+  id: s.string(),
+  entityType: s.string(),
+  entityId: s.string(),
+  eventType: s.string(),
+  action: s.string(),
+  userId: s.nullish(s.string()),
+  guildId: s.nullish(s.string()),
+  changes: s.optional(s.record(s.unknown())),
+  metadata: s.optional(s.record(s.unknown())),
+  timestamp: s.string(),
+  user: s.optional(
+    s.object({
+      id: s.string(),
+      username: s.string(),
+      globalName: s.nullable(s.string()),
+    }),
+  ),
+});
+
+export const auditLogPageSchema: Schema<PaginatedResult<AuditLog>> = s.object({
+  logs: s.array(auditLogSchema),
+  total: s.number(),
+  limit: s.number(),
+  offset: s.number(),
+});
+
+// Trackers
+
+const trackerStatusSchema = s.oneOf(['PENDING', 'IN_PROGRESS', 'COMPLETED', 'FAILED'] as const);
+
+const playlistDataSchema: Schema<PlaylistData> = s.object({
+  rank: s.nullable(s.string()),
+  rankValue: s.nullable(s.number()),
+  division: s.nullable(s.string()),
+  divisionValue: s.nullable(s.number()),
+  rating: s.nullable(s.number()),
+  matchesPlayed: s.nullable(s.number()),
+  winStreak: s.nullable(s.number()),
+});
+
+export const trackerSeasonSchema: Schema<TrackerSeason> = s.object({
+  id: s.string(),
+  trackerId: s.string(),
+  seasonNumber: s.number(),
+  seasonName: s.nullable(s.string()),
+  playlist1v1: s.nullable(playlistDataSchema),
+  playlist2v2: s.nullable(playlistDataSchema),
+  playlist3v3: s.nullable(playlistDataSchema),
+  playlist4v4: s.nullable(playlistDataSchema),
+  scrapedAt: s.string(),
+  createdAt: s.string(),
+  updatedAt: s.string(),
+});
+
+export const trackerSnapshotSchema: Schema<TrackerSnapshot> = s.object({
+  id: s.string(),
+  trackerId: s.string(),
+  capturedAt: s.string(),
+  seasonNumber: s.optional(s.number()),
+  enteredBy: s.string(),
+  ones: s.optional(s.number()),
+  twos: s.optional(s.number()),
+  threes: s.optional(s.number()),
+  fours: s.optional(s.number()),
+  onesGamesPlayed: s.optional(s.number()),
+  twosGamesPlayed: s.optional(s.number()),
+  threesGamesPlayed: s.optional(s.number()),
+  foursGamesPlayed: s.optional(s.number()),
+});
+
+export const trackerSchema: Schema<Tracker> = s.object({
+  id: s.string(),
+  url: s.string(),
+  game: s.oneOf(['ROCKET_LEAGUE'] as const),
+  platform: s.oneOf(['STEAM', 'EPIC', 'XBL', 'PSN', 'SWITCH'] as const),
+  username: s.string(),
+  userId: s.string(),
+  displayName: s.optional(s.string()),
+  isActive: s.boolean(),
+  isDeleted: s.boolean(),
+  lastScrapedAt: s.nullable(s.string()),
+  scrapingStatus: trackerStatusSchema,
+  scrapingError: s.nullable(s.string()),
+  scrapingAttempts: s.number(),
+  createdAt: s.string(),
+  updatedAt: s.string(),
+  user: s.optional(userSchema),
+  seasons: s.optional(s.array(trackerSeasonSchema)),
+  snapshots: s.optional(s.array(trackerSnapshotSchema)),
+});
+
+export const trackerDetailSchema: Schema<TrackerDetail> = s.object({
+  tracker: trackerSchema,
+  seasons: s.array(trackerSeasonSchema),
+});
+
+export const scrapingStatusSchema: Schema<ScrapingStatus> = s.object({
+  status: trackerStatusSchema,
+  error: s.nullable(s.string()),
+  lastScrapedAt: s.nullable(s.string()),
+  attempts: s.number(),
+});
+
+export const messageSchema: Schema<{ message: string }> = s.object({
+  message: s.string(),
+});
+
+// MMR calculation
+
+const trackerDataSchema: Schema<TrackerData> = s.object({
+  ones: s.optional(s.number()),
+  twos: s.optional(s.number()),
+  threes: s.optional(s.number()),
+  fours: s.optional(s.number()),
+  onesGamesPlayed: s.optional(s.number()),
+  twosGamesPlayed: s.optional(s.number()),
+  threesGamesPlayed: s.optional(s.number()),
+  foursGamesPlayed: s.optional(s.number()),
+});
+
+export const formulaTestResultSchema: Schema<FormulaTestResult> = s.object({
+  result: s.number(),
+  testData: trackerDataSchema,
+  valid: s.boolean(),
+  error: s.optional(s.string()),
+});
+
+export const formulaValidationResultSchema: Schema<FormulaValidationResult> = s.object({
+  valid: s.boolean(),
+  error: s.optional(s.string()),
+});
+
+export const calculateMmrResultSchema: Schema<CalculateMmrResult> = s.object({
+  result: s.number(),
+  algorithm: s.string(),
+  config: mmrCalculationConfigSchema,
+});
+
+const playlistContributionsSchema = s.object({
+  ones: s.optional(s.number()),
+  twos: s.optional(s.number()),
+  threes: s.optional(s.number()),
+  fours: s.optional(s.number()),
+});
+
+const algorithmComparisonSchema: Schema<AlgorithmComparison> = s.object({
+  algorithm: s.oneOf(['WEIGHTED_AVERAGE', 'PEAK_MMR', 'CUSTOM', 'ASCENDANCY'] as const),
+  active: s.boolean(),
+  result: s.nullable(s.number()),
+  error: s.nullable(s.string()),
+  contributions: playlistContributionsSchema,
+});
+
+export const algorithmComparisonResultSchema: Schema<AlgorithmComparisonResult> = s.object({
+  results: s.array(algorithmComparisonSchema),
+});
+
+const mmrImpactEntrySchema: Schema<MmrImpactEntry> = s.object({
+  trackerId: s.string(),
+  userId: s.string(),
+  playerName: s.string(),
+  current: s.nullable(s.number()),
+  currentError: s.nullable(s.string()),
+  draft: s.nullable(s.number()),
+  draftError: s.nullable(s.string()),
+});
+
+export const mmrImpactPreviewSchema: Schema<MmrImpactPreview> = s.object({
+  entries: s.array(mmrImpactEntrySchema),
+});
@@ -0,0 +1,55 @@
+/**
+ * Scraping Status Polling Policy
+ * Decides how often to poll a tracker's scraping status when no event stream
+ * is available. Pure helpers only - the subscription lives in statusStream.ts.
+ */
+
+import type { TrackerScrapingStatus } from '../../types/trackers.ts';
+
+export interface PollDelayOptions {
+  /**
+   * First delay while a scrape is running (default: 1000)
+   */
+  activeDelayMs?: number;
+  /**
+   * Cap for the backoff while a scrape is running (default: 8000)
+   */
+  maxActiveDelayMs?: number;
+  /**
+   * Delay once the scrape has finished (default: 30000)
+   */
+  idleDelayMs?: number;
+  /**
+   * Minimum delay while the tab is in the background (default: 60000)
+   */
+  hiddenDelayMs?: number;
+}
+
+/**
+ * Whether a scrape is queued or running
+ */
+export function isScrapingActive(status: TrackerScrapingStatus | null | undefined): boolean {
+  return status === 'PENDING' || status === 'IN_PROGRESS';
+}
+
+/**
+ * Delay before the next status poll
+ * @param status - Last known status (null if the last poll failed)
+ * @param unchangedPolls - Consecutive polls that returned the same status
+ * @param hidden - Whether the document is hidden
+ */
+export function getPollDelay(
+  status: TrackerScrapingStatus | null,
+  unchangedPolls: number,
+  hidden: boolean,
+  options: PollDelayOptions = {},
+): number {
+  const { activeDelayMs = 1000, maxActiveDelayMs = 8000, idleDelayMs = 30000, hiddenDelayMs = 60000 } = options;
+
+  const delay = isScrapingActive(status)
+    ? // Poll quickly while something is happening, backing off if it stalls
+      Math.min(activeDelayMs * 1.5 ** unchangedPolls, maxActiveDelayMs)
+    : idleDelayMs;
+
+  return hidden ? Math.max(delay, hiddenDelayMs) : delay;
+}
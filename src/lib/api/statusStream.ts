@@ -0,0 +1,129 @@
+/**
+ * Scraping Status Subscription
+ * Live scraping status for one tracker. Uses server-sent events from
+ * /api/trackers/:id/status/stream and falls back to adaptive polling of
+ * /api/trackers/:id/status when EventSource is unavailable, the mock backend
+ * is active, or the stream can't be opened.
+ */
+
+import { MOCK_API_ENABLED } from './client.ts';
+import { parseResponse } from './validate.ts';
+import { scrapingStatusSchema } from './schemas.ts';
+import { trackerApi } from './trackers.ts';
+import { getPollDelay } from './statusPolling.ts';
+import type { ScrapingStatus } from '../../types/trackers.ts';
+
+export interface ScrapingStatusSubscription {
+  /**
+   * Check again right away, e.g. after triggering a refresh (no-op while streaming)
+   */
+  check: () => void;
+  close: () => void;
+}
+
+/**
+ * Poll the status endpoint, backing off while nothing changes
+ */
+function pollStatus(trackerId: string, onStatus: (status: ScrapingStatus) => void): ScrapingStatusSubscription {
+  let closed = false;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let last: ScrapingStatus | null = null;
+  let unchangedPolls = 0;
+  let inFlight = false;
+  let checkAgain = false; // A check came in mid-request, so its answer may predate the check
+
+  const schedule = () => {
+    if (closed) return;
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(poll, getPollDelay(last?.status ?? null, unchangedPolls, document.hidden));
+  };
+
+  // One request at a time; the next one is scheduled when it settles
+  const poll = async () => {
+    if (closed || inFlight) return;
+    inFlight = true;
+    clearTimeout(timeoutId);
+    try {
+      const status = await trackerApi.getScrapingStatus(trackerId);
+      if (closed) return;
+      unchangedPolls = status.status === last?.status ? unchangedPolls + 1 : 0;
+      last = status;
+      onStatus(status);
+    } catch (err) {
+      console.error('Error polling scraping status:', err);
+    } finally {
+      inFlight = false;
+    }
+    if (checkAgain) {
+      checkAgain = false;
+      void poll();
+      return;
+    }
+    schedule();
+  };
+
+  // Catch up as soon as the tab comes back to the foreground
+  const onVisibilityChange = () => {
+    if (!document.hidden) void poll();
+  };
+  document.addEventListener('visibilitychange', onVisibilityChange);
+
+  void poll();
+
+  return {
+    check: () => {
+      unchangedPolls = 0;
+      if (inFlight) {
+        checkAgain = true;
+        return;
+      }
+      void poll();
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(timeoutId);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    },
+  };
+}
+
+/**
+ * Subscribe to a tracker's scraping status
+ * @param onStatus - Called with every status update, starting with the current one
+ */
+export function subscribeScrapingStatus(
+  trackerId: string,
+  onStatus: (status: ScrapingStatus) => void,
+): ScrapingStatusSubscription {
+  if (MOCK_API_ENABLED || typeof EventSource === 'undefined') {
+    return pollStatus(trackerId, onStatus);
+  }
+
+  const API_URL = import.meta.env.VITE_API_URL;
+  const source = new EventSource(`${API_URL}/api/trackers/${trackerId}/status/stream`, { withCredentials: true });
+  let fallback: ScrapingStatusSubscription | null = null;
+  let closed = false;
+
+  source.onmessage = (event: MessageEvent<string>) => {
+    try {
+      onStatus(parseResponse(scrapingStatusSchema, JSON.parse(event.data), 'SSE /api/trackers/:id/status/stream'));
+    } catch (err) {
+      console.error('Invalid scraping status event:', err);
+    }
+  };
+
+  source.onerror = () => {
+    // EventSource reconnects on its own unless the server refused the stream outright
+    if (source.readyState !== EventSource.CLOSED || closed) return;
+    fallback = pollStatus(trackerId, onStatus);
+  };
+
+  return {
+    check: () => fallback?.check(),
+    close: () => {
+      closed = true;
+      source.close();
+      fallback?.close();
+    },
+  };
+}
@@ -4,7 +4,22 @@
  */
 
 import { api } from './client.ts';
-import type { Tracker, TrackerDetail, ScrapingStatus } from '../../types/trackers.ts';
+import { parseResponse } from './validate.ts';
+import { s } from './schema.ts';
+import {
+  trackerSchema,
+  trackerDetailSchema,
+  trackerSnapshotSchema,
+  scrapingStatusSchema,
+  messageSchema,
+} from './schemas.ts';
+import type {
+  Tracker,
+  TrackerDetail,
+  TrackerSnapshot,
+  CreateTrackerSnapshotInput,
+  ScrapingStatus,
+} from '../../types/trackers.ts';
 
 export const trackerApi = {
   /**
@@ -14,7 +29,7 @@ export const trackerApi = {
    */
   registerTrackers: async (urls: string[]): Promise<Tracker[]> => {
     const response = await api.post('/api/trackers/register', { urls });
-    return response.data;
+    return parseResponse(s.array(trackerSchema), response.data, 'POST /api/trackers/register');
   },
 
   /**
@@ -24,7 +39,7 @@ export const trackerApi = {
    */
   addTracker: async (url: string): Promise<Tracker> => {
     const response = await api.post('/api/trackers/add', { url });
-    return response.data;
+    return parseResponse(trackerSchema, response.data, 'POST /api/trackers/add');
   },
 
   /**
@@ -34,16 +49,14 @@ export const trackerApi = {
   getMyTrackers: async (): Promise<Tracker[]> => {
     try {
       const response = await api.get('/api/trackers/me');
-      return Array.isArray(response.data) ? response.data : [];
+      return parseResponse(s.array(trackerSchema), response.data, 'GET /api/trackers/me');
     } catch (error: unknown) {
       // Handle 404 gracefully (no trackers)
-      if (error.response?.status === 404 || error.status === 404) {
+      // 429s have already been retried by the client - anything left propagates to the store
+      const errorObj = error as { status?: number; response?: { status?: number } };
+      if (errorObj.response?.status === 404 || errorObj.status === 404) {
         return [];
       }
-      // Don't retry on rate limit - let the error propagate so the store can handle it
-      if (error.response?.status === 429 || error.status === 429) {
-        throw error; // Re-throw to let store handle it
-      }
       throw error;
     }
   },
@@ -55,7 +68,18 @@ export const trackerApi = {
    */
   getTrackerDetail: async (trackerId: string): Promise<TrackerDetail> => {
     const response = await api.get(`/api/trackers/${trackerId}/detail`);
-    return response.data;
+    return parseResponse(trackerDetailSchema, response.data, 'GET /api/trackers/:id/detail');
+  },
+
+  /**
+   * Record a manual snapshot (admin only, e.g. when scraping fails or a player appeals)
+   * @param trackerId - Tracker ID
+   * @param input - Ratings, games played and the guild authorizing the entry
+   * @returns Created snapshot
+   */
+  createSnapshot: async (trackerId: string, input: CreateTrackerSnapshotInput): Promise<TrackerSnapshot> => {
+    const response = await api.post(`/api/trackers/${trackerId}/snapshots`, input);
+    return parseResponse(trackerSnapshotSchema, response.data, 'POST /api/trackers/:id/snapshots');
   },
 
   /**
@@ -65,7 +89,7 @@ export const trackerApi = {
    */
   getScrapingStatus: async (trackerId: string): Promise<ScrapingStatus> => {
     const response = await api.get(`/api/trackers/${trackerId}/status`);
-    return response.data;
+    return parseResponse(scrapingStatusSchema, response.data, 'GET /api/trackers/:id/status');
   },
 
   /**
@@ -75,18 +99,22 @@ export const trackerApi = {
    */
   refreshTracker: async (trackerId: string): Promise<{ message: string }> => {
     const response = await api.post(`/api/trackers/${trackerId}/refresh`);
-    return response.data;
+    return parseResponse(messageSchema, response.data, 'POST /api/trackers/:id/refresh');
   },
 
   /**
    * Get trackers (filtered by guild if provided)
    * @param guildId - Optional Discord guild ID
+   * @param options - includeDeleted: also return soft-deleted trackers
    * @returns List of trackers
    */
-  getTrackers: async (guildId?: string): Promise<Tracker[]> => {
-    const params = guildId ? { guildId } : {};
+  getTrackers: async (guildId?: string, options: { includeDeleted?: boolean } = {}): Promise<Tracker[]> => {
+    const params = {
+      ...(guildId && { guildId }),
+      ...(options.includeDeleted && { includeDeleted: true }),
+    };
     const response = await api.get('/api/trackers', { params });
-    return response.data;
+    return parseResponse(s.array(trackerSchema), response.data, 'GET /api/trackers');
   },
 
   /**
@@ -96,7 +124,7 @@ export const trackerApi = {
    */
   getTracker: async (id: string): Promise<Tracker> => {
     const response = await api.get(`/api/trackers/${id}`);
-    return response.data;
+    return parseResponse(trackerSchema, response.data, 'GET /api/trackers/:id');
   },
 
   /**
@@ -110,7 +138,7 @@ export const trackerApi = {
     data: { displayName?: string; isActive?: boolean }
   ): Promise<Tracker> => {
     const response = await api.put(`/api/trackers/${id}`, data);
-    return response.data;
+    return parseResponse(trackerSchema, response.data, 'PUT /api/trackers/:id');
   },
 
   /**
@@ -120,6 +148,16 @@ export const trackerApi = {
   deleteTracker: async (id: string): Promise<void> => {
     await api.delete(`/api/trackers/${id}`);
   },
+
+  /**
+   * Restore a soft-deleted tracker
+   * @param id - Tracker ID
+   * @returns Restored tracker
+   */
+  restoreTracker: async (id: string): Promise<Tracker> => {
+    const response = await api.post(`/api/trackers/${id}/restore`);
+    return parseResponse(trackerSchema, response.data, 'POST /api/trackers/:id/restore');
+  },
 };
 
 
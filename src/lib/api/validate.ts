@@ -0,0 +1,43 @@
+/**
+ * Response Validation
+ * Checks API payloads against their schemas before they reach stores/components.
+ */
+
+import { safeParse, type Schema } from './schema.ts';
+import type { ResponseValidationError } from '../../types/api.ts';
+
+export const RESPONSE_VALIDATION_ERROR_CODE = 'RESPONSE_VALIDATION_FAILED' as const;
+
+/**
+ * Validate a response payload, throwing a ResponseValidationError on mismatch
+ * @param schema - Expected shape
+ * @param data - Raw response data
+ * @param endpoint - Human-readable endpoint label for error reports (e.g. "GET /api/trackers/:id")
+ */
+export function parseResponse<T>(schema: Schema<T>, data: unknown, endpoint: string): T {
+  const result = safeParse(schema, data);
+  if (result.success) {
+    return result.data;
+  }
+
+  if (import.meta.env.DEV) {
+    console.groupCollapsed(`[api] Response from ${endpoint} does not match its schema`);
+    console.table(result.issues);
+    console.debug('Received payload:', data);
+    console.groupEnd();
+  }
+
+  const error: ResponseValidationError = {
+    message: `Unexpected response from ${endpoint}`,
+    code: RESPONSE_VALIDATION_ERROR_CODE,
+    details: { endpoint, issues: result.issues },
+  };
+  throw error;
+}
+
+/**
+ * Type guard for errors raised by parseResponse
+ */
+export function isResponseValidationError(err: unknown): err is ResponseValidationError {
+  return (err as { code?: string } | null)?.code === RESPONSE_VALIDATION_ERROR_CODE;
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { createResourceCache } from '../resourceCache';
+
+/**
+ * Cache with a manual clock
+ */
+function createTestCache(options: { gcTime?: number; maxEntries?: number } = {}) {
+  let time = 1_000_000;
+  const cache = createResourceCache({ ...options, gcIntervalMs: Infinity, now: () => time });
+  return {
+    cache,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+function deferred<T>() {
+  let resolve: (value: T) => void = () => undefined;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe('resourceCache', () => {
+  describe('fetch', () => {
+    it('should serve fresh data without calling the fetcher', async () => {
+      // Arrange
+      const { cache, advance } = createTestCache();
+      const fetcher = jest.fn(() => Promise.resolve('first'));
+      await cache.fetch('key', fetcher, { staleTime: 1000 });
+
+      // Act
+      advance(500);
+      const result = await cache.fetch('key', fetcher, { staleTime: 1000 });
+
+      // Assert
+      expect(result).toBe('first');
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep stale data readable while revalidating', async () => {
+      const { cache, advance } = createTestCache();
+      await cache.fetch('key', () => Promise.resolve('old'), { staleTime: 1000 });
+      advance(1500);
+
+      const request = deferred<string>();
+      const revalidation = cache.fetch('key', () => request.promise);
+
+      expect(cache.getEntry('key')).toMatchObject({ data: 'old', isStale: true, isFetching: true });
+      request.resolve('new');
+      await expect(revalidation).resolves.toBe('new');
+      expect(cache.getEntry('key')).toMatchObject({ data: 'new', isStale: false, isFetching: false });
+    });
+
+    it('should share one request between concurrent callers', async () => {
+      const { cache } = createTestCache();
+      const request = deferred<string>();
+      const fetcher = jest.fn(() => request.promise);
+
+      const first = cache.fetch('key', fetcher);
+      const second = cache.fetch('key', fetcher);
+      request.resolve('data');
+
+      await expect(Promise.all([first, second])).resolves.toEqual(['data', 'data']);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let a forced fetch win over an older request still in flight', async () => {
+      const { cache } = createTestCache();
+      const older = deferred<string>();
+      const newer = deferred<string>();
+
+      const first = cache.fetch('key', () => older.promise);
+      const second = cache.fetch('key', () => newer.promise, { force: true });
+      newer.resolve('newer');
+      older.resolve('older');
+      await Promise.all([first, second]);
+
+      expect(cache.getData('key')).toBe('newer');
+    });
+
+    it('should discard a response for an entry removed while in flight', async () => {
+      const { cache } = createTestCache();
+      const request = deferred<string>();
+
+      const pending = cache.fetch('key', () => request.promise);
+      cache.clear();
+      request.resolve('late');
+      await pending;
+
+      expect(cache.getEntry('key')).toBeUndefined();
+    });
+  });
+
+  describe('tags', () => {
+    it('should invalidate every entry with a tag and leave others fresh', async () => {
+      const { cache } = createTestCache();
+      cache.set('settings:1', 'a', { staleTime: 60000, tags: ['guild:1'] });
+      cache.set('channels:1', 'b', { staleTime: 60000, tags: ['guild:1'] });
+      cache.set('settings:2', 'c', { staleTime: 60000, tags: ['guild:2'] });
+
+      cache.invalidateTag('guild:1');
+
+      expect(cache.getEntry('settings:1')).toMatchObject({ data: 'a', isStale: true });
+      expect(cache.getEntry('channels:1')).toMatchObject({ data: 'b', isStale: true });
+      expect(cache.getEntry('settings:2')?.isStale).toBe(false);
+    });
+
+    it('should remove every entry with a tag', () => {
+      const { cache } = createTestCache();
+      cache.set('permissions:1', 'a', { tags: ['permissions'] });
+      cache.set('settings:1', 'b');
+
+      cache.removeTag('permissions');
+
+      expect(cache.entries().map((entry) => entry.key)).toEqual(['settings:1']);
+    });
+  });
+
+  describe('gc', () => {
+    it('should collect idle entries but keep retained ones', () => {
+      const { cache, advance } = createTestCache({ gcTime: 1000 });
+      cache.set('idle', 1);
+      cache.set('retained', 2);
+      const release = cache.retain('retained');
+
+      advance(5000);
+
+      expect(cache.gc()).toBe(1);
+      expect(cache.getData('idle')).toBeUndefined();
+      expect(cache.getData('retained')).toBe(2);
+
+      release();
+      advance(5000);
+      cache.gc();
+      expect(cache.getData('retained')).toBeUndefined();
+    });
+
+    it('should evict least recently used entries beyond maxEntries', () => {
+      const { cache, advance } = createTestCache({ maxEntries: 2 });
+      cache.set('a', 1);
+      advance(10);
+      cache.set('b', 2);
+      advance(10);
+      cache.set('c', 3);
+
+      expect(cache.entries().map((entry) => entry.key)).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('collect', () => {
+    it('should key data by the rest of the key and keep references stable', () => {
+      const { cache } = createTestCache();
+      const settings = { id: 1 };
+      cache.set('settings:1', settings);
+      cache.set('channels:1', []);
+
+      const first = cache.collect('settings:');
+      cache.set('channels:2', []);
+      const second = cache.collect('settings:', first);
+
+      expect(first).toEqual({ '1': settings });
+      expect(second).toBe(first);
+    });
+  });
+
+  it('should notify subscribers and bump the version on changes', () => {
+    const { cache } = createTestCache();
+    const listener = jest.fn();
+    cache.subscribe(listener);
+    const version = cache.getVersion();
+
+    cache.set('key', 'value');
+    cache.invalidate('key');
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(cache.getVersion()).toBe(version + 2);
+  });
+});
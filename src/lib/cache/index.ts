@@ -0,0 +1,11 @@
+/**
+ * Resource Cache Re-exports
+ * Exposes the app-wide cache instance used by the stores.
+ */
+
+import { createResourceCache } from './resourceCache.ts';
+
+export * from './resourceCache.ts';
+export * from './keys.ts';
+
+export const resourceCache = createResourceCache();
@@ -0,0 +1,79 @@
+/**
+ * Cache keys, tags and per-resource policies
+ * Every resource the stores cache is listed here so keys stay consistent and
+ * freshness rules can be compared side by side.
+ */
+
+import type { ResourceOptions } from './resourceCache.ts';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Key builders. The prefix before the first ':' names the resource; stores
+ * collect() their entries by prefix.
+ */
+export const cacheKeys = {
+  settings: (guildId: string) => `settings:${guildId}`,
+  members: (guildId: string, page: number, limit: number, searchQuery = '') =>
+    `members:${guildId}:${page}:${limit}:${searchQuery}`,
+  permissions: (guildId: string) => `permissions:${guildId}`,
+  channels: (guildId: string) => `channels:${guildId}`,
+  roles: (guildId: string) => `roles:${guildId}`,
+  myTrackers: () => 'trackers:me',
+  trackerDetail: (trackerId: string) => `trackers:detail:${trackerId}`,
+  trackerMmr: (guildId: string, trackerId: string, source: string) => `mmr:${guildId}:${trackerId}:${source}`,
+};
+
+/**
+ * Key prefixes, for collect()
+ */
+export const cachePrefixes = {
+  settings: 'settings:',
+  members: 'members:',
+  permissions: 'permissions:',
+  channels: 'channels:',
+  roles: 'roles:',
+};
+
+/**
+ * Invalidation tags
+ */
+export const cacheTags = {
+  /**
+   * Everything scoped to one guild
+   */
+  guild: (guildId: string) => `guild:${guildId}`,
+  /**
+   * Member lists and searches of one guild
+   */
+  members: (guildId: string) => `members:${guildId}`,
+  /**
+   * Permission state across all guilds
+   */
+  permissions: 'permissions',
+  /**
+   * The current user's trackers
+   */
+  myTrackers: 'trackers:me',
+  /**
+   * MMR results under one guild's algorithm; stale once its settings are saved
+   */
+  mmr: (guildId: string) => `mmr:${guildId}`,
+};
+
+/**
+ * Freshness rules per resource
+ */
+export const cachePolicies = {
+  settings: { staleTime: 5 * MINUTE },
+  members: { staleTime: 5 * MINUTE, gcTime: 10 * MINUTE },
+  memberSearch: { staleTime: 30 * 1000, gcTime: 2 * MINUTE },
+  permissions: { staleTime: 5 * MINUTE },
+  channels: { staleTime: 10 * MINUTE },
+  roles: { staleTime: 10 * MINUTE },
+  // Every tracker mutation (and 'trackers-changed' from other tabs) invalidates the myTrackers tag;
+  // the short window only bounds changes made elsewhere, e.g. by an admin
+  myTrackers: { staleTime: 30 * 1000 },
+  trackerDetail: { staleTime: MINUTE },
+  trackerMmr: { staleTime: MINUTE },
+} satisfies Record<string, ResourceOptions>;
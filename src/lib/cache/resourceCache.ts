@@ -0,0 +1,408 @@
+/**
+ * Resource Cache
+ * Keyed store for server data shared by the Zustand stores.
+ *
+ * - Stale-while-revalidate: cached data stays readable while a fresh copy loads
+ * - Per-resource staleTime (when to refetch) and gcTime (when to forget)
+ * - Tag-based invalidation, e.g. every entry tagged "guild:123"
+ * - Garbage collection of idle entries nobody is retaining
+ * - Deduplication of concurrent fetches for the same key
+ *
+ * Framework-free: React reads it through subscribe/getVersion, stores through
+ * collect(). The app-wide instance lives in ./index.ts.
+ */
+
+export interface ResourceOptions {
+  /**
+   * How long data counts as fresh; fetch() skips the network until then (default: 0)
+   */
+  staleTime?: number;
+  /**
+   * How long an unretained entry is kept after its last use (default: cache gcTime)
+   */
+  gcTime?: number;
+  /**
+   * Tags for group invalidation, e.g. ['guild:123']
+   */
+  tags?: string[];
+}
+
+export interface FetchOptions extends ResourceOptions {
+  /**
+   * Ignore fresh data and in-flight requests and start a new fetch
+   */
+  force?: boolean;
+}
+
+export interface SetOptions extends ResourceOptions {
+  /**
+   * When the data was fetched (default: now)
+   */
+  updatedAt?: number;
+}
+
+/**
+ * Read-only view of an entry, as returned by getEntry() and entries()
+ */
+export interface CacheEntrySnapshot<T = unknown> {
+  key: string;
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  lastUsedAt: number;
+  tags: string[];
+  staleTime: number;
+  gcTime: number;
+  isStale: boolean;
+  isFetching: boolean;
+  observers: number;
+}
+
+export interface ResourceCacheOptions {
+  /**
+   * Default gcTime for entries that don't set one (default: 30 minutes)
+   */
+  gcTime?: number;
+  /**
+   * Evict least recently used unretained entries beyond this count (default: 500)
+   */
+  maxEntries?: number;
+  /**
+   * Minimum time between automatic GC sweeps (default: 60 seconds)
+   */
+  gcIntervalMs?: number;
+  /**
+   * Clock, overridable in tests
+   */
+  now?: () => number;
+}
+
+interface CacheEntry {
+  key: string;
+  data: unknown;
+  hasData: boolean;
+  error: unknown;
+  updatedAt: number;
+  lastUsedAt: number;
+  tags: Set<string>;
+  staleTime: number;
+  gcTime: number;
+  invalidated: boolean;
+  promise: Promise<unknown> | null;
+  // Incremented per fetch so a superseded response can't overwrite newer data
+  generation: number;
+  observers: number;
+}
+
+export type ResourceCache = ReturnType<typeof createResourceCache>;
+
+/**
+ * Create a resource cache
+ */
+export function createResourceCache(options: ResourceCacheOptions = {}) {
+  const { gcTime: defaultGcTime = 30 * 60 * 1000, maxEntries = 500, gcIntervalMs = 60 * 1000, now = Date.now } = options;
+
+  const entries = new Map<string, CacheEntry>();
+  const listeners = new Set<() => void>();
+  let version = 0;
+  let lastGcAt = now();
+
+  const notify = () => {
+    version += 1;
+    listeners.forEach((listener) => listener());
+  };
+
+  const getOrCreate = (key: string): CacheEntry => {
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        key,
+        data: undefined,
+        hasData: false,
+        error: undefined,
+        updatedAt: 0,
+        lastUsedAt: now(),
+        tags: new Set(),
+        staleTime: 0,
+        gcTime: defaultGcTime,
+        invalidated: false,
+        promise: null,
+        generation: 0,
+        observers: 0,
+      };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  const applyOptions = (entry: CacheEntry, resourceOptions: ResourceOptions) => {
+    if (resourceOptions.staleTime !== undefined) entry.staleTime = resourceOptions.staleTime;
+    if (resourceOptions.gcTime !== undefined) entry.gcTime = resourceOptions.gcTime;
+    resourceOptions.tags?.forEach((tag) => entry.tags.add(tag));
+  };
+
+  const isStale = (entry: CacheEntry) =>
+    !entry.hasData || entry.invalidated || now() - entry.updatedAt >= entry.staleTime;
+
+  const snapshot = <T>(entry: CacheEntry): CacheEntrySnapshot<T> => ({
+    key: entry.key,
+    data: entry.data as T | undefined,
+    error: entry.error,
+    updatedAt: entry.updatedAt,
+    lastUsedAt: entry.lastUsedAt,
+    tags: [...entry.tags],
+    staleTime: entry.staleTime,
+    gcTime: entry.gcTime,
+    isStale: isStale(entry),
+    isFetching: entry.promise !== null,
+    observers: entry.observers,
+  });
+
+  /**
+   * Delete an entry; a response still in flight for it is discarded
+   */
+  const drop = (entry: CacheEntry) => {
+    entry.generation += 1;
+    entry.promise = null;
+    entries.delete(entry.key);
+  };
+
+  const isCollectable = (entry: CacheEntry) => entry.observers === 0 && entry.promise === null;
+
+  /**
+   * Drop idle entries; returns the number removed. Doesn't notify.
+   */
+  const sweep = (): number => {
+    const time = now();
+    lastGcAt = time;
+    let removed = 0;
+
+    entries.forEach((entry, key) => {
+      if (isCollectable(entry) && time - entry.lastUsedAt > entry.gcTime) {
+        entries.delete(key);
+        removed += 1;
+      }
+    });
+
+    if (entries.size > maxEntries) {
+      const evictable = [...entries.values()].filter(isCollectable).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+      for (const entry of evictable.slice(0, entries.size - maxEntries)) {
+        entries.delete(entry.key);
+        removed += 1;
+      }
+    }
+    return removed;
+  };
+
+  const maybeSweep = () => {
+    if (now() - lastGcAt >= gcIntervalMs || entries.size > maxEntries) {
+      sweep();
+    }
+  };
+
+  const keysMatching = (tag: string) =>
+    [...entries.values()].filter((entry) => entry.tags.has(tag)).map((entry) => entry.key);
+
+  return {
+    /**
+     * Return cached data if fresh, otherwise fetch it (sharing any request already in flight).
+     * Stale data stays readable while the new request runs.
+     * @param key - Resource key, see cacheKeys
+     * @param fetcher - Loads the resource from the API
+     */
+    fetch<T>(key: string, fetcher: () => Promise<T>, fetchOptions: FetchOptions = {}): Promise<T> {
+      const entry = getOrCreate(key);
+      applyOptions(entry, fetchOptions);
+      entry.lastUsedAt = now();
+
+      if (!fetchOptions.force) {
+        if (entry.promise) {
+          return entry.promise as Promise<T>;
+        }
+        if (!isStale(entry)) {
+          return Promise.resolve(entry.data as T);
+        }
+      }
+
+      const generation = ++entry.generation;
+      const promise = fetcher().then(
+        (data) => {
+          if (entry.generation === generation) {
+            entry.data = data;
+            entry.hasData = true;
+            entry.error = undefined;
+            entry.updatedAt = now();
+            entry.invalidated = false;
+            entry.promise = null;
+            notify();
+          }
+          return data;
+        },
+        (error: unknown) => {
+          if (entry.generation === generation) {
+            entry.error = error;
+            entry.promise = null;
+            notify();
+          }
+          throw error;
+        },
+      );
+
+      entry.promise = promise;
+      maybeSweep();
+      notify();
+      return promise;
+    },
+
+    /**
+     * Write data directly (optimistic updates, mutation results)
+     */
+    set<T>(key: string, data: T, setOptions: SetOptions = {}) {
+      const entry = getOrCreate(key);
+      applyOptions(entry, setOptions);
+      entry.data = data;
+      entry.hasData = true;
+      entry.error = undefined;
+      entry.updatedAt = setOptions.updatedAt ?? now();
+      entry.lastUsedAt = now();
+      entry.invalidated = false;
+      // A write supersedes whatever is in flight
+      entry.generation += 1;
+      entry.promise = null;
+      maybeSweep();
+      notify();
+    },
+
+    /**
+     * Transform cached data in place; no-op if the key holds no data
+     */
+    update<T>(key: string, updater: (data: T) => T) {
+      const entry = entries.get(key);
+      if (!entry?.hasData) return;
+      entry.data = updater(entry.data as T);
+      entry.lastUsedAt = now();
+      notify();
+    },
+
+    getData<T>(key: string): T | undefined {
+      return entries.get(key)?.data as T | undefined;
+    },
+
+    getEntry<T>(key: string): CacheEntrySnapshot<T> | undefined {
+      const entry = entries.get(key);
+      return entry ? snapshot<T>(entry) : undefined;
+    },
+
+    /**
+     * All entries, for the devtools view
+     */
+    entries(): CacheEntrySnapshot[] {
+      return [...entries.values()].map((entry) => snapshot(entry));
+    },
+
+    /**
+     * Data of every entry whose key starts with `prefix`, keyed by the rest of the key.
+     * Returns `previous` when nothing changed so store selectors keep stable references.
+     */
+    collect<T>(prefix: string, previous?: Record<string, T>): Record<string, T> {
+      const result: Record<string, T> = {};
+      entries.forEach((entry, key) => {
+        if (entry.hasData && key.startsWith(prefix)) {
+          result[key.slice(prefix.length)] = entry.data as T;
+        }
+      });
+
+      if (previous) {
+        const keys = Object.keys(result);
+        const unchanged =
+          keys.length === Object.keys(previous).length && keys.every((key) => previous[key] === result[key]);
+        if (unchanged) return previous;
+      }
+      return result;
+    },
+
+    /**
+     * Mark an entry stale so the next fetch() goes to the network; data stays readable
+     */
+    invalidate(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return;
+      entry.invalidated = true;
+      notify();
+    },
+
+    /**
+     * Mark every entry with `tag` stale
+     */
+    invalidateTag(tag: string) {
+      const keys = keysMatching(tag);
+      if (keys.length === 0) return;
+      keys.forEach((key) => {
+        entries.get(key)!.invalidated = true;
+      });
+      notify();
+    },
+
+    remove(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return;
+      drop(entry);
+      notify();
+    },
+
+    /**
+     * Drop every entry with `tag`
+     */
+    removeTag(tag: string) {
+      const keys = keysMatching(tag);
+      if (keys.length === 0) return;
+      keys.forEach((key) => drop(entries.get(key)!));
+      notify();
+    },
+
+    clear() {
+      if (entries.size === 0) return;
+      [...entries.values()].forEach(drop);
+      notify();
+    },
+
+    /**
+     * Keep an entry out of GC while something displays it
+     * @returns release function
+     */
+    retain(key: string): () => void {
+      const entry = getOrCreate(key);
+      entry.observers += 1;
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        entry.observers -= 1;
+        entry.lastUsedAt = now();
+      };
+    },
+
+    /**
+     * Run garbage collection now; returns the number of entries removed
+     */
+    gc(): number {
+      const removed = sweep();
+      if (removed > 0) notify();
+      return removed;
+    },
+
+    subscribe(listener: () => void): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /**
+     * Changes on every mutation (useSyncExternalStore snapshot)
+     */
+    getVersion(): number {
+      return version;
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Cross-Tab Sync Service
+ * Lets open tabs of the app tell each other about auth changes and mutations
+ * so they can update their stores without a reload.
+ *
+ * Uses BroadcastChannel where available and falls back to localStorage
+ * 'storage' events. Neither delivers a message back to the tab that sent it,
+ * so receivers never need to filter out their own broadcasts.
+ */
+
+import type { GuildSettingsType } from '../types/index.ts';
+
+export type CrossTabMessage =
+  | { type: 'logout' }
+  | { type: 'login' }
+  /**
+   * Settings were saved; `settings` is omitted when receivers should refetch (e.g. after reset)
+   */
+  | { type: 'settings-saved'; guildId: string; settings?: GuildSettingsType }
+  | { type: 'trackers-changed' };
+
+const CHANNEL_NAME = 'league:sync';
+const STORAGE_KEY = 'league:sync';
+
+type Listener = (message: CrossTabMessage) => void;
+
+const listeners = new Set<Listener>();
+let channel: BroadcastChannel | null = null;
+let connected = false;
+
+function dispatch(message: CrossTabMessage) {
+  listeners.forEach((listener) => listener(message));
+}
+
+function onStorage(event: StorageEvent) {
+  if (event.key !== STORAGE_KEY || !event.newValue) return;
+  try {
+    dispatch((JSON.parse(event.newValue) as { message: CrossTabMessage }).message);
+  } catch {
+    // Not ours or truncated - ignore
+  }
+}
+
+/**
+ * Open the channel on first use
+ */
+function connect() {
+  if (connected || typeof window === 'undefined') return;
+  connected = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<CrossTabMessage>) => dispatch(event.data);
+  } else {
+    window.addEventListener('storage', onStorage);
+  }
+}
+
+/**
+ * Send a message to every other open tab
+ */
+export function broadcast(message: CrossTabMessage) {
+  connect();
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+  try {
+    // The nonce makes repeated identical messages still count as a change
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, nonce: `${Date.now()}-${Math.random()}` }));
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable - other tabs catch up on their next request
+  }
+}
+
+/**
+ * Receive messages from other tabs
+ * @returns unsubscribe function
+ */
+export function subscribeCrossTab(listener: Listener): () => void {
+  connect();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyCompletion,
+  bracketsAtCaret,
+  completionsAt,
+  highlightFormula,
+  matchBrackets,
+  scanFormula,
+} from '../index';
+
+describe('highlightFormula', () => {
+  it('should classify every character of the formula', () => {
+    const segments = highlightFormula('max(twos, 2) * foo');
+
+    expect(segments.map(({ kind, text }) => [kind, text])).toEqual([
+      ['function', 'max'],
+      ['bracket', '('],
+      ['variable', 'twos'],
+      ['comma', ','],
+      ['whitespace', ' '],
+      ['number', '2'],
+      ['bracket', ')'],
+      ['whitespace', ' '],
+      ['operator', '*'],
+      ['whitespace', ' '],
+      ['unknown', 'foo'],
+    ]);
+  });
+
+  it('should keep highlighting past characters the tokenizer rejects', () => {
+    const segments = highlightFormula('ones $ twos');
+
+    expect(segments.map(({ kind }) => kind)).toEqual(['variable', 'whitespace', 'invalid', 'whitespace', 'variable']);
+  });
+
+  it('should split segments at the error range', () => {
+    const segments = highlightFormula('ones + twoss', { message: 'Unknown variable', start: 10, end: 12 });
+
+    expect(segments.filter((segment) => segment.error).map(({ text }) => text)).toEqual(['ss']);
+    expect(segments.map(({ text }) => text).join('')).toBe('ones + twoss');
+  });
+});
+
+describe('matchBrackets', () => {
+  it('should pair nested brackets and flag unmatched ones', () => {
+    const brackets = matchBrackets(scanFormula('(a + (b)) )'));
+
+    expect(Object.fromEntries(brackets)).toEqual({ 0: 8, 5: 7, 7: 5, 8: 0, 10: null });
+  });
+
+  it('should find the bracket next to the caret', () => {
+    const brackets = matchBrackets(scanFormula('max(ones)'));
+
+    expect(bracketsAtCaret(brackets, 4)).toEqual({ offset: 3, partner: 8 });
+    expect(bracketsAtCaret(brackets, 8)).toEqual({ offset: 8, partner: 3 });
+    expect(bracketsAtCaret(brackets, 6)).toBeNull();
+  });
+});
+
+describe('completionsAt', () => {
+  it('should suggest names starting with the typed prefix', () => {
+    const context = completionsAt('ones + th', 9);
+
+    expect(context.start).toBe(7);
+    expect(context.items.map(({ name }) => name)).toEqual(['threes', 'threesGames', 'threesGamesPlayed']);
+  });
+
+  it('should include functions with their signature', () => {
+    const [pow] = completionsAt('po', 2).items;
+
+    expect(pow).toEqual({
+      name: 'pow',
+      kind: 'function',
+      signature: 'pow(x, y)',
+      description: 'x raised to the power y',
+    });
+  });
+
+  it('should only suggest without a prefix when forced', () => {
+    expect(completionsAt('ones + ', 7).items).toHaveLength(0);
+    expect(completionsAt('ones + ', 7, true).items.length).toBeGreaterThan(10);
+  });
+
+  it('should not suggest inside numbers', () => {
+    expect(completionsAt('12', 2, true).items).toHaveLength(0);
+  });
+});
+
+describe('applyCompletion', () => {
+  it('should replace the whole identifier around the caret', () => {
+    const context = completionsAt('tw * 2', 1);
+    const item = context.items.find(({ name }) => name === 'twos')!;
+
+    expect(applyCompletion('tw * 2', context, item)).toEqual({ value: 'twos * 2', caret: 4 });
+  });
+
+  it('should add parentheses for functions and place the caret inside', () => {
+    const context = completionsAt('sq', 2);
+
+    expect(applyCompletion('sq', context, context.items[0])).toEqual({ value: 'sqrt()', caret: 5 });
+  });
+
+  it('should not duplicate existing parentheses', () => {
+    const context = completionsAt('sq(twos)', 2);
+
+    expect(applyCompletion('sq(twos)', context, context.items[0])).toEqual({ value: 'sqrt(twos)', caret: 4 });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from '@jest/globals';
+import { checkFormula, formatFormulaError, parseFormula, tokenize, MAX_FORMULA_LENGTH } from '../index';
+import type { TrackerData } from '../../api/mmr-calculation';
+
+const data: TrackerData = {
+  ones: 1000,
+  twos: 1400,
+  threes: 1600,
+  fours: 800,
+  onesGamesPlayed: 10,
+  twosGamesPlayed: 20,
+  threesGamesPlayed: 30,
+};
+
+function evaluate(formula: string) {
+  const result = checkFormula(formula, data);
+  if (result.success === false) {
+    throw new Error(formatFormulaError(result.error));
+  }
+  return result.value;
+}
+
+function errorOf(formula: string) {
+  const result = checkFormula(formula, data);
+  if (result.success === true) {
+    throw new Error(`Expected "${formula}" to fail`);
+  }
+  return result.error;
+}
+
+describe('tokenize', () => {
+  it('should record the source range of every token', () => {
+    const result = tokenize('max(twos, 1.5)');
+
+    expect(result).toEqual({
+      success: true,
+      tokens: [
+        { type: 'identifier', value: 'max', start: 0, end: 3 },
+        { type: 'leftParen', value: '(', start: 3, end: 4 },
+        { type: 'identifier', value: 'twos', start: 4, end: 8 },
+        { type: 'comma', value: ',', start: 8, end: 9 },
+        { type: 'number', value: '1.5', start: 10, end: 13 },
+        { type: 'rightParen', value: ')', start: 13, end: 14 },
+      ],
+    });
+  });
+
+  it('should reject characters outside the formula language', () => {
+    expect(tokenize('twos; alert(1)')).toEqual({
+      success: false,
+      error: { message: 'Unexpected character ";"', start: 4, end: 5 },
+    });
+  });
+});
+
+describe('checkFormula', () => {
+  it.each([
+    ['ones * 0.1 + twos * 0.3 + threes * 0.5 + fours * 0.1', 100 + 420 + 800 + 80],
+    ['2 + 3 * 4', 14],
+    ['(2 + 3) * 4', 20],
+    ['2 ^ 3 ^ 2', 512],
+    ['-2 ^ 2', 4],
+    ['10 - 4 - 3', 3],
+    ['max(ones, twos, threes)', 1600],
+    ['round(sqrt(twos))', 37],
+    ['pow(2, 10)', 1024],
+    ['totalGames', 60],
+    ['foursGames', 0],
+  ])('should evaluate %s', (formula, expected) => {
+    expect(evaluate(formula)).toBeCloseTo(expected);
+  });
+
+  it.each([
+    ['twoss * 2', 'Unknown variable "twoss"', 0, 5],
+    ['ones + median(twos)', 'Unknown function "median"', 7, 13],
+    ['ones + (twos * 2', 'Missing ")" to close "(" at column 8', 16, 16],
+    ['ones +', 'Unexpected end of formula', 6, 6],
+    ['ones twos', 'Unexpected "twos"', 5, 9],
+    ['pow(twos)', 'pow() takes 2 argument(s), got 1', 0, 9],
+    ['abs(ones, twos)', 'abs() takes 1 argument(s), got 2', 0, 15],
+    ['max() + 1', 'max() takes at least 1 argument(s), got 0', 0, 5],
+    ['sqrt * 2', '"sqrt" is a function; call it like sqrt(...)', 0, 4],
+    ['ones / (fours - 800)', 'Formula does not produce a finite number', 0, 20],
+    ['   ', 'Formula cannot be empty', 0, 3],
+  ])('should report %s', (formula, message, start, end) => {
+    expect(errorOf(formula)).toEqual({ message, start, end });
+  });
+
+  it('should not resolve names from the surrounding environment', () => {
+    expect(errorOf('constructor').message).toBe('Unknown variable "constructor"');
+    expect(errorOf('toString(1)').message).toBe('Unknown function "toString"');
+  });
+
+  it('should reject overly long or deeply nested formulas', () => {
+    expect(errorOf('1+'.repeat(MAX_FORMULA_LENGTH)).message).toContain('longer than');
+    expect(errorOf(`${'('.repeat(100)}1${')'.repeat(100)}`).message).toBe('Formula is nested too deeply');
+  });
+});
+
+describe('formatFormulaError', () => {
+  it('should report a 1-based column', () => {
+    const result = parseFormula('ones + twoss');
+
+    expect(result.success).toBe(false);
+    if (result.success === false) {
+      expect(formatFormulaError(result.error)).toBe('Unknown variable "twoss" at column 8');
+    }
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Formula Editor Support
+ * Highlighting, bracket matching and autocomplete for the formula editor.
+ * Everything here tolerates half-typed formulas, unlike the parser.
+ */
+
+import { tokenize, type Token } from './tokenizer.ts';
+import {
+  FORMULA_FUNCTIONS,
+  FORMULA_VARIABLES,
+  FORMULA_VARIABLE_DOCS,
+  isFormulaFunction,
+  isFormulaVariable,
+} from './scope.ts';
+import type { FormulaError } from './errors.ts';
+
+export type HighlightKind =
+  | 'number'
+  | 'variable'
+  | 'function'
+  | 'unknown'
+  | 'operator'
+  | 'bracket'
+  | 'comma'
+  | 'whitespace'
+  | 'invalid';
+
+export interface HighlightSegment {
+  kind: HighlightKind;
+  text: string;
+  start: number;
+  end: number;
+  /**
+   * Whether the segment lies inside the current error range
+   */
+  error: boolean;
+}
+
+export interface FormulaDoc {
+  name: string;
+  kind: 'variable' | 'function';
+  /**
+   * Call signature for functions, the name for variables
+   */
+  signature: string;
+  description: string;
+}
+
+export interface CompletionContext {
+  /**
+   * Range of the identifier being replaced
+   */
+  start: number;
+  end: number;
+  items: FormulaDoc[];
+}
+
+/**
+ * Tokenize as far as possible, skipping characters the tokenizer rejects
+ */
+export function scanFormula(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+
+  while (offset < source.length) {
+    const result = tokenize(source.slice(offset));
+    const shift = (token: Token): Token => ({ ...token, start: token.start + offset, end: token.end + offset });
+    if (result.success === true) {
+      tokens.push(...result.tokens.map(shift));
+      break;
+    }
+    const partial = tokenize(source.slice(offset, offset + result.error.start));
+    if (partial.success === true) {
+      tokens.push(...partial.tokens.map(shift));
+    }
+    offset += result.error.end;
+  }
+
+  return tokens;
+}
+
+function tokenKind(token: Token): HighlightKind {
+  switch (token.type) {
+    case 'number':
+      return 'number';
+    case 'operator':
+      return 'operator';
+    case 'comma':
+      return 'comma';
+    case 'leftParen':
+    case 'rightParen':
+      return 'bracket';
+    case 'identifier':
+      if (isFormulaVariable(token.value)) return 'variable';
+      if (isFormulaFunction(token.value)) return 'function';
+      return 'unknown';
+  }
+}
+
+/**
+ * Split a formula into highlighted segments covering every character.
+ * Segments are split at the error range so it can be underlined exactly.
+ */
+export function highlightFormula(source: string, error?: FormulaError | null): HighlightSegment[] {
+  const boundaries = new Set<number>([0, source.length]);
+  const kinds: Array<{ start: number; end: number; kind: HighlightKind }> = [];
+  let cursor = 0;
+
+  const addGap = (end: number) => {
+    // Anything between tokens is whitespace or a character the tokenizer rejected
+    for (const match of source.slice(cursor, end).matchAll(/\s+|\S+/g)) {
+      const start = cursor + (match.index ?? 0);
+      kinds.push({ start, end: start + match[0].length, kind: /\s/.test(match[0]) ? 'whitespace' : 'invalid' });
+    }
+  };
+
+  for (const token of scanFormula(source)) {
+    addGap(token.start);
+    kinds.push({ start: token.start, end: token.end, kind: tokenKind(token) });
+    cursor = token.end;
+  }
+  addGap(source.length);
+
+  for (const { start, end } of kinds) {
+    boundaries.add(start).add(end);
+  }
+  if (error && error.end > error.start) {
+    boundaries.add(Math.min(error.start, source.length)).add(Math.min(error.end, source.length));
+  }
+
+  const sorted = [...boundaries].sort((a, b) => a - b);
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const start = sorted[i];
+    const end = sorted[i + 1];
+    const kind = kinds.find((range) => range.start <= start && end <= range.end)?.kind ?? 'whitespace';
+    segments.push({
+      kind,
+      text: source.slice(start, end),
+      start,
+      end,
+      error: !!error && start >= error.start && end <= error.end,
+    });
+  }
+  return segments;
+}
+
+/**
+ * Map each bracket offset to its partner's offset, or null when unmatched
+ */
+export function matchBrackets(tokens: Token[]): Map<number, number | null> {
+  const pairs = new Map<number, number | null>();
+  const open: number[] = [];
+
+  for (const token of tokens) {
+    if (token.type === 'leftParen') {
+      open.push(token.start);
+      pairs.set(token.start, null);
+    } else if (token.type === 'rightParen') {
+      const partner = open.pop();
+      pairs.set(token.start, partner ?? null);
+      if (partner !== undefined) {
+        pairs.set(partner, token.start);
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Bracket next to the caret and its partner, preferring the one before the caret
+ */
+export function bracketsAtCaret(
+  brackets: Map<number, number | null>,
+  caret: number,
+): { offset: number; partner: number | null } | null {
+  for (const offset of [caret - 1, caret]) {
+    if (brackets.has(offset)) {
+      return { offset, partner: brackets.get(offset) ?? null };
+    }
+  }
+  return null;
+}
+
+/**
+ * Documentation for a variable or function name
+ */
+export function formulaDoc(name: string): FormulaDoc | undefined {
+  if (isFormulaVariable(name)) {
+    return { name, kind: 'variable', signature: name, description: FORMULA_VARIABLE_DOCS[name] };
+  }
+  if (isFormulaFunction(name)) {
+    const { signature, description } = FORMULA_FUNCTIONS[name];
+    return { name, kind: 'function', signature, description };
+  }
+  return undefined;
+}
+
+/**
+ * Suggestions for the identifier around the caret.
+ * Without `force`, nothing is suggested until the user starts typing a name.
+ */
+export function completionsAt(source: string, caret: number, force = false): CompletionContext {
+  let start = caret;
+  while (start > 0 && /\w/.test(source[start - 1])) start--;
+  let end = caret;
+  while (end < source.length && /\w/.test(source[end])) end++;
+
+  const prefix = source.slice(start, caret).toLowerCase();
+  if ((!prefix && !force) || /^\d/.test(prefix)) {
+    return { start, end, items: [] };
+  }
+
+  const word = source.slice(start, end);
+  const names = [...FORMULA_VARIABLES, ...Object.keys(FORMULA_FUNCTIONS)];
+  const items = names
+    .filter((name) => name.toLowerCase().startsWith(prefix) && name !== word)
+    .flatMap((name) => formulaDoc(name) ?? []);
+
+  return { start, end, items };
+}
+
+/**
+ * Replace the identifier range with a suggestion.
+ * Functions get parentheses, with the caret placed between them.
+ */
+export function applyCompletion(
+  source: string,
+  context: Pick<CompletionContext, 'start' | 'end'>,
+  item: FormulaDoc,
+): { value: string; caret: number } {
+  const before = source.slice(0, context.start);
+  const after = source.slice(context.end);
+
+  if (item.kind === 'function' && !after.trimStart().startsWith('(')) {
+    return { value: `${before}${item.name}()${after}`, caret: before.length + item.name.length + 1 };
+  }
+  return { value: `${before}${item.name}${after}`, caret: before.length + item.name.length };
+}
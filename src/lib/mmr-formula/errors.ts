@@ -0,0 +1,24 @@
+/**
+ * Formula Errors
+ * Errors are plain values with a source range, not thrown exceptions,
+ * so the editor can render them inline.
+ */
+
+export interface FormulaError {
+  message: string;
+  /**
+   * Offset of the first offending character
+   */
+  start: number;
+  /**
+   * Offset just past the offending range
+   */
+  end: number;
+}
+
+/**
+ * Error message with a 1-based column, e.g. `Unknown variable "twoss" at column 5`
+ */
+export function formatFormulaError(error: FormulaError): string {
+  return `${error.message} at column ${error.start + 1}`;
+}
@@ -0,0 +1,57 @@
+/**
+ * Formula Evaluator
+ * Walks a parsed AST against tracker data. Only the operators and functions in
+ * the formula scope are reachable, so nothing from the page can be touched.
+ */
+
+import { FORMULA_FUNCTIONS, formulaVariables } from './scope.ts';
+import type { FormulaNode } from './parser.ts';
+import type { FormulaError } from './errors.ts';
+import type { TrackerData } from '../api/mmr-calculation.ts';
+
+export type EvaluateResult = { success: true; value: number } | { success: false; error: FormulaError };
+
+/**
+ * Evaluate a parsed formula; fails when the result is not a finite number
+ */
+export function evaluateFormula(ast: FormulaNode, data: TrackerData): EvaluateResult {
+  const variables = formulaVariables(data);
+
+  const evaluate = (node: FormulaNode): number => {
+    switch (node.type) {
+      case 'number':
+        return node.value;
+      case 'variable':
+        return variables[node.name];
+      case 'unary':
+        return node.operator === '-' ? -evaluate(node.operand) : evaluate(node.operand);
+      case 'call':
+        return FORMULA_FUNCTIONS[node.name].apply(...node.args.map(evaluate));
+      case 'binary': {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        switch (node.operator) {
+          case '+':
+            return left + right;
+          case '-':
+            return left - right;
+          case '*':
+            return left * right;
+          case '/':
+            return left / right;
+          case '^':
+            return left ** right;
+        }
+      }
+    }
+  };
+
+  const value = evaluate(ast);
+  if (!Number.isFinite(value)) {
+    return {
+      success: false,
+      error: { message: 'Formula does not produce a finite number', start: ast.start, end: ast.end },
+    };
+  }
+  return { success: true, value };
+}
@@ -0,0 +1,27 @@
+/**
+ * MMR Formula Re-exports
+ * Client-side parser and evaluator for custom MMR formulas, used for instant
+ * feedback while editing. The server remains the final validator.
+ */
+
+import { parseFormula } from './parser.ts';
+import { evaluateFormula, type EvaluateResult } from './evaluator.ts';
+import type { TrackerData } from '../api/mmr-calculation.ts';
+
+export * from './errors.ts';
+export * from './tokenizer.ts';
+export * from './scope.ts';
+export * from './parser.ts';
+export * from './evaluator.ts';
+export * from './editor.ts';
+
+/**
+ * Parse and evaluate a formula in one step
+ */
+export function checkFormula(source: string, data: TrackerData): EvaluateResult {
+  const parsed = parseFormula(source);
+  if (parsed.success === false) {
+    return parsed;
+  }
+  return evaluateFormula(parsed.ast, data);
+}
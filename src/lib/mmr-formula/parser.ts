@@ -0,0 +1,220 @@
+/**
+ * Formula Parser
+ * Recursive descent parser producing an AST. Unknown identifiers and wrong
+ * argument counts are reported here, so a formula can be checked without data.
+ *
+ * Precedence, lowest first: + -, * /, ^ (right-associative), unary + -.
+ * Like the backend, unary minus binds tighter than ^, so -2^2 is 4.
+ */
+
+import { tokenize, type Token } from './tokenizer.ts';
+import { FORMULA_FUNCTIONS, isFormulaFunction, isFormulaVariable, type FormulaVariable } from './scope.ts';
+import type { FormulaError } from './errors.ts';
+
+/**
+ * Longest formula accepted, to keep evaluation cheap
+ */
+export const MAX_FORMULA_LENGTH = 1000;
+
+/**
+ * Deepest nesting accepted, so hostile input can't overflow the stack
+ */
+const MAX_DEPTH = 64;
+
+interface NodeRange {
+  start: number;
+  end: number;
+}
+
+export type FormulaNode =
+  | ({ type: 'number'; value: number } & NodeRange)
+  | ({ type: 'variable'; name: FormulaVariable } & NodeRange)
+  | ({ type: 'unary'; operator: '+' | '-'; operand: FormulaNode } & NodeRange)
+  | ({ type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode } & NodeRange)
+  | ({ type: 'call'; name: string; args: FormulaNode[] } & NodeRange);
+
+export type ParseResult = { success: true; ast: FormulaNode } | { success: false; error: FormulaError };
+
+/**
+ * Parse a formula into an AST
+ */
+export function parseFormula(source: string): ParseResult {
+  if (source.trim().length === 0) {
+    return { success: false, error: { message: 'Formula cannot be empty', start: 0, end: source.length } };
+  }
+  if (source.length > MAX_FORMULA_LENGTH) {
+    return {
+      success: false,
+      error: {
+        message: `Formula is longer than ${MAX_FORMULA_LENGTH} characters`,
+        start: MAX_FORMULA_LENGTH,
+        end: source.length,
+      },
+    };
+  }
+
+  const tokenized = tokenize(source);
+  if (tokenized.success === false) {
+    return tokenized;
+  }
+
+  try {
+    return { success: true, ast: parseTokens(tokenized.tokens, source.length) };
+  } catch (error) {
+    if (isFormulaError(error)) {
+      return { success: false, error };
+    }
+    throw error;
+  }
+}
+
+function isFormulaError(value: unknown): value is FormulaError {
+  return typeof (value as FormulaError | null)?.message === 'string' && typeof (value as FormulaError).start === 'number';
+}
+
+function describe(token: Token | undefined): string {
+  return token ? `"${token.value}"` : 'end of formula';
+}
+
+function parseTokens(tokens: Token[], length: number): FormulaNode {
+  let pos = 0;
+  let depth = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+
+  const isOperator = (...operators: string[]): boolean => {
+    const token = peek();
+    return token?.type === 'operator' && operators.includes(token.value);
+  };
+
+  const error = (message: string, token: Token | undefined): FormulaError =>
+    token ? { message, start: token.start, end: token.end } : { message, start: length, end: length };
+
+  const nested = <T>(parse: () => T): T => {
+    if (++depth > MAX_DEPTH) {
+      throw error('Formula is nested too deeply', peek());
+    }
+    try {
+      return parse();
+    } finally {
+      depth--;
+    }
+  };
+
+  const expression = (): FormulaNode =>
+    nested(() => {
+      let left = term();
+      while (isOperator('+', '-')) {
+        const operator = tokens[pos++].value as '+' | '-';
+        const right = term();
+        left = { type: 'binary', operator, left, right, start: left.start, end: right.end };
+      }
+      return left;
+    });
+
+  const term = (): FormulaNode => {
+    let left = power();
+    while (isOperator('*', '/')) {
+      const operator = tokens[pos++].value as '*' | '/';
+      const right = power();
+      left = { type: 'binary', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const power = (): FormulaNode => {
+    const base = unary();
+    if (!isOperator('^')) {
+      return base;
+    }
+    pos++;
+    const exponent = nested(power);
+    return { type: 'binary', operator: '^', left: base, right: exponent, start: base.start, end: exponent.end };
+  };
+
+  const unary = (): FormulaNode => {
+    if (isOperator('+', '-')) {
+      const token = tokens[pos++];
+      const operand = nested(unary);
+      return { type: 'unary', operator: token.value as '+' | '-', operand, start: token.start, end: operand.end };
+    }
+    return primary();
+  };
+
+  const variable = (token: Token): FormulaNode => {
+    if (isFormulaFunction(token.value)) {
+      throw error(`"${token.value}" is a function; call it like ${token.value}(...)`, token);
+    }
+    if (!isFormulaVariable(token.value)) {
+      throw error(`Unknown variable "${token.value}"`, token);
+    }
+    return { type: 'variable', name: token.value, start: token.start, end: token.end };
+  };
+
+  const call = (name: Token): FormulaNode => {
+    if (!isFormulaFunction(name.value)) {
+      throw error(`Unknown function "${name.value}"`, name);
+    }
+    pos++; // (
+
+    const args: FormulaNode[] = [];
+    if (peek()?.type !== 'rightParen') {
+      args.push(expression());
+      while (peek()?.type === 'comma') {
+        pos++;
+        args.push(expression());
+      }
+    }
+    const close = peek();
+    if (close?.type !== 'rightParen') {
+      throw error(`Expected ")" but found ${describe(close)}`, close);
+    }
+    pos++;
+
+    const { minArgs, maxArgs } = FORMULA_FUNCTIONS[name.value];
+    if (args.length < minArgs || (maxArgs !== undefined && args.length > maxArgs)) {
+      const expected =
+        maxArgs === undefined ? `at least ${minArgs}` : minArgs === maxArgs ? `${minArgs}` : `${minArgs}-${maxArgs}`;
+      const message = `${name.value}() takes ${expected} argument(s), got ${args.length}`;
+      throw { message, start: name.start, end: close.end } satisfies FormulaError;
+    }
+
+    return { type: 'call', name: name.value, args, start: name.start, end: close.end };
+  };
+
+  const primary = (): FormulaNode => {
+    const token = peek();
+    if (!token) {
+      throw error('Unexpected end of formula', token);
+    }
+    pos++;
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.value), start: token.start, end: token.end };
+
+      case 'leftParen': {
+        const inner = expression();
+        const close = peek();
+        if (close?.type !== 'rightParen') {
+          throw error(`Missing ")" to close "(" at column ${token.start + 1}`, close);
+        }
+        pos++;
+        return { ...inner, start: token.start, end: close.end };
+      }
+
+      case 'identifier':
+        return peek()?.type === 'leftParen' ? call(token) : variable(token);
+
+      default:
+        throw error(`Unexpected ${describe(token)}`, token);
+    }
+  };
+
+  const ast = expression();
+  const extra = peek();
+  if (extra) {
+    throw error(`Unexpected ${describe(extra)}`, extra);
+  }
+  return ast;
+}
@@ -0,0 +1,101 @@
+/**
+ * Formula Scope
+ * Variables and functions available to custom MMR formulas. Mirrors what the
+ * backend exposes, so a formula that passes here should pass the server too.
+ */
+
+import type { TrackerData } from '../api/mmr-calculation.ts';
+
+export const FORMULA_VARIABLES = [
+  'ones',
+  'twos',
+  'threes',
+  'fours',
+  'onesGames',
+  'twosGames',
+  'threesGames',
+  'foursGames',
+  'onesGamesPlayed',
+  'twosGamesPlayed',
+  'threesGamesPlayed',
+  'foursGamesPlayed',
+  'totalGames',
+] as const;
+
+export type FormulaVariable = (typeof FORMULA_VARIABLES)[number];
+
+/**
+ * What each variable holds, shown in the formula editor
+ */
+export const FORMULA_VARIABLE_DOCS: Record<FormulaVariable, string> = {
+  ones: 'Current 1v1 rating',
+  twos: 'Current 2v2 rating',
+  threes: 'Current 3v3 rating',
+  fours: 'Current 4v4 rating',
+  onesGames: '1v1 games played',
+  twosGames: '2v2 games played',
+  threesGames: '3v3 games played',
+  foursGames: '4v4 games played',
+  onesGamesPlayed: 'Same as onesGames',
+  twosGamesPlayed: 'Same as twosGames',
+  threesGamesPlayed: 'Same as threesGames',
+  foursGamesPlayed: 'Same as foursGames',
+  totalGames: 'Games played across all four playlists',
+};
+
+export interface FormulaFunction {
+  minArgs: number;
+  /**
+   * Omitted for variadic functions
+   */
+  maxArgs?: number;
+  apply: (...args: number[]) => number;
+  signature: string;
+  description: string;
+}
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  min: { minArgs: 1, apply: Math.min, signature: 'min(a, b, ...)', description: 'Smallest of the arguments' },
+  max: { minArgs: 1, apply: Math.max, signature: 'max(a, b, ...)', description: 'Largest of the arguments' },
+  abs: { minArgs: 1, maxArgs: 1, apply: Math.abs, signature: 'abs(x)', description: 'Absolute value' },
+  round: { minArgs: 1, maxArgs: 1, apply: Math.round, signature: 'round(x)', description: 'Round to the nearest integer' },
+  floor: { minArgs: 1, maxArgs: 1, apply: Math.floor, signature: 'floor(x)', description: 'Round down' },
+  ceil: { minArgs: 1, maxArgs: 1, apply: Math.ceil, signature: 'ceil(x)', description: 'Round up' },
+  sqrt: { minArgs: 1, maxArgs: 1, apply: Math.sqrt, signature: 'sqrt(x)', description: 'Square root' },
+  pow: { minArgs: 2, maxArgs: 2, apply: Math.pow, signature: 'pow(x, y)', description: 'x raised to the power y' },
+  log: { minArgs: 1, maxArgs: 1, apply: Math.log, signature: 'log(x)', description: 'Natural logarithm' },
+  exp: { minArgs: 1, maxArgs: 1, apply: Math.exp, signature: 'exp(x)', description: 'e raised to the power x' },
+};
+
+export function isFormulaVariable(name: string): name is FormulaVariable {
+  return (FORMULA_VARIABLES as readonly string[]).includes(name);
+}
+
+export function isFormulaFunction(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FORMULA_FUNCTIONS, name);
+}
+
+/**
+ * Variable values for a set of tracker data; missing playlists count as 0
+ */
+export function formulaVariables(data: TrackerData): Record<FormulaVariable, number> {
+  const onesGames = data.onesGamesPlayed ?? 0;
+  const twosGames = data.twosGamesPlayed ?? 0;
+  const threesGames = data.threesGamesPlayed ?? 0;
+  const foursGames = data.foursGamesPlayed ?? 0;
+  return {
+    ones: data.ones ?? 0,
+    twos: data.twos ?? 0,
+    threes: data.threes ?? 0,
+    fours: data.fours ?? 0,
+    onesGames,
+    twosGames,
+    threesGames,
+    foursGames,
+    onesGamesPlayed: onesGames,
+    twosGamesPlayed: twosGames,
+    threesGamesPlayed: threesGames,
+    foursGamesPlayed: foursGames,
+    totalGames: onesGames + twosGames + threesGames + foursGames,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Formula Tokenizer
+ * Splits a formula into positioned tokens. Positions are character offsets
+ * into the source so errors and editors can point at the exact spot.
+ */
+
+import type { FormulaError } from './errors.ts';
+
+export type TokenType = 'number' | 'identifier' | 'operator' | 'leftParen' | 'rightParen' | 'comma';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  /**
+   * Offset of the first character
+   */
+  start: number;
+  /**
+   * Offset just past the last character
+   */
+  end: number;
+}
+
+export type TokenizeResult = { success: true; tokens: Token[] } | { success: false; error: FormulaError };
+
+const OPERATORS = ['+', '-', '*', '/', '^'];
+
+const PUNCTUATION: Record<string, TokenType> = {
+  '(': 'leftParen',
+  ')': 'rightParen',
+  ',': 'comma',
+};
+
+/**
+ * Tokenize a formula; whitespace is skipped
+ */
+export function tokenize(source: string): TokenizeResult {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d*)?|\.\d+)/.exec(source.slice(pos));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], start: pos, end: pos + number[0].length });
+      pos += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_]\w*/.exec(source.slice(pos));
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], start: pos, end: pos + identifier[0].length });
+      pos += identifier[0].length;
+      continue;
+    }
+
+    if (OPERATORS.includes(char)) {
+      tokens.push({ type: 'operator', value: char, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    if (char in PUNCTUATION) {
+      tokens.push({ type: PUNCTUATION[char], value: char, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    return {
+      success: false,
+      error: { message: `Unexpected character "${char}"`, start: pos, end: pos + 1 },
+    };
+  }
+
+  return { success: true, tokens };
+}
@@ -0,0 +1,129 @@
+/**
+ * Session Service
+ * Tracks whether the user's session is active or has expired, keeps the
+ * return-to path across OAuth round trips and holds requests that failed
+ * with 401 until the user signs in again.
+ *
+ * Like navigation.ts, this lets non-React code (the API client) drive UI
+ * state; React subscribes through useSyncExternalStore.
+ */
+
+const RETURN_TO_KEY = 'auth:returnTo';
+
+/**
+ * postMessage type sent from the login popup back to the opener
+ */
+export const AUTH_COMPLETE_MESSAGE = 'league:auth-complete';
+
+/**
+ * window.name given to the login popup so AuthCallback can recognise it
+ */
+export const AUTH_POPUP_NAME = 'league-auth';
+
+export type SessionStatus = 'unknown' | 'active' | 'expired';
+
+interface QueuedRequest {
+  replay: () => void;
+  abandon: () => void;
+}
+
+let status: SessionStatus = 'unknown';
+let queue: QueuedRequest[] = [];
+const listeners = new Set<() => void>();
+
+function setStatus(next: SessionStatus) {
+  if (status === next) return;
+  status = next;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to session status changes (useSyncExternalStore compatible)
+ */
+export function subscribeSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSessionStatus(): SessionStatus {
+  return status;
+}
+
+/**
+ * Mark the session active after the current user has loaded
+ */
+export function markSessionActive() {
+  setStatus('active');
+}
+
+/**
+ * Forget the session on logout; queued requests are abandoned
+ */
+export function endSession() {
+  abandonQueuedRequests();
+  setStatus('unknown');
+}
+
+/**
+ * Hold a request that failed with 401 until the session is resumed
+ * @param replay - Re-issues the request once the user has signed in again
+ * @param abandon - Rejects the request if the user gives up instead
+ */
+export function queueExpiredRequest(replay: () => void, abandon: () => void) {
+  queue.push({ replay, abandon });
+  setStatus('expired');
+}
+
+/**
+ * Replay every held request after re-authentication
+ */
+export function resumeSession() {
+  const pending = queue;
+  queue = [];
+  setStatus('active');
+  pending.forEach((request) => request.replay());
+}
+
+/**
+ * Reject every held request (user chose to leave instead of signing in)
+ */
+export function abandonQueuedRequests() {
+  const pending = queue;
+  queue = [];
+  pending.forEach((request) => request.abandon());
+}
+
+/**
+ * Only same-origin app paths are allowed as return targets
+ */
+function isSafeReturnPath(path: string): boolean {
+  return path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/login') && !path.startsWith('/auth/');
+}
+
+/**
+ * Remember where to send the user after login
+ * @param path - App path including search and hash (defaults to the current location)
+ */
+export function saveReturnTo(path: string = `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+  if (!isSafeReturnPath(path)) return;
+  try {
+    sessionStorage.setItem(RETURN_TO_KEY, path);
+  } catch {
+    // Storage unavailable (private mode, quota) - fall back to the default landing page
+  }
+}
+
+/**
+ * Read and clear the saved return-to path
+ */
+export function consumeReturnTo(): string | null {
+  try {
+    const path = sessionStorage.getItem(RETURN_TO_KEY);
+    sessionStorage.removeItem(RETURN_TO_KEY);
+    return path && isSafeReturnPath(path) ? path : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Client-side Task Queue
+ * Runs a batch of requests with limited concurrency. A 429 pauses the whole
+ * queue (honoring Retry-After) and puts the rate-limited task back in line,
+ * so bulk actions back off together instead of hammering the API.
+ */
+
+import { computeBackoffDelay, parseRetryAfter, waitForRetry } from './api/retry.ts';
+import type { ApiError } from '../types/api.ts';
+
+export type TaskResult<R> =
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; error: unknown }
+  | { status: 'cancelled' };
+
+export interface TaskQueueOptions<R> {
+  /**
+   * Tasks in flight at once (default: 3)
+   */
+  concurrency?: number;
+  /**
+   * How often a single task may be re-queued after a 429 (default: 5)
+   */
+  maxRateLimitRetries?: number;
+  /**
+   * Base delay when a 429 has no Retry-After header, in ms (default: 1000)
+   */
+  rateLimitDelayMs?: number;
+  /**
+   * Stops starting new tasks; tasks still waiting settle as cancelled
+   */
+  signal?: AbortSignal;
+  onTaskStart?: (index: number) => void;
+  onTaskSettled?: (index: number, result: TaskResult<R>) => void;
+  /**
+   * Called when a 429 pauses the queue, with the time it resumes
+   */
+  onPause?: (resumeAt: number) => void;
+  random?: () => number;
+}
+
+/**
+ * The ApiError of a rate-limited request (see toApiError), or null
+ */
+function rateLimitedError(error: unknown): ApiError | null {
+  const apiError = error as ApiError | null;
+  return apiError?.status === 429 ? apiError : null;
+}
+
+/**
+ * Run `worker` over every item, at most `concurrency` at a time
+ * @returns One result per item, in input order
+ */
+export async function runTaskQueue<T, R>(
+  items: T[],
+  worker: (item: T, signal?: AbortSignal) => Promise<R>,
+  options: TaskQueueOptions<R> = {},
+): Promise<TaskResult<R>[]> {
+  const {
+    concurrency = 3,
+    maxRateLimitRetries = 5,
+    rateLimitDelayMs = 1000,
+    signal,
+    onTaskStart,
+    onTaskSettled,
+    onPause,
+    random = Math.random,
+  } = options;
+
+  const results: (TaskResult<R> | undefined)[] = items.map(() => undefined);
+  const rateLimitRetries = items.map(() => 0);
+  const pending = items.map((_, index) => index);
+  let resumeAt = 0;
+
+  const settle = (index: number, result: TaskResult<R>) => {
+    results[index] = result;
+    onTaskSettled?.(index, result);
+  };
+
+  const runNext = async (): Promise<void> => {
+    while (pending.length > 0 && !signal?.aborted) {
+      const wait = resumeAt - Date.now();
+      if (wait > 0) {
+        try {
+          await waitForRetry(wait, signal);
+        } catch {
+          return;
+        }
+        continue;
+      }
+
+      const index = pending.shift()!;
+      onTaskStart?.(index);
+      try {
+        settle(index, { status: 'fulfilled', value: await worker(items[index], signal) });
+      } catch (error) {
+        const rateLimited = rateLimitedError(error);
+        if (!rateLimited || rateLimitRetries[index] >= maxRateLimitRetries) {
+          settle(index, { status: 'rejected', error });
+          continue;
+        }
+
+        rateLimitRetries[index] += 1;
+        const delay =
+          parseRetryAfter(rateLimited.details?.retryAfter) ??
+          computeBackoffDelay(
+            rateLimitRetries[index],
+            { baseDelayMs: rateLimitDelayMs, maxDelayMs: rateLimitDelayMs * 30 },
+            random,
+          );
+        // Retry it first once the queue resumes
+        pending.unshift(index);
+        if (Date.now() + delay > resumeAt) {
+          resumeAt = Date.now() + delay;
+          onPause?.(resumeAt);
+        }
+      }
+    }
+  };
+
+  const runners = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: runners }, runNext));
+
+  return results.map((result, index) => {
+    if (result) return result;
+    const cancelled: TaskResult<R> = { status: 'cancelled' };
+    onTaskSettled?.(index, cancelled);
+    return cancelled;
+  });
+}
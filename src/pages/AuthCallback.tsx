@@ -1,10 +1,20 @@
 import { useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { LoadingState } from '../components/loading-state.tsx';
+import { AUTH_COMPLETE_MESSAGE, AUTH_POPUP_NAME, consumeReturnTo } from '../lib/session.ts';
+import { broadcast } from '../lib/crossTab.ts';
+
+/**
+ * Whether this page is the re-authentication popup opened by authApi.loginInPopup
+ */
+function isAuthPopup(): boolean {
+  return window.name === AUTH_POPUP_NAME && !!window.opener && window.opener !== window;
+}
 
 /**
  * AuthCallback - Handle OAuth redirect with HttpOnly cookies
- * Cookie is set by backend, just redirect to dashboard
+ * Cookie is set by backend, just redirect to where the user was headed
+ * (or report back to the opener when running in the login popup)
  * ProtectedRoute will handle the auth check
  */
 export default function AuthCallback() {
@@ -13,6 +23,18 @@ export default function AuthCallback() {
 
   useEffect(() => {
     const error = searchParams.get('error');
+
+    if (!error) {
+      // Let other open tabs pick up the new session
+      broadcast({ type: 'login' });
+    }
+
+    if (isAuthPopup()) {
+      // The opener keeps its page and replays held requests - just report back and close
+      (window.opener as Window).postMessage({ type: AUTH_COMPLETE_MESSAGE, error }, window.location.origin);
+      window.close();
+      return;
+    }
     
     if (error) {
       // Handle OAuth errors (user denied permission, etc.)
@@ -29,9 +51,14 @@ export default function AuthCallback() {
     // Check if there's a guild context to redirect to
     const guildId = searchParams.get('guild');
     
+    const returnTo = consumeReturnTo();
+
     if (guildId) {
       // Redirect to specific guild's settings page
       navigate(`/dashboard/guild/${guildId}/settings`, { replace: true });
+    } else if (returnTo) {
+      // Deep link the user opened before logging in (saved by the API client on 401)
+      navigate(returnTo, { replace: true });
     } else {
       // No guild context, go to general dashboard
       navigate('/dashboard', { replace: true });
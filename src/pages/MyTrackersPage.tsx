@@ -3,6 +3,7 @@ import { useTrackersStore } from '../stores/trackersStore.js';
 import { useMyTrackers } from '../hooks/useMyTrackers.js';
 import { AddTrackerForm } from '../components/tracker-registration/AddTrackerForm.js';
 import { TrackerListContainer } from '../components/tracker-management/TrackerListContainer.js';
+import { RecentlyDeletedTrackers } from '../components/tracker-management/RecentlyDeletedTrackers.js';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card.js';
 import { Link } from 'react-router-dom';
 
@@ -80,6 +81,10 @@ export default function MyTrackersPage() {
           )}
         </>
       )}
+
+      <div className="mt-6">
+        <RecentlyDeletedTrackers />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,66 @@
+import { useParams, Navigate, useNavigate, useSearchParams } from 'react-router-dom';
+import { NavigationBar } from '@/components/navigation-bar.tsx';
+import { PageContainer } from '@/components/page-container.tsx';
+import { TrackerComparison } from '@/components/tracker-compare/TrackerComparison.tsx';
+import { Button } from '@/components/ui/button.js';
+import { ArrowLeft } from 'lucide-react';
+import { useAuthStore } from '@/stores/index.ts';
+import { parseTrackerIds } from '@/utils/trackerComparison.ts';
+import { parseMmrDataSource, type MmrDataSource } from '@/utils/trackerData.ts';
+
+/**
+ * TrackerComparePage - Side-by-side tracker comparison
+ * Single responsibility: Keep the comparison in the URL (?trackers=a,b&source=snapshot)
+ */
+export default function TrackerComparePage() {
+  const { guildId } = useParams<{ guildId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user, logout } = useAuthStore();
+  const navigate = useNavigate();
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!guildId) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const trackerIds = parseTrackerIds(searchParams.get('trackers'));
+  const source = parseMmrDataSource(searchParams.get('source'));
+
+  const updateParams = (ids: string[], nextSource: MmrDataSource) => {
+    setSearchParams(
+      {
+        ...(ids.length > 0 && { trackers: ids.join(',') }),
+        ...(nextSource !== 'scrape' && { source: nextSource }),
+      },
+      { replace: true },
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationBar user={user} onLogout={logout} />
+      <PageContainer>
+        <div className="max-w-6xl mx-auto space-y-4">
+          <Button
+            variant="ghost"
+            onClick={() => navigate(`/dashboard/guild/${guildId}/overview`)}
+            className="mb-4"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+          <TrackerComparison
+            guildId={guildId}
+            trackerIds={trackerIds}
+            onTrackerIdsChange={(ids) => updateParams(ids, source)}
+            source={source}
+            onSourceChange={(nextSource) => updateParams(trackerIds, nextSource)}
+          />
+        </div>
+      </PageContainer>
+    </div>
+  );
+}
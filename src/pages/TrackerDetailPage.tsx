@@ -1,13 +1,15 @@
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { TrackerDetail } from '../components/tracker-detail/TrackerDetail.js';
 
 export default function TrackerDetailPage() {
   const { trackerId } = useParams<{ trackerId: string }>();
+  // Set by links from guild pages (?guild=<id>) so guild admins get their tools
+  const [searchParams] = useSearchParams();
 
   if (!trackerId) {
     return <div className="p-4">Invalid tracker ID</div>;
   }
 
-  return <TrackerDetail trackerId={trackerId} />;
+  return <TrackerDetail trackerId={trackerId} guildId={searchParams.get('guild')} />;
 }
 
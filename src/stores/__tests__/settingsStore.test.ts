@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { useSettingsStore } from '../settingsStore';
+import * as apiModule from '../../lib/api';
+import { resourceCache } from '../../lib/cache';
+import type { GuildSettingsType } from '../../types';
+
+// Mock the guild API
+jest.mock('../../lib/api', () => ({
+  guildApi: {
+    getGuildSettings: jest.fn(),
+    updateGuildSettings: jest.fn(),
+    resetGuildSettings: jest.fn(),
+  },
+  isSettingsConflictError: (err: { code?: string }) => err?.code === 'SETTINGS_CONFLICT',
+}));
+
+const mockGuildApi = apiModule.guildApi as jest.Mocked<typeof apiModule.guildApi>;
+
+const savedSettings: GuildSettingsType = {
+  bot_command_channels: [{ id: '1', name: 'bot-commands' }],
+  register_command_channels: [],
+  mmrCalculation: { algorithm: 'WEIGHTED_AVERAGE' },
+  _metadata: { revision: 3 },
+};
+
+describe('settingsStore drafts', () => {
+  beforeEach(() => {
+    resourceCache.clear();
+    localStorage.clear();
+    useSettingsStore.setState({ settings: {}, drafts: {}, conflicts: {}, loading: false, error: null });
+    jest.clearAllMocks();
+  });
+
+  it('should keep a separate draft per guild', () => {
+    const { updateDraftSettings } = useSettingsStore.getState();
+
+    updateDraftSettings('guild-a', savedSettings);
+    updateDraftSettings('guild-b', savedSettings);
+    updateDraftSettings('guild-a', { mmrCalculation: { algorithm: 'PEAK_MMR' } });
+
+    const { drafts } = useSettingsStore.getState();
+    expect(drafts['guild-a'].settings.mmrCalculation?.algorithm).toBe('PEAK_MMR');
+    expect(drafts['guild-a'].settings.bot_command_channels).toEqual(savedSettings.bot_command_channels);
+    expect(drafts['guild-b'].settings).toEqual(savedSettings);
+  });
+
+  it('should only discard the cancelled guild draft', () => {
+    const { updateDraftSettings, cancelEdit } = useSettingsStore.getState();
+    updateDraftSettings('guild-a', savedSettings);
+    updateDraftSettings('guild-b', savedSettings);
+
+    cancelEdit('guild-a');
+
+    expect(Object.keys(useSettingsStore.getState().drafts)).toEqual(['guild-b']);
+  });
+
+  it('should persist drafts to local storage', () => {
+    useSettingsStore.getState().updateDraftSettings('guild-a', savedSettings);
+
+    const persisted = JSON.parse(localStorage.getItem('settings-drafts') ?? '{}');
+    expect(persisted.state.drafts['guild-a'].settings).toEqual(savedSettings);
+    expect(persisted.state.settings).toBeUndefined();
+  });
+
+  it('should save the guild draft with its base revision and clear only that draft', async () => {
+    const nextRevision = { ...savedSettings, _metadata: { revision: 4 } };
+    mockGuildApi.updateGuildSettings.mockResolvedValue(nextRevision);
+    const { updateDraftSettings, saveDraftSettings } = useSettingsStore.getState();
+    updateDraftSettings('guild-a', savedSettings);
+    updateDraftSettings('guild-b', savedSettings);
+
+    await saveDraftSettings('guild-a');
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { _metadata, ...withoutMetadata } = savedSettings;
+    expect(mockGuildApi.updateGuildSettings).toHaveBeenCalledWith('guild-a', withoutMetadata, 3);
+    expect(useSettingsStore.getState().settings['guild-a']).toEqual(nextRevision);
+    expect(Object.keys(useSettingsStore.getState().drafts)).toEqual(['guild-b']);
+  });
+
+  it('should keep the draft and record a conflict when someone else saved first', async () => {
+    const theirs: GuildSettingsType = { ...savedSettings, register_command_channels: [], _metadata: { revision: 4 } };
+    mockGuildApi.updateGuildSettings.mockRejectedValue({
+      message: 'Settings were changed by someone else since you started editing',
+      code: 'SETTINGS_CONFLICT',
+      status: 409,
+      details: { current: theirs },
+    });
+    const { updateDraftSettings, saveDraftSettings } = useSettingsStore.getState();
+    updateDraftSettings('guild-a', savedSettings);
+    updateDraftSettings('guild-a', { mmrCalculation: { algorithm: 'PEAK_MMR' } });
+
+    await expect(saveDraftSettings('guild-a')).rejects.toMatchObject({ code: 'SETTINGS_CONFLICT' });
+
+    const state = useSettingsStore.getState();
+    expect(state.conflicts['guild-a']).toEqual({ base: savedSettings, mine: state.drafts['guild-a'].settings, theirs });
+    expect(state.settings['guild-a']).toEqual(theirs);
+  });
+
+  it('should rebase the draft on their revision when the conflict is resolved', () => {
+    const theirs: GuildSettingsType = { ...savedSettings, _metadata: { revision: 4 } };
+    const merged: GuildSettingsType = { ...theirs, mmrCalculation: { algorithm: 'PEAK_MMR' } };
+    useSettingsStore.setState({ conflicts: { 'guild-a': { base: savedSettings, mine: savedSettings, theirs } } });
+
+    useSettingsStore.getState().resolveConflict('guild-a', merged);
+
+    const state = useSettingsStore.getState();
+    expect(state.drafts['guild-a']).toMatchObject({ settings: merged, base: theirs });
+    expect(state.conflicts).toEqual({});
+  });
+
+  it('should drop persisted drafts that have no base to check on save', async () => {
+    const updatedAt = '2024-05-20T18:30:00Z';
+    localStorage.setItem(
+      'settings-drafts',
+      JSON.stringify({
+        state: {
+          drafts: {
+            'guild-a': { settings: savedSettings, updatedAt },
+            'guild-b': { settings: savedSettings, base: savedSettings, updatedAt },
+          },
+        },
+        version: 0,
+      }),
+    );
+
+    await useSettingsStore.persist.rehydrate();
+
+    expect(Object.keys(useSettingsStore.getState().drafts)).toEqual(['guild-b']);
+  });
+
+  it('should clear every draft and its persisted copy', () => {
+    useSettingsStore.getState().updateDraftSettings('guild-a', savedSettings);
+
+    useSettingsStore.getState().clearDrafts();
+
+    expect(useSettingsStore.getState().drafts).toEqual({});
+    expect(localStorage.getItem('settings-drafts')).toBeNull();
+  });
+
+  it('should reject saving a guild without a draft', async () => {
+    await expect(useSettingsStore.getState().saveDraftSettings('guild-a')).rejects.toThrow('No draft settings to save');
+  });
+});
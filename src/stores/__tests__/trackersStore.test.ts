@@ -1,12 +1,17 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { useTrackersStore } from '../trackersStore';
 import * as trackerApiModule from '../../lib/api/trackers';
+import { resourceCache, cacheKeys, cacheTags } from '../../lib/cache';
 import type { Tracker } from '../../types/trackers';
 
 // Mock the tracker API
 jest.mock('../../lib/api/trackers', () => ({
   trackerApi: {
     getMyTrackers: jest.fn(),
+    createSnapshot: jest.fn(),
+    updateTracker: jest.fn(),
+    restoreTracker: jest.fn(),
+    getTrackers: jest.fn(),
   },
 }));
 
@@ -34,10 +39,9 @@ const createMockTracker = (overrides?: Partial<Tracker>): Tracker => ({
 
 describe('trackersStore.getMyTrackers', () => {
   beforeEach(() => {
-    // Reset store state before each test
+    // Reset cache and store state before each test
+    resourceCache.clear();
     useTrackersStore.setState({
-      myTrackers: [],
-      myTrackersLastFetched: null,
       loading: false,
       error: null,
     });
@@ -64,9 +68,8 @@ describe('trackersStore.getMyTrackers', () => {
     const promise4 = useTrackersStore.getState().getMyTrackers();
     const promise5 = useTrackersStore.getState().getMyTrackers();
 
-    // Verify flag was set synchronously (before API call completes)
-    const stateDuringCall = useTrackersStore.getState();
-    expect(stateDuringCall.myTrackersRequestInFlight).not.toBeNull();
+    // Verify the request was registered synchronously (before API call completes)
+    expect(resourceCache.getEntry(cacheKeys.myTrackers())?.isFetching).toBe(true);
 
     // Resolve the API call
     resolveApiCall!(mockTrackers);
@@ -80,16 +83,16 @@ describe('trackersStore.getMyTrackers', () => {
     // Output: All calls should resolve successfully with the same data
     const finalState = useTrackersStore.getState();
     expect(finalState.myTrackers).toEqual(mockTrackers);
-    expect(finalState.myTrackersRequestInFlight).toBeNull();
+    expect(resourceCache.getEntry(cacheKeys.myTrackers())?.isFetching).toBe(false);
   });
 
   it('should not make API call when data is fresh', async () => {
     // Input: Fresh cached data (within 30s TTL)
     const mockTrackers = [createMockTracker()];
     
-    useTrackersStore.setState({
-      myTrackers: mockTrackers,
-      myTrackersLastFetched: Date.now() - 10000, // 10 seconds ago
+    resourceCache.set(cacheKeys.myTrackers(), mockTrackers, {
+      staleTime: 30000,
+      updatedAt: Date.now() - 10000, // 10 seconds ago
     });
 
     // Act: Request trackers
@@ -108,9 +111,9 @@ describe('trackersStore.getMyTrackers', () => {
     const freshTrackers = [createMockTracker()];
     mockTrackerApi.getMyTrackers.mockResolvedValue(freshTrackers);
     
-    useTrackersStore.setState({
-      myTrackers: [createMockTracker({ id: 'old', username: 'old' })],
-      myTrackersLastFetched: Date.now() - 40000, // 40 seconds ago
+    resourceCache.set(cacheKeys.myTrackers(), [createMockTracker({ id: 'old', username: 'old' })], {
+      staleTime: 30000,
+      updatedAt: Date.now() - 40000, // 40 seconds ago
     });
 
     // Act: Request trackers
@@ -129,9 +132,9 @@ describe('trackersStore.getMyTrackers', () => {
     const freshTrackers = [createMockTracker()];
     mockTrackerApi.getMyTrackers.mockResolvedValue(freshTrackers);
     
-    useTrackersStore.setState({
-      myTrackers: [createMockTracker({ id: 'old', username: 'old' })],
-      myTrackersLastFetched: Date.now() - 10000, // 10 seconds ago (fresh)
+    resourceCache.set(cacheKeys.myTrackers(), [createMockTracker({ id: 'old', username: 'old' })], {
+      staleTime: 30000,
+      updatedAt: Date.now() - 10000, // 10 seconds ago (fresh)
     });
 
     // Act: Request trackers with force flag
@@ -178,9 +181,8 @@ describe('trackersStore.getMyTrackers', () => {
     // Act: Start first request
     const firstPromise = useTrackersStore.getState().getMyTrackers();
     
-    // Verify flag is set immediately (synchronously) - this prevents race conditions
-    const stateAfterFirst = useTrackersStore.getState();
-    expect(stateAfterFirst.myTrackersRequestInFlight).not.toBeNull();
+    // Verify the request is registered immediately (synchronously) - this prevents race conditions
+    expect(resourceCache.getEntry(cacheKeys.myTrackers())?.isFetching).toBe(true);
     
     // Act: Start second request immediately after (simulating race condition)
     const secondPromise = useTrackersStore.getState().getMyTrackers();
@@ -188,9 +190,8 @@ describe('trackersStore.getMyTrackers', () => {
     // Act: Start third request (simulating multiple components mounting)
     const thirdPromise = useTrackersStore.getState().getMyTrackers();
 
-    // Verify flag is still set (all calls should see the same in-flight request)
-    const stateAfterMultiple = useTrackersStore.getState();
-    expect(stateAfterMultiple.myTrackersRequestInFlight).not.toBeNull();
+    // Verify it is still in flight (all calls should see the same in-flight request)
+    expect(resourceCache.getEntry(cacheKeys.myTrackers())?.isFetching).toBe(true);
 
     // Resolve the API call
     resolveApiCall!(mockTrackers);
@@ -202,7 +203,7 @@ describe('trackersStore.getMyTrackers', () => {
     // Output: All promises should resolve successfully with same data
     const finalState = useTrackersStore.getState();
     expect(finalState.myTrackers).toEqual(mockTrackers);
-    expect(finalState.myTrackersRequestInFlight).toBeNull();
+    expect(resourceCache.getEntry(cacheKeys.myTrackers())?.isFetching).toBe(false);
   });
 
   it('should handle race condition where multiple calls happen simultaneously', async () => {
@@ -230,10 +231,9 @@ describe('trackersStore.getMyTrackers', () => {
     const promise4 = useTrackersStore.getState().getMyTrackers();
     const promise5 = useTrackersStore.getState().getMyTrackers();
 
-    // Verify flag was set synchronously (before any async work)
-    // This is the key fix - flag must be set before async operations
-    const stateAfterCalls = useTrackersStore.getState();
-    expect(stateAfterCalls.myTrackersRequestInFlight).not.toBeNull();
+    // Verify the request was registered synchronously (before any async work)
+    // This is the key fix - it must be registered before async operations
+    expect(resourceCache.getEntry(cacheKeys.myTrackers())?.isFetching).toBe(true);
 
     // Resolve the API call
     resolveApiCall!(mockTrackers);
@@ -247,7 +247,145 @@ describe('trackersStore.getMyTrackers', () => {
     // Output: Store should have the data
     const finalState = useTrackersStore.getState();
     expect(finalState.myTrackers).toEqual(mockTrackers);
-    expect(finalState.myTrackersRequestInFlight).toBeNull();
+    expect(resourceCache.getEntry(cacheKeys.myTrackers())?.isFetching).toBe(false);
+  });
+});
+
+
+describe('trackersStore.createSnapshot', () => {
+  beforeEach(() => {
+    resourceCache.clear();
+    jest.clearAllMocks();
+  });
+
+  it('should append the new snapshot to the open tracker detail', async () => {
+    const tracker = createMockTracker({ snapshots: [] });
+    useTrackersStore.setState({ trackerDetail: { tracker, seasons: [] } });
+    const snapshot = { id: 's1', trackerId: '1', capturedAt: '2024-06-01T00:00:00Z', enteredBy: 'admin', twos: 1400 };
+    mockTrackerApi.createSnapshot.mockResolvedValue(snapshot);
+
+    await useTrackersStore.getState().createSnapshot('1', { guildId: 'g1', twos: 1400 });
+
+    expect(mockTrackerApi.createSnapshot).toHaveBeenCalledWith('1', { guildId: 'g1', twos: 1400 });
+    expect(useTrackersStore.getState().trackerDetail?.tracker.snapshots).toEqual([snapshot]);
+  });
+
+  it('should rethrow failures without putting the detail view into an error state', async () => {
+    useTrackersStore.setState({ trackerDetail: { tracker: createMockTracker(), seasons: [] }, error: null });
+    mockTrackerApi.createSnapshot.mockRejectedValue(new Error('Admin permissions required'));
+
+    await expect(useTrackersStore.getState().createSnapshot('1', { guildId: 'g1', ones: 900 })).rejects.toThrow(
+      'Admin permissions required',
+    );
+    expect(useTrackersStore.getState().error).toBeNull();
+  });
+});
+
+describe('trackersStore.runBulkAction', () => {
+  beforeEach(() => {
+    resourceCache.clear();
+    useTrackersStore.setState({ trackers: [], bulkOperation: null, error: null });
+    jest.clearAllMocks();
+  });
+
+  it('should report each tracker and apply only the successful updates', async () => {
+    const trackers = [createMockTracker({ id: '1' }), createMockTracker({ id: '2', displayName: 'second' })];
+    useTrackersStore.setState({ trackers });
+    mockTrackerApi.updateTracker.mockImplementation(async (id) => {
+      if (id === '2') throw { response: { status: 404, data: { message: 'Tracker not found' } } };
+      return { ...trackers[0], isActive: false };
+    });
+
+    await useTrackersStore.getState().runBulkAction('deactivate', trackers);
+
+    const state = useTrackersStore.getState();
+    expect(state.bulkOperation?.running).toBe(false);
+    expect(state.bulkOperation?.items).toEqual([
+      { trackerId: '1', label: 'test', status: 'succeeded', error: null },
+      { trackerId: '2', label: 'second', status: 'failed', error: 'Tracker not found' },
+    ]);
+    expect(state.trackers.map((t) => t.isActive)).toEqual([false, true]);
+    expect(state.error).toBeNull();
+  });
+});
+
+describe('trackersStore.updateTracker', () => {
+  beforeEach(() => {
+    resourceCache.clear();
+    jest.clearAllMocks();
+  });
+
+  it('should patch the cached list and mark it for revalidation', async () => {
+    const tracker = createMockTracker();
+    resourceCache.set(cacheKeys.myTrackers(), [tracker], { staleTime: 30000, tags: [cacheTags.myTrackers] });
+    mockTrackerApi.updateTracker.mockResolvedValue({ ...tracker, displayName: 'renamed' });
+
+    await useTrackersStore.getState().updateTracker('1', { displayName: 'renamed' });
+
+    const entry = resourceCache.getEntry<Tracker[]>(cacheKeys.myTrackers());
+    expect(entry?.data?.[0].displayName).toBe('renamed');
+    expect(entry?.isStale).toBe(true);
+  });
+});
+
+describe('trackersStore.fetchDeletedTrackers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should clear another scope\'s list before loading', async () => {
+    const stale = createMockTracker({ id: '2', isDeleted: true });
+    useTrackersStore.setState({ deletedTrackers: [stale], deletedTrackersScope: 'me' });
+    let resolve: (trackers: Tracker[]) => void = () => {};
+    mockTrackerApi.getTrackers.mockReturnValue(new Promise((r) => (resolve = r)));
+
+    const loading = useTrackersStore.getState().fetchDeletedTrackers('guild-1');
+    expect(useTrackersStore.getState().deletedTrackers).toEqual([]);
+
+    const deleted = createMockTracker({ id: '3', isDeleted: true });
+    resolve([createMockTracker(), deleted]);
+    await loading;
+    expect(useTrackersStore.getState().deletedTrackers).toEqual([deleted]);
+  });
+
+  it('should empty the list when the load fails', async () => {
+    const deleted = createMockTracker({ id: '2', isDeleted: true });
+    useTrackersStore.setState({ deletedTrackers: [deleted], deletedTrackersScope: 'guild-1' });
+    mockTrackerApi.getTrackers.mockRejectedValue(new Error('Network error'));
+
+    await expect(useTrackersStore.getState().fetchDeletedTrackers('guild-1')).rejects.toThrow('Network error');
+    expect(useTrackersStore.getState().deletedTrackers).toEqual([]);
   });
 });
 
+describe('trackersStore.restoreTracker', () => {
+  beforeEach(() => {
+    resourceCache.clear();
+    jest.clearAllMocks();
+  });
+
+  it('should move the restored tracker back into the tracker list', async () => {
+    const deleted = createMockTracker({ id: '2', isDeleted: true, isActive: false });
+    useTrackersStore.setState({ trackers: [createMockTracker()], deletedTrackers: [deleted] });
+    mockTrackerApi.restoreTracker.mockResolvedValue({ ...deleted, isDeleted: false, isActive: true });
+
+    await useTrackersStore.getState().restoreTracker('2');
+
+    const state = useTrackersStore.getState();
+    expect(state.deletedTrackers).toEqual([]);
+    expect(state.trackers.map((t) => [t.id, t.isDeleted])).toEqual([
+      ['1', false],
+      ['2', false],
+    ]);
+  });
+
+  it('should keep the tracker in the deleted list when the restore is rejected', async () => {
+    const deleted = createMockTracker({ id: '2', isDeleted: true });
+    useTrackersStore.setState({ deletedTrackers: [deleted], error: null });
+    mockTrackerApi.restoreTracker.mockRejectedValue(new Error('Trackers are limited to 4 per user'));
+
+    await expect(useTrackersStore.getState().restoreTracker('2')).rejects.toThrow('limited to 4');
+    expect(useTrackersStore.getState().deletedTrackers).toEqual([deleted]);
+    expect(useTrackersStore.getState().error).toBeNull();
+  });
+});
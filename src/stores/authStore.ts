@@ -1,6 +1,18 @@
 import { create } from 'zustand';
 import { authApi } from '../lib/api/index.ts';
 import type { User } from '../types/index.ts';
+import {
+  markSessionActive,
+  endSession,
+  getSessionStatus,
+  resumeSession,
+  saveReturnTo,
+  consumeReturnTo,
+} from '../lib/session.ts';
+import { resourceCache } from '../lib/cache/index.ts';
+import { useSettingsStore } from './settingsStore.ts';
+import { broadcast, subscribeCrossTab } from '../lib/crossTab.ts';
+import { navigate } from '../lib/navigation.ts';
 
 interface AuthState {
   user: User | null;
@@ -23,6 +35,11 @@ export const useAuthStore = create<AuthState>((set) => ({
 
   logout: () => {
     set({ user: null, error: null });
+    endSession();
+    // Cached server data and unsaved drafts belong to the signed-out user
+    resourceCache.clear();
+    useSettingsStore.getState().clearDrafts();
+    broadcast({ type: 'logout' });
     authApi.logout();
   },
 
@@ -31,6 +48,7 @@ export const useAuthStore = create<AuthState>((set) => ({
       set({ loading: true, error: null });
       const userData = await authApi.getCurrentUser();
       set({ user: userData, loading: false });
+      markSessionActive();
     } catch (err: unknown) {
       const errorData = (err as { response?: { data?: { message?: string } } })?.response?.data;
       const errorMessage = errorData?.message || 'Failed to load user data';
@@ -49,3 +67,24 @@ export const useAuthStore = create<AuthState>((set) => ({
   },
 }));
 
+// Follow sign-in and sign-out in other tabs
+subscribeCrossTab((message) => {
+  if (message.type === 'logout') {
+    // The server session is already gone - drop local state without calling the API again
+    useAuthStore.setState({ user: null, error: null });
+    endSession();
+    resourceCache.clear();
+    useSettingsStore.getState().clearDrafts();
+    saveReturnTo();
+    navigate('/login', { replace: true });
+  } else if (message.type === 'login') {
+    // The cookie is shared, so requests held on session expiry can go through now
+    if (getSessionStatus() === 'expired') {
+      resumeSession();
+    }
+    if (!useAuthStore.getState().user && window.location.pathname.startsWith('/login')) {
+      // ProtectedRoute loads the user on the next page
+      navigate(consumeReturnTo() ?? '/dashboard', { replace: true });
+    }
+  }
+});
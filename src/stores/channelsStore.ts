@@ -1,12 +1,12 @@
 import { create } from 'zustand';
 import { guildApi } from '../lib/api/guilds.js';
+import { resourceCache, cacheKeys, cachePrefixes, cachePolicies, cacheTags } from '../lib/cache/index.js';
 import type { DiscordChannel } from '../types/discord.js';
 
 interface ChannelsState {
-  channels: Record<string, DiscordChannel[]>; // Per-guild channels cache
+  channels: Record<string, DiscordChannel[]>; // Per-guild channels, projected from the resource cache
   loading: boolean;
   error: string | null;
-  pendingRequests: Record<string, Promise<void>>; // Track in-flight requests per guild
   fetchChannels: (guildId: string) => Promise<void>;
   getChannels: (guildId: string) => DiscordChannel[];
 }
@@ -14,13 +14,12 @@ interface ChannelsState {
 /**
  * Channels Store - Centralized state management
  * 
- * Manages Discord channels state per guild ID with caching.
+ * Manages Discord channels state per guild ID, cached in the resource cache.
  */
 export const useChannelsStore = create<ChannelsState>((set, get) => ({
   channels: {},
   loading: false,
   error: null,
-  pendingRequests: {},
 
   fetchChannels: async (guildId: string) => {
     if (!guildId || typeof guildId !== 'string' || guildId.trim() === '') {
@@ -28,64 +27,22 @@ export const useChannelsStore = create<ChannelsState>((set, get) => ({
       return;
     }
 
-    if (get().channels[guildId]) {
-      return;
-    }
-
-    const existingRequest = get().pendingRequests[guildId];
-    if (existingRequest) {
-      return existingRequest;
-    }
-
-    const abortController = new AbortController();
-    let isAborted = false;
-
-    const requestPromise = (async () => {
-      try {
-        if (isAborted) {
-          return;
-        }
+    const hasCached = !!get().channels[guildId];
 
+    try {
+      if (!hasCached) {
         set({ error: null, loading: true });
-        const data = await guildApi.getGuildChannels(guildId);
-        
-        if (isAborted) {
-          return;
-        }
-        
-        set((state) => ({
-          channels: {
-            ...state.channels,
-            [guildId]: data,
-          },
-          loading: false,
-        }));
-      } catch (err: unknown) {
-        if (isAborted) {
-          return;
-        }
-        const errorMessage = err instanceof Error ? err.message : 'Failed to fetch channels';
-        set({ error: errorMessage, loading: false });
-        console.error('Error fetching channels:', err);
-      } finally {
-        set((state) => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const { [guildId]: _, ...rest } = state.pendingRequests;
-          return { pendingRequests: rest };
-        });
       }
-    })();
-
-    (requestPromise as Promise<void> & { abort?: () => void }).abort = () => {
-      isAborted = true;
-      abortController.abort();
-    };
-
-    set((state) => ({
-      pendingRequests: { ...state.pendingRequests, [guildId]: requestPromise },
-    }));
-
-    return requestPromise;
+      await resourceCache.fetch(cacheKeys.channels(guildId), () => guildApi.getGuildChannels(guildId), {
+        ...cachePolicies.channels,
+        tags: [cacheTags.guild(guildId)],
+      });
+      set({ loading: false });
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch channels';
+      set({ error: errorMessage, loading: false });
+      console.error('Error fetching channels:', err);
+    }
   },
 
   getChannels: (guildId: string) => {
@@ -93,10 +50,10 @@ export const useChannelsStore = create<ChannelsState>((set, get) => ({
   },
 }));
 
-
-
-
-
-
-
-
+// Keep the channels projection in sync with the resource cache
+resourceCache.subscribe(() => {
+  useChannelsStore.setState((state) => {
+    const channels = resourceCache.collect<DiscordChannel[]>(cachePrefixes.channels, state.channels);
+    return channels === state.channels ? state : { channels };
+  });
+});
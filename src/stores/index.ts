@@ -8,5 +8,6 @@ export * from './guildStore.ts';
 export * from './permissionStore.ts';
 export * from './settingsStore.ts';
 export * from './channelsStore.ts';
+export * from './rolesStore.ts';
 export * from './membersStore.ts';
 
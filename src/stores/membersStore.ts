@@ -1,61 +1,25 @@
 import { create } from 'zustand';
 import { guildApi } from '../lib/api/guilds.ts';
+import { resourceCache, cacheKeys, cachePrefixes, cachePolicies, cacheTags } from '../lib/cache/index.ts';
+import type { Member, MemberListResponse, PaginationInfo } from '../types/guild.ts';
 
-/**
- * Member interface matching the API response
- */
-export interface Member {
-  id: string;
-  userId: string;
-  username: string;
-  nickname?: string;
-  roles: string[];
-  joinedAt: string;
-  user: {
-    id: string;
-    username: string;
-    globalName?: string;
-    avatar?: string;
-  };
-}
-
-/**
- * Pagination info from API response
- */
-export interface PaginationInfo {
-  page: number;
-  limit: number;
-  total: number;
-  pages: number;
-}
+export type { Member, PaginationInfo };
 
 /**
- * Cache entry structure
+ * Key of a page in `pages` (the cache key without its resource prefix)
  */
-interface MemberCache {
-  members: Member[];
-  pagination: PaginationInfo;
-  timestamp: number;
-  isSearch: boolean;
+export function membersPageKey(guildId: string, page: number, limit: number, searchQuery?: string): string {
+  return cacheKeys.members(guildId, page, limit, searchQuery).slice(cachePrefixes.members.length);
 }
 
-/**
- * Cache TTL constants
- */
-const LIST_TTL = 5 * 60 * 1000; // 5 minutes for list views
-const SEARCH_TTL = 30 * 1000; // 30 seconds for search results
-const MAX_CACHE_ENTRIES_PER_GUILD = 50; // LRU eviction limit
-
 /**
  * Members Store State
  */
 interface MembersState {
-  // Cache structure: guildId -> Map<cacheKey, MemberCache>
-  // Using Map for easier LRU eviction (insertion order)
-  cache: Record<string, Map<string, MemberCache>>;
+  // Member pages and search results, projected from the resource cache (see membersPageKey)
+  pages: Record<string, MemberListResponse>;
   loading: boolean;
   error: string | null;
-  pendingRequests: Record<string, Promise<void>>;
 
   // Methods
   fetchMembers: (guildId: string, page: number, limit: number, searchQuery?: string) => Promise<void>;
@@ -64,82 +28,48 @@ interface MembersState {
     pagination: PaginationInfo;
     isStale: boolean;
   } | null;
-  getCachedMembers: (guildId: string, page: number, limit: number, searchQuery?: string) => MemberCache | null;
+  getCachedTotal: (guildId: string) => number | null;
   invalidateCache: (guildId: string) => void;
-  isStale: (cacheEntry: MemberCache) => boolean;
-  _evictOldest: (guildId: string) => void;
-  _createCacheKey: (page: number, limit: number, searchQuery?: string) => string;
 }
 
 /**
- * Members Store - Centralized state management with best-practice caching
- * 
+ * Members Store - Centralized state management on the resource cache
+ *
  * Features:
  * - Stale-while-revalidate: Shows cached data immediately, fetches fresh in background
- * - Differentiated TTLs: 5min for lists, 30s for search
- * - LRU eviction: Max 50 entries per guild
+ * - Differentiated freshness: 5min for lists, 30s for search (see cachePolicies)
+ * - Idle pages are garbage collected by the resource cache
  * - Request deduplication: Prevents duplicate API calls
  */
 export const useMembersStore = create<MembersState>((set, get) => ({
-  cache: {},
+  pages: {},
   loading: false,
   error: null,
-  pendingRequests: {},
-
-  /**
-   * Create cache key from page, limit, and search query
-   */
-  _createCacheKey: (page: number, limit: number, searchQuery?: string) => {
-    return `${page}-${limit}-${searchQuery || ''}`;
-  },
-
-  /**
-   * Check if cache entry is stale
-   */
-  isStale: (cacheEntry: MemberCache) => {
-    const ttl = cacheEntry.isSearch ? SEARCH_TTL : LIST_TTL;
-    return Date.now() - cacheEntry.timestamp > ttl;
-  },
-
-  /**
-   * Evict oldest cache entry when limit reached
-   * Note: This is now handled inline in fetchMembers for better immutability
-   */
-  _evictOldest: () => {
-    // This method is kept for potential future use, but eviction is now handled inline
-    // in fetchMembers to ensure proper immutability
-  },
-
-  /**
-   * Get cached members without fetching
-   */
-  getCachedMembers: (guildId: string, page: number, limit: number, searchQuery?: string) => {
-    const guildCache = get().cache[guildId];
-    if (!guildCache) {
-      return null;
-    }
-
-    const cacheKey = get()._createCacheKey(page, limit, searchQuery);
-    return guildCache.get(cacheKey) || null;
-  },
 
   /**
    * Get members (cached or fresh) with stale-while-revalidate pattern
    */
   getMembers: (guildId: string, page: number, limit: number, searchQuery?: string) => {
-    const cached = get().getCachedMembers(guildId, page, limit, searchQuery);
-    if (!cached) {
+    const entry = resourceCache.getEntry<MemberListResponse>(cacheKeys.members(guildId, page, limit, searchQuery));
+    if (!entry?.data) {
       return null;
     }
 
-    const stale = get().isStale(cached);
     return {
-      members: cached.members,
-      pagination: cached.pagination,
-      isStale: stale,
+      members: entry.data.members,
+      pagination: entry.data.pagination,
+      isStale: entry.isStale,
     };
   },
 
+  /**
+   * Total member count from any cached page of a guild
+   */
+  getCachedTotal: (guildId: string) => {
+    const page = Object.entries(get().pages).find(([key]) => key.startsWith(`${guildId}:`))?.[1];
+    return page?.pagination.total ?? null;
+  },
+
   /**
    * Fetch members with stale-while-revalidate pattern
    * Returns cached data immediately if available, fetches fresh in background
@@ -159,131 +89,46 @@ export const useMembersStore = create<MembersState>((set, get) => ({
       return;
     }
 
-    const cacheKey = get()._createCacheKey(page, limit, searchQuery);
-    const requestKey = `${guildId}-${cacheKey}`;
     const isSearch = !!searchQuery;
+    const hasCachedData = !!get().getMembers(guildId, page, limit, searchQuery);
 
-    // Check for cached data (even if stale - SWR pattern)
-    const cached = get().getCachedMembers(guildId, page, limit, searchQuery);
-    const hasCachedData = !!cached;
-
-    // Check if request already in-flight
-    const existingRequest = get().pendingRequests[requestKey];
-    if (existingRequest) {
-      return existingRequest;
-    }
-
-    // If we have cached data and it's not stale, don't fetch
-    if (hasCachedData && !get().isStale(cached!)) {
-      return;
-    }
-
-    // Create abort controller for cleanup
-    let isAborted = false;
-
-    // Create new request promise
-    const requestPromise = (async () => {
-      try {
-        // Check if aborted before starting
-        if (isAborted) {
-          return;
-        }
-
-        // Only set loading if we don't have cached data (SWR pattern)
-        if (!hasCachedData) {
-          set({ error: null, loading: true });
-        }
-
-        // Fetch fresh data
-        const data = isSearch
-          ? await guildApi.searchGuildMembers(guildId, searchQuery!, page, limit)
-          : await guildApi.getGuildMembers(guildId, page, limit);
-
-        // Check if aborted after fetch completes
-        if (isAborted) {
-          return;
-        }
-
-        // Get current cache state
-        const currentCache = get().cache;
-        
-        // Ensure guild cache exists (create new Map if needed)
-        let guildCache = currentCache[guildId];
-        if (!guildCache) {
-          guildCache = new Map();
-        } else {
-          // Create a new Map instance to ensure immutability
-          guildCache = new Map(guildCache);
-        }
-
-        // Evict oldest if at limit (before adding new entry)
-        if (guildCache.size >= MAX_CACHE_ENTRIES_PER_GUILD) {
-          // Map preserves insertion order, so first entry is oldest
-          const firstKey = guildCache.keys().next().value;
-          if (firstKey) {
-            guildCache.delete(firstKey);
-          }
-        }
-
-        // Create cache entry
-        const cacheEntry: MemberCache = {
-          members: data.members,
-          pagination: data.pagination,
-          timestamp: Date.now(),
-          isSearch,
-        };
-
-        // Update cache (Map preserves insertion order for LRU)
-        guildCache.set(cacheKey, cacheEntry);
-
-        // Update state with new cache (immutable update)
-        set((state) => ({
-          cache: {
-            ...state.cache,
-            [guildId]: guildCache,
-          },
-          loading: false,
-        }));
-      } catch (err: unknown) {
-        // Don't update state if aborted
-        if (isAborted) {
-          return;
-        }
-        const errorMessage = err instanceof Error ? err.message : 'Failed to load members';
-        set({ error: errorMessage, loading: false });
-        console.error('Error fetching members:', err);
-      } finally {
-        // Clean up pending request
-        set((state) => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const { [requestKey]: _, ...rest } = state.pendingRequests;
-          return { pendingRequests: rest };
-        });
+    try {
+      // Only set loading if we don't have cached data (SWR pattern)
+      if (!hasCachedData) {
+        set({ error: null, loading: true });
       }
-    })();
-
-    // Store abort function for cleanup
-    (requestPromise as Promise<void> & { abort?: () => void }).abort = () => {
-      isAborted = true;
-    };
-
-    // Track pending request
-    set((state) => ({
-      pendingRequests: { ...state.pendingRequests, [requestKey]: requestPromise },
-    }));
 
-    return requestPromise;
+      await resourceCache.fetch(
+        cacheKeys.members(guildId, page, limit, searchQuery),
+        () =>
+          isSearch
+            ? guildApi.searchGuildMembers(guildId, searchQuery!, page, limit)
+            : guildApi.getGuildMembers(guildId, page, limit),
+        {
+          ...(isSearch ? cachePolicies.memberSearch : cachePolicies.members),
+          tags: [cacheTags.guild(guildId), cacheTags.members(guildId)],
+        },
+      );
+      set({ loading: false });
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load members';
+      set({ error: errorMessage, loading: false });
+      console.error('Error fetching members:', err);
+    }
   },
 
   /**
-   * Invalidate all cache entries for a guild
+   * Mark all cached pages of a guild stale
    */
   invalidateCache: (guildId: string) => {
-    set((state) => {
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { [guildId]: _, ...rest } = state.cache;
-      return { cache: rest };
-    });
+    resourceCache.invalidateTag(cacheTags.members(guildId));
   },
 }));
 
+// Keep the pages projection in sync with the resource cache
+resourceCache.subscribe(() => {
+  useMembersStore.setState((state) => {
+    const pages = resourceCache.collect<MemberListResponse>(cachePrefixes.members, state.pages);
+    return pages === state.pages ? state : { pages };
+  });
+});
@@ -1,12 +1,12 @@
 import { create } from 'zustand';
 import { permissionApi } from '../lib/api/permissions.ts';
+import { resourceCache, cacheKeys, cachePrefixes, cachePolicies, cacheTags } from '../lib/cache/index.ts';
 import type { PermissionState, Permission } from '../types/permissions.ts';
 
 interface PermissionStore {
-  permissions: Record<string, PermissionState>;
+  permissions: Record<string, PermissionState>; // Per-guild, projected from the resource cache
   loading: boolean;
   error: string | null;
-  pendingRequests: Record<string, Promise<void>>;
 
   fetchPermissions: (guildId: string) => Promise<void>;
   hasPermission: (guildId: string, permission: Permission) => boolean;
@@ -17,13 +17,13 @@ interface PermissionStore {
 /**
  * Permission Store - Centralized state management
  * 
- * Manages permission state per guild ID.
+ * Manages permission state per guild ID. Cached for five minutes so role
+ * changes made in Discord show up without a reload.
  */
 export const usePermissionStore = create<PermissionStore>((set, get) => ({
   permissions: {},
   loading: false,
   error: null,
-  pendingRequests: {},
 
   fetchPermissions: async (guildId: string) => {
     // Input validation
@@ -32,74 +32,23 @@ export const usePermissionStore = create<PermissionStore>((set, get) => ({
       return;
     }
 
-    // Return cached if exists
-    if (get().permissions[guildId]) {
-      return;
-    }
-    
-    // Check if request already in-flight - do this atomically
-    const currentState = get();
-    const existingRequest = currentState.pendingRequests[guildId];
-    if (existingRequest) {
-      return existingRequest;
-    }
-
-    // Create abort controller for cleanup
-    let isAborted = false;
-
-    // Create new request promise
-    const requestPromise = (async () => {
-      try {
-        // Check if aborted before starting
-        if (isAborted) {
-          return;
-        }
+    const hasCached = !!get().permissions[guildId];
 
+    try {
+      if (!hasCached) {
         set({ loading: true, error: null });
-        const permissionState = await permissionApi.getMyPermissions(guildId);
-        
-        // Check if aborted after fetch completes
-        if (isAborted) {
-          return;
-        }
-        
-        set((state) => ({
-          permissions: {
-            ...state.permissions,
-            [guildId]: permissionState,
-          },
-          loading: false,
-        }));
-      } catch (err: unknown) {
-        // Don't update state if aborted
-        if (isAborted) {
-          return;
-        }
-        const errorData = (err as { response?: { data?: { message?: string } } })?.response?.data;
-        const errorMessage = errorData?.message || 'Failed to load permissions';
-        set({ error: errorMessage, loading: false });
-        console.error('Error fetching permissions:', err);
-      } finally {
-        // Clean up pending request
-        set((state) => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const { [guildId]: _, ...rest } = state.pendingRequests;
-          return { pendingRequests: rest };
-        });
       }
-    })();
-
-    // Store abort function for cleanup
-    (requestPromise as Promise<void> & { abort?: () => void }).abort = () => {
-      isAborted = true;
-    };
-
-    // Track pending request atomically - use updater function to avoid race condition
-    set((state) => ({
-      pendingRequests: { ...state.pendingRequests, [guildId]: requestPromise },
-    }));
-    
-    return requestPromise;
+      await resourceCache.fetch(cacheKeys.permissions(guildId), () => permissionApi.getMyPermissions(guildId), {
+        ...cachePolicies.permissions,
+        tags: [cacheTags.guild(guildId), cacheTags.permissions],
+      });
+      set({ loading: false });
+    } catch (err: unknown) {
+      const errorData = (err as { response?: { data?: { message?: string } } })?.response?.data;
+      const errorMessage = errorData?.message || 'Failed to load permissions';
+      set({ error: errorMessage, loading: false });
+      console.error('Error fetching permissions:', err);
+    }
   },
 
   hasPermission: (guildId: string, permission: Permission): boolean => {
@@ -117,7 +66,15 @@ export const usePermissionStore = create<PermissionStore>((set, get) => ({
   },
 
   clear: () => {
-    set({ permissions: {}, error: null, pendingRequests: {} });
+    resourceCache.removeTag(cacheTags.permissions);
+    set({ error: null });
   },
 }));
 
+// Keep the permissions projection in sync with the resource cache
+resourceCache.subscribe(() => {
+  usePermissionStore.setState((state) => {
+    const permissions = resourceCache.collect<PermissionState>(cachePrefixes.permissions, state.permissions);
+    return permissions === state.permissions ? state : { permissions };
+  });
+});
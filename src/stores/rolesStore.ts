@@ -0,0 +1,59 @@
+import { create } from 'zustand';
+import { guildApi } from '../lib/api/guilds.js';
+import { resourceCache, cacheKeys, cachePrefixes, cachePolicies, cacheTags } from '../lib/cache/index.js';
+import type { DiscordRole } from '../types/discord.js';
+
+interface RolesState {
+  roles: Record<string, DiscordRole[]>; // Per-guild roles, projected from the resource cache
+  loading: boolean;
+  error: string | null;
+  fetchRoles: (guildId: string) => Promise<void>;
+  getRoles: (guildId: string) => DiscordRole[];
+}
+
+/**
+ * Roles Store - Centralized state management
+ * 
+ * Manages Discord roles state per guild ID, cached in the resource cache.
+ */
+export const useRolesStore = create<RolesState>((set, get) => ({
+  roles: {},
+  loading: false,
+  error: null,
+
+  fetchRoles: async (guildId: string) => {
+    if (!guildId || typeof guildId !== 'string' || guildId.trim() === '') {
+      console.warn('fetchRoles called with invalid guildId:', guildId);
+      return;
+    }
+
+    const hasCached = !!get().roles[guildId];
+
+    try {
+      if (!hasCached) {
+        set({ error: null, loading: true });
+      }
+      await resourceCache.fetch(cacheKeys.roles(guildId), () => guildApi.getGuildRoles(guildId), {
+        ...cachePolicies.roles,
+        tags: [cacheTags.guild(guildId)],
+      });
+      set({ loading: false });
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch roles';
+      set({ error: errorMessage, loading: false });
+      console.error('Error fetching roles:', err);
+    }
+  },
+
+  getRoles: (guildId: string) => {
+    return get().roles[guildId] || [];
+  },
+}));
+
+// Keep the roles projection in sync with the resource cache
+resourceCache.subscribe(() => {
+  useRolesStore.setState((state) => {
+    const roles = resourceCache.collect<DiscordRole[]>(cachePrefixes.roles, state.roles);
+    return roles === state.roles ? state : { roles };
+  });
+});
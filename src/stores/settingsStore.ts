@@ -1,256 +1,302 @@
 import { create } from 'zustand';
-import { guildApi } from '../lib/api/index.ts';
-import type { GuildSettingsType } from '../types/index.ts';
+import { persist } from 'zustand/middleware';
+import { guildApi, isSettingsConflictError } from '../lib/api/index.ts';
+import { resourceCache, cacheKeys, cachePrefixes, cachePolicies, cacheTags } from '../lib/cache/index.ts';
+import { broadcast, subscribeCrossTab } from '../lib/crossTab.ts';
+import type { GuildSettingsType, SettingsConflict, SettingsDraft, SettingsRevision } from '../types/index.ts';
 
 interface SettingsState {
-  settings: Record<string, GuildSettingsType>; // Per-guild settings cache
-  draftSettings: GuildSettingsType | null; // Editable copy for edit mode (current guild only)
+  settings: Record<string, GuildSettingsType>; // Per-guild settings, projected from the resource cache
+  drafts: Record<string, SettingsDraft>; // Per-guild editable copies for edit mode, persisted across reloads
+  conflicts: Record<string, SettingsConflict>; // Per-guild saves rejected because someone else saved first
   loading: boolean;
   error: string | null;
   pendingUpdates: Set<string>;
-  pendingRequests: Record<string, Promise<void>>; // Track in-flight requests per guild
   loadSettings: (guildId: string) => Promise<void>;
   updateSettings: (guildId: string, updates: Partial<GuildSettingsType>) => Promise<void>;
-  updateDraftSettings: (updates: Partial<GuildSettingsType>) => void;
+  updateDraftSettings: (guildId: string, updates: Partial<GuildSettingsType>) => void;
   saveDraftSettings: (guildId: string) => Promise<void>;
-  cancelEdit: () => void;
+  loadRevisionIntoDraft: (guildId: string, revision: SettingsRevision) => void;
+  resolveConflict: (guildId: string, settings: GuildSettingsType) => void;
+  cancelEdit: (guildId: string) => void;
+  clearDrafts: () => void;
   resetSettings: (guildId: string) => Promise<void>;
   retry: (guildId: string) => void;
 }
 
-export const useSettingsStore = create<SettingsState>((set, get) => ({
-  settings: {},
-  draftSettings: null,
-  loading: false,
-  error: null,
-  pendingUpdates: new Set(),
-  pendingRequests: {},
+const withoutDraft = (drafts: Record<string, SettingsDraft>, guildId: string) => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { [guildId]: _removed, ...rest } = drafts;
+  return rest;
+};
 
-  loadSettings: async (guildId: string) => {
-    // Input validation
-    if (!guildId || typeof guildId !== 'string' || guildId.trim() === '') {
-      console.warn('loadSettings called with invalid guildId:', guildId);
-      return;
-    }
-
-    // Return cached if exists (don't call set() to avoid triggering re-renders)
-    if (get().settings[guildId]) {
-      return;
-    }
+const withoutConflict = (conflicts: Record<string, SettingsConflict>, guildId: string) => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { [guildId]: _removed, ...rest } = conflicts;
+  return rest;
+};
 
-    // Check if request already in-flight
-    const existingRequest = get().pendingRequests[guildId];
-    if (existingRequest) {
-      return existingRequest;
-    }
-
-    // Create abort controller for cleanup
-    let isAborted = false;
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set, get) => ({
+      settings: {},
+      drafts: {},
+      conflicts: {},
+      loading: false,
+      error: null,
+      pendingUpdates: new Set(),
 
-    // Create new request promise
-    const requestPromise = (async () => {
-      try {
-        // Check if aborted before starting
-        if (isAborted) {
+      loadSettings: async (guildId: string) => {
+        // Input validation
+        if (!guildId || typeof guildId !== 'string' || guildId.trim() === '') {
+          console.warn('loadSettings called with invalid guildId:', guildId);
           return;
         }
 
-        set({ error: null, loading: true });
-        const data = await guildApi.getGuildSettings(guildId);
-        
-        // Check if aborted after fetch completes
-        if (isAborted) {
-          return;
-        }
-        
-        set((state) => ({
-          settings: {
-            ...state.settings,
-            [guildId]: data,
-          },
-          draftSettings: null,
-          loading: false,
-        }));
-      } catch (err: unknown) {
-        // Don't update state if aborted
-        if (isAborted) {
-          return;
-        }
-        const errorData = (err as { response?: { data?: { message?: string } } })?.response?.data;
-        const errorMessage = errorData?.message || 'Failed to load settings';
-        set({ error: errorMessage, loading: false });
-        console.error('Error loading settings:', err);
-      } finally {
-        // Clean up pending request
-        set((state) => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const { [guildId]: _, ...rest } = state.pendingRequests;
-          return { pendingRequests: rest };
-        });
-      }
-    })();
-
-    // Store abort function for cleanup
-    (requestPromise as Promise<void> & { abort?: () => void }).abort = () => {
-      isAborted = true;
-    };
-
-    // Track pending request
-    set((state) => ({
-      pendingRequests: { ...state.pendingRequests, [guildId]: requestPromise },
-    }));
+        const isFirstLoad = !get().settings[guildId];
 
-    return requestPromise;
-  },
+        try {
+          // Stale data stays on screen while revalidating, so only show loading on first load
+          if (isFirstLoad) {
+            set({ error: null, loading: true });
+          }
+          await resourceCache.fetch(cacheKeys.settings(guildId), () => guildApi.getGuildSettings(guildId), {
+            ...cachePolicies.settings,
+            tags: [cacheTags.guild(guildId)],
+          });
+          set({ loading: false });
+        } catch (err: unknown) {
+          const errorData = (err as { response?: { data?: { message?: string } } })?.response?.data;
+          const errorMessage = errorData?.message || 'Failed to load settings';
+          set({ error: errorMessage, loading: false });
+          console.error('Error loading settings:', err);
+        }
+      },
 
-  updateSettings: async (guildId: string, updates: Partial<GuildSettingsType>) => {
-    // Input validation
-    if (!guildId || typeof guildId !== 'string' || guildId.trim() === '') {
-      throw new Error('Invalid guildId provided');
-    }
+      updateSettings: async (guildId: string, updates: Partial<GuildSettingsType>) => {
+        // Input validation
+        if (!guildId || typeof guildId !== 'string' || guildId.trim() === '') {
+          throw new Error('Invalid guildId provided');
+        }
 
-    // Prevent concurrent updates to the same guild
-    if (get().pendingUpdates.has(guildId)) {
-      throw new Error('Settings update already in progress for this guild');
-    }
+        // Prevent concurrent updates to the same guild
+        if (get().pendingUpdates.has(guildId)) {
+          throw new Error('Settings update already in progress for this guild');
+        }
 
-    try {
-      set({ error: null, loading: true });
+        try {
+          set({ error: null, loading: true });
       
-      const currentSettings = get().settings[guildId];
-      if (!currentSettings) {
-        // Load settings first if not cached
-        await get().loadSettings(guildId);
-        const loadedSettings = get().settings[guildId];
-        if (!loadedSettings) {
-          throw new Error('Settings not loaded for this guild');
-        }
-      }
+          const currentSettings = get().settings[guildId];
+          if (!currentSettings) {
+            // Load settings first if not cached
+            await get().loadSettings(guildId);
+            const loadedSettings = get().settings[guildId];
+            if (!loadedSettings) {
+              throw new Error('Settings not loaded for this guild');
+            }
+          }
       
-      const previousSettings = get().settings[guildId];
+          const previousSettings = get().settings[guildId];
       
-      // Optimistic update
-      const optimisticSettings = { ...previousSettings, ...updates };
-      set((state) => ({
-        settings: {
-          ...state.settings,
-          [guildId]: optimisticSettings,
-        },
-      }));
+          // Optimistic update
+          resourceCache.set(cacheKeys.settings(guildId), { ...previousSettings, ...updates });
       
-      // Track pending update using guildId as key to prevent concurrent updates
-      set((state) => ({
-        pendingUpdates: new Set(state.pendingUpdates).add(guildId),
-      }));
+          // Track pending update using guildId as key to prevent concurrent updates
+          set((state) => ({
+            pendingUpdates: new Set(state.pendingUpdates).add(guildId),
+          }));
       
-      // Make API call
-      await guildApi.updateGuildSettings(guildId, updates);
+          // Make API call
+          await guildApi.updateGuildSettings(guildId, updates);
+          resourceCache.invalidateTag(cacheTags.mmr(guildId));
+          broadcast({ type: 'settings-saved', guildId, settings: get().settings[guildId] });
       
-      // Remove from pending updates
-      set((state) => {
-        const newSet = new Set(state.pendingUpdates);
-        newSet.delete(guildId);
-        return { pendingUpdates: newSet };
-      });
+          // Remove from pending updates
+          set((state) => {
+            const newSet = new Set(state.pendingUpdates);
+            newSet.delete(guildId);
+            return { pendingUpdates: newSet };
+          });
       
-    } catch (err: unknown) {
-      // Rollback on failure - reload from server
-      const store = get();
-      await store.loadSettings(guildId);
-      const errorData = (err as { response?: { data?: { message?: string } } })?.response?.data;
-      const errorMessage = errorData?.message || 'Failed to update settings';
-      set({ error: errorMessage });
+        } catch (err: unknown) {
+          // Rollback on failure - reload from server
+          resourceCache.invalidate(cacheKeys.settings(guildId));
+          await get().loadSettings(guildId);
+          const errorData = (err as { response?: { data?: { message?: string } } })?.response?.data;
+          const errorMessage = errorData?.message || 'Failed to update settings';
+          set({ error: errorMessage });
       
-      // Remove from pending updates on error
-      set((state) => {
-        const newSet = new Set(state.pendingUpdates);
-        newSet.delete(guildId);
-        return { pendingUpdates: newSet };
-      });
+          // Remove from pending updates on error
+          set((state) => {
+            const newSet = new Set(state.pendingUpdates);
+            newSet.delete(guildId);
+            return { pendingUpdates: newSet };
+          });
       
-      throw err;
-    } finally {
-      set({ loading: false });
-    }
-  },
+          throw err;
+        } finally {
+          set({ loading: false });
+        }
+      },
 
-  updateDraftSettings: (updates: Partial<GuildSettingsType>) => {
-    // Note: draftSettings is for the current guild being edited
-    // This should be called with the current guildId context
-    const currentDraft = get().draftSettings;
-    if (!currentDraft) {
-      // If no draft exists, initialize it with the provided updates
-      // This allows handleEdit to initialize the draft by passing allSettings
-      set({ draftSettings: updates as GuildSettingsType });
-      return;
-    }
-    
-    const updatedDraft = { ...currentDraft, ...updates };
-    set({ draftSettings: updatedDraft });
-  },
+      updateDraftSettings: (guildId: string, updates: Partial<GuildSettingsType>) => {
+        const currentDraft = get().drafts[guildId];
+        // If no draft exists, initialize it with the provided updates
+        // This allows handleEdit to initialize the draft by passing allSettings
+        const settings = currentDraft ? { ...currentDraft.settings, ...updates } : (updates as GuildSettingsType);
+        const base = currentDraft?.base ?? get().settings[guildId] ?? settings;
+        set((state) => ({
+          drafts: { ...state.drafts, [guildId]: { settings, base, updatedAt: new Date().toISOString() } },
+        }));
+      },
 
-  saveDraftSettings: async (guildId: string) => {
-    const draft = get().draftSettings;
-    if (!draft) {
-      throw new Error('No draft settings to save');
-    }
+      saveDraftSettings: async (guildId: string) => {
+        const draft = get().drafts[guildId];
+        if (!draft) {
+          throw new Error('No draft settings to save');
+        }
 
-    try {
-      set({ error: null, loading: true });
+        try {
+          set({ error: null, loading: true });
       
-      // Strip _metadata before sending to API (it's internal-only)
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { _metadata, ...settingsToSave } = draft as GuildSettingsType & { _metadata?: unknown };
-      await guildApi.updateGuildSettings(guildId, settingsToSave);
+          // Strip _metadata before sending to API; the revision the draft started from is sent instead
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { _metadata, ...settingsToSave } = draft.settings;
+          const saved = await guildApi.updateGuildSettings(guildId, settingsToSave, draft.base._metadata?.revision);
       
-      // Update settings cache for this guild and clear draft
-      set((state) => ({
-        settings: {
-          ...state.settings,
-          [guildId]: draft,
-        },
-        draftSettings: null,
-        loading: false,
-      }));
-    } catch (err: unknown) {
-      const errorData = (err as { response?: { data?: { message?: string } } })?.response?.data;
-      const errorMessage = errorData?.message || 'Failed to save settings';
-      set({ error: errorMessage, loading: false });
-      throw err;
-    }
-  },
+          // Update settings cache for this guild and clear draft
+          resourceCache.set(cacheKeys.settings(guildId), saved);
+          resourceCache.invalidateTag(cacheTags.mmr(guildId));
+          // Role grants may have changed what the current user is allowed to do
+          resourceCache.invalidate(cacheKeys.permissions(guildId));
+          set((state) => ({ drafts: withoutDraft(state.drafts, guildId), loading: false }));
+          broadcast({ type: 'settings-saved', guildId, settings: saved });
+        } catch (err: unknown) {
+          if (isSettingsConflictError(err)) {
+            // Keep the draft and hold both sides for a merge against what is saved now
+            const theirs = err.details.current;
+            resourceCache.set(cacheKeys.settings(guildId), theirs);
+            set((state) => ({
+              conflicts: { ...state.conflicts, [guildId]: { base: draft.base, mine: draft.settings, theirs } },
+            }));
+          }
+          const errorData = (err as { response?: { data?: { message?: string } } })?.response?.data;
+          const errorMessage = errorData?.message || 'Failed to save settings';
+          set({ error: errorMessage, loading: false });
+          throw err;
+        }
+      },
 
-  cancelEdit: () => {
-    set({ draftSettings: null, error: null });
-  },
+      loadRevisionIntoDraft: (guildId: string, revision: SettingsRevision) => {
+        // Replaces the draft outright; nothing is saved until saveDraftSettings
+        set((state) => ({
+          drafts: {
+            ...state.drafts,
+            [guildId]: {
+              settings: revision.settings,
+              base: state.settings[guildId] ?? state.drafts[guildId]?.base ?? revision.settings,
+              updatedAt: new Date().toISOString(),
+            },
+          },
+          error: null,
+        }));
+      },
 
-  resetSettings: async (guildId: string) => {
-    try {
-      set({ loading: true, error: null });
-      await guildApi.resetGuildSettings(guildId);
-      // Clear cache for this guild before reloading to force fresh fetch
-      set((state) => {
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { [guildId]: _, ...restSettings } = state.settings;
-        return { settings: restSettings };
-      });
-      // Reload settings after reset and clear draft
-      const store = get();
-      await store.loadSettings(guildId);
-      set({ draftSettings: null });
-    } catch (err: unknown) {
-      const errorData = (err as { response?: { data?: { message?: string } } })?.response?.data;
-      const errorMessage = errorData?.message || 'Failed to reset settings';
-      set({ error: errorMessage });
-      console.error('Error resetting settings:', err);
-    } finally {
-      set({ loading: false });
+      resolveConflict: (guildId: string, settings: GuildSettingsType) => {
+        const conflict = get().conflicts[guildId];
+        if (!conflict) return;
+        // The merged draft is based on the revision that won, so the next save goes through
+        set((state) => ({
+          drafts: {
+            ...state.drafts,
+            [guildId]: { settings, base: conflict.theirs, updatedAt: new Date().toISOString() },
+          },
+          conflicts: withoutConflict(state.conflicts, guildId),
+          error: null,
+        }));
+      },
+
+      cancelEdit: (guildId: string) => {
+        set((state) => ({
+          drafts: withoutDraft(state.drafts, guildId),
+          conflicts: withoutConflict(state.conflicts, guildId),
+          error: null,
+        }));
+      },
+
+      clearDrafts: () => {
+        // Drafts belong to the signed-in user, so nothing may carry over to the next one
+        set({ drafts: {}, conflicts: {} });
+        useSettingsStore.persist.clearStorage();
+      },
+
+      resetSettings: async (guildId: string) => {
+        try {
+          set({ loading: true, error: null });
+          await guildApi.resetGuildSettings(guildId);
+          // Mark cached settings stale so the reload goes to the server
+          resourceCache.invalidate(cacheKeys.settings(guildId));
+          resourceCache.invalidateTag(cacheTags.mmr(guildId));
+          // Reload settings after reset and clear draft
+          await get().loadSettings(guildId);
+          set((state) => ({
+            drafts: withoutDraft(state.drafts, guildId),
+            conflicts: withoutConflict(state.conflicts, guildId),
+          }));
+          broadcast({ type: 'settings-saved', guildId });
+        } catch (err: unknown) {
+          const errorData = (err as { response?: { data?: { message?: string } } })?.response?.data;
+          const errorMessage = errorData?.message || 'Failed to reset settings';
+          set({ error: errorMessage });
+          console.error('Error resetting settings:', err);
+        } finally {
+          set({ loading: false });
+        }
+      },
+
+      retry: (guildId: string) => {
+        const store = get();
+        store.loadSettings(guildId);
+      },
+    }),
+    {
+      name: 'settings-drafts',
+      // Only drafts are kept; saved settings come from the resource cache
+      partialize: (state) => ({ drafts: state.drafts }),
+      // A draft without a base can't be checked for conflicts on save, so it is dropped
+      merge: (persisted, current) => {
+        const { drafts = {} } = (persisted ?? {}) as Partial<Pick<SettingsState, 'drafts'>>;
+        return { ...current, drafts: Object.fromEntries(Object.entries(drafts).filter(([, draft]) => !!draft.base)) };
+      },
     }
-  },
+  )
+);
 
-  retry: (guildId: string) => {
-    const store = get();
-    store.loadSettings(guildId);
-  },
-}));
+// Keep the settings projection in sync with the resource cache
+resourceCache.subscribe(() => {
+  useSettingsStore.setState((state) => {
+    const settings = resourceCache.collect<GuildSettingsType>(cachePrefixes.settings, state.settings);
+    return settings === state.settings ? state : { settings };
+  });
+});
 
+// Apply settings saved in other tabs
+subscribeCrossTab((message) => {
+  if (message.type !== 'settings-saved') return;
+  const { guildId, settings } = message;
+  resourceCache.invalidateTag(cacheTags.mmr(guildId));
+
+  if (settings) {
+    resourceCache.set(cacheKeys.settings(guildId), settings, {
+      ...cachePolicies.settings,
+      tags: [cacheTags.guild(guildId)],
+    });
+  } else {
+    resourceCache.invalidate(cacheKeys.settings(guildId));
+    // Only refetch settings this tab is already showing
+    if (useSettingsStore.getState().settings[guildId]) {
+      void useSettingsStore.getState().loadSettings(guildId);
+    }
+  }
+});
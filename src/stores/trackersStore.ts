@@ -1,6 +1,66 @@
 import { create } from 'zustand';
 import { trackerApi } from '../lib/api/trackers.ts';
-import type { Tracker, TrackerDetail, ScrapingStatus } from '../types/trackers.ts';
+import { isScrapingActive } from '../lib/api/statusPolling.ts';
+import { resourceCache, cacheKeys, cachePolicies, cacheTags } from '../lib/cache/index.ts';
+import { broadcast, subscribeCrossTab } from '../lib/crossTab.ts';
+import { runTaskQueue } from '../lib/taskQueue.ts';
+import type {
+  Tracker,
+  TrackerDetail,
+  TrackerSnapshot,
+  CreateTrackerSnapshotInput,
+  ScrapingStatus,
+} from '../types/trackers.ts';
+
+const NO_TRACKERS: Tracker[] = [];
+
+/**
+ * Requests in flight at once during a bulk action
+ */
+const BULK_CONCURRENCY = 3;
+
+export type BulkTrackerAction = 'refresh' | 'activate' | 'deactivate' | 'delete';
+
+export type BulkItemStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface BulkOperationItem {
+  trackerId: string;
+  label: string;
+  status: BulkItemStatus;
+  error: string | null;
+}
+
+/**
+ * Progress of the current (or last) bulk action
+ */
+export interface BulkOperation {
+  action: BulkTrackerAction;
+  items: BulkOperationItem[];
+  running: boolean;
+  /**
+   * Set while the queue waits out a 429
+   */
+  pausedUntil: number | null;
+}
+
+// Lets cancelBulkAction stop the queue without putting it in state
+let bulkController: AbortController | null = null;
+
+function markDeleted(tracker: Tracker): Tracker {
+  return { ...tracker, isDeleted: true, isActive: false, updatedAt: new Date().toISOString() };
+}
+
+function runBulkRequest(action: BulkTrackerAction, trackerId: string): Promise<Tracker | null> {
+  switch (action) {
+    case 'refresh':
+      return trackerApi.refreshTracker(trackerId).then(() => null);
+    case 'activate':
+    case 'deactivate':
+      return trackerApi.updateTracker(trackerId, { isActive: action === 'activate' });
+    case 'delete':
+      return trackerApi.deleteTracker(trackerId).then(() => null);
+  }
+}
 
 /**
  * Trackers Store State
@@ -8,25 +68,35 @@ import type { Tracker, TrackerDetail, ScrapingStatus } from '../types/trackers.t
 interface TrackersState {
   trackers: Tracker[];
   selectedTracker: Tracker | null;
-  myTrackers: Tracker[];
+  myTrackers: Tracker[]; // Projected from the resource cache
   trackerDetail: TrackerDetail | null;
   scrapingStatus: ScrapingStatus | null;
+  bulkOperation: BulkOperation | null;
+  deletedTrackers: Tracker[]; // Soft-deleted, most recently deleted first
+  deletedTrackersScope: string | null; // Guild ID, or 'me' for the user's own trackers
   loading: boolean;
   error: string | null;
-  myTrackersLastFetched: number | null; // Timestamp of last successful fetch
-  myTrackersRequestInFlight: Promise<void> | null; // Track in-flight request
 
   // Methods
-  fetchTrackers: (guildId?: string) => Promise<void>;
+  fetchTrackers: (guildId?: string, options?: { includeDeleted?: boolean }) => Promise<void>;
   getTracker: (id: string) => Promise<void>;
   registerTrackers: (urls: string[]) => Promise<void>;
   addTracker: (url: string) => Promise<void>;
   getMyTrackers: (force?: boolean) => Promise<void>;
   getTrackerDetail: (trackerId: string) => Promise<void>;
+  loadTrackerDetail: (trackerId: string) => Promise<TrackerDetail>;
   refreshTracker: (trackerId: string) => Promise<void>;
   getScrapingStatus: (trackerId: string) => Promise<void>;
+  applyScrapingStatus: (trackerId: string, status: ScrapingStatus) => boolean;
+  clearScrapingStatus: () => void;
+  createSnapshot: (trackerId: string, input: CreateTrackerSnapshotInput) => Promise<TrackerSnapshot>;
   updateTracker: (id: string, data: { displayName?: string; isActive?: boolean }) => Promise<void>;
   deleteTracker: (id: string) => Promise<void>;
+  fetchDeletedTrackers: (guildId?: string) => Promise<void>;
+  restoreTracker: (id: string) => Promise<Tracker>;
+  runBulkAction: (action: BulkTrackerAction, trackers: Tracker[]) => Promise<void>;
+  cancelBulkAction: () => void;
+  clearBulkOperation: () => void;
   clearError: () => void;
   clearSelectedTracker: () => void;
 }
@@ -37,21 +107,22 @@ interface TrackersState {
 export const useTrackersStore = create<TrackersState>((set, get) => ({
   trackers: [],
   selectedTracker: null,
-  myTrackers: [],
+  myTrackers: NO_TRACKERS,
   trackerDetail: null,
   scrapingStatus: null,
+  bulkOperation: null,
+  deletedTrackers: [],
+  deletedTrackersScope: null,
   loading: false,
   error: null,
-  myTrackersLastFetched: null,
-  myTrackersRequestInFlight: null,
 
   /**
    * Fetch trackers for a guild or all user trackers
    */
-  fetchTrackers: async (guildId?: string) => {
+  fetchTrackers: async (guildId?: string, options?: { includeDeleted?: boolean }) => {
     try {
       set({ error: null, loading: true });
-      const trackers = await trackerApi.getTrackers(guildId);
+      const trackers = await trackerApi.getTrackers(guildId, options);
       set({ trackers, loading: false });
     } catch (err: unknown) {
       const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
@@ -84,11 +155,15 @@ export const useTrackersStore = create<TrackersState>((set, get) => ({
     try {
       set({ error: null, loading: true });
       const updated = await trackerApi.updateTracker(id, data);
+      broadcast({ type: 'trackers-changed' });
       
       // Update in all relevant state slices for consistency
+      resourceCache.update<Tracker[]>(cacheKeys.myTrackers(), (trackers) =>
+        trackers.map((t) => (t.id === id ? updated : t)),
+      );
+      resourceCache.invalidateTag(cacheTags.myTrackers);
       set((state) => ({
         trackers: state.trackers.map((t) => (t.id === id ? updated : t)),
-        myTrackers: state.myTrackers.map((t) => (t.id === id ? updated : t)),
         selectedTracker: state.selectedTracker?.id === id ? updated : state.selectedTracker,
         loading: false,
       }));
@@ -107,14 +182,23 @@ export const useTrackersStore = create<TrackersState>((set, get) => ({
     try {
       set({ error: null, loading: true });
       await trackerApi.deleteTracker(id);
+      broadcast({ type: 'trackers-changed' });
       
       // Remove from trackers list and myTrackers
-      set((state) => ({
-        trackers: state.trackers.filter((t) => t.id !== id),
-        myTrackers: state.myTrackers.filter((t) => t.id !== id),
-        selectedTracker: state.selectedTracker?.id === id ? null : state.selectedTracker,
-        loading: false,
-      }));
+      resourceCache.update<Tracker[]>(cacheKeys.myTrackers(), (trackers) => trackers.filter((t) => t.id !== id));
+      resourceCache.invalidateTag(cacheTags.myTrackers);
+      set((state) => {
+        const deleted = state.trackers.find((t) => t.id === id);
+        return {
+          trackers: state.trackers.filter((t) => t.id !== id),
+          selectedTracker: state.selectedTracker?.id === id ? null : state.selectedTracker,
+          // Keep it around so it can be restored from the recently deleted list
+          deletedTrackers: deleted
+            ? [markDeleted(deleted), ...state.deletedTrackers.filter((t) => t.id !== id)]
+            : state.deletedTrackers,
+          loading: false,
+        };
+      });
     } catch (err: unknown) {
       const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
       const errorMessage = errorObj.response?.data?.message || errorObj.message || 'Failed to delete tracker';
@@ -123,6 +207,176 @@ export const useTrackersStore = create<TrackersState>((set, get) => ({
     }
   },
 
+  /**
+   * Load soft-deleted trackers for a guild or all user trackers
+   * Another scope's list is cleared first and a failed load leaves the list empty, so nothing
+   * stale can be restored. Rethrows failures without touching the main list's error state.
+   */
+  fetchDeletedTrackers: async (guildId?: string) => {
+    const scope = guildId ?? 'me';
+    if (get().deletedTrackersScope !== scope) {
+      set({ deletedTrackers: [], deletedTrackersScope: scope });
+    }
+    try {
+      const trackers = await trackerApi.getTrackers(guildId, { includeDeleted: true });
+      // Ignore a response for a scope that has since been replaced
+      if (get().deletedTrackersScope !== scope) return;
+      set({
+        deletedTrackers: trackers
+          .filter((t) => t.isDeleted)
+          .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()),
+      });
+    } catch (err: unknown) {
+      if (get().deletedTrackersScope === scope) {
+        set({ deletedTrackers: [] });
+      }
+      throw err;
+    }
+  },
+
+  /**
+   * Restore a soft-deleted tracker
+   * Rethrows failures (e.g. tracker limit reached) for the caller to show.
+   */
+  restoreTracker: async (id: string) => {
+    const restored = await trackerApi.restoreTracker(id);
+    broadcast({ type: 'trackers-changed' });
+
+    resourceCache.invalidateTag(cacheTags.myTrackers);
+    resourceCache.invalidate(cacheKeys.trackerDetail(id));
+    set((state) => ({
+      deletedTrackers: state.deletedTrackers.filter((t) => t.id !== id),
+      trackers: state.trackers.some((t) => t.id === id)
+        ? state.trackers.map((t) => (t.id === id ? restored : t))
+        : [...state.trackers, restored],
+    }));
+    if (resourceCache.getData(cacheKeys.myTrackers())) {
+      get().getMyTrackers().catch(() => {
+        // Error is already in store state
+      });
+    }
+    return restored;
+  },
+
+  /**
+   * Refresh, (de)activate or delete many trackers through the task queue
+   * Progress is tracked per tracker in bulkOperation; failures never abort the batch.
+   */
+  runBulkAction: async (action: BulkTrackerAction, trackers: Tracker[]) => {
+    if (get().bulkOperation?.running || trackers.length === 0) return;
+
+    const controller = new AbortController();
+    bulkController = controller;
+    set({
+      bulkOperation: {
+        action,
+        items: trackers.map((tracker) => ({
+          trackerId: tracker.id,
+          label: tracker.displayName || tracker.username,
+          status: 'queued',
+          error: null,
+        })),
+        running: true,
+        pausedUntil: null,
+      },
+    });
+
+    const updateItem = (index: number, patch: Partial<BulkOperationItem>) => {
+      set((state) => {
+        if (!state.bulkOperation) return state;
+        const items = [...state.bulkOperation.items];
+        items[index] = { ...items[index], ...patch };
+        return { bulkOperation: { ...state.bulkOperation, items } };
+      });
+    };
+
+    const results = await runTaskQueue(trackers, (tracker) => runBulkRequest(action, tracker.id), {
+      concurrency: BULK_CONCURRENCY,
+      signal: controller.signal,
+      onTaskStart: (index) => {
+        set((state) => ({
+          bulkOperation: state.bulkOperation && { ...state.bulkOperation, pausedUntil: null },
+        }));
+        updateItem(index, { status: 'running' });
+      },
+      onPause: (resumeAt) => {
+        set((state) => ({
+          bulkOperation: state.bulkOperation && { ...state.bulkOperation, pausedUntil: resumeAt },
+        }));
+      },
+      onTaskSettled: (index, result) => {
+        if (result.status === 'fulfilled') {
+          updateItem(index, { status: 'succeeded' });
+        } else if (result.status === 'cancelled') {
+          updateItem(index, { status: 'cancelled' });
+        } else {
+          const errorObj = result.error as { response?: { data?: { message?: string } }; message?: string };
+          updateItem(index, {
+            status: 'failed',
+            error: errorObj.response?.data?.message || errorObj.message || 'Request failed',
+          });
+        }
+      },
+    });
+
+    if (bulkController === controller) {
+      bulkController = null;
+    }
+
+    // Apply everything that went through in one state update
+    const updated = new Map<string, Tracker>();
+    const removed = new Set<string>();
+    results.forEach((result, index) => {
+      if (result.status !== 'fulfilled') return;
+      const { id } = trackers[index];
+      if (action === 'delete') {
+        removed.add(id);
+      } else {
+        // Refreshed trackers are queued for scraping until their next status update
+        updated.set(id, result.value ?? { ...trackers[index], scrapingStatus: 'PENDING', scrapingError: null });
+      }
+      resourceCache.invalidate(cacheKeys.trackerDetail(id));
+    });
+
+    const applyChanges = (list: Tracker[]) =>
+      list.filter((t) => !removed.has(t.id)).map((t) => updated.get(t.id) ?? t);
+
+    if (updated.size > 0 || removed.size > 0) {
+      if (action !== 'refresh') {
+        broadcast({ type: 'trackers-changed' });
+      }
+      resourceCache.update<Tracker[]>(cacheKeys.myTrackers(), applyChanges);
+      resourceCache.invalidateTag(cacheTags.myTrackers);
+    }
+    set((state) => ({
+      trackers: applyChanges(state.trackers),
+      deletedTrackers: [
+        ...trackers.filter((t) => removed.has(t.id)).map(markDeleted),
+        ...state.deletedTrackers.filter((t) => !removed.has(t.id)),
+      ],
+      selectedTracker:
+        state.selectedTracker && !removed.has(state.selectedTracker.id)
+          ? (updated.get(state.selectedTracker.id) ?? state.selectedTracker)
+          : null,
+      bulkOperation: state.bulkOperation && { ...state.bulkOperation, running: false, pausedUntil: null },
+    }));
+  },
+
+  /**
+   * Stop a running bulk action; requests already in flight still finish
+   */
+  cancelBulkAction: () => {
+    bulkController?.abort();
+  },
+
+  /**
+   * Dismiss the progress of a finished bulk action
+   */
+  clearBulkOperation: () => {
+    if (get().bulkOperation?.running) return;
+    set({ bulkOperation: null });
+  },
+
   /**
    * Clear error state
    */
@@ -137,7 +391,9 @@ export const useTrackersStore = create<TrackersState>((set, get) => ({
     try {
       set({ error: null, loading: true });
       const trackers = await trackerApi.registerTrackers(urls);
-      set({ myTrackers: trackers, loading: false });
+      broadcast({ type: 'trackers-changed' });
+      resourceCache.set(cacheKeys.myTrackers(), trackers, { ...cachePolicies.myTrackers, tags: [cacheTags.myTrackers] });
+      set({ loading: false });
     } catch (err: unknown) {
       const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
       const errorMessage = errorObj.response?.data?.message || errorObj.message || 'Failed to register trackers';
@@ -153,10 +409,10 @@ export const useTrackersStore = create<TrackersState>((set, get) => ({
     try {
       set({ error: null, loading: true });
       const tracker = await trackerApi.addTracker(url);
-      set((state) => ({ 
-        myTrackers: [...state.myTrackers, tracker],
-        loading: false 
-      }));
+      broadcast({ type: 'trackers-changed' });
+      resourceCache.update<Tracker[]>(cacheKeys.myTrackers(), (trackers) => [...trackers, tracker]);
+      resourceCache.invalidateTag(cacheTags.myTrackers);
+      set({ loading: false });
     } catch (err: unknown) {
       const errorObj = err as { response?: { data?: { message?: string } }; message?: string };
       const errorMessage = errorObj.response?.data?.message || errorObj.message || 'Failed to add tracker';
@@ -170,85 +426,33 @@ export const useTrackersStore = create<TrackersState>((set, get) => ({
    * @param force - If true, bypasses cache and makes a fresh request
    */
   getMyTrackers: async (force = false) => {
-    const state = get();
-    
-    // If there's already a request in flight, wait for it instead of making a new one
-    if (state.myTrackersRequestInFlight && !force) {
-      return state.myTrackersRequestInFlight;
-    }
-
-    // If we have recent data (within last 30 seconds) and not forcing, use cache
-    const CACHE_TTL = 30000; // 30 seconds
-    if (
-      !force &&
-      state.myTrackersLastFetched &&
-      Date.now() - state.myTrackersLastFetched < CACHE_TTL &&
-      state.myTrackers.length > 0
-    ) {
-      return Promise.resolve();
-    }
-
-    // Create promise with resolve/reject handlers
-    // This MUST be set synchronously to prevent race conditions
-    // Use a more robust pattern to ensure handlers are always defined
-    let resolveFn: (() => void) | undefined;
-    let rejectFn: ((err: unknown) => void) | undefined;
-    
-    const requestPromise = new Promise<void>((resolve, reject) => {
-      // Assign handlers synchronously before any async work
-      // These are guaranteed to be assigned before the promise is returned
-      resolveFn = resolve;
-      rejectFn = reject;
-    });
-
-    // CRITICAL: Set in-flight flag SYNCHRONOUSLY before any async work
-    // This prevents race conditions when multiple components call this simultaneously
-    set({ myTrackersRequestInFlight: requestPromise });
-
-    // Now execute the actual async fetch
-    // Use a separate async function to ensure proper error handling
-    // Note: resolveFn and rejectFn are guaranteed to be defined here because
-    // they're assigned synchronously in the Promise constructor above
-    (async () => {
-      try {
+    try {
+      // Cached trackers stay on screen while revalidating
+      if (!resourceCache.getData(cacheKeys.myTrackers())) {
         set({ error: null, loading: true });
-        const trackers = await trackerApi.getMyTrackers();
-        set({
-          myTrackers: trackers,
-          loading: false,
-          myTrackersLastFetched: Date.now(),
-          myTrackersRequestInFlight: null,
-        });
-        // resolveFn is guaranteed to be defined (assigned synchronously above)
-        resolveFn!();
-      } catch (err: unknown) {
-        // Don't retry on rate limit (429) errors - prevent infinite loops
-        const errorObj = err as { status?: number; response?: { status?: number; data?: { message?: string } }; message?: string };
-        if (errorObj.status === 429 || errorObj.response?.status === 429) {
-          const errorMessage = 'Too many requests. Please wait a moment before trying again.';
-          set({
-            error: errorMessage,
-            loading: false,
-            myTrackersRequestInFlight: null,
-          });
-          console.error('Rate limited - stopping retries:', err);
-          // rejectFn is guaranteed to be defined (assigned synchronously above)
-          rejectFn!(err);
-          return;
-        }
-        const errorMessage = errorObj.response?.data?.message || errorObj.message || 'Failed to fetch trackers';
+      }
+      await resourceCache.fetch(cacheKeys.myTrackers(), () => trackerApi.getMyTrackers(), {
+        ...cachePolicies.myTrackers,
+        tags: [cacheTags.myTrackers],
+        force,
+      });
+      set({ loading: false });
+    } catch (err: unknown) {
+      // Don't retry on rate limit (429) errors - prevent infinite loops
+      const errorObj = err as { status?: number; response?: { status?: number; data?: { message?: string } }; message?: string };
+      if (errorObj.status === 429 || errorObj.response?.status === 429) {
         set({
-          error: errorMessage,
+          error: 'Too many requests. Please wait a moment before trying again.',
           loading: false,
-          myTrackersRequestInFlight: null,
         });
-        console.error('Error fetching my trackers:', err);
-        // rejectFn is guaranteed to be defined (assigned synchronously above)
-        rejectFn!(err);
+        console.error('Rate limited - stopping retries:', err);
+        throw err;
       }
-    })();
-
-    return requestPromise;
+      const errorMessage = errorObj.response?.data?.message || errorObj.message || 'Failed to fetch trackers';
+      set({ error: errorMessage, loading: false });
+      console.error('Error fetching my trackers:', err);
+      throw err;
+    }
   },
 
   /**
@@ -267,6 +471,18 @@ export const useTrackersStore = create<TrackersState>((set, get) => ({
     }
   },
 
+  /**
+   * Get tracker detail through the resource cache without touching the
+   * detail view's state (comparison, calculator prefill)
+   */
+  loadTrackerDetail: (trackerId: string) => {
+    return resourceCache.fetch(
+      cacheKeys.trackerDetail(trackerId),
+      () => trackerApi.getTrackerDetail(trackerId),
+      cachePolicies.trackerDetail,
+    );
+  },
+
   /**
    * Refresh tracker data (trigger scraping)
    */
@@ -274,6 +490,10 @@ export const useTrackersStore = create<TrackersState>((set, get) => ({
     try {
       set({ error: null, loading: true });
       await trackerApi.refreshTracker(trackerId);
+      // The scrape is queued now; live status updates take it from here
+      set((state) => ({
+        scrapingStatus: state.scrapingStatus && { ...state.scrapingStatus, status: 'PENDING', error: null },
+      }));
       // Refresh the tracker detail after refresh is triggered
       try {
         await get().getTrackerDetail(trackerId);
@@ -310,6 +530,55 @@ export const useTrackersStore = create<TrackersState>((set, get) => ({
     }
   },
 
+  /**
+   * Record a live scraping status update (see useScrapingStatus)
+   * Reloads the tracker detail and the user's trackers once a running scrape finishes.
+   * @returns true if this update finished a running scrape
+   */
+  applyScrapingStatus: (trackerId: string, status: ScrapingStatus) => {
+    const finished = isScrapingActive(get().scrapingStatus?.status) && !isScrapingActive(status.status);
+    set({ scrapingStatus: status });
+
+    if (finished) {
+      void get().getTrackerDetail(trackerId);
+      resourceCache.invalidateTag(cacheTags.myTrackers);
+      if (resourceCache.getData(cacheKeys.myTrackers())) {
+        get().getMyTrackers().catch(() => {
+          // Error is already in store state
+        });
+      }
+    }
+    return finished;
+  },
+
+  /**
+   * Forget the last scraping status (before watching another tracker)
+   */
+  clearScrapingStatus: () => {
+    set({ scrapingStatus: null });
+  },
+
+  /**
+   * Record a manual snapshot and add it to the open tracker detail.
+   * Errors are rethrown for the form to show; the detail view stays as it is.
+   */
+  createSnapshot: async (trackerId: string, input: CreateTrackerSnapshotInput) => {
+    const snapshot = await trackerApi.createSnapshot(trackerId, input);
+    set((state) => {
+      const detail = state.trackerDetail;
+      if (detail?.tracker.id !== trackerId) return state;
+      return {
+        trackerDetail: {
+          ...detail,
+          tracker: { ...detail.tracker, snapshots: [...(detail.tracker.snapshots ?? []), snapshot] },
+        },
+      };
+    });
+    // Comparison views read tracker details from the cache
+    resourceCache.invalidate(cacheKeys.trackerDetail(trackerId));
+    return snapshot;
+  },
+
   /**
    * Clear selected tracker
    */
@@ -318,4 +587,21 @@ export const useTrackersStore = create<TrackersState>((set, get) => ({
   },
 }));
 
+// Keep myTrackers in sync with the resource cache
+resourceCache.subscribe(() => {
+  useTrackersStore.setState((state) => {
+    const myTrackers = resourceCache.getData<Tracker[]>(cacheKeys.myTrackers()) ?? NO_TRACKERS;
+    return myTrackers === state.myTrackers ? state : { myTrackers };
+  });
+});
 
+// Refresh the user's trackers when another tab changes them
+subscribeCrossTab((message) => {
+  if (message.type !== 'trackers-changed') return;
+  resourceCache.invalidateTag(cacheTags.myTrackers);
+  if (resourceCache.getData(cacheKeys.myTrackers())) {
+    useTrackersStore.getState().getMyTrackers().catch(() => {
+      // Error is already in store state
+    });
+  }
+});
@@ -278,6 +278,151 @@ export const frontendFixtures = {
     roles: ['admin'],
   }),
 
+  /**
+   * Create mock authenticated user (auth/me response)
+   */
+  createMockUser: (overrides: any = {}): any => ({
+    id: '123456789012345678',
+    username: 'testuser',
+    discriminator: null,
+    globalName: 'Test User',
+    avatar: 'avatar_hash',
+    email: 'testuser@example.com',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    lastLoginAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  }),
+
+  /**
+   * Create mock permission state for a guild
+   */
+  createMockPermissionState: (overrides: any = {}): any => ({
+    isMember: true,
+    isAdmin: false,
+    permissions: ['view_stats'],
+    roles: ['111111111111111111'],
+    ...overrides,
+  }),
+
+  /**
+   * Create mock Discord channels (categories, text and voice)
+   */
+  createMockDiscordChannels: (): any[] => [
+    { id: '300000000000000001', name: 'General', type: 4, parent_id: null },
+    { id: '300000000000000002', name: 'general', type: 0, parent_id: '300000000000000001' },
+    { id: '300000000000000003', name: 'bot-commands', type: 0, parent_id: '300000000000000001' },
+    { id: '300000000000000004', name: 'announcements', type: 5, parent_id: '300000000000000001' },
+    { id: '300000000000000005', name: 'League', type: 4, parent_id: null },
+    { id: '300000000000000006', name: 'register', type: 0, parent_id: '300000000000000005' },
+    { id: '300000000000000007', name: 'mmr-checks', type: 0, parent_id: '300000000000000005' },
+    { id: '300000000000000008', name: 'Match Lobby', type: 2, parent_id: '300000000000000005' },
+  ],
+
+  /**
+   * Create mock Discord roles (ids match createMockApiMember roles)
+   */
+  createMockDiscordRoles: (): any[] => [
+    { id: '111111111111111111', name: 'Member' },
+    { id: '222222222222222222', name: 'Player' },
+    { id: '333333333333333333', name: 'Moderator' },
+    { id: '444444444444444444', name: 'League Admin' },
+  ],
+
+  /**
+   * Create mock guild settings
+   */
+  createMockGuildSettings: (overrides: any = {}): any => ({
+    bot_command_channels: [{ id: '300000000000000003', name: 'bot-commands' }],
+    register_command_channels: [{ id: '300000000000000006', name: 'register' }],
+    mmrCalculation: {
+      algorithm: 'WEIGHTED_AVERAGE',
+      weights: { ones: 0.1, twos: 0.3, threes: 0.5, fours: 0.1 },
+      minGamesPlayed: { ones: 0, twos: 50, threes: 50, fours: 0 },
+    },
+    ...overrides,
+  }),
+
+  /**
+   * Create mock playlist data for a tracker season
+   */
+  createMockPlaylistData: (rating: number = 1200, matchesPlayed: number = 100, overrides: any = {}): any => {
+    const tiers = ['Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond', 'Champion', 'Grand Champion'];
+    const tierIndex = Math.max(0, Math.min(tiers.length - 1, Math.floor((rating - 200) / 250)));
+    const divisionValue = Math.max(1, Math.min(4, Math.floor(((rating - 200) % 250) / 62.5) + 1));
+    return {
+      rank: `${tiers[tierIndex]} ${tierIndex < tiers.length - 1 ? 'II' : 'I'}`,
+      rankValue: tierIndex * 3 + 2,
+      division: `Division ${['I', 'II', 'III', 'IV'][divisionValue - 1]}`,
+      divisionValue,
+      rating,
+      matchesPlayed,
+      winStreak: 0,
+      ...overrides,
+    };
+  },
+
+  /**
+   * Create mock tracker season
+   */
+  createMockTrackerSeason: (overrides: any = {}): any => ({
+    id: 'season_1',
+    trackerId: 'tracker_1',
+    seasonNumber: 14,
+    seasonName: 'Season 14',
+    playlist1v1: frontendFixtures.createMockPlaylistData(1050, 40),
+    playlist2v2: frontendFixtures.createMockPlaylistData(1320, 180),
+    playlist3v3: frontendFixtures.createMockPlaylistData(1275, 220),
+    playlist4v4: null,
+    scrapedAt: '2024-06-01T00:00:00Z',
+    createdAt: '2024-06-01T00:00:00Z',
+    updatedAt: '2024-06-01T00:00:00Z',
+    ...overrides,
+  }),
+
+  /**
+   * Create mock tracker
+   */
+  createMockTracker: (overrides: any = {}): any => ({
+    id: 'tracker_1',
+    url: 'https://rocketleague.tracker.network/rocket-league/profile/steam/testuser/overview',
+    game: 'ROCKET_LEAGUE',
+    platform: 'STEAM',
+    username: 'testuser',
+    userId: '123456789012345678',
+    isActive: true,
+    isDeleted: false,
+    lastScrapedAt: '2024-06-01T00:00:00Z',
+    scrapingStatus: 'COMPLETED',
+    scrapingError: null,
+    scrapingAttempts: 1,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-06-01T00:00:00Z',
+    ...overrides,
+  }),
+
+  /**
+   * Create mock audit log entry
+   */
+  createMockAuditLog: (overrides: any = {}): any => ({
+    id: 'audit_1',
+    entityType: 'guild_settings',
+    entityId: '987654321098765432',
+    eventType: 'SETTINGS_UPDATED',
+    action: 'update',
+    userId: '123456789012345678',
+    guildId: '987654321098765432',
+    changes: {},
+    metadata: {},
+    timestamp: '2024-01-01T00:00:00Z',
+    user: {
+      id: '123456789012345678',
+      username: 'testuser',
+      globalName: 'Test User',
+    },
+    ...overrides,
+  }),
+
   /**
    * Create mock axios instance for API client tests
    */
@@ -3,6 +3,8 @@
  * Standardized error handling types
  */
 
+import type { GuildSettingsType } from './settings.ts';
+
 export interface ApiError {
   message: string;
   code?: string;
@@ -15,3 +17,35 @@ export interface ApiResponse<T = unknown> {
   message?: string;
 }
 
+/**
+ * Single field mismatch between an API response and its expected shape
+ */
+export interface ResponseValidationIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+/**
+ * Raised when a response payload doesn't match its schema
+ */
+export interface ResponseValidationError extends ApiError {
+  code: 'RESPONSE_VALIDATION_FAILED';
+  details: {
+    endpoint: string;
+    issues: ResponseValidationIssue[];
+  };
+}
+
+/**
+ * Raised when a settings save was based on an outdated revision
+ */
+export interface SettingsConflictError extends ApiError {
+  code: 'SETTINGS_CONFLICT';
+  details: {
+    /**
+     * Settings as currently saved on the server
+     */
+    current: GuildSettingsType;
+  };
+}
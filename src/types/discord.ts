@@ -11,7 +11,7 @@ export interface DiscordChannel {
   id: string;
   name: string;
   type: number;
-  parent_id?: string;
+  parent_id?: string | null;
 }
 
 /**
@@ -6,14 +6,57 @@
 export interface Guild {
   id: string;
   name: string;
-  icon?: string;
+  icon?: string | null;
   roles: string[];
 }
 
 // Import settings types from settings.ts
 import type { GuildSettingsType } from './settings.js';
 
-import type { Member } from '../stores/membersStore.js';
+/**
+ * Guild member as returned by the members endpoints
+ */
+export interface Member {
+  id: string;
+  userId: string;
+  username: string;
+  nickname?: string | null;
+  roles: string[];
+  joinedAt: string;
+  user: {
+    id: string;
+    username: string;
+    globalName?: string | null;
+    avatar?: string | null;
+  };
+}
+
+/**
+ * Pagination info from API response
+ */
+export interface PaginationInfo {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+/**
+ * Paginated member list response
+ */
+export interface MemberListResponse {
+  members: Member[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * Guild member statistics
+ */
+export interface MemberStats {
+  totalMembers: number;
+  activeMembers: number;
+  newThisWeek: number;
+}
 
 export interface GuildDetails extends Guild {
   settings?: GuildSettingsType;
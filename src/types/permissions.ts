@@ -55,6 +55,8 @@ export interface AuditLog {
  */
 export interface AuditLogFilters {
   userId?: string;
+  entityType?: string;
+  entityId?: string;
   action?: string;
   startDate?: string;
   endDate?: string;
@@ -3,6 +3,8 @@
  * All settings-related types for guild configuration
  */
 
+import type { Permission } from './permissions.ts';
+
 /**
  * Channel configuration
  */
@@ -11,6 +13,19 @@ export interface ChannelConfig {
   name: string;
 }
 
+/**
+ * Discord role granted a permission
+ */
+export interface RoleConfig {
+  id: string;
+  name: string;
+}
+
+/**
+ * Roles granted each league permission; members hold a permission through any of its roles
+ */
+export type RolePermissions = Partial<Record<Permission, RoleConfig[]>>;
+
 /**
  * MMR calculation weights
  */
@@ -58,6 +73,21 @@ export interface MmrCalculationConfig {
   formulaValidationError?: string;
 }
 
+/**
+ * Server bookkeeping on saved settings
+ */
+export interface SettingsMetadata {
+  /**
+   * Increases with every save; sent back on save so concurrent edits are detected
+   */
+  revision: number;
+  updatedAt?: string;
+  /**
+   * Display name of the admin who saved this revision
+   */
+  updatedBy?: string;
+}
+
 /**
  * Main guild settings type
  */
@@ -65,5 +95,46 @@ export interface GuildSettingsType {
   bot_command_channels?: ChannelConfig[];
   register_command_channels?: ChannelConfig[];
   mmrCalculation?: MmrCalculationConfig;
+  rolePermissions?: RolePermissions;
+  _metadata?: SettingsMetadata;
 }
 
+/**
+ * One saved version of a guild's settings; history is returned newest first
+ */
+export interface SettingsRevision {
+  id: string;
+  guildId: string;
+  settings: GuildSettingsType;
+  userId: string;
+  createdAt: string;
+  user?: {
+    id: string;
+    username: string;
+    globalName: string | null;
+  };
+}
+
+/**
+ * Unsaved edits to a guild's settings, kept per guild
+ */
+export interface SettingsDraft {
+  settings: GuildSettingsType;
+  /**
+   * Saved settings the draft started from; its revision is checked on save
+   */
+  base: GuildSettingsType;
+  /**
+   * ISO timestamp of the last edit
+   */
+  updatedAt: string;
+}
+
+/**
+ * A save rejected because someone else saved first
+ */
+export interface SettingsConflict {
+  base: GuildSettingsType;
+  mine: GuildSettingsType;
+  theirs: GuildSettingsType;
+}
@@ -101,6 +101,21 @@ export interface TrackerSnapshot {
   foursGamesPlayed?: number;
 }
 
+/**
+ * Manual snapshot entry (admin); the server fills in id, trackerId and enteredBy
+ */
+export interface CreateTrackerSnapshotInput
+  extends Omit<TrackerSnapshot, 'id' | 'trackerId' | 'enteredBy' | 'capturedAt'> {
+  /**
+   * Guild whose admin permissions authorize the entry
+   */
+  guildId: string;
+  /**
+   * When the ratings were observed (default: now)
+   */
+  capturedAt?: string;
+}
+
 /**
  * Scraping status interface
  */
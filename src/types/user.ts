@@ -6,10 +6,10 @@
 export interface User {
   id: string;
   username: string;
-  discriminator?: string;
-  globalName?: string;
-  avatar?: string;
-  email?: string;
+  discriminator?: string | null;
+  globalName?: string | null;
+  avatar?: string | null;
+  email?: string | null;
   createdAt: string;
   updatedAt: string;
   lastLoginAt: string;
@@ -18,9 +18,9 @@ export interface User {
 export interface UserProfile {
   id: string;
   username: string;
-  globalName?: string;
-  avatar?: string;
-  email?: string;
+  globalName?: string | null;
+  avatar?: string | null;
+  email?: string | null;
 }
 
 export interface UserStats {
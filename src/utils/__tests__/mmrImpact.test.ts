@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import { MAX_HISTOGRAM_BUCKETS, mmrHistogram, summarizeMmrImpact } from '../mmrImpact';
+import type { MmrImpactEntry } from '../../lib/api/mmr-calculation';
+
+function entry(playerName: string, current: number | null, draft: number | null): MmrImpactEntry {
+  return {
+    trackerId: `tracker-${playerName}`,
+    userId: `user-${playerName}`,
+    playerName,
+    current,
+    currentError: current === null ? 'No playlist meets the minimum games played' : null,
+    draft,
+    draftError: draft === null ? 'No playlist meets the minimum games played' : null,
+  };
+}
+
+describe('mmrHistogram', () => {
+  it('should count saved and draft MMRs per range, including empty ranges in between', () => {
+    const histogram = mmrHistogram([entry('a', 1010, 1190), entry('b', 1340, null), entry('c', null, 1105)]);
+
+    expect(histogram).toEqual([
+      { label: '1000-1099', min: 1000, current: 1, draft: 0 },
+      { label: '1100-1199', min: 1100, current: 0, draft: 2 },
+      { label: '1200-1299', min: 1200, current: 0, draft: 0 },
+      { label: '1300-1399', min: 1300, current: 1, draft: 0 },
+    ]);
+  });
+
+  it('should widen the ranges to keep a wide spread within the bucket limit', () => {
+    const histogram = mmrHistogram([entry('a', 1000, 1500000), entry('b', 1200, 2000)]);
+
+    expect(histogram.length).toBeLessThanOrEqual(MAX_HISTOGRAM_BUCKETS);
+    expect(histogram[0]).toEqual({ label: '0-49999', min: 0, current: 2, draft: 1 });
+    expect(histogram[histogram.length - 1]).toEqual({ label: '1500000-1549999', min: 1500000, current: 0, draft: 1 });
+  });
+
+  it('should skip values that are not finite', () => {
+    expect(mmrHistogram([entry('a', 1010, Infinity)])).toEqual([{ label: '1000-1099', min: 1000, current: 1, draft: 0 }]);
+  });
+
+  it('should be empty when nobody is eligible', () => {
+    expect(mmrHistogram([entry('a', null, null)])).toEqual([]);
+  });
+});
+
+describe('summarizeMmrImpact', () => {
+  const entries = [
+    entry('alice', 1200, 1250),
+    entry('bob', 1400, 1300),
+    entry('carol', 1000, 1000),
+    entry('dave', 900, null),
+    entry('erin', null, 1100),
+  ];
+
+  it('should rank movers by absolute change and skip unchanged players', () => {
+    const summary = summarizeMmrImpact(entries);
+
+    expect(summary.movers.map(({ entry: { playerName }, delta }) => [playerName, delta])).toEqual([
+      ['bob', -100],
+      ['alice', 50],
+    ]);
+    expect(summary.changedCount).toBe(2);
+    expect(summary.averageDelta).toBeCloseTo(-50 / 3);
+  });
+
+  it('should list players whose eligibility changes', () => {
+    const summary = summarizeMmrImpact(entries);
+
+    expect(summary.newlyIneligible.map(({ playerName }) => playerName)).toEqual(['dave']);
+    expect(summary.newlyEligible.map(({ playerName }) => playerName)).toEqual(['erin']);
+  });
+
+  it('should limit the number of movers', () => {
+    expect(summarizeMmrImpact(entries, { moverCount: 1 }).movers).toHaveLength(1);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildSeasonHistory, buildSnapshotHistory, playlistsWithData } from '../ratingHistory';
+import { frontendFixtures } from '../../test/fixtures/member.fixtures';
+
+describe('ratingHistory', () => {
+  it('should order seasons oldest first and keep tooltip details per playlist', () => {
+    const seasons = [
+      frontendFixtures.createMockTrackerSeason({ id: 's14', seasonNumber: 14 }),
+      frontendFixtures.createMockTrackerSeason({
+        id: 's13',
+        seasonNumber: 13,
+        playlist2v2: frontendFixtures.createMockPlaylistData(1200, 150),
+      }),
+    ];
+
+    const rows = buildSeasonHistory(seasons);
+
+    expect(rows.map((row) => row.label)).toEqual(['S13', 'S14']);
+    expect(rows[0]['2v2']).toBe(1200);
+    expect(rows[0].details['2v2']).toEqual({
+      rating: 1200,
+      rank: 'Diamond II',
+      division: 'Division I',
+      matchesPlayed: 150,
+    });
+    expect(rows[1]['4v4']).toBeUndefined();
+  });
+
+  it('should leave playlists without a rating out of the row', () => {
+    const seasons = [
+      frontendFixtures.createMockTrackerSeason({
+        playlist1v1: frontendFixtures.createMockPlaylistData(1000, 0, { rating: null }),
+      }),
+    ];
+
+    const rows = buildSeasonHistory(seasons);
+
+    expect(rows[0]).not.toHaveProperty('1v1');
+    expect(playlistsWithData(rows)).toEqual(['2v2', '3v3']);
+  });
+
+  it('should build the snapshot timeline in capture order', () => {
+    const base = { trackerId: 'tracker_1', enteredBy: 'admin' };
+    const rows = buildSnapshotHistory([
+      { ...base, id: 'b', capturedAt: '2024-05-01T00:00:00Z', twos: 1400, twosGamesPlayed: 30 },
+      { ...base, id: 'a', capturedAt: '2024-03-01T00:00:00Z', twos: 1350, ones: 900 },
+    ]);
+
+    expect(rows.map((row) => row['2v2'])).toEqual([1350, 1400]);
+    expect(rows[0]['1v1']).toBe(900);
+    expect(rows[1].details['2v2']).toEqual({ rating: 1400, rank: null, division: null, matchesPlayed: 30 });
+    expect(playlistsWithData(rows)).toEqual(['1v1', '2v2']);
+  });
+});
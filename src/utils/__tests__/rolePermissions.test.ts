@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import { memberAccessChanges, memberPermissions, setRolePermission } from '../rolePermissions';
+import type { Member, RolePermissions } from '../../types';
+
+const player = { id: '222', name: 'Player' };
+const moderator = { id: '333', name: 'Moderator' };
+const guildId = '999';
+const everyone = { id: guildId, name: '@everyone' };
+
+const mapping: RolePermissions = {
+  view_stats: [player, moderator],
+  manage_teams: [moderator],
+};
+
+const member = (id: string, roles: string[]): Member => ({
+  id,
+  userId: id,
+  username: `user${id}`,
+  roles,
+  joinedAt: '2024-01-01T00:00:00Z',
+  user: { id, username: `user${id}` },
+});
+
+describe('setRolePermission', () => {
+  it('should grant a permission to a role', () => {
+    expect(setRolePermission(mapping, 'view_logs', moderator, true)).toEqual({ ...mapping, view_logs: [moderator] });
+  });
+
+  it('should not grant the same role twice', () => {
+    expect(setRolePermission(mapping, 'manage_teams', moderator, true).manage_teams).toEqual([moderator]);
+  });
+
+  it('should drop a permission once its last role is revoked', () => {
+    expect(setRolePermission(mapping, 'manage_teams', moderator, false)).toEqual({ view_stats: [player, moderator] });
+  });
+
+  it('should start a mapping when none is saved', () => {
+    expect(setRolePermission(undefined, 'view_stats', player, true)).toEqual({ view_stats: [player] });
+  });
+});
+
+describe('memberPermissions', () => {
+  it('should combine the permissions of every role in matrix order', () => {
+    expect(memberPermissions(member('1', ['111', '333']), mapping, guildId)).toEqual(['view_stats', 'manage_teams']);
+  });
+
+  it('should return nothing without a mapping', () => {
+    expect(memberPermissions(member('1', ['333']), undefined, guildId)).toEqual([]);
+  });
+
+  it('should grant @everyone permissions to members without any roles', () => {
+    expect(memberPermissions(member('1', []), { view_logs: [everyone] }, guildId)).toEqual(['view_logs']);
+  });
+});
+
+describe('memberAccessChanges', () => {
+  it('should list only members whose permissions change', () => {
+    const members = [member('1', ['222']), member('2', ['333']), member('3', ['111'])];
+    const next: RolePermissions = { view_stats: [player, moderator], manage_teams: [player] };
+
+    expect(memberAccessChanges(members, mapping, next, guildId)).toEqual([
+      { member: members[0], gained: ['manage_teams'], lost: [] },
+      { member: members[1], gained: [], lost: ['manage_teams'] },
+    ]);
+  });
+
+  it('should list every member when @everyone is granted a permission', () => {
+    const members = [member('1', []), member('2', ['333'])];
+    const next = setRolePermission(mapping, 'view_logs', everyone, true);
+
+    expect(memberAccessChanges(members, mapping, next, guildId)).toEqual([
+      { member: members[0], gained: ['view_logs'], lost: [] },
+      { member: members[1], gained: ['view_logs'], lost: [] },
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  channelListChange,
+  diffSettings,
+  formatSettingValue,
+  settingsPathLabel,
+  settingsWarnings,
+} from '../settingsDiff';
+import type { GuildSettingsType } from '../../types';
+
+const base: GuildSettingsType = {
+  bot_command_channels: [{ id: '1', name: 'bot-commands' }],
+  register_command_channels: [],
+  mmrCalculation: {
+    algorithm: 'WEIGHTED_AVERAGE',
+    weights: { ones: 0.1, twos: 0.3, threes: 0.5, fours: 0.1 },
+  },
+};
+
+describe('diffSettings', () => {
+  it('should report nothing for identical settings', () => {
+    expect(diffSettings(base, JSON.parse(JSON.stringify(base)))).toEqual([]);
+  });
+
+  it('should report each changed leaf with its path', () => {
+    const next: GuildSettingsType = {
+      ...base,
+      mmrCalculation: { ...base.mmrCalculation!, algorithm: 'PEAK_MMR', weights: { ...base.mmrCalculation!.weights, twos: 0.4 } },
+    };
+
+    expect(diffSettings(base, next)).toEqual([
+      { path: ['mmrCalculation', 'algorithm'], before: 'WEIGHTED_AVERAGE', after: 'PEAK_MMR' },
+      { path: ['mmrCalculation', 'weights', 'twos'], before: 0.3, after: 0.4 },
+    ]);
+  });
+
+  it('should compare channel lists as whole values', () => {
+    const next = { ...base, bot_command_channels: [...base.bot_command_channels!, { id: '2', name: 'general' }] };
+
+    expect(diffSettings(base, next)).toEqual([
+      {
+        path: ['bot_command_channels'],
+        before: base.bot_command_channels,
+        after: next.bot_command_channels,
+      },
+    ]);
+  });
+
+  it('should list the fields of an added object', () => {
+    const next = {
+      ...base,
+      mmrCalculation: { ...base.mmrCalculation!, ascendancyWeights: { current: 0.25, peak: 0.75 } },
+    };
+
+    expect(diffSettings(base, next).map(({ path }) => path.join('.'))).toEqual([
+      'mmrCalculation.ascendancyWeights.current',
+      'mmrCalculation.ascendancyWeights.peak',
+    ]);
+  });
+
+  it('should treat a missing value and undefined as equal and ignore _metadata', () => {
+    const next = { ...base, mmrCalculation: { ...base.mmrCalculation!, customFormula: undefined }, _metadata: { revision: 2 } };
+
+    expect(diffSettings(base, next)).toEqual([]);
+  });
+});
+
+describe('settingsPathLabel', () => {
+  it('should use readable labels', () => {
+    expect(settingsPathLabel(['mmrCalculation', 'weights', 'twos'])).toBe('MMR calculation › Weights › 2v2');
+  });
+});
+
+describe('formatSettingValue', () => {
+  it.each([
+    [undefined, '(not set)'],
+    [[], '(none)'],
+    [[{ id: '1', name: 'bot-commands' }, { id: '2', name: 'general' }], 'bot-commands, general'],
+    [0.3, '0.3'],
+    [false, 'false'],
+  ])('should format %p as %p', (value, expected) => {
+    expect(formatSettingValue(value)).toBe(expected);
+  });
+});
+
+describe('channelListChange', () => {
+  it('should split a channel list change into added and removed channels', () => {
+    const [change] = diffSettings(base, { ...base, bot_command_channels: [{ id: '2', name: 'general' }] });
+
+    expect(channelListChange(change)).toEqual({
+      added: [{ id: '2', name: 'general' }],
+      removed: [{ id: '1', name: 'bot-commands' }],
+    });
+  });
+
+  it('should treat a missing list as empty', () => {
+    const change = { path: ['register_command_channels'], before: undefined, after: [{ id: '3', name: 'register' }] };
+
+    expect(channelListChange(change)).toEqual({ added: [{ id: '3', name: 'register' }], removed: [] });
+  });
+
+  it('should ignore changes that are not channel lists', () => {
+    expect(channelListChange({ path: ['mmrCalculation', 'weights', 'ones'], before: 0.1, after: 0.2 })).toBeNull();
+  });
+});
+
+describe('settingsWarnings', () => {
+  const saved: GuildSettingsType = { ...base, register_command_channels: [{ id: '3', name: 'register' }] };
+
+  it('should warn when every register channel is removed', () => {
+    expect(settingsWarnings(saved, { ...saved, register_command_channels: [] }).map(({ path }) => path)).toEqual([
+      ['register_command_channels'],
+    ]);
+  });
+
+  it('should warn when the algorithm changes', () => {
+    const [warning] = settingsWarnings(saved, {
+      ...saved,
+      mmrCalculation: { ...saved.mmrCalculation!, algorithm: 'PEAK_MMR' },
+    });
+
+    expect(warning.message).toMatch(/from Weighted Average to Peak MMR/);
+  });
+
+  it('should not warn about weight changes or lists that were already empty', () => {
+    const next: GuildSettingsType = {
+      ...base,
+      mmrCalculation: { ...base.mmrCalculation!, weights: { ...base.mmrCalculation!.weights, ones: 0.2 } },
+    };
+
+    expect(settingsWarnings(base, next)).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyMerge, mergeSettings } from '../settingsMerge';
+import type { GuildSettingsType } from '../../types';
+
+const base: GuildSettingsType = {
+  bot_command_channels: [{ id: '1', name: 'bot-commands' }],
+  register_command_channels: [{ id: '3', name: 'register' }],
+  mmrCalculation: {
+    algorithm: 'WEIGHTED_AVERAGE',
+    weights: { ones: 0.1, twos: 0.3, threes: 0.5, fours: 0.1 },
+  },
+  _metadata: { revision: 4 },
+};
+
+const withWeights = (settings: GuildSettingsType, weights: Record<string, number>): GuildSettingsType => ({
+  ...settings,
+  mmrCalculation: { ...settings.mmrCalculation!, weights: { ...settings.mmrCalculation!.weights, ...weights } },
+});
+
+describe('mergeSettings', () => {
+  it('should take each side for fields only that side changed', () => {
+    const mine = withWeights(base, { twos: 0.4 });
+    const theirs = { ...base, register_command_channels: [], _metadata: { revision: 5 } };
+
+    expect(mergeSettings(base, mine, theirs).map(({ path, resolved }) => [path.join('.'), resolved])).toEqual([
+      ['mmrCalculation.weights.twos', 'mine'],
+      ['register_command_channels', 'theirs'],
+    ]);
+  });
+
+  it('should leave fields both sides changed differently unresolved', () => {
+    const mine = withWeights(base, { twos: 0.4 });
+    const theirs = withWeights(base, { twos: 0.2 });
+
+    expect(mergeSettings(base, mine, theirs)).toEqual([
+      { path: ['mmrCalculation', 'weights', 'twos'], base: 0.3, mine: 0.4, theirs: 0.2, resolved: null },
+    ]);
+  });
+
+  it('should resolve fields both sides changed the same way', () => {
+    const mine = withWeights(base, { twos: 0.4 });
+
+    expect(mergeSettings(base, mine, withWeights(base, { twos: 0.4 }))[0].resolved).toBe('theirs');
+  });
+});
+
+describe('applyMerge', () => {
+  const mine: GuildSettingsType = {
+    ...withWeights(base, { twos: 0.4, threes: 0.4 }),
+    mmrCalculation: { ...withWeights(base, { twos: 0.4, threes: 0.4 }).mmrCalculation!, customFormula: undefined },
+  };
+  const theirs: GuildSettingsType = {
+    ...withWeights(base, { threes: 0.6 }),
+    bot_command_channels: [],
+    _metadata: { revision: 5 },
+  };
+
+  it('should combine both sides on top of the latest revision', () => {
+    const fields = mergeSettings(base, mine, theirs);
+
+    expect(applyMerge(theirs, fields, { 'mmrCalculation.weights.threes': 'mine' })).toEqual({
+      ...withWeights(base, { twos: 0.4, threes: 0.4 }),
+      bot_command_channels: [],
+      _metadata: { revision: 5 },
+    });
+  });
+
+  it('should keep theirs for undecided conflicts', () => {
+    const fields = mergeSettings(base, mine, theirs);
+
+    expect(applyMerge(theirs, fields).mmrCalculation?.weights).toEqual({ ones: 0.1, twos: 0.4, threes: 0.6, fours: 0.1 });
+  });
+
+  it('should remove fields my side cleared', () => {
+    const saved = { ...base, mmrCalculation: { ...base.mmrCalculation!, minGamesPlayed: { ones: 10 } } };
+    const cleared = { ...saved, mmrCalculation: { ...base.mmrCalculation! } };
+
+    const merged = applyMerge(saved, mergeSettings(saved, cleared, saved));
+
+    expect(merged.mmrCalculation).not.toHaveProperty('minGamesPlayed');
+  });
+});
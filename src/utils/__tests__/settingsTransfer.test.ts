@@ -0,0 +1,120 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyChannelMappings,
+  createSettingsExport,
+  mapChannels,
+  parseSettingsExport,
+  settingsExportFilename,
+  SETTINGS_EXPORT_VERSION,
+} from '../settingsTransfer';
+import type { GuildSettingsType } from '../../types';
+import type { DiscordChannel } from '../../types/discord';
+
+const settings: GuildSettingsType = {
+  bot_command_channels: [
+    { id: '1', name: 'bot-commands' },
+    { id: '2', name: 'General' },
+  ],
+  register_command_channels: [{ id: '3', name: 'register' }],
+  mmrCalculation: {
+    algorithm: 'WEIGHTED_AVERAGE',
+    weights: { ones: 0.1, twos: 0.3, threes: 0.5, fours: 0.1 },
+  },
+};
+
+const targetChannels: DiscordChannel[] = [
+  { id: '10', name: 'Info', type: 4, parent_id: null },
+  { id: '1', name: 'bot-commands', type: 0, parent_id: '10' },
+  { id: '11', name: 'general', type: 0, parent_id: '10' },
+  { id: '12', name: 'register', type: 2, parent_id: '10' },
+];
+
+describe('createSettingsExport', () => {
+  it('should wrap settings in a versioned document without server metadata', () => {
+    const document = createSettingsExport(
+      { id: 'g1', name: 'Ascendancy League' },
+      { ...settings, _metadata: { revision: 1 } },
+      new Date('2024-05-20T18:30:00Z'),
+    );
+
+    expect(document).toEqual({
+      format: 'league-guild-settings',
+      version: SETTINGS_EXPORT_VERSION,
+      exportedAt: '2024-05-20T18:30:00.000Z',
+      source: { guildId: 'g1', guildName: 'Ascendancy League' },
+      settings,
+    });
+    expect(settingsExportFilename(document)).toBe('ascendancy-league-settings-2024-05-20.json');
+  });
+});
+
+describe('parseSettingsExport', () => {
+  const exported = createSettingsExport({ id: 'g1', name: 'Ascendancy League' }, settings);
+
+  it('should read back an exported document', () => {
+    const result = parseSettingsExport(JSON.stringify(exported));
+
+    expect(result).toEqual({ success: true, document: exported });
+  });
+
+  it.each([
+    ['invalid JSON', 'not json', 'File is not valid JSON'],
+    ['a document without the export format', JSON.stringify({ settings }), 'File is not a guild settings export'],
+    ['a non-numeric version', JSON.stringify({ ...exported, version: 'one' }), 'Export is missing a valid version'],
+    [
+      'a newer version',
+      JSON.stringify({ ...exported, version: SETTINGS_EXPORT_VERSION + 1 }),
+      `Export version ${SETTINGS_EXPORT_VERSION + 1} is newer than this dashboard supports (version ${SETTINGS_EXPORT_VERSION})`,
+    ],
+  ])('should reject %s', (_label, text, error) => {
+    expect(parseSettingsExport(text)).toEqual({ success: false, error });
+  });
+
+  it('should report where the settings are invalid', () => {
+    const text = JSON.stringify({ ...exported, settings: { mmrCalculation: { algorithm: 'MEDIAN' } } });
+
+    const result = parseSettingsExport(text);
+
+    expect(result.success).toBe(false);
+    expect(result.success === false && result.error).toMatch(/^Invalid settings at mmrCalculation\.algorithm/);
+  });
+});
+
+describe('mapChannels', () => {
+  it('should match by ID, then by name, and flag the rest', () => {
+    const mappings = mapChannels(settings, targetChannels);
+
+    expect(mappings.map(({ field, source, target, match }) => [field, source.name, target?.id ?? null, match])).toEqual([
+      ['bot_command_channels', 'bot-commands', '1', 'id'],
+      ['bot_command_channels', 'General', '11', 'name'],
+      // Voice channels can't receive commands, so "register" has no match
+      ['register_command_channels', 'register', null, 'missing'],
+    ]);
+  });
+});
+
+describe('applyChannelMappings', () => {
+  it('should replace channel lists with their targets and drop unmapped channels', () => {
+    const mappings = mapChannels(settings, targetChannels);
+
+    expect(applyChannelMappings(settings, mappings)).toEqual({
+      ...settings,
+      bot_command_channels: [
+        { id: '1', name: 'bot-commands' },
+        { id: '11', name: 'general' },
+      ],
+      register_command_channels: [],
+    });
+  });
+
+  it('should not duplicate a channel that two sources map to', () => {
+    const mappings = mapChannels(
+      { bot_command_channels: [{ id: '1', name: 'bot-commands' }, { id: '99', name: 'BOT-COMMANDS' }] },
+      targetChannels,
+    );
+
+    expect(applyChannelMappings({ bot_command_channels: [] }, mappings).bot_command_channels).toEqual([
+      { id: '1', name: 'bot-commands' },
+    ]);
+  });
+});
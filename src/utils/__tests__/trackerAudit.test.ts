@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+import { auditActorName, describeTrackerAuditLog } from '../trackerAudit';
+import { frontendFixtures } from '../../test/fixtures/member.fixtures';
+
+function trackerLog(eventType: string, changes: Record<string, unknown> = {}) {
+  return frontendFixtures.createMockAuditLog({ entityType: 'tracker', entityId: 'tracker_1', eventType, changes });
+}
+
+describe('trackerAudit', () => {
+  it('should describe display name edits and activation toggles', () => {
+    const log = trackerLog('TRACKER_UPDATED', {
+      displayName: { from: 'Main', to: 'Smurf' },
+      isActive: { from: true, to: false },
+    });
+
+    expect(describeTrackerAuditLog(log)).toEqual(['Renamed from "Main" to "Smurf"', 'Deactivated']);
+  });
+
+  it('should describe a first display name', () => {
+    const log = trackerLog('TRACKER_UPDATED', { displayName: { from: null, to: 'Main' } });
+
+    expect(describeTrackerAuditLog(log)).toEqual(['Set display name to "Main"']);
+  });
+
+  it('should describe deletion, restore and unknown events', () => {
+    expect(describeTrackerAuditLog(trackerLog('TRACKER_DELETED'))).toEqual(['Deleted']);
+    expect(describeTrackerAuditLog(trackerLog('TRACKER_RESTORED'))).toEqual(['Restored']);
+    expect(describeTrackerAuditLog(trackerLog('TRACKER_SCRAPE_FAILED'))).toEqual(['Tracker scrape failed']);
+  });
+
+  it('should prefer the global name for the actor', () => {
+    expect(auditActorName(trackerLog('TRACKER_DELETED'))).toBe('Test User');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from '@jest/globals';
+import { alignSeasons, findLeaders, parseTrackerIds } from '../trackerComparison';
+import { frontendFixtures } from '../../test/fixtures/member.fixtures';
+
+describe('trackerComparison', () => {
+  it('should parse, deduplicate and cap tracker IDs', () => {
+    expect(parseTrackerIds(null)).toEqual([]);
+    expect(parseTrackerIds(' a, b,,a ')).toEqual(['a', 'b']);
+    expect(parseTrackerIds('a,b,c,d,e')).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should line up seasons by number, newest first, with gaps as null', () => {
+    const first = [
+      frontendFixtures.createMockTrackerSeason({ id: 'a13', seasonNumber: 13, seasonName: null }),
+      frontendFixtures.createMockTrackerSeason({ id: 'a14', seasonNumber: 14 }),
+    ];
+    const second = [frontendFixtures.createMockTrackerSeason({ id: 'b14', seasonNumber: 14 })];
+
+    const rows = alignSeasons([first, second]);
+
+    expect(rows.map((row) => row.seasonName)).toEqual(['Season 14', 'Season 13']);
+    expect(rows[0].seasons.map((season) => season?.id)).toEqual(['a14', 'b14']);
+    expect(rows[1].seasons.map((season) => season?.id ?? null)).toEqual(['a13', null]);
+  });
+
+  it('should mark every tied leader and nobody when fewer than two have data', () => {
+    expect(findLeaders([1200, 1350, 1350, null])).toEqual([1, 2]);
+    expect(findLeaders([1200, undefined])).toEqual([]);
+  });
+});
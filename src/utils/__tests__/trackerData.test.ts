@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import { getTrackerData, latestSeason, parseMmrDataSource } from '../trackerData';
+import { frontendFixtures } from '../../test/fixtures/member.fixtures';
+
+describe('trackerData', () => {
+  const seasons = [
+    frontendFixtures.createMockTrackerSeason({ seasonNumber: 14 }),
+    frontendFixtures.createMockTrackerSeason({ seasonNumber: 12, playlist1v1: null }),
+  ];
+  const snapshot = (id: string, capturedAt: string, twos: number) => ({
+    id,
+    trackerId: 'tracker_1',
+    capturedAt,
+    enteredBy: 'admin',
+    twos,
+  });
+
+  it('should use the latest scraped season', () => {
+    const detail = { tracker: frontendFixtures.createMockTracker(), seasons };
+
+    expect(latestSeason(seasons)?.seasonNumber).toBe(14);
+    expect(getTrackerData(detail, 'scrape')).toEqual({
+      ones: 1050,
+      twos: 1320,
+      threes: 1275,
+      fours: undefined,
+      onesGamesPlayed: 40,
+      twosGamesPlayed: 180,
+      threesGamesPlayed: 220,
+      foursGamesPlayed: undefined,
+    });
+  });
+
+  it('should use the most recently captured snapshot', () => {
+    const tracker = frontendFixtures.createMockTracker({
+      snapshots: [snapshot('new', '2024-06-01T00:00:00Z', 1500), snapshot('old', '2024-01-01T00:00:00Z', 1100)],
+    });
+
+    expect(getTrackerData({ tracker, seasons }, 'snapshot')).toMatchObject({ twos: 1500, ones: undefined });
+  });
+
+  it('should return null when the source has no data', () => {
+    const tracker = frontendFixtures.createMockTracker();
+
+    expect(getTrackerData({ tracker, seasons }, 'snapshot')).toBeNull();
+    expect(getTrackerData({ tracker, seasons: [] }, 'scrape')).toBeNull();
+  });
+
+  it('should default unknown sources to the latest scrape', () => {
+    expect(parseMmrDataSource('snapshot')).toBe('snapshot');
+    expect(parseMmrDataSource('bogus')).toBe('scrape');
+    expect(parseMmrDataSource(null)).toBe('scrape');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { DEFAULT_DIRECTORY_FILTERS, filterTrackers, sortTrackers } from '../trackerDirectory';
+import { frontendFixtures } from '../../test/fixtures/member.fixtures';
+import type { Tracker } from '../../types/trackers';
+
+const NOW = new Date('2024-06-30T00:00:00Z').getTime();
+
+function tracker(overrides: Partial<Tracker>): Tracker {
+  return frontendFixtures.createMockTracker(overrides);
+}
+
+describe('trackerDirectory', () => {
+  const trackers = [
+    tracker({ id: 'fresh', username: 'alpha', platform: 'STEAM', lastScrapedAt: '2024-06-29T00:00:00Z' }),
+    tracker({ id: 'old', username: 'bravo', platform: 'EPIC', lastScrapedAt: '2024-05-01T00:00:00Z', scrapingStatus: 'FAILED' }),
+    tracker({ id: 'never', username: 'charlie', platform: 'STEAM', lastScrapedAt: null, isActive: false }),
+    tracker({ id: 'deleted', username: 'delta', platform: 'PSN', isDeleted: true, isActive: false }),
+  ];
+  const ids = (list: Tracker[]) => list.map((item) => item.id);
+
+  describe('filterTrackers', () => {
+    it('should hide deleted trackers by default', () => {
+      expect(ids(filterTrackers(trackers, DEFAULT_DIRECTORY_FILTERS, NOW))).toEqual(['fresh', 'old', 'never']);
+    });
+
+    it('should filter by lifecycle state', () => {
+      const filter = (state: typeof DEFAULT_DIRECTORY_FILTERS.state) =>
+        ids(filterTrackers(trackers, { ...DEFAULT_DIRECTORY_FILTERS, state }, NOW));
+
+      expect(filter('active')).toEqual(['fresh', 'old']);
+      expect(filter('inactive')).toEqual(['never']);
+      expect(filter('deleted')).toEqual(['deleted']);
+      expect(filter('all')).toHaveLength(4);
+    });
+
+    it('should treat never-scraped trackers as stale', () => {
+      const stale = filterTrackers(trackers, { ...DEFAULT_DIRECTORY_FILTERS, staleDays: 7 }, NOW);
+
+      expect(ids(stale)).toEqual(['old', 'never']);
+    });
+
+    it('should combine status and platform filters', () => {
+      expect(ids(filterTrackers(trackers, { ...DEFAULT_DIRECTORY_FILTERS, platform: 'STEAM' }, NOW))).toEqual([
+        'fresh',
+        'never',
+      ]);
+      expect(
+        ids(filterTrackers(trackers, { ...DEFAULT_DIRECTORY_FILTERS, status: 'FAILED', platform: 'STEAM' }, NOW)),
+      ).toEqual([]);
+    });
+  });
+
+  describe('sortTrackers', () => {
+    it('should sort by last scrape with never-scraped as the oldest', () => {
+      expect(ids(sortTrackers(trackers.slice(0, 3), { column: 'lastScrapedAt', direction: 'asc' }))).toEqual([
+        'never',
+        'old',
+        'fresh',
+      ]);
+    });
+
+    it('should sort text columns in either direction', () => {
+      expect(ids(sortTrackers(trackers, { column: 'tracker', direction: 'desc' }))).toEqual([
+        'deleted',
+        'never',
+        'old',
+        'fresh',
+      ]);
+      expect(ids(sortTrackers(trackers, { column: 'platform', direction: 'asc' }))).toEqual([
+        'old',
+        'deleted',
+        'fresh',
+        'never',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseTrackerUrl, validateTrackerUrl } from '../trackerValidation';
+
+const CANONICAL = 'https://rocketleague.tracker.network/rocket-league/profile';
+
+describe('trackerValidation', () => {
+  describe('parseTrackerUrl', () => {
+    it.each([
+      // [input, normalized URL, platform, username]
+      [`${CANONICAL}/steam/76561198051701160/overview`, `${CANONICAL}/steam/76561198051701160/overview`, 'steam', '76561198051701160'],
+      [`${CANONICAL}/steam/76561198051701160/overview/`, `${CANONICAL}/steam/76561198051701160/overview`, 'steam', '76561198051701160'],
+      [`  ${CANONICAL}/epic/PlayerOne/overview  `, `${CANONICAL}/epic/PlayerOne/overview`, 'epic', 'PlayerOne'],
+      [`${CANONICAL}/epic/PlayerOne/matches`, `${CANONICAL}/epic/PlayerOne/overview`, 'epic', 'PlayerOne'],
+      [`${CANONICAL}/epic/PlayerOne/sessions`, `${CANONICAL}/epic/PlayerOne/overview`, 'epic', 'PlayerOne'],
+      [`${CANONICAL}/epic/PlayerOne/mmr`, `${CANONICAL}/epic/PlayerOne/overview`, 'epic', 'PlayerOne'],
+      [`${CANONICAL}/epic/PlayerOne`, `${CANONICAL}/epic/PlayerOne/overview`, 'epic', 'PlayerOne'],
+      [`${CANONICAL}/epic/PlayerOne/overview?playlist=13`, `${CANONICAL}/epic/PlayerOne/overview`, 'epic', 'PlayerOne'],
+      [`${CANONICAL}/epic/PlayerOne/matches?season=14#top`, `${CANONICAL}/epic/PlayerOne/overview`, 'epic', 'PlayerOne'],
+      [`${CANONICAL}/epic/Player%20One/overview`, `${CANONICAL}/epic/Player%20One/overview`, 'epic', 'Player One'],
+      [`${CANONICAL}/epic/Player One/overview`, `${CANONICAL}/epic/Player%20One/overview`, 'epic', 'Player One'],
+      [`${CANONICAL}/psn/J%C3%BCrgen_99/overview`, `${CANONICAL}/psn/J%C3%BCrgen_99/overview`, 'psn', 'Jürgen_99'],
+      [`${CANONICAL}/STEAM/76561198051701160/OVERVIEW`, `${CANONICAL}/steam/76561198051701160/overview`, 'steam', '76561198051701160'],
+      [`${CANONICAL}/xbox/Gamer%20Tag/overview`, `${CANONICAL}/xbl/Gamer%20Tag/overview`, 'xbl', 'Gamer Tag'],
+      [`${CANONICAL}/playstation/psn_user/overview`, `${CANONICAL}/psn/psn_user/overview`, 'psn', 'psn_user'],
+      ['https://tracker.gg/rocket-league/profile/epic/PlayerOne/overview', `${CANONICAL}/epic/PlayerOne/overview`, 'epic', 'PlayerOne'],
+      ['https://www.tracker.gg/rocket-league/profile/switch/SwitchUser/matches', `${CANONICAL}/switch/SwitchUser/overview`, 'switch', 'SwitchUser'],
+      ['http://rocketleague.tracker.network/rocket-league/profile/steam/123/overview', `${CANONICAL}/steam/123/overview`, 'steam', '123'],
+      ['rocketleague.tracker.network/rocket-league/profile/steam/123/overview', `${CANONICAL}/steam/123/overview`, 'steam', '123'],
+      ['tracker.gg/rocket-league/profile/epic/PlayerOne', `${CANONICAL}/epic/PlayerOne/overview`, 'epic', 'PlayerOne'],
+    ])('should normalize %s', (input, normalizedUrl, platform, username) => {
+      const result = parseTrackerUrl(input);
+
+      expect(result).toMatchObject({ isValid: true, normalizedUrl, platform, username });
+      // The canonical form always passes the backend's strict check
+      expect(validateTrackerUrl(normalizedUrl).isValid).toBe(true);
+    });
+
+    it.each([
+      ['', 'URL is required'],
+      ['   ', 'URL is required'],
+      ['not a url', 'Invalid URL format'],
+      ['ftp://rocketleague.tracker.network/rocket-league/profile/steam/123/overview', 'Invalid URL format'],
+      ['https://example.com/rocket-league/profile/steam/123/overview', 'URL must be from rocketleague.tracker.network or tracker.gg'],
+      ['https://tracker.gg/valorant/profile/riot/Player%231234/overview', 'Invalid URL format'],
+      [`${CANONICAL}/steam`, 'Invalid URL format'],
+      [`${CANONICAL}/steam/123/overview/extra`, 'Invalid URL format'],
+      [`${CANONICAL}/stadia/123/overview`, 'Unsupported platform: stadia'],
+      [`${CANONICAL}/steam/123/weapons`, 'Unsupported tracker page: /weapons'],
+      [`${CANONICAL}/epic/%E0%A4%A/overview`, 'Invalid username format in tracker URL'],
+      [`${CANONICAL}/epic/%20/overview`, 'Invalid username format in tracker URL'],
+    ])('should reject %j', (input, error) => {
+      const result = parseTrackerUrl(input);
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain(error);
+      expect(result.normalizedUrl).toBeUndefined();
+    });
+
+    it('should report nothing for a canonical URL', () => {
+      expect(parseTrackerUrl(`${CANONICAL}/steam/123/overview`).changes).toEqual([]);
+    });
+
+    it('should describe every change it made', () => {
+      const result = parseTrackerUrl('http://www.tracker.gg/rocket-league/profile/Xbox/Gamer Tag/sessions?x=1#y');
+
+      expect(result.changes).toEqual([
+        'Switched to https',
+        'Changed www.tracker.gg to rocketleague.tracker.network',
+        'Changed platform "Xbox" to "xbl"',
+        'Replaced /sessions with /overview',
+        'Removed query string',
+        'Removed #fragment',
+      ]);
+    });
+
+    it('should flag cosmetic-only differences', () => {
+      expect(parseTrackerUrl(`${CANONICAL}/steam/123/Overview`).changes).toEqual(['Normalized URL format']);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * MMR Impact Utility
+ * Summarises how a draft MMR configuration would move a guild's players
+ * compared to the saved one.
+ */
+
+import type { MmrImpactEntry } from '../lib/api/mmr-calculation.ts';
+
+export const DEFAULT_BUCKET_SIZE = 100;
+export const DEFAULT_MOVER_COUNT = 10;
+
+/**
+ * How many players land in one MMR range under each configuration
+ */
+export interface MmrHistogramBucket {
+  label: string;
+  min: number;
+  current: number;
+  draft: number;
+}
+
+export interface MmrMover {
+  entry: MmrImpactEntry;
+  current: number;
+  draft: number;
+  delta: number;
+}
+
+export interface MmrImpactSummary {
+  histogram: MmrHistogramBucket[];
+  /**
+   * Players eligible under both configurations, biggest absolute change first
+   */
+  movers: MmrMover[];
+  changedCount: number;
+  /**
+   * Mean draft minus saved MMR over players eligible under both
+   */
+  averageDelta: number;
+  newlyIneligible: MmrImpactEntry[];
+  newlyEligible: MmrImpactEntry[];
+}
+
+/**
+ * Most ranges the histogram shows; wider spreads get wider ranges
+ */
+export const MAX_HISTOGRAM_BUCKETS = 50;
+
+// Range widths grow 1x, 2x, 5x, 10x, 20x, 50x... the requested size
+const WIDTH_STEPS = [2, 2.5, 2];
+
+function histogramBucketSize(lowest: number, highest: number, bucketSize: number): number {
+  let size = bucketSize;
+  for (let step = 0; Math.floor(highest / size) - Math.floor(lowest / size) + 1 > MAX_HISTOGRAM_BUCKETS; step++) {
+    size *= WIDTH_STEPS[step % WIDTH_STEPS.length];
+  }
+  return size;
+}
+
+/**
+ * Count saved and draft MMRs per fixed-width range, skipping ineligible players.
+ * Ranges are widened from `bucketSize` so there are never more than MAX_HISTOGRAM_BUCKETS.
+ */
+export function mmrHistogram(entries: MmrImpactEntry[], bucketSize: number = DEFAULT_BUCKET_SIZE): MmrHistogramBucket[] {
+  const isCounted = (value: number | null): value is number => value !== null && Number.isFinite(value);
+  const values = entries.flatMap((entry) => [entry.current, entry.draft]).filter(isCounted);
+  if (values.length === 0) return [];
+
+  const lowest = Math.min(...values);
+  const highest = Math.max(...values);
+  const size = histogramBucketSize(lowest, highest, bucketSize);
+  const first = Math.floor(lowest / size) * size;
+  const last = Math.floor(highest / size) * size;
+  const buckets: MmrHistogramBucket[] = [];
+  for (let min = first; min <= last; min += size) {
+    buckets.push({ label: `${min}-${min + size - 1}`, min, current: 0, draft: 0 });
+  }
+
+  const bucketOf = (value: number) => buckets[Math.floor(value / size) - first / size];
+  entries.forEach((entry) => {
+    if (isCounted(entry.current)) bucketOf(entry.current).current++;
+    if (isCounted(entry.draft)) bucketOf(entry.draft).draft++;
+  });
+  return buckets;
+}
+
+export function summarizeMmrImpact(
+  entries: MmrImpactEntry[],
+  { bucketSize = DEFAULT_BUCKET_SIZE, moverCount = DEFAULT_MOVER_COUNT } = {},
+): MmrImpactSummary {
+  const compared = entries.flatMap((entry): MmrMover[] =>
+    entry.current !== null && entry.draft !== null
+      ? [{ entry, current: entry.current, draft: entry.draft, delta: entry.draft - entry.current }]
+      : [],
+  );
+  const totalDelta = compared.reduce((sum, mover) => sum + mover.delta, 0);
+
+  return {
+    histogram: mmrHistogram(entries, bucketSize),
+    movers: compared
+      .filter((mover) => mover.delta !== 0)
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.entry.playerName.localeCompare(b.entry.playerName))
+      .slice(0, moverCount),
+    changedCount: compared.filter((mover) => mover.delta !== 0).length,
+    averageDelta: compared.length > 0 ? totalDelta / compared.length : 0,
+    newlyIneligible: entries.filter((entry) => entry.current !== null && entry.draft === null),
+    newlyEligible: entries.filter((entry) => entry.current === null && entry.draft !== null),
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Rating History Utility
+ * Shapes tracker seasons and snapshots into chart rows, one row per season or
+ * snapshot with one column per playlist.
+ */
+
+import type { PlaylistData, TrackerSeason, TrackerSnapshot } from '../types/trackers.ts';
+
+export type Playlist = '1v1' | '2v2' | '3v3' | '4v4';
+
+export const PLAYLISTS: readonly Playlist[] = ['1v1', '2v2', '3v3', '4v4'];
+
+const SEASON_KEYS = {
+  '1v1': 'playlist1v1',
+  '2v2': 'playlist2v2',
+  '3v3': 'playlist3v3',
+  '4v4': 'playlist4v4',
+} as const satisfies Record<Playlist, keyof TrackerSeason>;
+
+const SNAPSHOT_KEYS = {
+  '1v1': { rating: 'ones', matches: 'onesGamesPlayed' },
+  '2v2': { rating: 'twos', matches: 'twosGamesPlayed' },
+  '3v3': { rating: 'threes', matches: 'threesGamesPlayed' },
+  '4v4': { rating: 'fours', matches: 'foursGamesPlayed' },
+} as const satisfies Record<Playlist, { rating: keyof TrackerSnapshot; matches: keyof TrackerSnapshot }>;
+
+/**
+ * One playlist's result in a season or snapshot
+ */
+export interface PlaylistPoint {
+  rating: number;
+  rank: string | null;
+  division: string | null;
+  matchesPlayed: number | null;
+}
+
+/**
+ * A chart row; playlist columns hold the rating so recharts can plot them
+ * directly, `details` keeps the rest for the tooltip
+ */
+export interface RatingHistoryRow extends Partial<Record<Playlist, number>> {
+  label: string;
+  details: Partial<Record<Playlist, PlaylistPoint>>;
+}
+
+function toPoint(data: PlaylistData | null): PlaylistPoint | null {
+  if (!data || data.rating === null) return null;
+  return {
+    rating: data.rating,
+    rank: data.rank,
+    division: data.division,
+    matchesPlayed: data.matchesPlayed,
+  };
+}
+
+/**
+ * Rows for the season chart, oldest season first
+ */
+export function buildSeasonHistory(seasons: TrackerSeason[]): RatingHistoryRow[] {
+  return [...seasons]
+    .sort((a, b) => a.seasonNumber - b.seasonNumber)
+    .map((season) => {
+      const row: RatingHistoryRow = { label: `S${season.seasonNumber}`, details: {} };
+      PLAYLISTS.forEach((playlist) => {
+        const point = toPoint(season[SEASON_KEYS[playlist]]);
+        if (point) {
+          row[playlist] = point.rating;
+          row.details[playlist] = point;
+        }
+      });
+      return row;
+    });
+}
+
+/**
+ * Rows for the snapshot timeline, oldest capture first.
+ * Snapshots carry no rank, so only rating and matches are filled in.
+ */
+export function buildSnapshotHistory(snapshots: TrackerSnapshot[]): RatingHistoryRow[] {
+  return [...snapshots]
+    .sort((a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime())
+    .map((snapshot) => {
+      const row: RatingHistoryRow = { label: new Date(snapshot.capturedAt).toLocaleDateString(), details: {} };
+      PLAYLISTS.forEach((playlist) => {
+        const keys = SNAPSHOT_KEYS[playlist];
+        const rating = snapshot[keys.rating];
+        if (rating === undefined) return;
+        row[playlist] = rating;
+        row.details[playlist] = {
+          rating,
+          rank: null,
+          division: null,
+          matchesPlayed: snapshot[keys.matches] ?? null,
+        };
+      });
+      return row;
+    });
+}
+
+/**
+ * Playlists with at least one data point, in display order
+ */
+export function playlistsWithData(rows: RatingHistoryRow[]): Playlist[] {
+  return PLAYLISTS.filter((playlist) => rows.some((row) => row[playlist] !== undefined));
+}
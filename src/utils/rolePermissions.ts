@@ -0,0 +1,90 @@
+/**
+ * Role Permissions Utility
+ * Grants league permissions to Discord roles and works out who gains or loses access.
+ */
+
+import type { Permission } from '../types/permissions.ts';
+import type { RoleConfig, RolePermissions } from '../types/settings.ts';
+import type { Member } from '../types/guild.ts';
+
+/**
+ * Every permission, in the order they are listed in the matrix
+ */
+export const PERMISSIONS: Permission[] = [
+  'view_stats',
+  'view_logs',
+  'manage_teams',
+  'manage_tournaments',
+  'create_leagues',
+  'manage_roles',
+];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  create_leagues: 'Create leagues',
+  manage_teams: 'Manage teams',
+  view_stats: 'View stats',
+  manage_tournaments: 'Manage tournaments',
+  manage_roles: 'Manage roles',
+  view_logs: 'View logs',
+};
+
+export interface MemberAccessChange {
+  member: Member;
+  gained: Permission[];
+  lost: Permission[];
+}
+
+export function hasRolePermission(mapping: RolePermissions | undefined, permission: Permission, roleId: string): boolean {
+  return (mapping?.[permission] ?? []).some((role) => role.id === roleId);
+}
+
+/**
+ * Grant or revoke one permission for one role; permissions left without roles are dropped
+ */
+export function setRolePermission(
+  mapping: RolePermissions | undefined,
+  permission: Permission,
+  role: RoleConfig,
+  granted: boolean,
+): RolePermissions {
+  const roles = (mapping?.[permission] ?? []).filter(({ id }) => id !== role.id);
+  const next = granted ? [...roles, { id: role.id, name: role.name }] : roles;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { [permission]: _removed, ...rest } = mapping ?? {};
+  return next.length > 0 ? { ...rest, [permission]: next } : rest;
+}
+
+/**
+ * Permissions a member holds through their roles, in matrix order
+ * Every member holds @everyone, whose role ID is the guild ID, without it being listed in their roles.
+ */
+export function memberPermissions(
+  member: Pick<Member, 'roles'>,
+  mapping: RolePermissions | undefined,
+  guildId: string,
+): Permission[] {
+  const roleIds = [guildId, ...member.roles];
+  return PERMISSIONS.filter((permission) => roleIds.some((roleId) => hasRolePermission(mapping, permission, roleId)));
+}
+
+/**
+ * Members whose permissions differ between two mappings
+ */
+export function memberAccessChanges(
+  members: Member[],
+  before: RolePermissions | undefined,
+  after: RolePermissions | undefined,
+  guildId: string,
+): MemberAccessChange[] {
+  return members
+    .map((member) => {
+      const previous = memberPermissions(member, before, guildId);
+      const next = memberPermissions(member, after, guildId);
+      return {
+        member,
+        gained: next.filter((permission) => !previous.includes(permission)),
+        lost: previous.filter((permission) => !next.includes(permission)),
+      };
+    })
+    .filter(({ gained, lost }) => gained.length > 0 || lost.length > 0);
+}
@@ -0,0 +1,161 @@
+/**
+ * Settings Diff Utility
+ * Structured, field-level differences between two versions of guild settings.
+ */
+
+import { PERMISSION_LABELS } from './rolePermissions.ts';
+import type { ChannelConfig, GuildSettingsType } from '../types/settings.ts';
+
+export interface SettingsChange {
+  /**
+   * Keys from the settings root down to the changed value
+   */
+  path: string[];
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * A change worth confirming twice, e.g. one that disables a command or moves every player's MMR
+ */
+export interface SettingsWarning {
+  path: string[];
+  message: string;
+}
+
+export interface ChannelListChange {
+  added: ChannelConfig[];
+  removed: ChannelConfig[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  bot_command_channels: 'Bot command channels',
+  register_command_channels: 'Register command channels',
+  mmrCalculation: 'MMR calculation',
+  algorithm: 'Algorithm',
+  weights: 'Weights',
+  minGamesPlayed: 'Minimum games played',
+  customFormula: 'Custom formula',
+  ascendancyWeights: 'Ascendancy weights',
+  current: 'Current',
+  peak: 'Peak',
+  formulaValidated: 'Formula validated',
+  formulaValidationError: 'Formula validation error',
+  ones: '1v1',
+  twos: '2v2',
+  threes: '3v3',
+  fours: '4v4',
+  rolePermissions: 'Role permissions',
+  ...PERMISSION_LABELS,
+};
+
+// Server bookkeeping, not a setting
+const IGNORED_KEYS = new Set(['_metadata']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Every leaf that differs between two settings objects. Objects are compared
+ * key by key; arrays and primitives are compared as whole values.
+ */
+export function diffSettings(before: unknown, after: unknown, path: string[] = []): SettingsChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter((key) => !IGNORED_KEYS.has(key))
+      .sort();
+    return keys.flatMap((key) => diffSettings(before[key], after[key], [...path, key]));
+  }
+  if (isPlainObject(before) || isPlainObject(after)) {
+    // An object appeared or disappeared, so list its fields individually
+    return diffSettings(isPlainObject(before) ? before : {}, isPlainObject(after) ? after : {}, path);
+  }
+  return isEqual(before ?? null, after ?? null) ? [] : [{ path, before, after }];
+}
+
+/**
+ * Human-readable field path, e.g. "MMR calculation › Weights › 2v2"
+ */
+export function settingsPathLabel(path: string[]): string {
+  return path.map((key) => FIELD_LABELS[key] ?? key).join(' › ');
+}
+
+/**
+ * Display form of a settings value; channel lists show channel names
+ */
+export function formatSettingValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(not set)';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '(none)';
+    return value
+      .map((item) => (isPlainObject(item) ? `${item.name ?? item.id ?? JSON.stringify(item)}` : String(item)))
+      .join(', ');
+  }
+  if (isPlainObject(value)) return JSON.stringify(value);
+  return String(value);
+}
+
+function isChannelList(value: unknown): value is ChannelConfig[] {
+  return Array.isArray(value) && value.every((item) => isPlainObject(item) && typeof item.id === 'string');
+}
+
+/**
+ * Channels added and removed by a channel list change, or null when the change isn't between channel lists
+ */
+export function channelListChange(change: SettingsChange): ChannelListChange | null {
+  const before = change.before ?? [];
+  const after = change.after ?? [];
+  if (!isChannelList(before) || !isChannelList(after)) return null;
+
+  const beforeIds = new Set(before.map((channel) => channel.id));
+  const afterIds = new Set(after.map((channel) => channel.id));
+  return {
+    added: after.filter((channel) => !beforeIds.has(channel.id)),
+    removed: before.filter((channel) => !afterIds.has(channel.id)),
+  };
+}
+
+const ALGORITHM_NAMES: Record<string, string> = {
+  WEIGHTED_AVERAGE: 'Weighted Average',
+  PEAK_MMR: 'Peak MMR',
+  ASCENDANCY: 'Ascendancy',
+  CUSTOM: 'Custom Formula',
+};
+
+/**
+ * Destructive changes between saved settings and a draft
+ */
+export function settingsWarnings(before: GuildSettingsType, after: GuildSettingsType): SettingsWarning[] {
+  const warnings: SettingsWarning[] = [];
+
+  if ((before.register_command_channels ?? []).length > 0 && (after.register_command_channels ?? []).length === 0) {
+    warnings.push({
+      path: ['register_command_channels'],
+      message: 'Removes every register command channel, so /register falls back to the bot command channels.',
+    });
+  }
+  if ((before.bot_command_channels ?? []).length > 0 && (after.bot_command_channels ?? []).length === 0) {
+    warnings.push({
+      path: ['bot_command_channels'],
+      message: 'Removes every bot command channel, so the bot listens for commands in all channels.',
+    });
+  }
+
+  const beforeAlgorithm = before.mmrCalculation?.algorithm;
+  const afterAlgorithm = after.mmrCalculation?.algorithm;
+  if (beforeAlgorithm && afterAlgorithm && beforeAlgorithm !== afterAlgorithm) {
+    warnings.push({
+      path: ['mmrCalculation', 'algorithm'],
+      message: `Switches the MMR algorithm from ${ALGORITHM_NAMES[beforeAlgorithm] ?? beforeAlgorithm} to ${
+        ALGORITHM_NAMES[afterAlgorithm] ?? afterAlgorithm
+      }, which recalculates every player's MMR.`,
+    });
+  }
+
+  return warnings;
+}
@@ -0,0 +1,93 @@
+/**
+ * Settings Merge Utility
+ * Field-level three-way merge of guild settings when a save collides with someone else's.
+ */
+
+import { diffSettings } from './settingsDiff.ts';
+import type { GuildSettingsType } from '../types/settings.ts';
+
+export type MergeSide = 'mine' | 'theirs';
+
+export interface MergeField {
+  path: string[];
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  /**
+   * Side taken automatically, or null when both sides changed the field differently
+   */
+  resolved: MergeSide | null;
+}
+
+export const mergeFieldKey = (field: Pick<MergeField, 'path'>) => field.path.join('.');
+
+function valueAt(settings: unknown, path: string[]): unknown {
+  let value = settings;
+  for (const key of path) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function withValueAt(settings: unknown, path: string[], value: unknown): Record<string, unknown> {
+  const [key, ...rest] = path;
+  const object = typeof settings === 'object' && settings !== null ? { ...(settings as Record<string, unknown>) } : {};
+  const next = rest.length === 0 ? value : withValueAt(object[key], rest, value);
+  // Clearing the last field of a nested object clears the object too
+  const emptied = rest.length > 0 && value === undefined && Object.keys(next as object).length === 0;
+  if (next === undefined || emptied) {
+    delete object[key];
+  } else {
+    object[key] = next;
+  }
+  return object;
+}
+
+/**
+ * Every field changed on either side since `base`. A field changed on one side only,
+ * or changed the same way on both, resolves itself; the rest need a decision.
+ */
+export function mergeSettings(
+  base: GuildSettingsType,
+  mine: GuildSettingsType,
+  theirs: GuildSettingsType,
+): MergeField[] {
+  const mineChanges = diffSettings(base, mine);
+  const theirChanges = diffSettings(base, theirs);
+  const changedByMe = new Set(mineChanges.map(mergeFieldKey));
+  const changedByThem = new Set(theirChanges.map(mergeFieldKey));
+
+  const paths = new Map<string, string[]>();
+  for (const change of [...mineChanges, ...theirChanges]) {
+    paths.set(mergeFieldKey(change), change.path);
+  }
+
+  return [...paths.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, path]) => {
+      const field = { path, base: valueAt(base, path), mine: valueAt(mine, path), theirs: valueAt(theirs, path) };
+      let resolved: MergeSide | null = null;
+      if (!changedByMe.has(key) || diffSettings(field.mine, field.theirs).length === 0) {
+        resolved = 'theirs';
+      } else if (!changedByThem.has(key)) {
+        resolved = 'mine';
+      }
+      return { ...field, resolved };
+    });
+}
+
+/**
+ * Build merged settings on top of `theirs`, so the result carries the latest revision.
+ * `choices` decides conflicting fields (and may override resolved ones); undecided conflicts keep theirs.
+ */
+export function applyMerge(
+  theirs: GuildSettingsType,
+  fields: MergeField[],
+  choices: Record<string, MergeSide> = {},
+): GuildSettingsType {
+  return fields.reduce<GuildSettingsType>((merged, field) => {
+    const side = choices[mergeFieldKey(field)] ?? field.resolved;
+    return side === 'mine' ? (withValueAt(merged, field.path, field.mine) as GuildSettingsType) : merged;
+  }, theirs);
+}
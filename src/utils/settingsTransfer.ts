@@ -0,0 +1,194 @@
+/**
+ * Settings Transfer Utility
+ * Versioned export documents for guild settings, and channel remapping when
+ * settings are moved into another guild.
+ */
+
+import { safeParse } from '../lib/api/schema.ts';
+import { guildSettingsSchema } from '../lib/api/schemas.ts';
+import type { ChannelConfig, GuildSettingsType } from '../types/settings.ts';
+import type { DiscordChannel } from '../types/discord.ts';
+
+export const SETTINGS_EXPORT_FORMAT = 'league-guild-settings';
+export const SETTINGS_EXPORT_VERSION = 1;
+
+export interface SettingsExport {
+  format: typeof SETTINGS_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: {
+    guildId: string;
+    guildName: string;
+  };
+  settings: GuildSettingsType;
+}
+
+export type ParseSettingsExportResult =
+  | { success: true; document: SettingsExport }
+  | { success: false; error: string };
+
+export type ChannelField = 'bot_command_channels' | 'register_command_channels';
+
+export const CHANNEL_FIELDS: ChannelField[] = ['bot_command_channels', 'register_command_channels'];
+
+/**
+ * How a source channel was found in the target guild; `missing` needs a decision before import
+ */
+export type ChannelMatch = 'id' | 'name' | 'missing';
+
+export interface ChannelMapping {
+  field: ChannelField;
+  source: ChannelConfig;
+  /**
+   * Channel in the target guild, or null to leave the channel out
+   */
+  target: ChannelConfig | null;
+  match: ChannelMatch;
+}
+
+// Discord channel types the bot can listen in: 0 = GUILD_TEXT, 5 = GUILD_ANNOUNCEMENT
+const SELECTABLE_CHANNEL_TYPES = new Set([0, 5]);
+
+// Only these keys are copied between guilds; role grants name roles that only exist in the source guild
+const SETTINGS_KEYS: Array<keyof GuildSettingsType> = ['bot_command_channels', 'register_command_channels', 'mmrCalculation'];
+
+function pickSettings(settings: GuildSettingsType): GuildSettingsType {
+  const picked: GuildSettingsType = {};
+  for (const key of SETTINGS_KEYS) {
+    if (settings[key] !== undefined) {
+      Object.assign(picked, { [key]: settings[key] });
+    }
+  }
+  return picked;
+}
+
+/**
+ * Channels that can be picked for command settings
+ */
+export function selectableChannels(channels: DiscordChannel[]): DiscordChannel[] {
+  return channels.filter((channel) => SELECTABLE_CHANNEL_TYPES.has(channel.type));
+}
+
+/**
+ * Wrap a guild's settings in a versioned export document
+ */
+export function createSettingsExport(
+  source: { id: string; name: string },
+  settings: GuildSettingsType,
+  exportedAt: Date = new Date(),
+): SettingsExport {
+  return {
+    format: SETTINGS_EXPORT_FORMAT,
+    version: SETTINGS_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    source: { guildId: source.id, guildName: source.name },
+    settings: pickSettings(settings),
+  };
+}
+
+/**
+ * File name for a downloaded export, e.g. "ascendancy-league-settings-2024-05-20.json"
+ */
+export function settingsExportFilename(document: SettingsExport): string {
+  const slug = document.source.guildName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'guild'}-settings-${document.exportedAt.slice(0, 10)}.json`;
+}
+
+/**
+ * Read an export document from file contents; settings are validated but channels are not remapped
+ */
+export function parseSettingsExport(text: string): ParseSettingsExportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'File is not valid JSON' };
+  }
+
+  const document = data as Partial<SettingsExport> | null;
+  if (typeof document !== 'object' || document === null || document.format !== SETTINGS_EXPORT_FORMAT) {
+    return { success: false, error: 'File is not a guild settings export' };
+  }
+  if (typeof document.version !== 'number' || !Number.isInteger(document.version) || document.version < 1) {
+    return { success: false, error: 'Export is missing a valid version' };
+  }
+  if (document.version > SETTINGS_EXPORT_VERSION) {
+    return {
+      success: false,
+      error: `Export version ${document.version} is newer than this dashboard supports (version ${SETTINGS_EXPORT_VERSION})`,
+    };
+  }
+
+  const parsed = safeParse(guildSettingsSchema, document.settings);
+  if (parsed.success === false) {
+    const [issue] = parsed.issues;
+    return {
+      success: false,
+      error: `Invalid settings at ${issue.path}: expected ${issue.expected}, got ${issue.received}`,
+    };
+  }
+
+  return {
+    success: true,
+    document: {
+      format: SETTINGS_EXPORT_FORMAT,
+      version: document.version,
+      exportedAt: typeof document.exportedAt === 'string' ? document.exportedAt : '',
+      source: {
+        guildId: document.source?.guildId ?? '',
+        guildName: document.source?.guildName ?? 'Unknown guild',
+      },
+      settings: pickSettings(parsed.data),
+    },
+  };
+}
+
+/**
+ * Find each configured channel in the target guild, first by ID and then by name
+ * (case-insensitive). Channels found in neither way are flagged as `missing`.
+ */
+export function mapChannels(settings: GuildSettingsType, targetChannels: DiscordChannel[]): ChannelMapping[] {
+  const selectable = selectableChannels(targetChannels);
+  const byId = new Map(selectable.map((channel) => [channel.id, channel]));
+  const byName = new Map<string, DiscordChannel>();
+  for (const channel of selectable) {
+    const name = channel.name.toLowerCase();
+    if (!byName.has(name)) byName.set(name, channel);
+  }
+
+  return CHANNEL_FIELDS.flatMap((field) =>
+    (settings[field] ?? []).map((source): ChannelMapping => {
+      const sameId = byId.get(source.id);
+      if (sameId) {
+        return { field, source, target: { id: sameId.id, name: sameId.name }, match: 'id' };
+      }
+      const sameName = byName.get(source.name.toLowerCase());
+      if (sameName) {
+        return { field, source, target: { id: sameName.id, name: sameName.name }, match: 'name' };
+      }
+      return { field, source, target: null, match: 'missing' };
+    }),
+  );
+}
+
+/**
+ * Replace the channel lists in `settings` with their mapped targets, leaving out
+ * channels mapped to nothing and duplicates created by remapping
+ */
+export function applyChannelMappings(settings: GuildSettingsType, mappings: ChannelMapping[]): GuildSettingsType {
+  const result: GuildSettingsType = { ...settings };
+  for (const field of CHANNEL_FIELDS) {
+    if (settings[field] === undefined) continue;
+    const channels: ChannelConfig[] = [];
+    for (const mapping of mappings) {
+      if (mapping.field !== field || !mapping.target) continue;
+      if (channels.some((channel) => channel.id === mapping.target?.id)) continue;
+      channels.push(mapping.target);
+    }
+    result[field] = channels;
+  }
+  return result;
+}
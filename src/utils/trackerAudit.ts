@@ -0,0 +1,60 @@
+/**
+ * Tracker Audit Utility
+ * Turns tracker audit log entries into readable change history lines.
+ */
+
+import type { AuditLog } from '../types/permissions.ts';
+
+interface FieldChange {
+  from?: unknown;
+  to?: unknown;
+}
+
+function fieldChange(changes: AuditLog['changes'], field: string): FieldChange | null {
+  const value = changes?.[field];
+  return value && typeof value === 'object' ? (value as FieldChange) : null;
+}
+
+function humanizeEventType(eventType: string): string {
+  const words = eventType.toLowerCase().split('_').join(' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Describe what a tracker audit entry changed, one line per change
+ */
+export function describeTrackerAuditLog(log: AuditLog): string[] {
+  switch (log.eventType) {
+    case 'TRACKER_UPDATED': {
+      const lines: string[] = [];
+      const displayName = fieldChange(log.changes, 'displayName');
+      if (displayName) {
+        lines.push(
+          displayName.from
+            ? `Renamed from "${String(displayName.from)}" to "${String(displayName.to ?? '')}"`
+            : `Set display name to "${String(displayName.to ?? '')}"`,
+        );
+      }
+      const isActive = fieldChange(log.changes, 'isActive');
+      if (isActive) {
+        lines.push(isActive.to ? 'Activated' : 'Deactivated');
+      }
+      return lines.length > 0 ? lines : ['Updated tracker'];
+    }
+    case 'TRACKER_DELETED':
+      return ['Deleted'];
+    case 'TRACKER_RESTORED':
+      return ['Restored'];
+    case 'TRACKER_SNAPSHOT_CREATED':
+      return ['Recorded a manual snapshot'];
+    default:
+      return [humanizeEventType(log.eventType)];
+  }
+}
+
+/**
+ * Name of whoever made the change
+ */
+export function auditActorName(log: AuditLog): string {
+  return log.user?.globalName || log.user?.username || log.userId || 'Unknown';
+}
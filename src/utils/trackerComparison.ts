@@ -0,0 +1,77 @@
+/**
+ * Tracker Comparison Utility
+ * Lines up several trackers' seasons side by side and works out who leads
+ * each playlist.
+ */
+
+import type { TrackerSeason } from '../types/trackers.ts';
+
+export const MAX_COMPARED_TRACKERS = 4;
+
+export type PlaylistKey = 'playlist1v1' | 'playlist2v2' | 'playlist3v3' | 'playlist4v4';
+
+export const PLAYLIST_KEYS: readonly PlaylistKey[] = ['playlist1v1', 'playlist2v2', 'playlist3v3', 'playlist4v4'];
+
+export const PLAYLIST_LABELS: Record<PlaylistKey, string> = {
+  playlist1v1: '1v1',
+  playlist2v2: '2v2',
+  playlist3v3: '3v3',
+  playlist4v4: '4v4',
+};
+
+/**
+ * One season across every compared tracker; `seasons[i]` belongs to tracker i
+ */
+export interface ComparisonRow {
+  seasonNumber: number;
+  seasonName: string;
+  seasons: (TrackerSeason | null)[];
+}
+
+/**
+ * Tracker IDs from the `?trackers=a,b` query param: trimmed, deduplicated and capped
+ */
+export function parseTrackerIds(param: string | null): string[] {
+  if (!param) return [];
+  const ids = param
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return [...new Set(ids)].slice(0, MAX_COMPARED_TRACKERS);
+}
+
+/**
+ * Align each tracker's seasons by season number, newest season first.
+ * A tracker missing a season gets null in that row.
+ */
+export function alignSeasons(seasonLists: TrackerSeason[][]): ComparisonRow[] {
+  const rows = new Map<number, ComparisonRow>();
+
+  seasonLists.forEach((seasons, index) => {
+    seasons.forEach((season) => {
+      let row = rows.get(season.seasonNumber);
+      if (!row) {
+        row = {
+          seasonNumber: season.seasonNumber,
+          seasonName: season.seasonName || `Season ${season.seasonNumber}`,
+          seasons: seasonLists.map(() => null),
+        };
+        rows.set(season.seasonNumber, row);
+      }
+      row.seasons[index] = season;
+    });
+  });
+
+  return [...rows.values()].sort((a, b) => b.seasonNumber - a.seasonNumber);
+}
+
+/**
+ * Indexes of the highest values; ties all lead.
+ * Nobody leads unless at least two values are present.
+ */
+export function findLeaders(values: (number | null | undefined)[]): number[] {
+  const present = values.filter((value): value is number => typeof value === 'number');
+  if (present.length < 2) return [];
+  const best = Math.max(...present);
+  return values.flatMap((value, index) => (value === best ? [index] : []));
+}
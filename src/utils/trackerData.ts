@@ -0,0 +1,101 @@
+/**
+ * Tracker Data Utility
+ * Turns a tracker's scraped seasons or manual snapshots into the input of the
+ * MMR calculation endpoints.
+ */
+
+import type { TrackerData } from '../lib/api/mmr-calculation.ts';
+import type { PlaylistData, TrackerDetail, TrackerSeason, TrackerSnapshot } from '../types/trackers.ts';
+
+/**
+ * Where MMR inputs come from: the latest scraped season or the latest manual snapshot
+ */
+export type MmrDataSource = 'scrape' | 'snapshot';
+
+export const MMR_DATA_SOURCES: readonly MmrDataSource[] = ['scrape', 'snapshot'];
+
+export const MMR_DATA_SOURCE_LABELS: Record<MmrDataSource, string> = {
+  scrape: 'Latest scrape',
+  snapshot: 'Latest snapshot',
+};
+
+/**
+ * Narrow an untrusted value (e.g. a query param) to a data source, defaulting to 'scrape'
+ */
+export function parseMmrDataSource(value: string | null | undefined): MmrDataSource {
+  return value === 'snapshot' ? 'snapshot' : 'scrape';
+}
+
+/**
+ * Most recent season, or undefined if the tracker has none
+ */
+export function latestSeason(seasons: TrackerSeason[]): TrackerSeason | undefined {
+  return seasons.reduce<TrackerSeason | undefined>(
+    (latest, season) => (!latest || season.seasonNumber > latest.seasonNumber ? season : latest),
+    undefined,
+  );
+}
+
+/**
+ * Most recently captured snapshot, or undefined if none were recorded
+ */
+export function latestSnapshot(snapshots: TrackerSnapshot[]): TrackerSnapshot | undefined {
+  return snapshots.reduce<TrackerSnapshot | undefined>(
+    (latest, snapshot) =>
+      !latest || new Date(snapshot.capturedAt).getTime() > new Date(latest.capturedAt).getTime() ? snapshot : latest,
+    undefined,
+  );
+}
+
+function ratingOf(data: PlaylistData | null | undefined): number | undefined {
+  return data?.rating ?? undefined;
+}
+
+function gamesOf(data: PlaylistData | null | undefined): number | undefined {
+  return data?.matchesPlayed ?? undefined;
+}
+
+/**
+ * Convert a scraped season into MMR calculation input
+ */
+export function seasonToTrackerData(season: TrackerSeason | undefined): TrackerData {
+  return {
+    ones: ratingOf(season?.playlist1v1),
+    twos: ratingOf(season?.playlist2v2),
+    threes: ratingOf(season?.playlist3v3),
+    fours: ratingOf(season?.playlist4v4),
+    onesGamesPlayed: gamesOf(season?.playlist1v1),
+    twosGamesPlayed: gamesOf(season?.playlist2v2),
+    threesGamesPlayed: gamesOf(season?.playlist3v3),
+    foursGamesPlayed: gamesOf(season?.playlist4v4),
+  };
+}
+
+/**
+ * Convert a manual snapshot into MMR calculation input
+ */
+export function snapshotToTrackerData(snapshot: TrackerSnapshot): TrackerData {
+  return {
+    ones: snapshot.ones,
+    twos: snapshot.twos,
+    threes: snapshot.threes,
+    fours: snapshot.fours,
+    onesGamesPlayed: snapshot.onesGamesPlayed,
+    twosGamesPlayed: snapshot.twosGamesPlayed,
+    threesGamesPlayed: snapshot.threesGamesPlayed,
+    foursGamesPlayed: snapshot.foursGamesPlayed,
+  };
+}
+
+/**
+ * MMR calculation input for a tracker from the chosen source,
+ * or null if the tracker has nothing from that source yet
+ */
+export function getTrackerData(detail: TrackerDetail, source: MmrDataSource): TrackerData | null {
+  if (source === 'snapshot') {
+    const snapshot = latestSnapshot(detail.tracker.snapshots ?? []);
+    return snapshot ? snapshotToTrackerData(snapshot) : null;
+  }
+  const season = latestSeason(detail.seasons);
+  return season ? seasonToTrackerData(season) : null;
+}
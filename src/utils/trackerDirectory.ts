@@ -0,0 +1,114 @@
+/**
+ * Tracker Directory Utility
+ * Filtering and sorting for the guild-wide tracker directory.
+ */
+
+import type { GamePlatform, Tracker, TrackerScrapingStatus } from '../types/trackers.ts';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Lifecycle filter; 'current' means everything that isn't deleted
+ */
+export type TrackerStateFilter = 'current' | 'active' | 'inactive' | 'deleted' | 'all';
+
+export interface TrackerDirectoryFilters {
+  status: TrackerScrapingStatus | 'all';
+  platform: GamePlatform | 'all';
+  /**
+   * Only trackers not scraped in this many days (never scraped counts as stale)
+   */
+  staleDays: number | null;
+  state: TrackerStateFilter;
+}
+
+export const DEFAULT_DIRECTORY_FILTERS: TrackerDirectoryFilters = {
+  status: 'all',
+  platform: 'all',
+  staleDays: null,
+  state: 'current',
+};
+
+export type TrackerSortColumn = 'tracker' | 'member' | 'platform' | 'status' | 'lastScrapedAt' | 'state';
+
+export interface TrackerSort {
+  column: TrackerSortColumn;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Name shown for the member who owns a tracker
+ */
+export function trackerOwnerName(tracker: Tracker): string {
+  return tracker.user?.globalName || tracker.user?.username || tracker.userId;
+}
+
+export function trackerState(tracker: Tracker): Exclude<TrackerStateFilter, 'current' | 'all'> {
+  if (tracker.isDeleted) return 'deleted';
+  return tracker.isActive ? 'active' : 'inactive';
+}
+
+/**
+ * Whether a tracker hasn't been scraped within `days`
+ */
+export function isTrackerStale(tracker: Tracker, days: number, now: number = Date.now()): boolean {
+  if (!tracker.lastScrapedAt) return true;
+  return now - new Date(tracker.lastScrapedAt).getTime() > days * DAY;
+}
+
+function matchesState(tracker: Tracker, state: TrackerStateFilter): boolean {
+  switch (state) {
+    case 'all':
+      return true;
+    case 'current':
+      return !tracker.isDeleted;
+    default:
+      return trackerState(tracker) === state;
+  }
+}
+
+export function filterTrackers(
+  trackers: Tracker[],
+  filters: TrackerDirectoryFilters,
+  now: number = Date.now(),
+): Tracker[] {
+  return trackers.filter(
+    (tracker) =>
+      matchesState(tracker, filters.state) &&
+      (filters.status === 'all' || tracker.scrapingStatus === filters.status) &&
+      (filters.platform === 'all' || tracker.platform === filters.platform) &&
+      (filters.staleDays === null || isTrackerStale(tracker, filters.staleDays, now)),
+  );
+}
+
+function sortValue(tracker: Tracker, column: TrackerSortColumn): string | number {
+  switch (column) {
+    case 'tracker':
+      return (tracker.displayName || tracker.username).toLowerCase();
+    case 'member':
+      return trackerOwnerName(tracker).toLowerCase();
+    case 'platform':
+      return tracker.platform;
+    case 'status':
+      return tracker.scrapingStatus;
+    case 'lastScrapedAt':
+      // Never scraped sorts as the oldest
+      return tracker.lastScrapedAt ? new Date(tracker.lastScrapedAt).getTime() : 0;
+    case 'state':
+      return trackerState(tracker);
+  }
+}
+
+/**
+ * Sort by a column; ties keep their original order
+ */
+export function sortTrackers(trackers: Tracker[], sort: TrackerSort): Tracker[] {
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...trackers].sort((a, b) => {
+    const left = sortValue(a, sort.column);
+    const right = sortValue(b, sort.column);
+    if (left < right) return -direction;
+    if (left > right) return direction;
+    return 0;
+  });
+}
@@ -1,6 +1,7 @@
 /**
  * Tracker URL Validation Utility
- * Matches backend validation logic for consistency
+ * validateTrackerUrl matches backend validation logic for consistency;
+ * parseTrackerUrl accepts the URLs players actually paste and normalizes them.
  */
 
 const TRN_PROFILE_REGEX = /^https:\/\/rocketleague\.tracker\.network\/rocket-league\/profile\/([^/]+)\/([^/]+)\/overview\/?$/i;
@@ -100,3 +101,143 @@ export function validateTrackerUrl(url: string): ValidationResult {
   };
 }
 
+const CANONICAL_HOST = 'rocketleague.tracker.network';
+
+const TRACKER_HOSTS = [CANONICAL_HOST, 'tracker.gg'];
+
+/**
+ * Profile pages that all identify the same tracker
+ */
+const PROFILE_SECTIONS = ['overview', 'matches', 'sessions', 'mmr', 'live'];
+
+const PLATFORM_ALIASES: Record<string, string> = {
+  xbox: 'xbl',
+  playstation: 'psn',
+  ps: 'psn',
+  ps4: 'psn',
+  ps5: 'psn',
+  'nintendo-switch': 'switch',
+};
+
+const FORMAT_ERROR =
+  'Invalid URL format. Expected: https://rocketleague.tracker.network/rocket-league/profile/{platform}/{username}/overview';
+
+export interface ParsedTrackerUrl extends ValidationResult {
+  /**
+   * Canonical overview URL (set when valid)
+   */
+  normalizedUrl?: string;
+  /**
+   * What normalization changed, for showing to the user
+   */
+  changes: string[];
+}
+
+function invalidUrl(error: string): ParsedTrackerUrl {
+  return { isValid: false, error, changes: [] };
+}
+
+/**
+ * Parse a pasted tracker URL into the canonical overview URL
+ * Accepts tracker.gg, http, missing protocol, other profile pages
+ * (/matches, /sessions, ...), query strings and URL-encoded usernames.
+ */
+export function parseTrackerUrl(input: string): ParsedTrackerUrl {
+  const trimmed = input?.trim() ?? '';
+  if (!trimmed) {
+    return invalidUrl('URL is required');
+  }
+
+  const changes: string[] = [];
+  let raw = trimmed;
+  if (!/^[a-z][a-z\d+.-]*:\/\//i.test(raw)) {
+    raw = `https://${raw}`;
+    changes.push('Added https://');
+  }
+
+  let urlObj: URL;
+  try {
+    urlObj = new URL(raw);
+  } catch {
+    return invalidUrl('Invalid URL format');
+  }
+
+  if (urlObj.protocol !== 'https:' && urlObj.protocol !== 'http:') {
+    return invalidUrl('Invalid URL format');
+  }
+  if (urlObj.protocol === 'http:') {
+    changes.push('Switched to https');
+  }
+
+  const host = urlObj.hostname.replace(/^www\./, '');
+  if (!TRACKER_HOSTS.includes(host)) {
+    return invalidUrl('URL must be from rocketleague.tracker.network or tracker.gg');
+  }
+  if (urlObj.hostname !== CANONICAL_HOST) {
+    changes.push(`Changed ${urlObj.hostname} to ${CANONICAL_HOST}`);
+  }
+
+  // rocket-league / profile / {platform} / {username} / {section}?
+  const segments = urlObj.pathname.split('/').filter(Boolean);
+  if (
+    segments.length < 4 ||
+    segments.length > 5 ||
+    segments[0].toLowerCase() !== 'rocket-league' ||
+    segments[1].toLowerCase() !== 'profile'
+  ) {
+    return invalidUrl(FORMAT_ERROR);
+  }
+  const [, , rawPlatform, rawUsername, section] = segments;
+
+  const platform = PLATFORM_ALIASES[rawPlatform.toLowerCase()] ?? rawPlatform.toLowerCase();
+  if (!VALID_PLATFORMS.includes(platform)) {
+    return invalidUrl(`Unsupported platform: ${rawPlatform}. Supported platforms: steam, epic, xbl, psn, switch`);
+  }
+  if (platform !== rawPlatform) {
+    changes.push(`Changed platform "${rawPlatform}" to "${platform}"`);
+  }
+
+  let username: string;
+  try {
+    username = decodeURIComponent(rawUsername);
+  } catch {
+    return invalidUrl('Invalid username format in tracker URL');
+  }
+  if (!username.trim() || username.length > 100) {
+    return invalidUrl('Invalid username format in tracker URL');
+  }
+  const encodedUsername = encodeURIComponent(username);
+  if (encodedUsername !== rawUsername) {
+    changes.push(`Normalized username encoding ("${username}")`);
+  }
+
+  if (section === undefined) {
+    changes.push('Added /overview');
+  } else if (!PROFILE_SECTIONS.includes(section.toLowerCase())) {
+    return invalidUrl(`Unsupported tracker page: /${section}. ${FORMAT_ERROR}`);
+  } else if (section.toLowerCase() !== 'overview') {
+    changes.push(`Replaced /${section} with /overview`);
+  }
+
+  if (urlObj.search) {
+    changes.push('Removed query string');
+  }
+  if (urlObj.hash) {
+    changes.push('Removed #fragment');
+  }
+
+  const normalizedUrl = `https://${CANONICAL_HOST}/rocket-league/profile/${platform}/${encodedUsername}/overview`;
+
+  // Anything else (letter case, trailing slashes) is cosmetic but still worth a note
+  if (changes.length === 0 && normalizedUrl !== trimmed.replace(/\/+$/, '')) {
+    changes.push('Normalized URL format');
+  }
+
+  return {
+    isValid: true,
+    platform,
+    username,
+    normalizedUrl,
+    changes,
+  };
+}